@@ -0,0 +1,413 @@
+import { Brigantine } from '../objects/ships/brigantine';
+import { GameObject } from '../objects/objects';
+import { Navigation } from './navigation';
+import { angleDifference } from '../utils/angles';
+
+/**
+ * A place to keep in a formation, moving with the fleet
+ */
+export interface StationPoint {
+    x: number;
+    y: number;
+    heading: number;    // Course the fleet is steering
+    openness: number;   // Sail openness that keeps pace with the fleet
+}
+
+/**
+ * Sails a Brigantine the way a player at the wheel would: only through openSails,
+ * closeSails, applyRudder and rotateSails, so AI ships obey the same wind, sail
+ * and rudder physics. It beats to windward in tacks, holds a broadside to its
+ * target at fighting range and fires each cannon as it bears. With a Navigation
+ * it follows waypoint routes around islands instead of sailing straight at its goal.
+ * Given a station it keeps its place in a formation with rudder and sail alone.
+ */
+export class AIHelmsman {
+    static readonly NO_GO_ANGLE: number = Math.PI / 4;      // Closest the ship will point into the wind
+    static readonly MIN_TACK_TIME: number = 8;              // Seconds on a tack before going about again
+    static readonly DETECTION_RANGE: number = 1500;         // Targets further away are ignored
+    static readonly ENGAGE_RANGE: number = 700;             // Inside this the ship turns to show its broadside
+    static readonly BROADSIDE_RANGE: number = 400;          // Distance kept from the target while engaged
+    static readonly FIRE_RANGE: number = 550;
+    static readonly FIRE_TOLERANCE: number = 0.05;          // Radians the barrel may be off the target when firing
+    static readonly MAX_CLOSING_ANGLE: number = Math.PI / 4; // Largest turn off the beam to open or close the range
+    static readonly SAIL_HANDLING_INTERVAL: number = 0.2;   // Seconds between sail open/close steps
+    static readonly ARRIVAL_RADIUS: number = 150;
+
+    // Routing
+    static readonly REPLAN_INTERVAL: number = 3;    // Seconds between re-plans, in case the ship has been pushed off its route
+    static readonly REPLAN_DISTANCE: number = 200;  // How far the goal may move before the route is re-planned
+    static readonly LOOKAHEAD: number = 400;        // How far ahead a manoeuvre must be clear of islands
+    static readonly SAFETY_MARGIN: number = 50;     // Extra water kept between the hull and an island
+    static readonly MIN_TURNING_RADIUS: number = 100;
+
+    // Station keeping
+    static readonly STATION_RADIUS: number = 300;               // Further off station than this the ship sails straight back to it
+    static readonly STATION_CORRECTION_ANGLE: number = Math.PI / 8; // Largest turn off the fleet's course to edge onto station
+    static readonly STATION_SPEED_GAIN: number = 0.2;           // Sail openness per unit the station is ahead (or astern)
+
+    // Rudder controller gains: degrees of rudder per radian of heading error,
+    // and per radian-per-step of turn rate (steadies the helm before the heading is reached)
+    static readonly RUDDER_GAIN: number = 100;
+    static readonly RUDDER_DAMPING: number = 1500;
+
+    private ship: Brigantine;
+    private target: GameObject | null = null;
+    private destination: { x: number, y: number } | null = null;
+    private station: StationPoint | null = null;
+    private navigation: Navigation | null = null;
+
+    private route: { x: number, y: number }[] = [];
+    private routeGoal: { x: number, y: number } | null = null;
+    private routeVersion: number = -1;
+    private replanTimer: number = 0;
+
+    private desiredHeading: number | null = null;
+    private tack: number = 1;                 // Which side of the wind to beat on (1 or -1)
+    private tackTimer: number = AIHelmsman.MIN_TACK_TIME;
+    private broadsideSide: number = 1;        // Which side of the ship faces the target (1 or -1)
+    private sailHandlingTimer: number = 0;
+
+    constructor(ship: Brigantine) {
+        this.ship = ship;
+    }
+
+    public getShip(): Brigantine {
+        return this.ship;
+    }
+
+    /**
+     * Set the ship or player to hunt and engage (null to stop)
+     */
+    public setTarget(target: GameObject | null): void {
+        this.target = target;
+    }
+
+    public getTarget(): GameObject | null {
+        return this.target;
+    }
+
+    /**
+     * Set a point to sail to when there is no target in range (null to heave to).
+     * Replaces any station being kept.
+     */
+    public setDestination(destination: { x: number, y: number } | null): void {
+        this.destination = destination ? { x: destination.x, y: destination.y } : null;
+        this.station = null;
+    }
+
+    public getDestination(): { x: number, y: number } | null {
+        return this.destination;
+    }
+
+    /**
+     * Keep a station in a formation when there is no target in range (null to stop).
+     * Replaces any destination. Call every step as the fleet moves.
+     */
+    public setStation(station: StationPoint | null): void {
+        this.station = station ? { ...station } : null;
+        this.destination = null;
+    }
+
+    public getStation(): StationPoint | null {
+        return this.station;
+    }
+
+    /**
+     * Set the island map used to plan routes (null to sail straight at the goal)
+     */
+    public setNavigation(navigation: Navigation | null): void {
+        this.navigation = navigation;
+        this.route = [];
+    }
+
+    /**
+     * Waypoints still to sail through, ending at the current goal
+     */
+    public getRoute(): { x: number, y: number }[] {
+        return this.route;
+    }
+
+    /**
+     * Radius of the ship's turning circle
+     */
+    public getTurningRadius(): number {
+        return Math.max(AIHelmsman.MIN_TURNING_RADIUS, this.ship.getTurningRadius());
+    }
+
+    /**
+     * How far the ship's track has to stay from islands: half its beam, a margin,
+     * and room for the turn it makes at each waypoint
+     */
+    public getClearance(): number {
+        const hull = this.ship.getDefinition().hull;
+        const halfBeam = Math.max(...Object.values(hull).map(point => Math.abs(point.y)));
+        return halfBeam + AIHelmsman.SAFETY_MARGIN + this.getTurningRadius() / 2;
+    }
+
+    /**
+     * Heading the helmsman is currently steering for, or null when hove to
+     */
+    public getDesiredHeading(): number | null {
+        return this.desiredHeading;
+    }
+
+    /**
+     * Steer, trim and fire for one step. Call after the ship's wind has been applied.
+     * @param delta Step length in seconds
+     */
+    public update(delta: number): void {
+        const body = this.ship.getBody();
+        if (!body || this.ship.isSinking()) return;
+
+        // A player at the wheel has the helm
+        if ([...this.ship.wheels.values()].some(wheel => wheel.isPlayerControlling)) return;
+
+        this.tackTimer += delta;
+        this.replanTimer -= delta;
+
+        const pos = body.position;
+        const windDirection = this.ship.currentWindDirection;
+        let heading: number | null = null;
+        let openness = 0;
+
+        const target = this.getTargetInRange();
+        if (target) {
+            const targetPos = target.getPosition();
+            const bearing = Math.atan2(targetPos.y - pos.y, targetPos.x - pos.x);
+            const distance = Math.hypot(targetPos.x - pos.x, targetPos.y - pos.y);
+
+            if (distance > AIHelmsman.ENGAGE_RANGE) {
+                // Close with the target
+                heading = this.getRouteHeading(targetPos);
+                openness = 100;
+            } else {
+                heading = this.getBroadsideHeading(bearing, distance, body.angle);
+                openness = 70;
+                
+                // Don't manoeuvre onto the rocks; work round to the target instead
+                if (!this.isHeadingClear(heading)) {
+                    heading = this.getRouteHeading(targetPos);
+                } else {
+                    this.route = [];
+                }
+            }
+        } else if (this.station) {
+            const distance = Math.hypot(this.station.x - pos.x, this.station.y - pos.y);
+            if (distance > AIHelmsman.STATION_RADIUS) {
+                // Too far out of place to keep station; sail back to it
+                heading = this.getRouteHeading(this.station);
+                openness = 100;
+            } else {
+                ({ heading, openness } = this.getStationKeeping(this.station, pos));
+                this.route = [];
+            }
+        } else if (this.destination) {
+            const distance = Math.hypot(this.destination.x - pos.x, this.destination.y - pos.y);
+            if (distance > AIHelmsman.ARRIVAL_RADIUS) {
+                heading = this.getRouteHeading(this.destination);
+                openness = 100;
+            } else {
+                this.destination = null;
+            }
+        }
+        if (heading === null) {
+            this.route = [];
+        }
+
+        if (heading !== null) {
+            heading = angleDifference(this.avoidNoGoZone(heading, windDirection), 0);
+        }
+        this.desiredHeading = heading;
+
+        this.steer(heading, body.angle, body.angularVelocity);
+        this.trimSails(heading !== null ? heading : body.angle, windDirection);
+        this.handleSails(openness, delta);
+
+        if (target) {
+            this.fireGuns(target);
+        }
+    }
+
+    /**
+     * Bearing to the next waypoint on the route to a goal, planning the route when
+     * there is none, the islands have changed, the goal has moved or it is time to check again
+     */
+    private getRouteHeading(goal: { x: number, y: number }): number {
+        const pos = this.ship.getPosition();
+
+        if (this.navigation) {
+            const stale = this.route.length === 0 ||
+                this.routeVersion !== this.navigation.getVersion() ||
+                this.replanTimer <= 0 ||
+                !this.routeGoal ||
+                Math.hypot(goal.x - this.routeGoal.x, goal.y - this.routeGoal.y) > AIHelmsman.REPLAN_DISTANCE;
+
+            if (stale) {
+                this.route = this.navigation.findPath(pos, goal, this.getClearance()) || [];
+                this.routeGoal = { x: goal.x, y: goal.y };
+                this.routeVersion = this.navigation.getVersion();
+                this.replanTimer = AIHelmsman.REPLAN_INTERVAL;
+            }
+
+            // Start turning for the next leg a turning radius before each waypoint
+            while (this.route.length > 1 &&
+                Math.hypot(this.route[0].x - pos.x, this.route[0].y - pos.y) < this.getTurningRadius()) {
+                this.route.shift();
+            }
+        }
+
+        const next = this.route.length > 0 ? this.route[0] : goal;
+        return Math.atan2(next.y - pos.y, next.x - pos.x);
+    }
+
+    /**
+     * Steer the fleet's course, edging across towards the station, and set more or
+     * less sail than the fleet to drop back or catch up along it
+     */
+    private getStationKeeping(station: StationPoint, pos: { x: number, y: number }): { heading: number, openness: number } {
+        const dx = station.x - pos.x;
+        const dy = station.y - pos.y;
+        const ahead = dx * Math.cos(station.heading) + dy * Math.sin(station.heading);
+        const across = -dx * Math.sin(station.heading) + dy * Math.cos(station.heading);
+
+        const correction = Math.max(-1, Math.min(1, across / AIHelmsman.STATION_RADIUS));
+        const openness = Math.max(0, Math.min(100, station.openness + ahead * AIHelmsman.STATION_SPEED_GAIN));
+        return {
+            heading: station.heading + correction * AIHelmsman.STATION_CORRECTION_ANGLE,
+            // Sails only move in steps of 10, so aim for one of those rather than hunting between two
+            openness: Math.round(openness / 10) * 10
+        };
+    }
+
+    /**
+     * Whether the water ahead on a heading is free of islands
+     */
+    private isHeadingClear(heading: number): boolean {
+        if (!this.navigation) return true;
+
+        const pos = this.ship.getPosition();
+        const ahead = {
+            x: pos.x + Math.cos(heading) * AIHelmsman.LOOKAHEAD,
+            y: pos.y + Math.sin(heading) * AIHelmsman.LOOKAHEAD
+        };
+        return this.navigation.isPathClear(pos, ahead, this.getClearance());
+    }
+
+    private getTargetInRange(): GameObject | null {
+        if (!this.target || !this.target.getBody()) return null;
+
+        const pos = this.ship.getPosition();
+        const targetPos = this.target.getPosition();
+        const distance = Math.hypot(targetPos.x - pos.x, targetPos.y - pos.y);
+        return distance <= AIHelmsman.DETECTION_RANGE ? this.target : null;
+    }
+
+    /**
+     * Heading that puts the target abeam, turned in or out to hold BROADSIDE_RANGE
+     */
+    private getBroadsideHeading(bearing: number, distance: number, currentHeading: number): number {
+        // Keep the same side to the target unless the other is much less of a turn
+        const current = bearing - this.broadsideSide * Math.PI / 2;
+        const other = bearing + this.broadsideSide * Math.PI / 2;
+        if (Math.abs(angleDifference(other, currentHeading)) + Math.PI / 3 < Math.abs(angleDifference(current, currentHeading))) {
+            this.broadsideSide = -this.broadsideSide;
+        }
+
+        // Turn towards the target when too far, away when too close
+        const rangeError = Math.max(-1, Math.min(1,
+            (distance - AIHelmsman.BROADSIDE_RANGE) / AIHelmsman.BROADSIDE_RANGE));
+        return bearing - this.broadsideSide * (Math.PI / 2 - rangeError * AIHelmsman.MAX_CLOSING_ANGLE);
+    }
+
+    /**
+     * Bear away from a heading too close to the wind, beating on one tack at a time
+     */
+    private avoidNoGoZone(heading: number, windDirection: number): number {
+        const upwind = windDirection + Math.PI;
+        const offWind = angleDifference(heading, upwind);
+        if (Math.abs(offWind) >= AIHelmsman.NO_GO_ANGLE) {
+            return heading;
+        }
+
+        // Go about onto the tack nearer the course, but not too often unless an island is in the way
+        const preferred = offWind >= 0 ? 1 : -1;
+        const blocked = !this.isHeadingClear(upwind + this.tack * AIHelmsman.NO_GO_ANGLE);
+        if ((preferred !== this.tack && this.tackTimer >= AIHelmsman.MIN_TACK_TIME) ||
+            (blocked && this.isHeadingClear(upwind - this.tack * AIHelmsman.NO_GO_ANGLE))) {
+            this.tack = -this.tack;
+            this.tackTimer = 0;
+        }
+        return upwind + this.tack * AIHelmsman.NO_GO_ANGLE;
+    }
+
+    /**
+     * Put the rudder over in proportion to the heading error, easing off as the ship swings
+     */
+    private steer(heading: number | null, currentHeading: number, angularVelocity: number): void {
+        if (heading === null) {
+            this.ship.applyRudder('center');
+            return;
+        }
+
+        const error = angleDifference(heading, currentHeading);
+        const targetRudder = Math.max(-30, Math.min(30,
+            error * AIHelmsman.RUDDER_GAIN - angularVelocity * AIHelmsman.RUDDER_DAMPING));
+
+        // Move the helm towards the target angle at no more than the player's rate
+        const change = targetRudder - this.ship.rudderAngle;
+        this.ship.applyRudder(change >= 0 ? 'right' : 'left', Math.min(1, Math.abs(change) / 0.5));
+    }
+
+    /**
+     * Turn the sails to face the wind as squarely as they can on this heading
+     */
+    private trimSails(heading: number, windDirection: number): void {
+        const firstSail = this.ship.sails.values().next().value;
+        if (!firstSail) return;
+
+        const wanted = Math.max(-75, Math.min(75, angleDifference(windDirection, heading) * 180 / Math.PI));
+        const change = wanted - firstSail.angle;
+        if (Math.abs(change) > 0.5) {
+            this.ship.rotateSails(change > 0 ? 'right' : 'left', Math.min(1, Math.abs(change) / 1.25));
+        }
+    }
+
+    /**
+     * Open or close the sails a step at a time towards the wanted openness
+     */
+    private handleSails(openness: number, delta: number): void {
+        this.sailHandlingTimer -= delta;
+        if (this.sailHandlingTimer > 0) return;
+
+        const firstSail = this.ship.sails.values().next().value;
+        if (!firstSail) return;
+
+        if (firstSail.openness < openness) {
+            this.ship.openSails();
+            this.sailHandlingTimer = AIHelmsman.SAIL_HANDLING_INTERVAL;
+        } else if (firstSail.openness > openness) {
+            this.ship.closeSails();
+            this.sailHandlingTimer = AIHelmsman.SAIL_HANDLING_INTERVAL;
+        }
+    }
+
+    /**
+     * Lay each loaded gun on the target and fire the ones that bear
+     */
+    private fireGuns(target: GameObject): void {
+        const targetPos = target.getPosition();
+
+        for (const cannon of this.ship.cannons.values()) {
+            if (cannon.isPlayerControlling || cannon.isDestroyed()) continue;
+
+            const cannonPos = cannon.getWorldPosition();
+            if (Math.hypot(targetPos.x - cannonPos.x, targetPos.y - cannonPos.y) > AIHelmsman.FIRE_RANGE) continue;
+
+            cannon.aimAt(targetPos.x, targetPos.y);
+            const bearing = Math.atan2(targetPos.y - cannonPos.y, targetPos.x - cannonPos.x);
+            if (cannon.isLoaded() && Math.abs(angleDifference(bearing, cannon.getBarrelWorldAngle())) < AIHelmsman.FIRE_TOLERANCE) {
+                cannon.fire();
+            }
+        }
+    }
+}
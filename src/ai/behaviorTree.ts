@@ -0,0 +1,157 @@
+/**
+ * Result of ticking a behavior tree node
+ */
+export enum NodeStatus {
+    Success = 'success',
+    Failure = 'failure',
+    Running = 'running'
+}
+
+/**
+ * Passed down the tree on every tick
+ */
+export interface TickInfo {
+    delta: number;              // Step length in seconds
+    activeNode: string | null;  // Name of the last action that ran, for debugging
+}
+
+/**
+ * A node in a behavior tree. T is the blackboard the tree reads and acts on.
+ */
+export abstract class BehaviorNode<T> {
+    readonly name: string;
+
+    constructor(name: string) {
+        this.name = name;
+    }
+
+    public abstract tick(blackboard: T, info: TickInfo): NodeStatus;
+}
+
+/**
+ * Runs children in order until one doesn't fail (an "or")
+ */
+export class Selector<T> extends BehaviorNode<T> {
+    private children: BehaviorNode<T>[];
+
+    constructor(name: string, children: BehaviorNode<T>[]) {
+        super(name);
+        this.children = children;
+    }
+
+    public tick(blackboard: T, info: TickInfo): NodeStatus {
+        for (const child of this.children) {
+            const status = child.tick(blackboard, info);
+            if (status !== NodeStatus.Failure) return status;
+        }
+        return NodeStatus.Failure;
+    }
+}
+
+/**
+ * Runs children in order until one doesn't succeed (an "and")
+ */
+export class Sequence<T> extends BehaviorNode<T> {
+    private children: BehaviorNode<T>[];
+
+    constructor(name: string, children: BehaviorNode<T>[]) {
+        super(name);
+        this.children = children;
+    }
+
+    public tick(blackboard: T, info: TickInfo): NodeStatus {
+        for (const child of this.children) {
+            const status = child.tick(blackboard, info);
+            if (status !== NodeStatus.Success) return status;
+        }
+        return NodeStatus.Success;
+    }
+}
+
+/**
+ * Succeeds when the predicate holds, fails otherwise
+ */
+export class Condition<T> extends BehaviorNode<T> {
+    private predicate: (blackboard: T) => boolean;
+
+    constructor(name: string, predicate: (blackboard: T) => boolean) {
+        super(name);
+        this.predicate = predicate;
+    }
+
+    public tick(blackboard: T): NodeStatus {
+        return this.predicate(blackboard) ? NodeStatus.Success : NodeStatus.Failure;
+    }
+}
+
+/**
+ * A leaf that does something. Running or succeeding makes it the tree's active node.
+ */
+export class Action<T> extends BehaviorNode<T> {
+    private run: (blackboard: T, delta: number) => NodeStatus;
+
+    constructor(name: string, run: (blackboard: T, delta: number) => NodeStatus) {
+        super(name);
+        this.run = run;
+    }
+
+    public tick(blackboard: T, info: TickInfo): NodeStatus {
+        const status = this.run(blackboard, info.delta);
+        if (status !== NodeStatus.Failure) {
+            info.activeNode = this.name;
+        }
+        return status;
+    }
+}
+
+/**
+ * Utility AI choice: scores every option and runs the best one that doesn't fail.
+ * Options scoring zero or less are never tried.
+ */
+export class UtilitySelector<T> extends BehaviorNode<T> {
+    private options: { node: BehaviorNode<T>, score: (blackboard: T) => number }[];
+
+    constructor(name: string, options: { node: BehaviorNode<T>, score: (blackboard: T) => number }[]) {
+        super(name);
+        this.options = options;
+    }
+
+    public tick(blackboard: T, info: TickInfo): NodeStatus {
+        const ranked = this.options
+            .map(option => ({ node: option.node, score: option.score(blackboard) }))
+            .filter(option => option.score > 0)
+            .sort((a, b) => b.score - a.score);
+
+        for (const option of ranked) {
+            const status = option.node.tick(blackboard, info);
+            if (status !== NodeStatus.Failure) return status;
+        }
+        return NodeStatus.Failure;
+    }
+}
+
+/**
+ * A tree evaluated from the root every tick, so it reacts at once when conditions change
+ */
+export class BehaviorTree<T> {
+    private root: BehaviorNode<T>;
+    private activeNode: string | null = null;
+
+    constructor(root: BehaviorNode<T>) {
+        this.root = root;
+    }
+
+    public tick(blackboard: T, delta: number): NodeStatus {
+        const info: TickInfo = { delta, activeNode: null };
+        const status = this.root.tick(blackboard, info);
+        this.activeNode = info.activeNode;
+        return status;
+    }
+
+    /**
+     * Name of the action that ran on the last tick, or null if none did
+     */
+    public getActiveNode(): string | null {
+        return this.activeNode;
+    }
+}
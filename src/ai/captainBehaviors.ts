@@ -0,0 +1,208 @@
+import { Brigantine } from '../objects/ships/brigantine';
+import { AIHelmsman } from './aiHelmsman';
+import { Action, BehaviorNode, BehaviorTree, Condition, NodeStatus, Selector, Sequence, UtilitySelector } from './behaviorTree';
+import type { ShipCaptain } from './shipCaptain';
+
+export type CaptainArchetype = 'merchant' | 'navy' | 'pirateHunter';
+
+export interface ArchetypeSettings {
+    label: string;
+    detectionRange: number;
+    fleeDamage: number | null;      // Damage (0-1) at which the ship runs for it
+    surrenderDamage: number | null; // Damage (0-1) at which the ship strikes its colours
+}
+
+export const ARCHETYPES: Record<CaptainArchetype, ArchetypeSettings> = {
+    merchant: { label: 'Merchant', detectionRange: 1200, fleeDamage: null, surrenderDamage: 0.3 },
+    navy: { label: 'Navy', detectionRange: 1500, fleeDamage: 0.6, surrenderDamage: null },
+    pirateHunter: { label: 'Pirate Hunter', detectionRange: 2000, fleeDamage: null, surrenderDamage: null }
+};
+
+export const ARCHETYPE_IDS: CaptainArchetype[] = ['merchant', 'navy', 'pirateHunter'];
+
+const PATROL_ARRIVAL_RADIUS: number = 300;
+const INVESTIGATE_ARRIVAL_RADIUS: number = 300;
+const FLEE_DISTANCE: number = 2000;   // How far ahead the fleeing ship aims, directly away from the threat
+const BOARDING_OFFSET: number = 250;  // Distance between the ships' centrelines when alongside
+
+// Actions - each one steers the captain's helmsman and keeps running while it applies
+
+function patrol(): BehaviorNode<ShipCaptain> {
+    return new Action('Patrol', captain => {
+        captain.helmsman.setTarget(null);
+
+        const pos = captain.ship.getPosition();
+        let point = captain.getPatrolPoint();
+        if (point && Math.hypot(point.x - pos.x, point.y - pos.y) < PATROL_ARRIVAL_RADIUS) {
+            captain.advancePatrol();
+            point = captain.getPatrolPoint();
+        }
+
+        // With no patrol to sail the ship lies hove to
+        captain.helmsman.setDestination(point);
+        return NodeStatus.Running;
+    });
+}
+
+function investigate(): BehaviorNode<ShipCaptain> {
+    return new Action('Investigate', captain => {
+        const lastSeen = captain.getLastKnownTargetPosition();
+        if (!lastSeen) return NodeStatus.Failure;
+
+        const pos = captain.ship.getPosition();
+        if (Math.hypot(lastSeen.x - pos.x, lastSeen.y - pos.y) < INVESTIGATE_ARRIVAL_RADIUS) {
+            // Nothing here; give up the search
+            captain.forgetTarget();
+            return NodeStatus.Success;
+        }
+
+        captain.helmsman.setTarget(null);
+        captain.helmsman.setDestination(lastSeen);
+        return NodeStatus.Running;
+    });
+}
+
+function chase(): BehaviorNode<ShipCaptain> {
+    return new Action('Chase', captain => {
+        if (!captain.canSeeTarget()) return NodeStatus.Failure;
+
+        captain.helmsman.setTarget(null);
+        captain.helmsman.setDestination(captain.getTarget()!.getPosition());
+        return NodeStatus.Running;
+    });
+}
+
+function broadside(): BehaviorNode<ShipCaptain> {
+    return new Action('Broadside', captain => {
+        if (!captain.canSeeTarget()) return NodeStatus.Failure;
+
+        // The helmsman holds the target abeam and fires as the guns bear
+        captain.helmsman.setDestination(null);
+        captain.helmsman.setTarget(captain.getTarget());
+        return NodeStatus.Running;
+    });
+}
+
+function flee(): BehaviorNode<ShipCaptain> {
+    return new Action('Flee', captain => {
+        if (!captain.canSeeTarget()) return NodeStatus.Failure;
+
+        const pos = captain.ship.getPosition();
+        const threat = captain.getTarget()!.getPosition();
+        const away = Math.atan2(pos.y - threat.y, pos.x - threat.x);
+
+        captain.helmsman.setTarget(null);
+        captain.helmsman.setDestination({
+            x: pos.x + Math.cos(away) * FLEE_DISTANCE,
+            y: pos.y + Math.sin(away) * FLEE_DISTANCE
+        });
+        return NodeStatus.Running;
+    });
+}
+
+function board(): BehaviorNode<ShipCaptain> {
+    return new Action('Board', captain => {
+        const target = captain.getTarget();
+        if (!(target instanceof Brigantine) || !captain.canSeeTarget()) return NodeStatus.Failure;
+
+        // Come alongside on whichever side of the target we are already on
+        const pos = captain.ship.getPosition();
+        const targetPos = target.getPosition();
+        const angle = target.getRotation();
+        const side = Math.sign(-Math.sin(angle) * (pos.x - targetPos.x) + Math.cos(angle) * (pos.y - targetPos.y)) || 1;
+
+        captain.helmsman.setTarget(null);
+        captain.helmsman.setDestination({
+            x: targetPos.x - Math.sin(angle) * BOARDING_OFFSET * side,
+            y: targetPos.y + Math.cos(angle) * BOARDING_OFFSET * side
+        });
+        captain.prepareToBoard(target);
+        return NodeStatus.Running;
+    });
+}
+
+function keepStation(): BehaviorNode<ShipCaptain> {
+    return new Action('Keep Station', captain => {
+        const station = captain.getFleet()?.getStation(captain);
+        if (!station) return NodeStatus.Failure;
+
+        captain.helmsman.setTarget(null);
+        captain.helmsman.setStation(station);
+        return NodeStatus.Running;
+    });
+}
+
+function surrender(): BehaviorNode<ShipCaptain> {
+    return new Action('Surrender', captain => {
+        captain.surrender();
+        captain.helmsman.setTarget(null);
+        captain.helmsman.setDestination(null);
+        return NodeStatus.Running;
+    });
+}
+
+function targetInRange(captain: ShipCaptain): boolean {
+    return captain.canSeeTarget() && captain.getTargetDistance() <= AIHelmsman.ENGAGE_RANGE;
+}
+
+// Trees for each archetype, highest priority first
+
+function createMerchantTree(): BehaviorNode<ShipCaptain> {
+    const settings = ARCHETYPES.merchant;
+    return new Selector('Merchant', [
+        new Sequence('Strike colours', [
+            new Condition('Beaten', captain => captain.isSurrendered() ||
+                (captain.getDamage() >= settings.surrenderDamage! && captain.canSeeTarget())),
+            surrender()
+        ]),
+        flee(),
+        keepStation(),
+        patrol()
+    ]);
+}
+
+function createNavyTree(): BehaviorNode<ShipCaptain> {
+    const settings = ARCHETYPES.navy;
+    return new Selector('Navy', [
+        new Sequence('Flee when damaged', [
+            new Condition('Badly damaged', captain => captain.getDamage() >= settings.fleeDamage!),
+            flee()
+        ]),
+        new Sequence('Engage', [new Condition('Target in range', targetInRange), broadside()]),
+        chase(),
+        investigate(),
+        keepStation(),
+        patrol()
+    ]);
+}
+
+function createPirateHunterTree(): BehaviorNode<ShipCaptain> {
+    return new Selector('Pirate Hunter', [
+        new Sequence('Engage', [
+            new Condition('Target in range', targetInRange),
+            // Board a ship that is badly enough hurt, otherwise keep pounding it
+            new UtilitySelector('Board or shoot', [
+                { node: board(), score: captain => captain.getTargetDamage() > 0.5 ? captain.getTargetDamage() : 0 },
+                { node: broadside(), score: () => 0.5 }
+            ])
+        ]),
+        chase(),
+        investigate(),
+        keepStation(),
+        patrol()
+    ]);
+}
+
+/**
+ * Build a fresh behavior tree for a captain of the given archetype
+ */
+export function createCaptainTree(archetype: CaptainArchetype): BehaviorTree<ShipCaptain> {
+    switch (archetype) {
+        case 'merchant':
+            return new BehaviorTree(createMerchantTree());
+        case 'navy':
+            return new BehaviorTree(createNavyTree());
+        case 'pirateHunter':
+            return new BehaviorTree(createPirateHunterTree());
+    }
+}
@@ -0,0 +1,263 @@
+import { Brigantine } from '../objects/ships/brigantine';
+import { GameObject } from '../objects/objects';
+import { StationPoint } from './aiHelmsman';
+import type { ShipCaptain } from './shipCaptain';
+
+export type FormationType = 'lineAhead' | 'wedge' | 'screen';
+
+export const FORMATION_IDS: FormationType[] = ['lineAhead', 'wedge', 'screen'];
+
+export const FORMATION_LABELS: Record<FormationType, string> = {
+    lineAhead: 'Line Ahead',
+    wedge: 'Wedge',
+    screen: 'Screen'
+};
+
+/**
+ * What the fleet has been told to do:
+ * - follow: keep formation on the flagship and leave enemies alone
+ * - attack: every ship goes for the order's target
+ * - hold: every ship stays where it was when the order was given
+ * - escort: keep formation, but turn on any enemy that comes near the flagship or is sighted
+ */
+export type FleetOrder = 'follow' | 'attack' | 'hold' | 'escort';
+
+export const FLEET_ORDER_IDS: FleetOrder[] = ['follow', 'attack', 'hold', 'escort'];
+
+export const FLEET_ORDER_LABELS: Record<FleetOrder, string> = {
+    follow: 'Follow',
+    attack: 'Attack',
+    hold: 'Hold Position',
+    escort: 'Escort'
+};
+
+/**
+ * A group of AI ships sailing in formation on a flagship. The flagship can be one of
+ * the fleet's own ships (which then leads, captained as usual) or the player's ship.
+ * Every step the fleet hands each captain its target and station; the captains' trees
+ * decide whether to fight or keep station, and ships that can't see an enemy a consort
+ * has sighted are told where it is, so the fleet reacts together.
+ */
+export class Fleet {
+    static readonly SHIP_SPACING: number = 1000;    // Centre to centre; a ship is about 760 long
+    static readonly ESCORT_RANGE: number = 2000;    // Escorts turn on enemies this close to the flagship
+
+    private flagship: GameObject;
+    private members: ShipCaptain[] = [];
+    private formation: FormationType;
+    private order: FleetOrder;
+    private orderTarget: GameObject | null = null;
+    private holdStations: Map<ShipCaptain, StationPoint> = new Map();
+    private threat: GameObject | null = null;
+
+    constructor(flagship: GameObject, formation: FormationType = 'lineAhead', order: FleetOrder = 'follow') {
+        this.flagship = flagship;
+        this.formation = formation;
+        this.order = order;
+    }
+
+    public getFlagship(): GameObject {
+        return this.flagship;
+    }
+
+    /**
+     * Change the ship the fleet forms up on, e.g. when the player boards another ship
+     */
+    public setFlagship(flagship: GameObject): void {
+        this.flagship = flagship;
+    }
+
+    public addMember(captain: ShipCaptain): void {
+        if (this.members.includes(captain)) return;
+
+        captain.getFleet()?.removeMember(captain);
+        this.members.push(captain);
+        captain.setFleet(this);
+    }
+
+    /**
+     * Take a ship out of the fleet. If it was the flagship the next ship takes the lead.
+     */
+    public removeMember(captain: ShipCaptain): void {
+        const index = this.members.indexOf(captain);
+        if (index === -1) return;
+
+        this.members.splice(index, 1);
+        this.holdStations.delete(captain);
+        captain.setFleet(null);
+
+        if (captain.ship === this.flagship && this.members.length > 0) {
+            this.flagship = this.members[0].ship;
+        }
+    }
+
+    public getMembers(): ShipCaptain[] {
+        return this.members;
+    }
+
+    public getFormation(): FormationType {
+        return this.formation;
+    }
+
+    public setFormation(formation: FormationType): void {
+        this.formation = formation;
+    }
+
+    public getOrder(): FleetOrder {
+        return this.order;
+    }
+
+    public getOrderTarget(): GameObject | null {
+        return this.orderTarget;
+    }
+
+    /**
+     * Give the fleet an order
+     * @param target The ship to attack, for an attack order
+     */
+    public setOrder(order: FleetOrder, target: GameObject | null = null): void {
+        this.order = order;
+        this.orderTarget = order === 'attack' ? target : null;
+
+        // Hold where each ship is now, pointing the way it is heading
+        this.holdStations.clear();
+        if (order === 'hold') {
+            for (const captain of this.members) {
+                const pos = captain.ship.getPosition();
+                this.holdStations.set(captain, { x: pos.x, y: pos.y, heading: captain.ship.getRotation(), openness: 0 });
+            }
+        }
+
+        // Ships no longer ordered to fight stop searching for their last enemy
+        if (order === 'follow' || order === 'hold') {
+            for (const captain of this.members) {
+                captain.forgetTarget();
+            }
+        }
+    }
+
+    /**
+     * The enemy the fleet is fighting, if any
+     */
+    public getThreat(): GameObject | null {
+        return this.threat;
+    }
+
+    /**
+     * Where a member should be, or null if it has no station (the flagship, or while attacking)
+     */
+    public getStation(captain: ShipCaptain): StationPoint | null {
+        if (this.order === 'hold') {
+            return this.holdStations.get(captain) || null;
+        }
+        if (this.order === 'attack' || captain.ship === this.flagship) {
+            return null;
+        }
+
+        const index = this.members.filter(member => member.ship !== this.flagship).indexOf(captain);
+        if (index === -1) return null;
+
+        const count = this.members.length - (this.members.some(member => member.ship === this.flagship) ? 1 : 0);
+        const { ahead, across } = getFormationOffset(this.formation, index, count);
+
+        // Offsets are in the flagship's frame: ahead along its heading, across to starboard
+        const pos = this.flagship.getPosition();
+        const heading = this.flagship.getRotation();
+        const spacing = Fleet.SHIP_SPACING;
+        return {
+            x: pos.x + (Math.cos(heading) * ahead - Math.sin(heading) * across) * spacing,
+            y: pos.y + (Math.sin(heading) * ahead + Math.cos(heading) * across) * spacing,
+            heading,
+            openness: this.getFlagshipOpenness()
+        };
+    }
+
+    /**
+     * How much sail the flagship carries, so its consorts can keep pace
+     */
+    private getFlagshipOpenness(): number {
+        if (!(this.flagship instanceof Brigantine)) return 0;
+
+        const firstSail = this.flagship.sails.values().next().value;
+        return firstSail ? firstSail.openness : 0;
+    }
+
+    /**
+     * Pick the fleet's target and pass it to every member. Call each step before the captains update.
+     * @param hostiles Ships (or the player) the fleet is at war with
+     */
+    public update(hostiles: GameObject[]): void {
+        const alive = hostiles.filter(hostile => hostile.getBody() !== null);
+
+        if (this.order === 'attack' && (!this.orderTarget || !alive.includes(this.orderTarget))) {
+            // Target sunk or gone; fall back in on the flagship
+            console.log('Fleet target gone, falling back into formation');
+            this.setOrder('follow');
+        }
+
+        switch (this.order) {
+            case 'attack':
+                this.threat = this.orderTarget;
+                break;
+            case 'escort':
+                this.threat = this.findThreat(alive);
+                break;
+            default:
+                this.threat = null;
+                break;
+        }
+
+        for (const captain of this.members) {
+            captain.setTarget(this.threat);
+
+            // Signal the enemy's position to ships that can't see it for themselves
+            if (this.threat && !captain.canSeeTarget()) {
+                captain.reportSighting(this.threat.getPosition());
+            }
+        }
+    }
+
+    /**
+     * The enemy nearest the flagship of those close to it or in sight of any ship in the fleet
+     */
+    private findThreat(hostiles: GameObject[]): GameObject | null {
+        const flagshipPos = this.flagship.getPosition();
+        let nearest: GameObject | null = null;
+        let nearestDistance = Infinity;
+
+        for (const hostile of hostiles) {
+            const pos = hostile.getPosition();
+            const distance = Math.hypot(pos.x - flagshipPos.x, pos.y - flagshipPos.y);
+            const sighted = distance <= Fleet.ESCORT_RANGE || this.members.some(captain => {
+                const shipPos = captain.ship.getPosition();
+                return Math.hypot(pos.x - shipPos.x, pos.y - shipPos.y) <= captain.getDetectionRange();
+            });
+
+            if (sighted && distance < nearestDistance) {
+                nearest = hostile;
+                nearestDistance = distance;
+            }
+        }
+        return nearest;
+    }
+}
+
+/**
+ * Place of the index-th ship in a formation, in ship spacings ahead of and to starboard of the flagship
+ */
+function getFormationOffset(formation: FormationType, index: number, count: number): { ahead: number, across: number } {
+    switch (formation) {
+        case 'lineAhead':
+            // Astern of the flagship in a single column
+            return { ahead: -(index + 1), across: 0 };
+        case 'wedge': {
+            // Spreading back from the flagship, alternately to starboard and port
+            const rank = Math.floor(index / 2) + 1;
+            const side = index % 2 === 0 ? 1 : -1;
+            return { ahead: -0.7 * rank, across: 0.7 * rank * side };
+        }
+        case 'screen':
+            // Abreast in a line ahead of the flagship
+            return { ahead: 1, across: (index - (count - 1) / 2) * 0.8 };
+    }
+}
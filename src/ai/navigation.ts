@@ -0,0 +1,198 @@
+/**
+ * A circular obstacle ships must sail around (islands are passed in directly)
+ */
+export interface NavObstacle {
+    id: string;
+    x: number;
+    y: number;
+    radius: number;
+}
+
+interface NavNode {
+    x: number;
+    y: number;
+}
+
+interface NavGraph {
+    nodes: NavNode[];
+    edges: number[][]; // Indices of the nodes each node can see
+}
+
+/**
+ * Plans routes around islands for AI ships (and, on a smaller scale, around the masts
+ * on a deck for the crew).
+ * Each obstacle is grown by the clearance the ship asks for (half its beam plus room
+ * to turn) and ringed with waypoints; waypoints that can see each other are linked
+ * into a visibility graph, which is searched with A*.
+ */
+export class Navigation {
+    static readonly NODES_PER_OBSTACLE: number = 8;
+    static readonly CLEARANCE_STEP: number = 50; // Graphs are cached per clearance, rounded up to this
+
+    private obstacles: NavObstacle[] = [];
+    private graphs: Map<number, NavGraph> = new Map();
+    private version: number = 0;
+    private clearanceStep: number;
+
+    /**
+     * @param clearanceStep Clearances are rounded up to a multiple of this (smaller for finer routes)
+     */
+    constructor(clearanceStep: number = Navigation.CLEARANCE_STEP) {
+        this.clearanceStep = clearanceStep;
+    }
+
+    /**
+     * Replace the obstacles, e.g. when island chunks stream in or out
+     */
+    public setObstacles(obstacles: NavObstacle[]): void {
+        this.obstacles = obstacles.map(({ id, x, y, radius }) => ({ id, x, y, radius }));
+        this.graphs.clear();
+        this.version++;
+    }
+
+    public getObstacles(): NavObstacle[] {
+        return this.obstacles;
+    }
+
+    /**
+     * Goes up every time the obstacles change, so routes planned before can be re-planned
+     */
+    public getVersion(): number {
+        return this.version;
+    }
+
+    /**
+     * Whether a ship needing this clearance can sail straight from one point to another.
+     * Obstacles that already contain either end are ignored so a ship can always sail clear.
+     */
+    public isPathClear(from: NavNode, to: NavNode, clearance: number): boolean {
+        return this.obstacles.every(obstacle => {
+            const radius = obstacle.radius + clearance;
+            if (distance(from, obstacle) < radius || distance(to, obstacle) < radius) return true;
+            return distanceToSegment(obstacle, from, to) >= radius - 1;
+        });
+    }
+
+    /**
+     * Shortest route around the obstacles
+     * @param clearance How far the ship's track must stay from every obstacle
+     * @returns Waypoints after the start, ending at the goal, or null if the goal can't be reached
+     */
+    public findPath(start: NavNode, goal: NavNode, clearance: number): NavNode[] | null {
+        if (this.isPathClear(start, goal, clearance)) {
+            return [{ x: goal.x, y: goal.y }];
+        }
+
+        const graph = this.getGraph(clearance);
+        const clearanceUsed = Math.ceil(clearance / this.clearanceStep) * this.clearanceStep;
+
+        // Start and goal join the graph wherever they can see it; the goal is node -1
+        const fromStart = graph.nodes
+            .map((node, index) => index)
+            .filter(index => this.isPathClear(start, graph.nodes[index], clearanceUsed));
+        const seesGoal = new Set(graph.nodes
+            .map((node, index) => index)
+            .filter(index => this.isPathClear(graph.nodes[index], goal, clearanceUsed)));
+
+        // A* over the graph nodes
+        const cost = new Map<number, number>();
+        const previous = new Map<number, number>();
+        const open = new Set<number>();
+        for (const index of fromStart) {
+            cost.set(index, distance(start, graph.nodes[index]));
+            open.add(index);
+        }
+
+        const GOAL = -1;
+        while (open.size > 0) {
+            let current = -2;
+            let best = Infinity;
+            for (const index of open) {
+                const node = index === GOAL ? goal : graph.nodes[index];
+                const estimate = cost.get(index)! + distance(node, goal);
+                if (estimate < best) {
+                    best = estimate;
+                    current = index;
+                }
+            }
+            open.delete(current);
+
+            if (current === GOAL) {
+                const route: NavNode[] = [{ x: goal.x, y: goal.y }];
+                for (let index = previous.get(GOAL); index !== undefined; index = previous.get(index)) {
+                    route.unshift({ x: graph.nodes[index].x, y: graph.nodes[index].y });
+                }
+                return route;
+            }
+
+            const neighbours = seesGoal.has(current) ? [...graph.edges[current], GOAL] : graph.edges[current];
+            for (const next of neighbours) {
+                const nextNode = next === GOAL ? goal : graph.nodes[next];
+                const nextCost = cost.get(current)! + distance(graph.nodes[current], nextNode);
+                if (nextCost < (cost.get(next) ?? Infinity)) {
+                    cost.set(next, nextCost);
+                    previous.set(next, current);
+                    open.add(next);
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Visibility graph for a clearance, built on first use
+     */
+    private getGraph(clearance: number): NavGraph {
+        const key = Math.ceil(clearance / this.clearanceStep) * this.clearanceStep;
+        let graph = this.graphs.get(key);
+        if (graph) return graph;
+
+        // Ring each grown obstacle with waypoints far enough out that the lines between them clear it
+        const count = Navigation.NODES_PER_OBSTACLE;
+        const nodes: NavNode[] = [];
+        for (const obstacle of this.obstacles) {
+            const ringRadius = (obstacle.radius + key) / Math.cos(Math.PI / count) + 1;
+            for (let i = 0; i < count; i++) {
+                const angle = i * Math.PI * 2 / count;
+                const node = { x: obstacle.x + Math.cos(angle) * ringRadius, y: obstacle.y + Math.sin(angle) * ringRadius };
+
+                // Drop waypoints that fall inside a neighbouring obstacle
+                if (this.obstacles.every(other => distance(node, other) >= other.radius + key)) {
+                    nodes.push(node);
+                }
+            }
+        }
+
+        const edges: number[][] = nodes.map(() => []);
+        for (let i = 0; i < nodes.length; i++) {
+            for (let j = i + 1; j < nodes.length; j++) {
+                if (this.isPathClear(nodes[i], nodes[j], key)) {
+                    edges[i].push(j);
+                    edges[j].push(i);
+                }
+            }
+        }
+
+        graph = { nodes, edges };
+        this.graphs.set(key, graph);
+        return graph;
+    }
+}
+
+function distance(a: NavNode, b: NavNode): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Shortest distance from a point to the segment between a and b
+ */
+function distanceToSegment(point: NavNode, a: NavNode, b: NavNode): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) return distance(point, a);
+
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+    return distance(point, { x: a.x + t * dx, y: a.y + t * dy });
+}
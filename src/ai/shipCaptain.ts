@@ -0,0 +1,227 @@
+import { Brigantine } from '../objects/ships/brigantine';
+import { GameObject } from '../objects/objects';
+import { AIHelmsman } from './aiHelmsman';
+import { BehaviorTree } from './behaviorTree';
+import { CaptainArchetype, ARCHETYPES, createCaptainTree } from './captainBehaviors';
+import type { Fleet } from './fleet';
+
+/**
+ * Decides what an AI ship does - patrol, hunt, fight, run or strike its colours - by
+ * ticking its archetype's behavior tree, and leaves the sailing to its AIHelmsman.
+ */
+export class ShipCaptain {
+    static readonly MEMORY_TIME: number = 20; // Seconds a lost target is remembered and searched for
+
+    readonly ship: Brigantine;
+    readonly helmsman: AIHelmsman;
+    private archetype: CaptainArchetype;
+    private tree: BehaviorTree<ShipCaptain>;
+
+    private target: GameObject | null = null;
+    private lastKnownTargetPosition: { x: number, y: number } | null = null;
+    private timeSinceTargetSeen: number = Infinity;
+    private patrolRoute: { x: number, y: number }[];
+    private patrolIndex: number = 0;
+    private surrendered: boolean = false;
+    private fleet: Fleet | null = null;
+    private boardingTarget: Brigantine | null = null; // Ship the crew stand ready to grapple this step
+
+    /**
+     * @param patrolRoute Points sailed round in turn while there is nothing else to do
+     */
+    constructor(ship: Brigantine, archetype: CaptainArchetype, patrolRoute: { x: number, y: number }[] = []) {
+        this.ship = ship;
+        this.helmsman = new AIHelmsman(ship);
+        this.archetype = archetype;
+        this.tree = createCaptainTree(archetype);
+        this.patrolRoute = patrolRoute.map(point => ({ x: point.x, y: point.y }));
+    }
+
+    public getArchetype(): CaptainArchetype {
+        return this.archetype;
+    }
+
+    /**
+     * Set the ship or player this captain is hostile to (or wary of, for a merchant)
+     */
+    public setTarget(target: GameObject | null): void {
+        this.target = target;
+    }
+
+    public getTarget(): GameObject | null {
+        return this.target;
+    }
+
+    public getDetectionRange(): number {
+        return ARCHETYPES[this.archetype].detectionRange;
+    }
+
+    /**
+     * Whether the target is within sight this tick
+     */
+    public canSeeTarget(): boolean {
+        return this.target !== null && this.target.getBody() !== null &&
+            this.getTargetDistance() <= this.getDetectionRange();
+    }
+
+    public getTargetDistance(): number {
+        if (!this.target) return Infinity;
+
+        const pos = this.ship.getPosition();
+        const targetPos = this.target.getPosition();
+        return Math.hypot(targetPos.x - pos.x, targetPos.y - pos.y);
+    }
+
+    /**
+     * Where the target was last seen, if that was recently enough to go and look
+     */
+    public getLastKnownTargetPosition(): { x: number, y: number } | null {
+        return this.timeSinceTargetSeen <= ShipCaptain.MEMORY_TIME ? this.lastKnownTargetPosition : null;
+    }
+
+    /**
+     * Learn where the target is from another ship, as if it had been seen from this one
+     */
+    public reportSighting(position: { x: number, y: number }): void {
+        this.lastKnownTargetPosition = { x: position.x, y: position.y };
+        this.timeSinceTargetSeen = 0;
+    }
+
+    /**
+     * Give up searching for a lost target
+     */
+    public forgetTarget(): void {
+        this.lastKnownTargetPosition = null;
+        this.timeSinceTargetSeen = Infinity;
+    }
+
+    /**
+     * How badly this ship is hurt, from 0 (sound) to 1 (sinking)
+     */
+    public getDamage(): number {
+        return ShipCaptain.getShipDamage(this.ship);
+    }
+
+    /**
+     * How badly the target is hurt, if it is a ship (0 otherwise)
+     */
+    public getTargetDamage(): number {
+        return this.target instanceof Brigantine ? ShipCaptain.getShipDamage(this.target) : 0;
+    }
+
+    private static getShipDamage(ship: Brigantine): number {
+        if (ship.isSinking()) return 1;
+        return Math.max(1 - ship.getPlankHealth() / 100, ship.getFloodLevel());
+    }
+
+    public getPatrolPoint(): { x: number, y: number } | null {
+        return this.patrolRoute.length > 0 ? this.patrolRoute[this.patrolIndex] : null;
+    }
+
+    /**
+     * Move on to the next point of the patrol
+     */
+    public advancePatrol(): void {
+        if (this.patrolRoute.length > 0) {
+            this.patrolIndex = (this.patrolIndex + 1) % this.patrolRoute.length;
+        }
+    }
+
+    /**
+     * Set the fleet this ship sails with (null to sail alone). Use Fleet.addMember
+     * rather than calling this directly.
+     */
+    public setFleet(fleet: Fleet | null): void {
+        this.fleet = fleet;
+    }
+
+    public getFleet(): Fleet | null {
+        return this.fleet;
+    }
+
+    public isSurrendered(): boolean {
+        return this.surrendered;
+    }
+
+    /**
+     * Strike the colours for good: the ship heaves to and its guns fall silent
+     */
+    public surrender(): void {
+        if (!this.surrendered) {
+            this.surrendered = true;
+            console.log(`${this.ship.getDefinition().name} (${ARCHETYPES[this.archetype].label}) has struck its colours`);
+        }
+    }
+
+    /**
+     * Call the crew to stand by with grappling hooks as the ship comes alongside its target
+     */
+    public prepareToBoard(target: Brigantine): void {
+        this.boardingTarget = target;
+    }
+
+    /**
+     * The ship the crew want to grapple this step, if the captain is boarding
+     */
+    public getBoardingTarget(): Brigantine | null {
+        return this.boardingTarget;
+    }
+
+    /**
+     * Name of the behavior the captain is carrying out, for debugging
+     */
+    public getCurrentNode(): string | null {
+        return this.tree.getActiveNode();
+    }
+
+    /**
+     * Look out for the target, decide what to do and sail the ship for one step
+     * @param delta Step length in seconds
+     */
+    public update(delta: number): void {
+        if (this.canSeeTarget()) {
+            const targetPos = this.target!.getPosition();
+            this.lastKnownTargetPosition = { x: targetPos.x, y: targetPos.y };
+            this.timeSinceTargetSeen = 0;
+        } else {
+            this.timeSinceTargetSeen += delta;
+        }
+
+        this.boardingTarget = null;
+        this.tree.tick(this, delta);
+        this.helmsman.update(delta);
+    }
+
+    /**
+     * Debug view of how far the captain can see and what it is doing
+     */
+    public renderDetectionRange(ctx: CanvasRenderingContext2D): void {
+        const pos = this.ship.getPosition();
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(pos.x, pos.y, this.getDetectionRange(), 0, Math.PI * 2);
+        ctx.strokeStyle = 'rgba(255, 0, 0, 0.2)';
+        ctx.setLineDash([5, 5]);
+        ctx.lineWidth = 1;
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        // Line to the target while it is in sight
+        if (this.canSeeTarget()) {
+            const targetPos = this.target!.getPosition();
+            ctx.beginPath();
+            ctx.moveTo(pos.x, pos.y);
+            ctx.lineTo(targetPos.x, targetPos.y);
+            ctx.strokeStyle = 'rgba(255, 0, 0, 0.5)';
+            ctx.stroke();
+        }
+
+        // Current behavior above the ship
+        ctx.font = 'bold 20px Arial';
+        ctx.textAlign = 'center';
+        ctx.fillStyle = this.surrendered ? '#FFFFFF' : '#FFFF00';
+        ctx.fillText(`${ARCHETYPES[this.archetype].label}: ${this.getCurrentNode() || 'Idle'}`, pos.x, pos.y - 160);
+        ctx.restore();
+    }
+}
@@ -3,12 +3,15 @@ import { Canvas } from '../utils/canvas';
 
 export class Camera {
     private position: { x: number, y: number };
+    private previousPosition: { x: number, y: number }; // Position at the start of the current physics step
+    private interpolationAlpha: number = 1;              // How far rendering is between the previous and current step
     private target: GameObject | null;
     private zoom: number;
     private canvas: Canvas;
     
     constructor(canvas: Canvas) {
         this.position = { x: 0, y: 0 };
+        this.previousPosition = { x: 0, y: 0 };
         this.target = null;
         this.zoom = 1.0;
         this.canvas = canvas;
@@ -27,12 +30,42 @@ export class Camera {
       public setPosition(x: number, y: number): void {
         this.position.x = x;
         this.position.y = y;
+        
+        // Jumps shouldn't be smoothed
+        this.previousPosition.x = x;
+        this.previousPosition.y = y;
     }
     
     public getPosition(): { x: number, y: number } {
         return { x: this.position.x, y: this.position.y };
     }
     
+    /**
+     * Remember the current position before a fixed physics step so rendering can interpolate
+     */
+    public storePreviousPosition(): void {
+        this.previousPosition.x = this.position.x;
+        this.previousPosition.y = this.position.y;
+    }
+    
+    /**
+     * Set how far between the previous and current physics step the next frame is drawn (0-1)
+     */
+    public setInterpolationAlpha(alpha: number): void {
+        this.interpolationAlpha = Math.max(0, Math.min(1, alpha));
+    }
+    
+    /**
+     * Camera position used for drawing, interpolated between physics steps
+     */
+    public getRenderPosition(): { x: number, y: number } {
+        const alpha = this.interpolationAlpha;
+        return {
+            x: this.previousPosition.x + (this.position.x - this.previousPosition.x) * alpha,
+            y: this.previousPosition.y + (this.position.y - this.previousPosition.y) * alpha
+        };
+    }
+    
     public setZoom(zoom: number): void {
         // Clamp zoom between 0.1 and 3.0
         this.zoom = Math.max(0.1, Math.min(zoom, 3.0));
@@ -76,8 +109,9 @@ export class Camera {
         // Apply zoom
         ctx.scale(this.zoom, this.zoom);
         
-        // Translate to negative camera position
-        ctx.translate(-this.position.x, -this.position.y);
+        // Translate to negative camera position (interpolated so the view moves smoothly between physics steps)
+        const renderPosition = this.getRenderPosition();
+        ctx.translate(-renderPosition.x, -renderPosition.y);
     }
     
     /**
@@ -0,0 +1,155 @@
+import { SeededRandom } from '../utils/random';
+
+/**
+ * An island as far as the water is concerned
+ */
+export interface CurrentObstacle {
+    x: number;
+    y: number;
+    radius: number;
+}
+
+/**
+ * A gap between two close islands that the water is squeezed through
+ */
+interface Channel {
+    x: number;              // Middle of the gap
+    y: number;
+    axis: { x: number, y: number }; // Unit vector along the channel
+    halfWidth: number;      // Half the gap between the shores
+    halfLength: number;     // How far either side of the gap the channel reaches
+}
+
+/**
+ * Ocean currents and tidal streams sampled by world position.
+ * The water moves with a broad ocean current that wanders slowly across the map, plus
+ * a tidal stream that floods one way and ebbs back on a cycle. Between close islands
+ * the flow is turned along the channel and speeded up. Physics drags every floating
+ * body towards the local current.
+ */
+export class CurrentSystem {
+    // Ocean current
+    static readonly OCEAN_SPEED: number = 20;               // World units per second
+    static readonly OCEAN_SPEED_VARIATION: number = 0.5;    // Fraction of speed
+    static readonly OCEAN_DIRECTION_VARIATION: number = 0.6; // Radians
+    static readonly OCEAN_SCALE: number = 4000;             // World units per variation cycle
+
+    // Tides
+    static readonly TIDE_SPEED: number = 25;                // Peak tidal stream, world units per second
+    static readonly TIDE_PERIOD: number = 240;              // Seconds from one flood to the next
+
+    // Channels
+    static readonly CHANNEL_MAX_GAP: number = 800;          // Islands closer than this form a channel
+    static readonly CHANNEL_SPEEDUP: number = 1.5;          // Extra flow along a channel, as a fraction of the flow
+
+    private oceanDirection: number = 0;
+    private tideDirection: number = 0;
+    private elapsed: number = 0;
+    private islands: CurrentObstacle[] = [];
+    private channels: Channel[] = [];
+
+    /**
+     * @param seed World seed; the same seed always gives the same currents
+     */
+    constructor(seed: number) {
+        this.setSeed(seed);
+    }
+
+    /**
+     * Switch to the currents of another world seed, with the tide starting again from slack water
+     */
+    public setSeed(seed: number): void {
+        const rng = new SeededRandom(seed ^ 0x5eaf10);
+        this.oceanDirection = rng.angle();
+        this.tideDirection = rng.angle();
+        this.elapsed = 0;
+    }
+
+    /**
+     * Advance the tides
+     * @param delta Time step in seconds
+     */
+    public update(delta: number): void {
+        this.elapsed += delta;
+    }
+
+    /**
+     * Find the channels between the islands, e.g. when island chunks stream in or out
+     */
+    public setIslands(islands: CurrentObstacle[]): void {
+        this.islands = islands.map(({ x, y, radius }) => ({ x, y, radius }));
+        this.channels = [];
+
+        for (let i = 0; i < islands.length; i++) {
+            for (let j = i + 1; j < islands.length; j++) {
+                const a = islands[i];
+                const b = islands[j];
+                const distance = Math.hypot(b.x - a.x, b.y - a.y);
+                const gap = distance - a.radius - b.radius;
+                if (gap <= 0 || gap >= CurrentSystem.CHANNEL_MAX_GAP) continue;
+
+                // The channel runs square to the line between the island centres, through the middle of the gap
+                const across = { x: (b.x - a.x) / distance, y: (b.y - a.y) / distance };
+                const middle = a.radius + gap / 2;
+                this.channels.push({
+                    x: a.x + across.x * middle,
+                    y: a.y + across.y * middle,
+                    axis: { x: -across.y, y: across.x },
+                    halfWidth: gap / 2,
+                    halfLength: Math.min(a.radius, b.radius)
+                });
+            }
+        }
+    }
+
+    /**
+     * Strength of the tidal stream, from -1 (full ebb) through slack water to 1 (full flood)
+     */
+    public getTide(): number {
+        return Math.sin(this.elapsed * Math.PI * 2 / CurrentSystem.TIDE_PERIOD);
+    }
+
+    /**
+     * Sample the water's velocity at a world position
+     * @returns Velocity in world units per second (zero on land)
+     */
+    public getCurrentAt(x: number, y: number): { x: number, y: number } {
+        // Nothing on land is carried off by the water
+        if (this.islands.some(island => Math.hypot(x - island.x, y - island.y) < island.radius)) {
+            return { x: 0, y: 0 };
+        }
+
+        // Broad ocean current, varying smoothly so nearby points get similar flow
+        const nx = x / CurrentSystem.OCEAN_SCALE;
+        const ny = y / CurrentSystem.OCEAN_SCALE;
+        const directionNoise = Math.sin(nx * 1.1 + 0.3) * Math.cos(ny * 0.8 - 1.2);
+        const speedNoise = Math.sin(nx * 0.6 - 2.1) * Math.cos(ny * 1.3 + 0.7);
+
+        const direction = this.oceanDirection + directionNoise * CurrentSystem.OCEAN_DIRECTION_VARIATION;
+        const speed = CurrentSystem.OCEAN_SPEED * (1 + speedNoise * CurrentSystem.OCEAN_SPEED_VARIATION);
+        const tide = this.getTide() * CurrentSystem.TIDE_SPEED;
+
+        let flowX = Math.cos(direction) * speed + Math.cos(this.tideDirection) * tide;
+        let flowY = Math.sin(direction) * speed + Math.sin(this.tideDirection) * tide;
+
+        // Channels turn the flow along themselves and speed it up
+        for (const channel of this.channels) {
+            const dx = x - channel.x;
+            const dy = y - channel.y;
+            const along = dx * channel.axis.x + dy * channel.axis.y;
+            const across = -dx * channel.axis.y + dy * channel.axis.x;
+            const weight = Math.max(0, 1 - (across / channel.halfWidth) ** 2) *
+                Math.max(0, 1 - (along / channel.halfLength) ** 2);
+            if (weight <= 0) continue;
+
+            const flowAlong = flowX * channel.axis.x + flowY * channel.axis.y;
+            const flowAcross = -flowX * channel.axis.y + flowY * channel.axis.x;
+            const newAlong = flowAlong * (1 + CurrentSystem.CHANNEL_SPEEDUP * weight);
+            const newAcross = flowAcross * (1 - weight);
+            flowX = channel.axis.x * newAlong - channel.axis.y * newAcross;
+            flowY = channel.axis.y * newAlong + channel.axis.x * newAcross;
+        }
+
+        return { x: flowX, y: flowY };
+    }
+}
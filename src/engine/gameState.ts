@@ -1,3 +1,5 @@
+import { KeyValueStorage, getDefaultStorage } from '../utils/storage';
+
 /**
  * Enum for different game states
  */
@@ -15,8 +17,13 @@ export class GameStateManager {
     private highScore: number;
     private shipsDestroyed: number;
     private gameOverCallback: (() => void) | null;
+    private storage: KeyValueStorage;
     
-    constructor() {
+    /**
+     * @param storage Where the high score is persisted (defaults to localStorage)
+     */
+    constructor(storage: KeyValueStorage = getDefaultStorage()) {
+        this.storage = storage;
         this.state = GameState.PLAYING;
         this.score = 0;
         this.highScore = this.loadHighScore();
@@ -25,18 +32,23 @@ export class GameStateManager {
     }
     
     /**
-     * Load high score from local storage
+     * Load high score from storage
      */
     private loadHighScore(): number {
-        const storedHighScore = localStorage.getItem('pirateGameHighScore');
-        return storedHighScore ? parseInt(storedHighScore, 10) : 0;
+        const storedHighScore = this.storage.getItem('pirateGameHighScore');
+        const highScore = storedHighScore ? parseInt(storedHighScore, 10) : 0;
+        return isNaN(highScore) ? 0 : highScore;
     }
     
     /**
-     * Save high score to local storage
+     * Save high score to storage
      */
     private saveHighScore(): void {
-        localStorage.setItem('pirateGameHighScore', this.highScore.toString());
+        try {
+            this.storage.setItem('pirateGameHighScore', this.highScore.toString());
+        } catch (error) {
+            console.warn('Failed to save high score:', error);
+        }
     }
     
     /**
@@ -62,6 +74,17 @@ export class GameStateManager {
         this.addScore(100); // Base score for destroying a ship
     }
     
+    /**
+     * Take a share of the score away, e.g. as the price of dying; the high score is kept
+     * @param fraction Share of the score to lose (0-1)
+     * @returns Points lost
+     */
+    public loseScore(fraction: number): number {
+        const lost = Math.floor(this.score * Math.max(0, Math.min(1, fraction)));
+        this.score -= lost;
+        return lost;
+    }
+    
     /**
      * Set game state to GAME_OVER
      */
@@ -85,6 +108,16 @@ export class GameStateManager {
         this.shipsDestroyed = 0;
     }
     
+    /**
+     * Restore the progress of a saved game
+     */
+    public restoreProgress(score: number, shipsDestroyed: number): void {
+        this.state = GameState.PLAYING;
+        this.score = 0;
+        this.shipsDestroyed = shipsDestroyed;
+        this.addScore(score);
+    }
+    
     /**
      * Set a callback function to be called when the game ends
      */
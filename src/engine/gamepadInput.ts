@@ -0,0 +1,206 @@
+import { KeyValueStorage, getDefaultStorage } from '../utils/storage';
+
+/**
+ * Minimal view of a browser Gamepad, so a fake pad can be passed in for testing
+ */
+export interface GamepadState {
+    index: number;
+    id: string;
+    connected: boolean;
+    buttons: ReadonlyArray<{ pressed: boolean, value: number }>;
+    axes: ReadonlyArray<number>;
+}
+
+export type GamepadSource = () => ReadonlyArray<GamepadState | null>;
+
+function getBrowserGamepads(): ReadonlyArray<GamepadState | null> {
+    if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') {
+        return [];
+    }
+    return navigator.getGamepads();
+}
+
+/**
+ * Polls one gamepad using the standard mapping. Buttons and stick directions are
+ * exposed as bindable input names so they can be used like keys:
+ * 'pad0'-'pad16' for buttons (A, B, X, Y, LB, RB, LT, RT, ...) and 'axis1-' / 'axis1+'
+ * for each direction of a stick axis (axes 0/1 are the left stick, 2/3 the right).
+ */
+export class GamepadInput {
+    static readonly STORAGE_KEY: string = 'pirateGameGamepad';
+    static readonly DEFAULT_DEAD_ZONE: number = 0.15;
+    static readonly MAX_DEAD_ZONE: number = 0.5;
+    static readonly PRESS_THRESHOLD: number = 0.5; // Stick or trigger travel that counts as a press
+
+    private source: GamepadSource;
+    private storage: KeyValueStorage;
+    private padIndex: number | null = null;
+    private padId: string = '';
+    private buttons: number[] = [];
+    private axes: number[] = [];  // After the dead zone
+    private deadZone: number = GamepadInput.DEFAULT_DEAD_ZONE;
+
+    constructor(storage: KeyValueStorage = getDefaultStorage(), source: GamepadSource = getBrowserGamepads) {
+        this.storage = storage;
+        this.source = source;
+        this.loadSettings();
+    }
+
+    /**
+     * Called when the browser reports a newly plugged in pad
+     */
+    public connect(index: number, id: string): void {
+        if (this.padIndex === null) {
+            this.padIndex = index;
+            this.padId = id;
+            console.log(`Gamepad connected: ${id}`);
+        }
+    }
+
+    /**
+     * Called when the browser reports a pad was unplugged
+     */
+    public disconnect(index: number): void {
+        if (this.padIndex === index) {
+            console.log(`Gamepad disconnected: ${this.padId}`);
+            this.padIndex = null;
+            this.padId = '';
+            this.buttons = [];
+            this.axes = [];
+        }
+    }
+
+    /**
+     * Read the current state of the pad, picking up pads that were plugged in
+     * without a connect event (some browsers only report them once polled)
+     */
+    public poll(): void {
+        const pads = this.source();
+
+        let pad = this.padIndex !== null ? pads[this.padIndex] : null;
+        if (this.padIndex !== null && (!pad || !pad.connected)) {
+            this.disconnect(this.padIndex);
+            pad = null;
+        }
+        if (this.padIndex === null) {
+            const found = pads.find(candidate => candidate && candidate.connected);
+            if (found) {
+                this.connect(found.index, found.id);
+                pad = found;
+            }
+        }
+        if (!pad) return;
+
+        this.buttons = pad.buttons.map(button => button.pressed ? Math.max(button.value, 1) : button.value);
+
+        // Apply a radial dead zone to each stick so a slightly off-center stick reads as zero
+        this.axes = [];
+        for (let i = 0; i < pad.axes.length; i += 2) {
+            const x = pad.axes[i];
+            const y = i + 1 < pad.axes.length ? pad.axes[i + 1] : 0;
+            const scaled = this.applyDeadZone(x, y);
+            this.axes.push(scaled.x, scaled.y);
+        }
+    }
+
+    private applyDeadZone(x: number, y: number): { x: number, y: number } {
+        const magnitude = Math.sqrt(x * x + y * y);
+        if (magnitude <= this.deadZone) {
+            return { x: 0, y: 0 };
+        }
+
+        // Rescale so values start from zero at the edge of the dead zone
+        const scale = Math.min(1, (magnitude - this.deadZone) / (1 - this.deadZone)) / magnitude;
+        return { x: x * scale, y: y * scale };
+    }
+
+    /**
+     * Whether a binding names a gamepad button or stick direction rather than a key
+     */
+    public static isGamepadInput(name: string): boolean {
+        return /^(pad\d+|axis\d+[+-])$/.test(name);
+    }
+
+    public isConnected(): boolean {
+        return this.padIndex !== null;
+    }
+
+    public getId(): string {
+        return this.padId;
+    }
+
+    /**
+     * How far a bindable input is pushed (0-1), or 0 if it isn't a gamepad input
+     */
+    public getValue(name: string): number {
+        const button = /^pad(\d+)$/.exec(name);
+        if (button) {
+            return this.buttons[Number(button[1])] || 0;
+        }
+
+        const axis = /^axis(\d+)([+-])$/.exec(name);
+        if (axis) {
+            const value = this.axes[Number(axis[1])] || 0;
+            return axis[2] === '+' ? Math.max(0, value) : Math.max(0, -value);
+        }
+
+        return 0;
+    }
+
+    /**
+     * Gamepad inputs pushed far enough to count as pressed
+     */
+    public getHeldInputs(): string[] {
+        const held: string[] = [];
+        this.buttons.forEach((value, i) => {
+            if (value >= GamepadInput.PRESS_THRESHOLD) held.push(`pad${i}`);
+        });
+        this.axes.forEach((value, i) => {
+            if (value >= GamepadInput.PRESS_THRESHOLD) held.push(`axis${i}+`);
+            if (value <= -GamepadInput.PRESS_THRESHOLD) held.push(`axis${i}-`);
+        });
+        return held;
+    }
+
+    /**
+     * Position of a stick after the dead zone, each axis from -1 to 1
+     */
+    public getStick(stick: 'left' | 'right'): { x: number, y: number } {
+        const first = stick === 'left' ? 0 : 2;
+        return { x: this.axes[first] || 0, y: this.axes[first + 1] || 0 };
+    }
+
+    public getDeadZone(): number {
+        return this.deadZone;
+    }
+
+    /**
+     * Set how far the sticks must move before they register (0 to MAX_DEAD_ZONE)
+     */
+    public setDeadZone(deadZone: number): void {
+        this.deadZone = Math.max(0, Math.min(GamepadInput.MAX_DEAD_ZONE, deadZone));
+        this.saveSettings();
+    }
+
+    private loadSettings(): void {
+        const json = this.storage.getItem(GamepadInput.STORAGE_KEY);
+        if (json === null) return;
+
+        try {
+            const settings = JSON.parse(json);
+            if (typeof settings.deadZone === 'number' && isFinite(settings.deadZone)) {
+                this.deadZone = Math.max(0, Math.min(GamepadInput.MAX_DEAD_ZONE, settings.deadZone));
+            }
+        } catch (error) {
+            console.warn('Failed to load gamepad settings, using defaults:', error);
+        }
+    }
+
+    private saveSettings(): void {
+        try {
+            this.storage.setItem(GamepadInput.STORAGE_KEY, JSON.stringify({ deadZone: this.deadZone }));
+        } catch (error) {
+            console.warn('Failed to save gamepad settings:', error);
+        }
+    }
+}
@@ -1,3 +1,6 @@
+import { Action, ACTION_DEFINITIONS, InputBindings, InputContext, parseBinding } from './inputBindings';
+import { GamepadInput } from './gamepadInput';
+
 export enum KeyState {
     UP,
     DOWN,
@@ -7,116 +10,214 @@ export enum KeyState {
 
 export class Input {
     private keys: Map<string, KeyState>;
-    private previousKeys: Map<string, KeyState>;
+    private pressedSinceUpdate: Set<string>; // Keys pressed since the last step, so quick taps aren't missed
     private mouseX: number;
     private mouseY: number;
     private mouseDown: boolean;
     private wheelDelta: number;
-    private interactCallback: (() => void) | null = null;
+    private bindings: InputBindings;
+    private activeContexts: InputContext[] = [InputContext.Menu];
+    private lastPressed: string | null = null; // Most recent key or button, for the rebinding menu
+    
+    // Gamepad buttons and stick directions are fed in as if they were keys
+    private gamepad: GamepadInput;
+    private gamepadHeld: Set<string> = new Set();
+    private gamepadRepeat: Map<string, number> = new Map(); // Seconds until a held input presses again
+    private usingGamepadCursor: boolean = false;
     
-    constructor() {
+    static readonly GAMEPAD_REPEAT_DELAY: number = 0.25;    // Like keyboard auto-repeat, for held sticks and buttons
+    static readonly GAMEPAD_REPEAT_INTERVAL: number = 0.1;
+    static readonly GAMEPAD_CURSOR_SPEED: number = 900;     // Pixels per second at full right stick
+    
+    constructor(bindings: InputBindings = new InputBindings(), gamepad: GamepadInput = new GamepadInput()) {
         this.keys = new Map();
-        this.previousKeys = new Map();
+        this.pressedSinceUpdate = new Set();
         this.mouseX = 0;
         this.mouseY = 0;
         this.mouseDown = false;
         this.wheelDelta = 0;
-          // Set up event listeners
+        this.bindings = bindings;
+        this.gamepad = gamepad;
+        
+        // Set up event listeners
         window.addEventListener('keydown', (e) => {
-            // For important game keys, prevent default browser behavior
-            if (e.key.toLowerCase() === 'e' || e.key.toLowerCase() === 't') {
+            // Keys used by the game shouldn't also scroll the page or open browser shortcuts
+            if (this.bindings.isBound(e.key.toLowerCase())) {
                 e.preventDefault();
             }
             
             this.onKeyDown(e);
-            // Don't prevent default for other keys to allow browser functionality to work
         });
         window.addEventListener('keyup', (e) => {
             this.onKeyUp(e);
             // Don't prevent default to allow browser functionality to work
         });
         window.addEventListener('mousemove', (e) => this.onMouseMove(e));
-        window.addEventListener('mousedown', () => this.onMouseDown());
-        window.addEventListener('mouseup', () => this.onMouseUp());
+        window.addEventListener('mousedown', (e) => this.onMouseDown(e));
+        window.addEventListener('mouseup', (e) => this.onMouseUp(e));
         window.addEventListener('wheel', (e) => this.onWheel(e));
+        
+        // Pads can be plugged in and out at any time
+        window.addEventListener('gamepadconnected', (e) => {
+            const pad = (e as GamepadEvent).gamepad;
+            this.gamepad.connect(pad.index, pad.id);
+        });
+        window.addEventListener('gamepaddisconnected', (e) => {
+            this.gamepad.disconnect((e as GamepadEvent).gamepad.index);
+        });
+    }
+    
+    public getGamepad(): GamepadInput {
+        return this.gamepad;
     }
     
     /**
-     * Register a callback to be called when the 'E' key is pressed
-     * for interaction with highlighted objects
+     * Whether the aim cursor was last moved with the right stick rather than the mouse
      */
-    public setInteractCallback(callback: () => void): void {
-        this.interactCallback = callback;
+    public isUsingGamepadCursor(): boolean {
+        return this.usingGamepadCursor;
     }
     
-    private onKeyDown(e: KeyboardEvent): void {
-        const key = e.key.toLowerCase();
-        
-        // Special handling for E key (for boarding interactions)
-        if (key === 'e') {
-            // Stop propagation to ensure no other elements capture this event
-            e.stopPropagation();
-            
-            // Ensure we set it to JUST_PRESSED regardless of current state
-            this.keys.set(key, KeyState.JUST_PRESSED);
-            
-            // Directly trigger the interact callback when E is pressed
-            if (this.interactCallback) {
-                this.interactCallback();
-            }
-            
-            return;
+    public getBindings(): InputBindings {
+        return this.bindings;
+    }
+    
+    /**
+     * Set which contexts' actions can fire, lowest priority first.
+     * When two active contexts bind the same key, only the later one gets it
+     * (e.g. at the wheel W opens the sails instead of walking).
+     */
+    public setActiveContexts(contexts: InputContext[]): void {
+        this.activeContexts = contexts;
+    }
+    
+    public getActiveContexts(): InputContext[] {
+        return this.activeContexts;
+    }
+    
+    /**
+     * Check if any of an action's keys are held
+     */
+    public isActionDown(action: Action): boolean {
+        return this.getActiveBindings(action).some(binding => this.isBindingHeld(binding));
+    }
+    
+    /**
+     * Check if one of an action's keys was pressed this step
+     */
+    public wasActionJustPressed(action: Action): boolean {
+        return this.getActiveBindings(action).some(binding =>
+            this.isBindingHeld(binding, true) && this.wasKeyJustPressed(parseBinding(binding).key));
+    }
+    
+    /**
+     * How strongly an action is applied, from 0 to 1. Keys give 0 or 1; sticks and
+     * triggers give how far they are pushed.
+     */
+    public getActionValue(action: Action): number {
+        let value = 0;
+        for (const binding of this.getActiveBindings(action)) {
+            value = Math.max(value, GamepadInput.isGamepadInput(binding)
+                ? this.gamepad.getValue(binding)
+                : this.isBindingHeld(binding) ? 1 : 0);
         }
-        
-        // Stop propagation for test key too
-        if (key === 't') {
-            e.stopPropagation();
-            
-            // Make T key behave like E and other toggle keys
-            this.keys.set(key, KeyState.JUST_PRESSED);
-            return;
+        return Math.min(1, value);
+    }
+    
+    /**
+     * Release an action's keys until they are pressed again (key repeat presses them again)
+     */
+    public clearAction(action: Action): void {
+        for (const binding of this.bindings.getKeys(action)) {
+            this.clearKey(parseBinding(binding).key);
         }
+    }
+    
+    /**
+     * The key or mouse button pressed most recently, cleared once read
+     */
+    public takeLastPressed(): string | null {
+        const key = this.lastPressed;
+        this.lastPressed = null;
+        return key;
+    }
+    
+    /**
+     * An action's bindings that can fire right now: its context is active and no
+     * higher priority context uses the same binding
+     */
+    private getActiveBindings(action: Action): string[] {
+        const index = this.activeContexts.indexOf(ACTION_DEFINITIONS[action].context);
+        if (index === -1) return [];
         
-        // Special handling for P and L keys for debug purposes
-        if (key === 'p' || key === 'l') {
-            this.keys.set(key, KeyState.JUST_PRESSED);
-            return;
-        }
+        const higher = this.activeContexts.slice(index + 1);
+        return this.bindings.getKeys(action).filter(binding =>
+            !higher.some(context => this.bindings.getActionsInContext(context)
+                .some(other => this.bindings.getKeys(other).includes(binding))));
+    }
+    
+    /**
+     * A binding is held when its key and modifiers are down, unless a longer chord on the
+     * same key is also held (Shift+A rotates the sails rather than also turning the rudder)
+     * @param ignoreKey Only check the modifiers and chords, not the key itself
+     */
+    private isBindingHeld(binding: string, ignoreKey: boolean = false): boolean {
+        const { key, modifiers } = parseBinding(binding);
+        if (!ignoreKey && !this.isKeyDown(key)) return false;
+        if (!modifiers.every(modifier => this.isKeyDown(modifier))) return false;
         
-        // Standard key handling for all other keys
-        // If the key was up previously or not yet registered, mark it as JUST_PRESSED
-        const currentState = this.keys.get(key);
-        if (currentState !== KeyState.DOWN && currentState !== KeyState.JUST_PRESSED) {
-            this.keys.set(key, KeyState.JUST_PRESSED);
+        for (const context of this.activeContexts) {
+            for (const other of this.bindings.getActionsInContext(context)) {
+                for (const otherBinding of this.bindings.getKeys(other)) {
+                    const chord = parseBinding(otherBinding);
+                    if (chord.key === key && chord.modifiers.length > modifiers.length &&
+                        chord.modifiers.every(modifier => this.isKeyDown(modifier))) {
+                        return false;
+                    }
+                }
+            }
         }
+        return true;
+    }
+    
+    private onKeyDown(e: KeyboardEvent): void {
+        const key = e.key.toLowerCase();
+        this.pressKey(key);
     }
     
     private onKeyUp(e: KeyboardEvent): void {
         const key = e.key.toLowerCase();
         
-        // Special handling for P and L keys
-        if (key === 'p' || key === 'l') {
-            // console.log(`DEBUG KEY RELEASED: ${key.toUpperCase()}`);
-            // FIXED: Set to UP state immediately to allow the key to be pressed again
-            this.keys.set(key, KeyState.UP);
-            return;
-        }
-        
         // Mark the key as JUST_RELEASED
         this.keys.set(key, KeyState.JUST_RELEASED);
     }
     
+    private pressKey(key: string): void {
+        // If the key was up previously or not yet registered, mark it as JUST_PRESSED
+        const currentState = this.keys.get(key);
+        if (currentState !== KeyState.DOWN && currentState !== KeyState.JUST_PRESSED) {
+            this.keys.set(key, KeyState.JUST_PRESSED);
+            this.pressedSinceUpdate.add(key);
+        }
+        this.lastPressed = key;
+    }
+    
     private onMouseMove(e: MouseEvent): void {
         this.mouseX = e.clientX;
         this.mouseY = e.clientY;
+        this.usingGamepadCursor = false;
     }
     
-    private onMouseDown(): void {
+    private onMouseDown(e: MouseEvent): void {
         this.mouseDown = true;
+        
+        // Mouse buttons can be bound like keys ('mouse0' is the left button)
+        this.pressKey(`mouse${e.button}`);
     }
     
-    private onMouseUp(): void {
+    private onMouseUp(e: MouseEvent): void {
         this.mouseDown = false;
+        this.keys.set(`mouse${e.button}`, KeyState.JUST_RELEASED);
     }
     
     private onWheel(e: WheelEvent): void {
@@ -129,16 +230,8 @@ export class Input {
     }
     
     public isKeyDown(key: string): boolean {
-        const lowercaseKey = key.toLowerCase();
-        const state = this.keys.get(lowercaseKey);
-        const result = state === KeyState.DOWN || state === KeyState.JUST_PRESSED;
-        
-        // For movement keys, log the state to help debug
-        // if (['w', 'a', 's', 'd', 'arrowup', 'arrowdown', 'arrowleft', 'arrowright'].includes(lowercaseKey)) {
-        //     console.log(`isKeyDown(${lowercaseKey}): ${result} (state: ${state !== undefined ? KeyState[state] : 'undefined'})`);
-        // }
-        
-        return result;
+        const state = this.keys.get(key.toLowerCase());
+        return state === KeyState.DOWN || state === KeyState.JUST_PRESSED;
     }
     
     public getMousePosition(): { x: number, y: number } {
@@ -154,82 +247,94 @@ export class Input {
         // Reset wheel delta after reading it
         this.wheelDelta = 0;
         return delta;
-    }    /**
-     * Update input state - should be called once per frame
+    }
+    
+    /**
+     * Update input state - call once per step, after all game logic has run
+     * @param delta Step length in seconds
      */
-    public update(): void {
-        // Store previous key states
-        this.previousKeys = new Map(this.keys);
-        
-        // Process key states that changed this frame
+    public update(delta: number = 1 / 60): void {
+        // Process key states that changed this step
         for (const [key, state] of this.keys.entries()) {
             if (state === KeyState.JUST_PRESSED) {
-                // Special keys (E, T, P, L) are treated differently
-                if (key === 'e' || key === 't' || key === 'p' || key === 'l') {
-                    // Leave these keys in JUST_PRESSED state 
-                    // They will be reset to UP after being handled
-                    // This is to ensure they work as toggle switches
-                } else {
-                    // For normal keys, move from JUST_PRESSED to DOWN state
-                    this.keys.set(key, KeyState.DOWN);
-                }
+                this.keys.set(key, KeyState.DOWN);
             } else if (state === KeyState.JUST_RELEASED) {
                 // Move from JUST_RELEASED to UP state
                 this.keys.set(key, KeyState.UP);
             }
         }
-    }    /**
-     * Check if a key was just pressed this frame
-     */
-    public wasKeyJustPressed(key: string): boolean {
-        const lowercaseKey = key.toLowerCase();
-        const currentState = this.keys.get(lowercaseKey);
-        const isPressed = currentState === KeyState.JUST_PRESSED;
+        this.pressedSinceUpdate.clear();
+        
+        // Gamepads have no events for buttons, so poll them for the next step
+        this.updateGamepad(delta);
+    }
+    
+    private updateGamepad(delta: number): void {
+        this.gamepad.poll();
+        const held = new Set(this.gamepad.getHeldInputs());
+        
+        for (const name of held) {
+            if (!this.gamepadHeld.has(name)) {
+                this.pressKey(name);
+                this.gamepadRepeat.set(name, Input.GAMEPAD_REPEAT_DELAY);
+            } else if (!this.isKeyDown(name)) {
+                // The game released it after use (see clearAction), so repeat like a held key
+                const remaining = (this.gamepadRepeat.get(name) || 0) - delta;
+                if (remaining <= 0) {
+                    this.pressKey(name);
+                    this.gamepadRepeat.set(name, Input.GAMEPAD_REPEAT_INTERVAL);
+                } else {
+                    this.gamepadRepeat.set(name, remaining);
+                }
+            }
+        }
         
-        // After checking E or T key, set it to UP so it can be pressed again
-        if ((lowercaseKey === 'e' || lowercaseKey === 't' || lowercaseKey === 'p' || lowercaseKey === 'l') && isPressed) {
-            this.keys.set(lowercaseKey, KeyState.UP);
+        // Anything let go of (or on a pad that was unplugged) is released
+        for (const name of this.gamepadHeld) {
+            if (!held.has(name)) {
+                this.keys.set(name, KeyState.JUST_RELEASED);
+                this.gamepadRepeat.delete(name);
+            }
         }
+        this.gamepadHeld = held;
         
-        return isPressed;
+        // The right stick moves the aim cursor in place of the mouse
+        const stick = this.gamepad.getStick('right');
+        if (stick.x !== 0 || stick.y !== 0) {
+            const width = typeof window.innerWidth === 'number' ? window.innerWidth : Infinity;
+            const height = typeof window.innerHeight === 'number' ? window.innerHeight : Infinity;
+            this.mouseX = Math.max(0, Math.min(width, this.mouseX + stick.x * Input.GAMEPAD_CURSOR_SPEED * delta));
+            this.mouseY = Math.max(0, Math.min(height, this.mouseY + stick.y * Input.GAMEPAD_CURSOR_SPEED * delta));
+            this.usingGamepadCursor = true;
+        }
     }
     
     /**
-     * Check if a key was just released this frame
+     * Check if a key was pressed this step (even if it has already been released)
+     */
+    public wasKeyJustPressed(key: string): boolean {
+        return this.pressedSinceUpdate.has(key.toLowerCase());
+    }
+    
+    /**
+     * Check if a key was just released this step
      */
     public wasKeyJustReleased(key: string): boolean {
         return this.keys.get(key.toLowerCase()) === KeyState.JUST_RELEASED;
-    }    /**
+    }
+    
+    /**
      * Simulate a key press - for testing purposes
      */
     public simulateKeyPress(key: string): void {
-        const lowercaseKey = key.toLowerCase();
-        // console.log(`Simulating key press for: ${lowercaseKey}`);
-        
-        // For P and L keys, make sure they get set to JUST_PRESSED regardless of current state
-        // This ensures they work as toggle switches
-        if (lowercaseKey === 'p' || lowercaseKey === 'l') {
-            // console.log(`DEBUG: Simulating ${lowercaseKey.toUpperCase()} key press - setting to JUST_PRESSED`);
-            this.keys.set(lowercaseKey, KeyState.JUST_PRESSED);
-            return;
-        }
-        
-        // For other keys, follow normal key state transition logic
-        const currentState = this.keys.get(lowercaseKey);
-        if (currentState !== KeyState.DOWN && currentState !== KeyState.JUST_PRESSED) {
-            this.keys.set(lowercaseKey, KeyState.JUST_PRESSED);
-        }
-    }    /**
-     * Called after all game logic updates to finalize the key state transitions
-     * This should be called at the end of the game update cycle
+        this.pressKey(key.toLowerCase());
+    }
+    
+    /**
+     * Simulate releasing a key - for testing purposes
      */
-    public finalizeUpdate(): void {
-        // Reset toggle keys that were JUST_PRESSED
-        for (const [key, state] of this.keys.entries()) {
-            if ((key === 'e' || key === 't' || key === 'p' || key === 'l') && state === KeyState.JUST_PRESSED) {
-                this.keys.set(key, KeyState.UP);
-            }
-        }
+    public simulateKeyRelease(key: string): void {
+        this.keys.set(key.toLowerCase(), KeyState.JUST_RELEASED);
     }
     
     /**
@@ -237,6 +342,8 @@ export class Input {
      * @param key The key to clear
      */
     public clearKey(key: string): void {
-        this.keys.delete(key.toLowerCase());
+        const lowercaseKey = key.toLowerCase();
+        this.keys.delete(lowercaseKey);
+        this.pressedSinceUpdate.delete(lowercaseKey);
     }
 }
@@ -0,0 +1,339 @@
+import { KeyValueStorage, getDefaultStorage } from '../utils/storage';
+
+/**
+ * Situations the player can be in. Each action belongs to one context and only
+ * fires while that context is active (see Input.setActiveContexts).
+ */
+export enum InputContext {
+    Menu = 'menu',
+    Gameplay = 'gameplay',    // Always active while playing (pause, camera, debug keys)
+    OnFoot = 'onFoot',
+    AtWheel = 'atWheel',
+    AtCannon = 'atCannon'
+}
+
+/**
+ * Everything the player can do with a key or mouse button
+ */
+export enum Action {
+    // Menus
+    MenuUp = 'MenuUp',
+    MenuDown = 'MenuDown',
+    MenuLeft = 'MenuLeft',
+    MenuRight = 'MenuRight',
+    MenuSelect = 'MenuSelect',
+    MenuBack = 'MenuBack',
+
+    // Gameplay
+    Pause = 'Pause',
+    Interact = 'Interact',
+    ZoomIn = 'ZoomIn',
+    ZoomOut = 'ZoomOut',
+    ToggleMute = 'ToggleMute',
+    QuickSave = 'QuickSave',
+    QuickLoad = 'QuickLoad',
+    ToggleDebug = 'ToggleDebug',
+    TogglePhysicsView = 'TogglePhysicsView',
+    SyncShip = 'SyncShip',
+    SpawnEnemy = 'SpawnEnemy',
+    SpawnBrigantine = 'SpawnBrigantine',
+    SpawnNextShip = 'SpawnNextShip',
+    SpawnAlly = 'SpawnAlly',
+    SpawnEnemyFleet = 'SpawnEnemyFleet',
+    FleetFollow = 'FleetFollow',
+    FleetAttack = 'FleetAttack',
+    FleetHold = 'FleetHold',
+    FleetEscort = 'FleetEscort',
+    FleetFormation = 'FleetFormation',
+    Grapple = 'Grapple',
+    CrewOrders = 'CrewOrders',
+    NextAmmo = 'NextAmmo',
+
+    // On foot
+    MoveForward = 'MoveForward',
+    MoveBack = 'MoveBack',
+    MoveLeft = 'MoveLeft',
+    MoveRight = 'MoveRight',
+    Attack = 'Attack',
+
+    // At the wheel
+    OpenSails = 'OpenSails',
+    CloseSails = 'CloseSails',
+    RudderLeft = 'RudderLeft',
+    RudderRight = 'RudderRight',
+    RotateSailsLeft = 'RotateSailsLeft',
+    RotateSailsRight = 'RotateSailsRight',
+    CenterSails = 'CenterSails',
+
+    // At a cannon
+    FireCannon = 'FireCannon'
+}
+
+export interface ActionDefinition {
+    context: InputContext;
+    label: string;          // Shown in the controls menu
+    defaultKeys: string[];  // Lowercase KeyboardEvent.key values, 'mouse0' for the left button, 'shift+a' for chords,
+                            // 'pad0' for gamepad buttons and 'axis1-' for stick directions (see GamepadInput)
+}
+
+export const ACTION_DEFINITIONS: Record<Action, ActionDefinition> = {
+    [Action.MenuUp]: { context: InputContext.Menu, label: 'Up', defaultKeys: ['arrowup', 'w', 'pad12', 'axis1-'] },
+    [Action.MenuDown]: { context: InputContext.Menu, label: 'Down', defaultKeys: ['arrowdown', 's', 'pad13', 'axis1+'] },
+    [Action.MenuLeft]: { context: InputContext.Menu, label: 'Decrease', defaultKeys: ['arrowleft', 'a', 'pad14', 'axis0-'] },
+    [Action.MenuRight]: { context: InputContext.Menu, label: 'Increase', defaultKeys: ['arrowright', 'd', 'pad15', 'axis0+'] },
+    [Action.MenuSelect]: { context: InputContext.Menu, label: 'Select', defaultKeys: ['enter', ' ', 'pad0'] },
+    [Action.MenuBack]: { context: InputContext.Menu, label: 'Back', defaultKeys: ['escape', 'pad1'] },
+
+    [Action.Pause]: { context: InputContext.Gameplay, label: 'Pause', defaultKeys: ['escape', 'pad9'] },
+    [Action.Interact]: { context: InputContext.Gameplay, label: 'Interact', defaultKeys: ['e', 'pad0'] },
+    [Action.ZoomIn]: { context: InputContext.Gameplay, label: 'Zoom In', defaultKeys: ['z', 'pad5'] },
+    [Action.ZoomOut]: { context: InputContext.Gameplay, label: 'Zoom Out', defaultKeys: ['q', 'pad4'] },
+    [Action.ToggleMute]: { context: InputContext.Gameplay, label: 'Mute', defaultKeys: ['m'] },
+    [Action.QuickSave]: { context: InputContext.Gameplay, label: 'Quick Save', defaultKeys: ['k'] },
+    [Action.QuickLoad]: { context: InputContext.Gameplay, label: 'Quick Load', defaultKeys: ['j'] },
+    [Action.ToggleDebug]: { context: InputContext.Gameplay, label: 'Debug Mode', defaultKeys: ['l'] },
+    [Action.TogglePhysicsView]: { context: InputContext.Gameplay, label: 'Physics View', defaultKeys: ['p'] },
+    [Action.SyncShip]: { context: InputContext.Gameplay, label: 'Sync Ship (debug)', defaultKeys: ['y'] },
+    [Action.SpawnEnemy]: { context: InputContext.Gameplay, label: 'Spawn Enemy (debug)', defaultKeys: ['t'] },
+    [Action.SpawnBrigantine]: { context: InputContext.Gameplay, label: 'Spawn Brigantine (debug)', defaultKeys: ['b'] },
+    [Action.SpawnNextShip]: { context: InputContext.Gameplay, label: 'Spawn Next Ship (debug)', defaultKeys: ['n'] },
+    [Action.SpawnAlly]: { context: InputContext.Gameplay, label: 'Spawn Ally (debug)', defaultKeys: ['u'] },
+    [Action.SpawnEnemyFleet]: { context: InputContext.Gameplay, label: 'Spawn Enemy Fleet (debug)', defaultKeys: ['g'] },
+    [Action.FleetFollow]: { context: InputContext.Gameplay, label: 'Fleet: Follow', defaultKeys: ['1', 'pad12'] },
+    [Action.FleetAttack]: { context: InputContext.Gameplay, label: 'Fleet: Attack Target', defaultKeys: ['2', 'pad15'] },
+    [Action.FleetHold]: { context: InputContext.Gameplay, label: 'Fleet: Hold Position', defaultKeys: ['3', 'pad13'] },
+    [Action.FleetEscort]: { context: InputContext.Gameplay, label: 'Fleet: Escort', defaultKeys: ['4', 'pad14'] },
+    [Action.FleetFormation]: { context: InputContext.Gameplay, label: 'Fleet: Next Formation', defaultKeys: ['f'] },
+    [Action.Grapple]: { context: InputContext.Gameplay, label: 'Throw Grappling Hooks', defaultKeys: ['r', 'pad1'] },
+    [Action.CrewOrders]: { context: InputContext.Gameplay, label: 'Crew Orders', defaultKeys: ['c', 'pad8'] },
+    [Action.NextAmmo]: { context: InputContext.Gameplay, label: 'Change Shot', defaultKeys: ['x', 'pad10'] },
+
+    [Action.MoveForward]: { context: InputContext.OnFoot, label: 'Move Forward', defaultKeys: ['w', 'arrowup', 'axis1-'] },
+    [Action.MoveBack]: { context: InputContext.OnFoot, label: 'Move Back', defaultKeys: ['s', 'arrowdown', 'axis1+'] },
+    [Action.MoveLeft]: { context: InputContext.OnFoot, label: 'Move Left', defaultKeys: ['a', 'arrowleft', 'axis0-'] },
+    [Action.MoveRight]: { context: InputContext.OnFoot, label: 'Move Right', defaultKeys: ['d', 'arrowright', 'axis0+'] },
+    [Action.Attack]: { context: InputContext.OnFoot, label: 'Swing Cutlass', defaultKeys: ['mouse0', 'pad2'] },
+
+    [Action.OpenSails]: { context: InputContext.AtWheel, label: 'Open Sails', defaultKeys: ['w', 'axis1-'] },
+    [Action.CloseSails]: { context: InputContext.AtWheel, label: 'Close Sails', defaultKeys: ['s', 'axis1+'] },
+    [Action.RudderLeft]: { context: InputContext.AtWheel, label: 'Rudder Left', defaultKeys: ['a', 'axis0-'] },
+    [Action.RudderRight]: { context: InputContext.AtWheel, label: 'Rudder Right', defaultKeys: ['d', 'axis0+'] },
+    [Action.RotateSailsLeft]: { context: InputContext.AtWheel, label: 'Rotate Sails Left', defaultKeys: ['shift+a', 'pad6'] },
+    [Action.RotateSailsRight]: { context: InputContext.AtWheel, label: 'Rotate Sails Right', defaultKeys: ['shift+d', 'pad7'] },
+    [Action.CenterSails]: { context: InputContext.AtWheel, label: 'Center Sails', defaultKeys: ['shift', 'pad3'] },
+
+    [Action.FireCannon]: { context: InputContext.AtCannon, label: 'Fire', defaultKeys: ['mouse0', 'pad7'] }
+};
+
+export const CONTEXT_LABELS: Record<InputContext, string> = {
+    [InputContext.Menu]: 'Menus',
+    [InputContext.Gameplay]: 'General',
+    [InputContext.OnFoot]: 'On Foot',
+    [InputContext.AtWheel]: 'At the Wheel',
+    [InputContext.AtCannon]: 'At a Cannon'
+};
+
+export const MODIFIER_KEYS: string[] = ['shift', 'control', 'alt'];
+
+/**
+ * A binding split into the key that triggers it and the modifiers that must be held
+ */
+export interface ParsedBinding {
+    key: string;
+    modifiers: string[];
+}
+
+export function parseBinding(binding: string): ParsedBinding {
+    // Split on '+' but keep a bare '+' key
+    const parts = binding === '+' ? ['+'] : binding.split('+').filter(part => part !== '');
+    const key = parts[parts.length - 1];
+    return { key, modifiers: parts.slice(0, -1) };
+}
+
+export function isModifierKey(key: string): boolean {
+    return MODIFIER_KEYS.includes(key);
+}
+
+/**
+ * Human readable name of a binding, e.g. 'shift+a' -> 'Shift+A'
+ */
+export function formatBinding(binding: string): string {
+    const names: Record<string, string> = {
+        ' ': 'Space',
+        'mouse0': 'Left Click',
+        'mouse2': 'Right Click',
+        'arrowup': 'Up',
+        'arrowdown': 'Down',
+        'arrowleft': 'Left',
+        'arrowright': 'Right',
+        'escape': 'Esc',
+        'control': 'Ctrl',
+        'axis0-': 'Left Stick Left',
+        'axis0+': 'Left Stick Right',
+        'axis1-': 'Left Stick Up',
+        'axis1+': 'Left Stick Down',
+        'axis2-': 'Right Stick Left',
+        'axis2+': 'Right Stick Right',
+        'axis3-': 'Right Stick Up',
+        'axis3+': 'Right Stick Down'
+    };
+    // Standard gamepad mapping button names
+    const padButtons = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', 'D-Up', 'D-Down', 'D-Left', 'D-Right', 'Home'];
+    padButtons.forEach((name, i) => names[`pad${i}`] = `Pad ${name}`);
+
+    const { key, modifiers } = parseBinding(binding);
+    return [...modifiers, key]
+        .map(part => names[part] || (part.length === 1 ? part.toUpperCase() : part.charAt(0).toUpperCase() + part.slice(1)))
+        .join('+');
+}
+
+/**
+ * Two contexts conflict if they can be active at the same time.
+ * Gameplay is active under every in-game context; the menu never overlaps with play.
+ */
+export function contextsOverlap(a: InputContext, b: InputContext): boolean {
+    if (a === b) return true;
+    if (a === InputContext.Menu || b === InputContext.Menu) return false;
+    return a === InputContext.Gameplay || b === InputContext.Gameplay;
+}
+
+/**
+ * The keys bound to each action: the defaults plus the player's changes, which are
+ * persisted so rebinding survives a reload.
+ */
+export class InputBindings {
+    static readonly STORAGE_KEY: string = 'pirateGameBindings';
+
+    private storage: KeyValueStorage;
+    private bindings: Map<Action, string[]> = new Map();
+
+    constructor(storage: KeyValueStorage = getDefaultStorage()) {
+        this.storage = storage;
+        this.resetBindings();
+        this.loadBindings();
+    }
+
+    public getKeys(action: Action): string[] {
+        return this.bindings.get(action) || [];
+    }
+
+    /**
+     * The keys bound to an action as shown to the player, e.g. 'E / Pad A'
+     */
+    public getKeyLabel(action: Action): string {
+        return this.getKeys(action).map(formatBinding).join(' / ') || '(unbound)';
+    }
+
+    public getActionsInContext(context: InputContext): Action[] {
+        return (Object.keys(ACTION_DEFINITIONS) as Action[])
+            .filter(action => ACTION_DEFINITIONS[action].context === context);
+    }
+
+    /**
+     * Whether any action uses this key, alone or as part of a chord
+     */
+    public isBound(key: string): boolean {
+        for (const keys of this.bindings.values()) {
+            if (keys.some(binding => parseBinding(binding).key === key)) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Bind a key to an action, replacing the binding in the given slot.
+     * Actions in overlapping contexts that used the key are given the replaced key
+     * instead (or lose the key if there was none), so a key never does two things at once.
+     * @returns The actions that lost the key
+     */
+    public rebind(action: Action, binding: string, slot: number = 0): Action[] {
+        const keys = [...this.getKeys(action)];
+        const previous = slot < keys.length ? keys[slot] : null;
+        if (previous === binding) return [];
+
+        const context = ACTION_DEFINITIONS[action].context;
+        const displaced: Action[] = [];
+
+        for (const [other, otherKeys] of this.bindings.entries()) {
+            if (other === action || !contextsOverlap(context, ACTION_DEFINITIONS[other].context)) continue;
+
+            const index = otherKeys.indexOf(binding);
+            if (index === -1) continue;
+
+            const updated = [...otherKeys];
+            if (previous !== null && !updated.includes(previous)) {
+                updated[index] = previous;
+            } else {
+                updated.splice(index, 1);
+            }
+            this.bindings.set(other, updated);
+            displaced.push(other);
+        }
+
+        // Don't keep the same key twice on one action
+        const updated = keys.filter(key => key !== binding);
+        if (slot < updated.length) {
+            updated[slot] = binding;
+        } else {
+            updated.push(binding);
+        }
+        this.bindings.set(action, updated);
+
+        this.saveBindings();
+        console.log(`Bound ${formatBinding(binding)} to ${action}` +
+            (displaced.length > 0 ? ` (moved off ${displaced.join(', ')})` : ''));
+        return displaced;
+    }
+
+    /**
+     * Go back to the default keys for every action
+     */
+    public resetToDefaults(): void {
+        this.resetBindings();
+        this.storage.removeItem(InputBindings.STORAGE_KEY);
+        console.log('Key bindings reset to defaults');
+    }
+
+    private resetBindings(): void {
+        this.bindings.clear();
+        for (const action of Object.keys(ACTION_DEFINITIONS) as Action[]) {
+            this.bindings.set(action, [...ACTION_DEFINITIONS[action].defaultKeys]);
+        }
+    }
+
+    /**
+     * Apply the player's saved bindings on top of the defaults
+     */
+    private loadBindings(): void {
+        const json = this.storage.getItem(InputBindings.STORAGE_KEY);
+        if (json === null) return;
+
+        try {
+            const saved = JSON.parse(json);
+            for (const action of Object.keys(saved)) {
+                const keys = saved[action];
+                // Ignore actions that no longer exist and anything that isn't a list of keys
+                if (!(action in ACTION_DEFINITIONS) || !Array.isArray(keys) ||
+                    !keys.every((key: unknown) => typeof key === 'string')) {
+                    console.warn(`Ignoring saved binding for ${action}`);
+                    continue;
+                }
+                this.bindings.set(action as Action, keys);
+            }
+        } catch (error) {
+            console.warn('Failed to load key bindings, using defaults:', error);
+        }
+    }
+
+    private saveBindings(): void {
+        const saved: Record<string, string[]> = {};
+        for (const [action, keys] of this.bindings.entries()) {
+            saved[action] = keys;
+        }
+
+        try {
+            this.storage.setItem(InputBindings.STORAGE_KEY, JSON.stringify(saved));
+        } catch (error) {
+            console.warn('Failed to save key bindings:', error);
+        }
+    }
+}
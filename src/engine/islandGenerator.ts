@@ -1,109 +1,159 @@
 import { Camera } from './camera';
 import { Canvas } from '../utils/canvas';
-import { Color } from '../utils/color';
+import { Color, CollisionCategories } from '../utils/color';
 import * as Matter from 'matter-js';
 import { Physics } from './physics';
 import { Treasure, TreasureType } from '../objects/treasure/treasure';
 import { PowerUp, PowerUpType } from '../objects/powerup/powerup';
+import { SeededRandom } from '../utils/random';
 
 /**
  * Represents an island in the game world
  */
 export interface Island {
+    id: string;
     x: number;
     y: number;
     radius: number;
     body: Matter.Body;
+    hasPort: boolean;       // A village the player can come back to after dying
     treasures: Treasure[];
     powerUps: PowerUp[];
     render: (ctx: CanvasRenderingContext2D) => void;
 }
 
 /**
- * Generates and manages islands in the game world
+ * Decorations on an island, generated once so they don't change between frames
+ */
+interface IslandTree {
+    x: number;
+    y: number;
+    size: number;
+}
+
+interface IslandHouse {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Generates and manages islands in the game world.
+ * The world is split into square chunks and each chunk's islands are generated from
+ * (seed, chunkX, chunkY), so leaving and coming back to an area gives the same islands.
  */
 export class IslandGenerator {
     private camera: Camera;
     private canvas: Canvas;
     private physics: Physics;
+    private seed: number;
     private islands: Island[];
+    private chunks: Map<string, Island[]>;  // Loaded chunks keyed by "chunkX,chunkY"
+    private collectedItems: Set<string>;    // Ids of treasures and power-ups already picked up
     private islandDensity: number;      // Islands per 10000x10000 area
     private generationRadius: number;   // How far from camera to generate islands
     private cullingRadius: number;      // How far from camera to remove islands
+    private islandsChangedCallback: ((islands: Island[]) => void) | null = null;
+    
+    static readonly CHUNK_SIZE: number = 2000;
+    static readonly ISLAND_BUFFER: number = 100; // Minimum gap between islands
+    private static readonly RANDOM_SALT: number = 1;
     
-    constructor(camera: Camera, canvas: Canvas, physics: Physics) {
+    constructor(camera: Camera, canvas: Canvas, physics: Physics, seed: number) {
         this.camera = camera;
         this.canvas = canvas;
         this.physics = physics;
+        this.seed = seed;
         this.islands = [];
+        this.chunks = new Map();
+        this.collectedItems = new Set();
         this.islandDensity = 5;        // Relatively sparse islands
         this.generationRadius = 5000;  // Generate islands quite far out
         this.cullingRadius = 7000;     // Remove islands when very far from player
         
         // Generate initial islands
-        this.generateInitialIslands();
+        this.updateChunks(this.camera.getPosition());
+        console.log(`Generated ${this.islands.length} initial islands from seed ${seed}`);
     }
     
-    private generateInitialIslands(): void {
-        const cameraPos = this.camera.getPosition();
-        
-        // Calculate how many islands to generate in the initial area
-        const area = Math.PI * this.generationRadius * this.generationRadius;
-        const islandCount = Math.floor(this.islandDensity * area / 100000000);
+    public getSeed(): number {
+        return this.seed;
+    }
+    
+    /**
+     * Set a callback to be called whenever islands are loaded or unloaded
+     */
+    public setIslandsChangedCallback(callback: (islands: Island[]) => void): void {
+        this.islandsChangedCallback = callback;
+    }
+    
+    /**
+     * Generate the islands for one chunk. Only depends on the seed and chunk coordinates.
+     */
+    private generateChunk(chunkX: number, chunkY: number): Island[] {
+        const rng = SeededRandom.forChunk(this.seed, IslandGenerator.RANDOM_SALT, chunkX, chunkY);
+        const size = IslandGenerator.CHUNK_SIZE;
+        const islands: Island[] = [];
         
-        console.log(`Generating ${islandCount} initial islands`);
+        // Expected islands per chunk; the fractional part becomes a chance of one more
+        const expected = this.islandDensity * size * size / 100000000;
+        const islandCount = Math.floor(expected) + (rng.chance(expected % 1) ? 1 : 0);
         
         for (let i = 0; i < islandCount; i++) {
-            // Generate random position within generation radius
-            const angle = Math.random() * Math.PI * 2;
-            const distance = Math.random() * this.generationRadius;
-            const x = cameraPos.x + Math.cos(angle) * distance;
-            const y = cameraPos.y + Math.sin(angle) * distance;
-            
             // Generate island radius (vary the size)
-            const radius = 100 + Math.random() * 200;
+            const radius = rng.range(100, 300);
             
-            // Create and add the island
-            const island = this.createIsland(x, y, radius);
-            this.islands.push(island);
+            // Keep the whole island (plus half the buffer) inside its chunk so neighbouring chunks never overlap
+            const margin = radius + IslandGenerator.ISLAND_BUFFER / 2;
+            const x = chunkX * size + rng.range(margin, size - margin);
+            const y = chunkY * size + rng.range(margin, size - margin);
             
-            // Add island to physics world
-            this.physics.addBody(island.body);
+            if (this.isColliding(x, y, radius, islands)) continue;
+            
+            islands.push(this.createIsland(`${chunkX},${chunkY}:${i}`, x, y, radius, rng));
         }
+        
+        return islands;
     }
     
-    private createIsland(x: number, y: number, radius: number): Island {
+    private createIsland(id: string, x: number, y: number, radius: number, rng: SeededRandom): Island {
         // Create physics body for island (static circular body)
         const body = Matter.Bodies.circle(x, y, radius, {
             isStatic: true,
             friction: 0.5,
             restitution: 0.2,
+            collisionFilter: {
+                category: CollisionCategories.ISLAND,
+                mask: CollisionCategories.ALL,
+                group: 0
+            },
             label: 'island'
         });
         
         // Generate random features for the island
-        const treeDensity = Math.random() * 0.8 + 0.2;    // 0.2 to 1.0
-        const beachWidth = radius * 0.2;                  // Beach is 20% of radius
-        const hasVillage = Math.random() > 0.7;           // 30% chance of village
-        const hasTreasure = Math.random() > 0.5;          // 50% chance of treasure
-        const hasPowerUp = Math.random() > 0.8;           // 20% chance of power-up
+        const treeDensity = rng.range(0.2, 1.0);   // 0.2 to 1.0
+        const beachWidth = radius * 0.2;            // Beach is 20% of radius
+        const hasVillage = rng.chance(0.3);         // 30% chance of village
+        const hasTreasure = rng.chance(0.5);        // 50% chance of treasure
+        const hasPowerUp = rng.chance(0.2);         // 20% chance of power-up
         
         // Generate treasures if the island has them
         const treasures: Treasure[] = [];
         
         if (hasTreasure) {
             // Determine number of treasure items
-            const treasureCount = 1 + Math.floor(Math.random() * 3); // 1-3 treasures
+            const treasureCount = rng.int(1, 3); // 1-3 treasures
             
             for (let i = 0; i < treasureCount; i++) {
                 // Random position within island radius (biased towards center)
-                const treasureRadius = radius * (0.3 + Math.random() * 0.4); // 30-70% of island radius
-                const angle = Math.random() * Math.PI * 2;
+                const treasureRadius = radius * rng.range(0.3, 0.7); // 30-70% of island radius
+                const angle = rng.angle();
                 const treasureX = x + Math.cos(angle) * treasureRadius;
                 const treasureY = y + Math.sin(angle) * treasureRadius;
                 
                 // Random treasure type with weighted probabilities
-                const typeRoll = Math.random();
+                const typeRoll = rng.next();
                 let treasureType = TreasureType.COIN; // Default
                 
                 if (typeRoll > 0.9) {
@@ -112,12 +162,13 @@ export class IslandGenerator {
                     treasureType = TreasureType.GEMS; // 30% chance for gems
                 }
                 
+                // Skip treasure that was already collected on a previous visit
+                const treasureId = `${id}:treasure:${i}`;
+                if (this.collectedItems.has(treasureId)) continue;
+                
                 // Create treasure
-                const treasure = new Treasure(treasureX, treasureY, treasureType);
+                const treasure = new Treasure(treasureX, treasureY, treasureType, treasureId);
                 treasures.push(treasure);
-                
-                // Add treasure to physics engine
-                this.physics.addBody(treasure.getBody()!);
             }
         }
         
@@ -126,13 +177,13 @@ export class IslandGenerator {
         
         if (hasPowerUp) {
             // Random position within island radius (biased towards center)
-            const powerUpRadius = radius * (0.3 + Math.random() * 0.4); // 30-70% of island radius
-            const angle = Math.random() * Math.PI * 2;
+            const powerUpRadius = radius * rng.range(0.3, 0.7); // 30-70% of island radius
+            const angle = rng.angle();
             const powerUpX = x + Math.cos(angle) * powerUpRadius;
             const powerUpY = y + Math.sin(angle) * powerUpRadius;
             
             // Random power-up type
-            const typeRoll = Math.random();
+            const typeRoll = rng.next();
             let powerUpType = PowerUpType.REPAIR; // Default
             
             if (typeRoll > 0.7) {
@@ -141,20 +192,26 @@ export class IslandGenerator {
                 powerUpType = PowerUpType.SPEED_BOOST;
             }
             
-            // Create power-up
-            const powerUp = new PowerUp(powerUpX, powerUpY, powerUpType);
-            powerUps.push(powerUp);
-            
-            // Add power-up to physics engine
-            this.physics.addBody(powerUp.getBody()!);
+            // Skip a power-up that was already collected on a previous visit
+            const powerUpId = `${id}:powerup:0`;
+            if (!this.collectedItems.has(powerUpId)) {
+                powerUps.push(new PowerUp(powerUpX, powerUpY, powerUpType, powerUpId));
+            }
         }
         
+        // Decorations are rolled once here so they stay put between frames
+        const interiorRadius = radius - beachWidth;
+        const trees = this.generateTrees(rng, x, y, interiorRadius, treeDensity);
+        const houses = hasVillage ? this.generateVillage(rng, x, y, interiorRadius) : [];
+        
         // Create the island object
         return {
+            id,
             x,
             y,
             radius,
             body,
+            hasPort: hasVillage,
             treasures,
             powerUps,
             render: (ctx: CanvasRenderingContext2D) => {
@@ -166,63 +223,84 @@ export class IslandGenerator {
                 
                 // Draw island interior (grass)
                 ctx.beginPath();
-                ctx.arc(x, y, radius - beachWidth, 0, Math.PI * 2);
+                ctx.arc(x, y, interiorRadius, 0, Math.PI * 2);
                 ctx.fillStyle = Color.ISLAND_GRASS;
                 ctx.fill();
                 
                 // Draw trees (if any)
-                if (treeDensity > 0) {
-                    this.renderTrees(ctx, x, y, radius - beachWidth, treeDensity);
+                if (trees.length > 0) {
+                    this.renderTrees(ctx, trees);
                 }
                 
                 // Draw village (if any)
-                if (hasVillage) {
-                    this.renderVillage(ctx, x, y, radius - beachWidth);
+                if (houses.length > 0) {
+                    this.renderVillage(ctx, houses);
                 }
             }
         };
     }
     
-    private renderTrees(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, density: number): void {
+    private generateTrees(rng: SeededRandom, x: number, y: number, radius: number, density: number): IslandTree[] {
         const treeCount = Math.floor(radius * density * 0.2);
         const forestRadius = radius * 0.8; // Trees don't go all the way to the edge
+        const trees: IslandTree[] = [];
         
         for (let i = 0; i < treeCount; i++) {
             // Random position within forest radius
-            const angle = Math.random() * Math.PI * 2;
-            const distance = Math.random() * forestRadius;
-            const treeX = x + Math.cos(angle) * distance;
-            const treeY = y + Math.sin(angle) * distance;
-            
-            // Random tree size
-            const treeSize = 5 + Math.random() * 10;
+            const angle = rng.angle();
+            const distance = rng.next() * forestRadius;
+            trees.push({
+                x: x + Math.cos(angle) * distance,
+                y: y + Math.sin(angle) * distance,
+                size: rng.range(5, 15) // Random tree size
+            });
+        }
+        
+        return trees;
+    }
+    
+    private generateVillage(rng: SeededRandom, x: number, y: number, radius: number): IslandHouse[] {
+        const houseCount = rng.int(3, 7); // 3-7 houses
+        const villageRadius = radius * 0.6; // Village is centered on the island
+        const houses: IslandHouse[] = [];
+        
+        for (let i = 0; i < houseCount; i++) {
+            // Random position within village radius
+            const angle = rng.angle();
+            const distance = rng.next() * villageRadius;
+            houses.push({
+                x: x + Math.cos(angle) * distance,
+                y: y + Math.sin(angle) * distance,
+                width: rng.range(15, 25),  // Random house size
+                height: rng.range(10, 15)
+            });
+        }
+        
+        return houses;
+    }
+    
+    private renderTrees(ctx: CanvasRenderingContext2D, trees: IslandTree[]): void {
+        for (const tree of trees) {
+            const treeSize = tree.size;
             
             // Draw tree trunk (brown)
             ctx.fillStyle = Color.BROWN;
-            ctx.fillRect(treeX - treeSize/4, treeY - treeSize/2, treeSize/2, treeSize);
+            ctx.fillRect(tree.x - treeSize/4, tree.y - treeSize/2, treeSize/2, treeSize);
             
             // Draw tree foliage (green circle)
             ctx.beginPath();
-            ctx.arc(treeX, treeY - treeSize/2 - treeSize, treeSize, 0, Math.PI * 2);
+            ctx.arc(tree.x, tree.y - treeSize/2 - treeSize, treeSize, 0, Math.PI * 2);
             ctx.fillStyle = Color.ISLAND_TREE;
             ctx.fill();
         }
     }
     
-    private renderVillage(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number): void {
-        const houseCount = 3 + Math.floor(Math.random() * 5); // 3-7 houses
-        const villageRadius = radius * 0.6; // Village is centered on the island
-        
-        for (let i = 0; i < houseCount; i++) {
-            // Random position within village radius
-            const angle = Math.random() * Math.PI * 2;
-            const distance = Math.random() * villageRadius;
-            const houseX = x + Math.cos(angle) * distance;
-            const houseY = y + Math.sin(angle) * distance;
-            
-            // Random house size
-            const houseWidth = 15 + Math.random() * 10;
-            const houseHeight = 10 + Math.random() * 5;
+    private renderVillage(ctx: CanvasRenderingContext2D, houses: IslandHouse[]): void {
+        for (const house of houses) {
+            const houseX = house.x;
+            const houseY = house.y;
+            const houseWidth = house.width;
+            const houseHeight = house.height;
             
             // Draw house
             ctx.fillStyle = Color.HOUSE_WALL;
@@ -247,98 +325,152 @@ export class IslandGenerator {
      * Update islands based on camera position
      */
     public update(): void {
-        const cameraPos = this.camera.getPosition();
+        // Load chunks coming into range and unload the ones left behind
+        this.updateChunks(this.camera.getPosition());
         
-        // Remove islands that are too far from camera
-        for (let i = this.islands.length - 1; i >= 0; i--) {
-            const island = this.islands[i];
-            const dx = island.x - cameraPos.x;
-            const dy = island.y - cameraPos.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
+        // Update treasures and power-ups
+        for (const island of this.islands) {
+            for (const treasure of island.treasures) {
+                treasure.update(1/60); // Use a fixed delta time for simplicity
+            }
             
-            if (distance > this.cullingRadius) {
-                // Remove treasures from physics world
-                for (const treasure of island.treasures) {
-                    this.physics.removeBody(treasure.getBody()!);
-                }
-                
-                // Remove power-ups from physics world
-                for (const powerUp of island.powerUps) {
-                    this.physics.removeBody(powerUp.getBody()!);
-                }
-                
-                // Remove island from physics world
-                this.physics.removeBody(island.body);
-                
-                // Remove island from array
-                this.islands.splice(i, 1);
-            } else {
-                // Update treasures and power-ups
-                for (const treasure of island.treasures) {
-                    treasure.update(1/60); // Use a fixed delta time for simplicity
-                }
-                
-                for (const powerUp of island.powerUps) {
-                    powerUp.update(1/60); // Use a fixed delta time for simplicity
-                }
+            for (const powerUp of island.powerUps) {
+                powerUp.update(1/60); // Use a fixed delta time for simplicity
             }
         }
-        
-        // Generate new islands if needed
-        this.generateIslandsAroundCamera(cameraPos);
     }
     
-    private generateIslandsAroundCamera(cameraPos: { x: number; y: number }): void {
-        // Calculate area to check for new islands
-        const checkRadius = this.generationRadius * 0.8;
-        const checkArea = Math.PI * checkRadius * checkRadius;
-        const targetIslandCount = Math.floor(this.islandDensity * checkArea / 100000000);
+    /**
+     * Load every chunk within the generation radius and unload chunks beyond the culling radius
+     */
+    private updateChunks(cameraPos: { x: number; y: number }): void {
+        const size = IslandGenerator.CHUNK_SIZE;
+        let changed = false;
         
-        // Count islands within check radius
-        let islandsInRange = 0;
-        this.islands.forEach(island => {
-            const dx = island.x - cameraPos.x;
-            const dy = island.y - cameraPos.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
+        // Unload chunks whose centre is too far from the camera
+        for (const [key, islands] of this.chunks) {
+            const [chunkX, chunkY] = key.split(',').map(Number);
+            const dx = (chunkX + 0.5) * size - cameraPos.x;
+            const dy = (chunkY + 0.5) * size - cameraPos.y;
             
-            if (distance <= checkRadius) {
-                islandsInRange++;
+            if (Math.sqrt(dx * dx + dy * dy) > this.cullingRadius) {
+                for (const island of islands) {
+                    this.removeIsland(island);
+                }
+                this.chunks.delete(key);
+                changed = true;
             }
-        });
+        }
         
-        // Generate new islands if needed
-        const islandsToGenerate = Math.max(0, targetIslandCount - islandsInRange);
+        // Load chunks whose centre is within the generation radius
+        const minX = Math.floor((cameraPos.x - this.generationRadius) / size);
+        const maxX = Math.floor((cameraPos.x + this.generationRadius) / size);
+        const minY = Math.floor((cameraPos.y - this.generationRadius) / size);
+        const maxY = Math.floor((cameraPos.y + this.generationRadius) / size);
         
-        for (let i = 0; i < islandsToGenerate; i++) {
-            // Generate at the edge of generation radius
-            const angle = Math.random() * Math.PI * 2;
-            const distance = this.generationRadius * 0.8 + Math.random() * this.generationRadius * 0.2;
-            const x = cameraPos.x + Math.cos(angle) * distance;
-            const y = cameraPos.y + Math.sin(angle) * distance;
-            
-            // Generate island radius (vary the size)
-            const radius = 100 + Math.random() * 200;
-            
-            // Check for collision with existing islands
-            if (!this.isColliding(x, y, radius)) {
-                // Create and add the island
-                const island = this.createIsland(x, y, radius);
-                this.islands.push(island);
+        for (let chunkX = minX; chunkX <= maxX; chunkX++) {
+            for (let chunkY = minY; chunkY <= maxY; chunkY++) {
+                const key = `${chunkX},${chunkY}`;
+                if (this.chunks.has(key)) continue;
                 
-                // Add island to physics world
-                this.physics.addBody(island.body);
+                const dx = (chunkX + 0.5) * size - cameraPos.x;
+                const dy = (chunkY + 0.5) * size - cameraPos.y;
+                if (Math.sqrt(dx * dx + dy * dy) > this.generationRadius) continue;
                 
-                console.log(`Generated new island at (${Math.round(x)}, ${Math.round(y)})`);
+                const islands = this.generateChunk(chunkX, chunkY);
+                for (const island of islands) {
+                    this.addIsland(island);
+                }
+                this.chunks.set(key, islands);
+                changed = true;
             }
         }
+        
+        if (changed && this.islandsChangedCallback) {
+            this.islandsChangedCallback(this.islands);
+        }
+    }
+    
+    /**
+     * Add an island and its items to the physics world
+     */
+    private addIsland(island: Island): void {
+        this.physics.addBody(island.body);
+        for (const treasure of island.treasures) {
+            this.physics.addBody(treasure.getBody()!);
+        }
+        for (const powerUp of island.powerUps) {
+            this.physics.addBody(powerUp.getBody()!);
+        }
+        this.islands.push(island);
+    }
+    
+    /**
+     * Remove an island and its remaining items from the physics world
+     */
+    private removeIsland(island: Island): void {
+        // Remove treasures from physics world
+        for (const treasure of island.treasures) {
+            this.physics.removeBody(treasure.getBody()!);
+        }
+        
+        // Remove power-ups from physics world
+        for (const powerUp of island.powerUps) {
+            this.physics.removeBody(powerUp.getBody()!);
+        }
+        
+        // Remove island from physics world
+        this.physics.removeBody(island.body);
+        
+        const index = this.islands.indexOf(island);
+        if (index !== -1) {
+            this.islands.splice(index, 1);
+        }
     }
     
-    private isColliding(x: number, y: number, radius: number): boolean {
+    /**
+     * Remember that a treasure or power-up was picked up so it doesn't come back when its chunk regenerates
+     */
+    public markCollected(itemId: string): void {
+        if (itemId) {
+            this.collectedItems.add(itemId);
+        }
+    }
+    
+    public isCollected(itemId: string): boolean {
+        return this.collectedItems.has(itemId);
+    }
+    
+    /**
+     * Ids of every treasure and power-up picked up so far
+     */
+    public getCollectedItems(): string[] {
+        return Array.from(this.collectedItems);
+    }
+    
+    /**
+     * Throw away the current islands and regenerate the world from a seed,
+     * leaving out items that have already been collected (e.g. when loading a save)
+     */
+    public reset(seed: number, collectedItems: string[] = []): void {
+        for (const island of [...this.islands]) {
+            this.removeIsland(island);
+        }
+        this.chunks.clear();
+        
+        this.seed = seed;
+        this.collectedItems = new Set(collectedItems);
+        
+        this.updateChunks(this.camera.getPosition());
+        console.log(`Regenerated ${this.islands.length} islands from seed ${seed}`);
+    }
+    
+    private isColliding(x: number, y: number, radius: number, islands: Island[]): boolean {
         // Check if a new island would collide with existing islands
         // Add some buffer space between islands
-        const buffer = 100;
+        const buffer = IslandGenerator.ISLAND_BUFFER;
         
-        for (const island of this.islands) {
+        for (const island of islands) {
             const dx = island.x - x;
             const dy = island.y - y;
             const distance = Math.sqrt(dx * dx + dy * dy);
@@ -2,6 +2,9 @@ import * as Matter from 'matter-js';
 import { EffectManager } from '../objects/effects/effectManager';
 import { SoundManager } from './soundManager';
 import { Camera } from './camera';
+import { Cannonball } from '../objects/projectiles/cannonball';
+import { Ships } from '../objects/ships/ships';
+import { CurrentSystem } from './currentSystem';
 
 export declare class Physics {
     constructor();
@@ -9,9 +12,12 @@ export declare class Physics {
     getWorld(): Matter.World;
     setEffectManager(effectManager: EffectManager): void;
     setSoundManager(soundManager: SoundManager): void;
+    setCurrentSystem(currentSystem: CurrentSystem | null): void;
+    setCurrentExempt(body: Matter.Body, exempt: boolean): void;
     getWorldBounds(): Matter.Bounds;
     setWorldBounds(bounds: Matter.Bounds): void;
     update(deltaTime: number): void;
+    getWaterVelocityAt(x: number, y: number): { x: number, y: number };
     renderAllBodies(ctx: CanvasRenderingContext2D, camera: Camera): void;
     renderDebugOverlay(ctx: CanvasRenderingContext2D): void;
     getCollisionPointsCount(): number;
@@ -27,4 +33,11 @@ export declare class Physics {
     manualCollisionCheck(): void;
     addBody(body: Matter.Body): void;
     removeBody(body: Matter.Body): void;
+    setBlastCallback(callback: (x: number, y: number, radius: number, damage: number) => void): void;
+    setPlayerStruckCallback(callback: (ship: Ships, speed: number) => void): void;
+    reportBlast(x: number, y: number, radius: number, damage: number): void;
+    addProjectile(cannonball: Cannonball): void;
+    removeProjectile(cannonball: Cannonball): void;
+    registerShip(ship: Ships): void;
+    unregisterShip(ship: Ships): void;
 }
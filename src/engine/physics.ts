@@ -6,6 +6,10 @@ import { BaseGameObject } from '../objects/objects';
 import { EffectManager } from '../objects/effects/effectManager';
 import { SoundManager } from './soundManager';
 import { CollisionHelper } from './collisionHelper';
+import { Cannonball } from '../objects/projectiles/cannonball';
+import { AMMUNITION } from '../objects/projectiles/ammunition';
+import { Ships } from '../objects/ships/ships';
+import { CurrentSystem } from './currentSystem';
 
 export class Physics {
     private engine: Matter.Engine;
@@ -20,6 +24,20 @@ export class Physics {
         normal: Matter.Vector,
         time: number
     }> = new Map();
+    // Projectiles in flight, keyed by body id, and ships that can be hit by them
+    private projectiles: Map<number, Cannonball> = new Map();
+    private ships: Ships[] = [];
+    // Water movement, and bodies it doesn't act on directly (e.g. a player standing on a deck)
+    private currentSystem: CurrentSystem | null = null;
+    private currentExemptBodies: Set<Matter.Body> = new Set();
+    private lastDeltaTime: number = 1000 / 60; // Length of the last step in milliseconds
+    // Told about blasts and ships running into the player, so the player can be hurt
+    private blastCallback: ((x: number, y: number, radius: number, damage: number) => void) | null = null;
+    private playerStruckCallback: ((ship: Ships, speed: number) => void) | null = null;
+    
+    static readonly MIN_CURRENT_COUPLING: number = 0.01; // Pull of the current on bodies without air friction, like cannonballs
+    static readonly ISLAND_HEIGHT: number = 40;          // Shot flying higher than this passes over an island
+    static readonly CURRENT_ARROW_SPACING: number = 200; // World units between arrows in the debug overlay
     
     constructor() {
         this.engine = Matter.Engine.create();
@@ -63,6 +81,15 @@ export class Physics {
      * Set up event handlers to track collisions for debug visualization
      */
     private setupCollisionTracking(): void {
+        // A ball that entered a body's outline flying over it can still come down on it
+        Matter.Events.on(this.engine, 'collisionActive', (event) => {
+            for (const pair of event.pairs) {
+                if (this.isProjectileBody(pair.bodyA) || this.isProjectileBody(pair.bodyB)) {
+                    this.handleProjectileCollision(pair);
+                }
+            }
+        });
+        
         // Track collisions for debug visualization
         Matter.Events.on(this.engine, 'collisionStart', (event) => {
             const pairs = event.pairs;
@@ -75,6 +102,17 @@ export class Physics {
                 // Debug output for any collision
                 console.log(`Collision detected between ${bodyA.label} and ${bodyB.label}`);
                 
+                // Projectile hits are handled separately from debug collision tracking
+                if (this.isProjectileBody(bodyA) || this.isProjectileBody(bodyB)) {
+                    this.handleProjectileCollision(pair);
+                    continue;
+                }
+                
+                // A ship running into the player knocks it about
+                if (bodyA.label === 'player' || bodyB.label === 'player') {
+                    this.handlePlayerStruck(pair);
+                }
+                
                 // Always log player-brigantine collisions (not just in debug mode)
                 if ((bodyA.label === 'player' && bodyB.label === 'brigantine') ||
                     (bodyB.label === 'player' && bodyA.label === 'brigantine')) {
@@ -163,6 +201,170 @@ export class Physics {
         });
     }
     
+    /**
+     * Check if a body belongs to the PROJECTILE collision category
+     */
+    private isProjectileBody(body: Matter.Body): boolean {
+        return (body.collisionFilter.category ?? 0) === CollisionCategories.PROJECTILE;
+    }
+    
+    /**
+     * Resolve a projectile striking another body: damage the ship part that was hit
+     * and play the matching effects and sounds
+     */
+    private handleProjectileCollision(pair: Matter.Pair): void {
+        const projectileBody = this.isProjectileBody(pair.bodyA) ? pair.bodyA : pair.bodyB;
+        const otherBody = projectileBody === pair.bodyA ? pair.bodyB : pair.bodyA;
+        
+        // Ignore projectile-projectile contacts and cannonballs that already hit something
+        if (this.isProjectileBody(otherBody)) return;
+        const cannonball = this.projectiles.get(projectileBody.id);
+        if (!cannonball || cannonball.hasHit()) return;
+        
+        // Impact point from the collision supports, falling back to the projectile position
+        const point = (pair.collision && pair.collision.supports && pair.collision.supports.length > 0) ?
+            { x: pair.collision.supports[0].x, y: pair.collision.supports[0].y } :
+            { x: projectileBody.position.x, y: projectileBody.position.y };
+        
+        // Cannonballs smash against islands without doing damage, unless they fly over
+        if (otherBody.label === 'island') {
+            if (cannonball.getHeight() > Physics.ISLAND_HEIGHT) return;
+
+            cannonball.markHit();
+            if (this.effectManager) {
+                this.effectManager.createCollisionImpact(point.x, point.y, 15);
+            }
+            if (this.soundManager) {
+                this.soundManager.playSound('collision', 0.4);
+            }
+            return;
+        }
+        
+        // Find the ship that owns the struck body
+        const ship = this.ships.find(s => s.ownsBody(otherBody));
+        if (!ship) return;
+        
+        // Ships can't hit themselves with their own cannons, and shot can pass over a low hull
+        if (ship === cannonball.getOwner()) return;
+        if (cannonball.getHeight() > ship.getHitHeight(otherBody)) return;
+        
+        const damage = cannonball.getDamage();
+        const ammo = AMMUNITION[cannonball.getAmmo()];
+        const target = ship.applyProjectileHit(otherBody, damage, point, cannonball.getAmmo());
+        cannonball.markHit();
+        
+        console.log(`${ammo.name} hit ${ship.constructor.name} ${target} (${otherBody.label}) for ${damage} damage`);
+        
+        // Effects and sounds depend on what was struck; flying splinters (or grape) hurt anyone close by
+        if (target === 'module') {
+            if (this.effectManager) {
+                this.effectManager.createCollisionImpact(point.x, point.y, 20);
+            }
+            if (this.soundManager) {
+                this.soundManager.playSound('damage', 0.5);
+            }
+            this.reportBlast(point.x, point.y, 20 + ammo.blastRadius, damage / 2 * ammo.blastDamage);
+        } else {
+            if (this.effectManager) {
+                this.effectManager.createExplosion(point.x, point.y, 30 + damage * 2);
+            }
+            if (this.soundManager) {
+                this.soundManager.playSound('explosion', 0.5);
+            }
+            this.reportBlast(point.x, point.y, 30 + damage * 2 + ammo.blastRadius, damage * ammo.blastDamage);
+        }
+    }
+    
+    /**
+     * Work out how hard a ship ran into the player: how fast the ship was moving towards it
+     */
+    private handlePlayerStruck(pair: Matter.Pair): void {
+        const playerBody = pair.bodyA.label === 'player' ? pair.bodyA : pair.bodyB;
+        const otherBody = playerBody === pair.bodyA ? pair.bodyB : pair.bodyA;
+        const ship = this.ships.find(s => s.ownsBody(otherBody));
+        if (!ship || !this.playerStruckCallback) return;
+        
+        const contact = (pair.collision && pair.collision.supports && pair.collision.supports.length > 0) ?
+            pair.collision.supports[0] : otherBody.position;
+        const dx = playerBody.position.x - contact.x;
+        const dy = playerBody.position.y - contact.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance === 0) return;
+        
+        // Parts of a compound hull don't carry the ship's velocity themselves
+        const velocity = otherBody.parent.velocity;
+        const speed = (velocity.x * dx + velocity.y * dy) / distance;
+        if (speed > 0) {
+            this.playerStruckCallback(ship, speed);
+        }
+    }
+    
+    /**
+     * Set the function told about every blast, e.g. to hurt a player caught in it
+     */
+    public setBlastCallback(callback: (x: number, y: number, radius: number, damage: number) => void): void {
+        this.blastCallback = callback;
+    }
+    
+    /**
+     * Set the function told when a ship runs into the player
+     * @param callback Given the ship and its speed towards the player, per step
+     */
+    public setPlayerStruckCallback(callback: (ship: Ships, speed: number) => void): void {
+        this.playerStruckCallback = callback;
+    }
+    
+    /**
+     * Report an explosion or splash that hurts anything within its radius
+     * @param damage Damage at the centre of the blast
+     */
+    public reportBlast(x: number, y: number, radius: number, damage: number): void {
+        if (this.blastCallback) {
+            this.blastCallback(x, y, radius, damage);
+        }
+    }
+    
+    /**
+     * Add a projectile to the world so its hits are routed through collision events
+     */
+    public addProjectile(cannonball: Cannonball): void {
+        const body = cannonball.getBody();
+        if (!body) return;
+        
+        this.projectiles.set(body.id, cannonball);
+        this.addBody(body);
+    }
+    
+    /**
+     * Remove a projectile from the world
+     */
+    public removeProjectile(cannonball: Cannonball): void {
+        const body = cannonball.getBody();
+        if (!body) return;
+        
+        this.projectiles.delete(body.id);
+        this.removeBody(body);
+    }
+    
+    /**
+     * Register a ship so projectiles can damage it
+     */
+    public registerShip(ship: Ships): void {
+        if (!this.ships.includes(ship)) {
+            this.ships.push(ship);
+        }
+    }
+    
+    /**
+     * Stop tracking a ship for projectile hits
+     */
+    public unregisterShip(ship: Ships): void {
+        const index = this.ships.indexOf(ship);
+        if (index !== -1) {
+            this.ships.splice(index, 1);
+        }
+    }
+    
     /**
      * Remove old collision points to prevent memory buildup
      */
@@ -187,6 +389,24 @@ export class Physics {
         this.soundManager = soundManager;
     }
     
+    /**
+     * Set the currents that carry every floating body along
+     */
+    public setCurrentSystem(currentSystem: CurrentSystem | null): void {
+        this.currentSystem = currentSystem;
+    }
+    
+    /**
+     * Stop (or restart) the current acting on a body that is carried by something else
+     */
+    public setCurrentExempt(body: Matter.Body, exempt: boolean): void {
+        if (exempt) {
+            this.currentExemptBodies.add(body);
+        } else {
+            this.currentExemptBodies.delete(body);
+        }
+    }
+    
     /**
      * Get the bounds of the physics world
      */
@@ -216,6 +436,10 @@ export class Physics {
      * @param deltaTime Time since last update in milliseconds
      */
     public update(deltaTime: number): void {
+        // Let the water carry floating bodies before they move
+        this.lastDeltaTime = deltaTime;
+        this.applyCurrents(deltaTime);
+        
         // Update physics simulation with fixed time step
         Matter.Engine.update(this.engine, deltaTime);
         
@@ -233,6 +457,38 @@ export class Physics {
         }
     }
     
+    /**
+     * Velocity of the water at a point, in Matter's per-step units (still water without currents)
+     */
+    public getWaterVelocityAt(x: number, y: number): { x: number, y: number } {
+        if (!this.currentSystem) return { x: 0, y: 0 };
+        
+        const current = this.currentSystem.getCurrentAt(x, y);
+        return { x: current.x * this.lastDeltaTime / 1000, y: current.y * this.lastDeltaTime / 1000 };
+    }
+    
+    /**
+     * Drag every moving body towards the water's velocity where it is. Matter's air friction
+     * pulls bodies towards rest each step; nudging them by the current scaled by the same
+     * friction means a drifting body settles at the current's speed instead.
+     * @param deltaTime Step length in milliseconds
+     */
+    private applyCurrents(deltaTime: number): void {
+        if (!this.currentSystem) return;
+        
+        for (const body of Matter.Composite.allBodies(this.world)) {
+            if (body.isStatic || this.currentExemptBodies.has(body)) continue;
+            
+            // Matter velocities are per step, currents per second
+            const current = this.currentSystem.getCurrentAt(body.position.x, body.position.y);
+            const pull = Math.max(body.frictionAir, Physics.MIN_CURRENT_COUPLING) * deltaTime / 1000;
+            Matter.Body.setVelocity(body, {
+                x: body.velocity.x + current.x * pull,
+                y: body.velocity.y + current.y * pull
+            });
+        }
+    }
+    
     /**
      * Render all physics bodies to the canvas for debugging
      * This should be called after the regular game rendering
@@ -245,6 +501,9 @@ export class Physics {
         // Apply camera transformation
         camera.applyTransform(ctx);
         
+        // Currents underneath everything else
+        this.renderCurrents(ctx, camera);
+        
         // Get all bodies
         const bodies = Matter.Composite.allBodies(this.world);
         
@@ -310,6 +569,41 @@ export class Physics {
         this.renderCollisionPoints(ctx, camera);
     }
     
+    /**
+     * Vector-field overlay of the currents across the visible part of the world
+     */
+    private renderCurrents(ctx: CanvasRenderingContext2D, camera: Camera): void {
+        if (!this.currentSystem) return;
+        
+        const spacing = Physics.CURRENT_ARROW_SPACING;
+        const topLeft = camera.screenToWorld(0, 0);
+        const bottomRight = camera.screenToWorld(ctx.canvas.width, ctx.canvas.height);
+        const arrowScale = 2; // World units of arrow per world unit per second of current
+        
+        ctx.save();
+        ctx.strokeStyle = 'rgba(100, 200, 255, 0.5)';
+        ctx.lineWidth = 2;
+        
+        for (let x = Math.floor(topLeft.x / spacing) * spacing; x <= bottomRight.x; x += spacing) {
+            for (let y = Math.floor(topLeft.y / spacing) * spacing; y <= bottomRight.y; y += spacing) {
+                const current = this.currentSystem.getCurrentAt(x, y);
+                const tipX = x + current.x * arrowScale;
+                const tipY = y + current.y * arrowScale;
+                const angle = Math.atan2(current.y, current.x);
+                
+                ctx.beginPath();
+                ctx.moveTo(x, y);
+                ctx.lineTo(tipX, tipY);
+                ctx.lineTo(tipX - Math.cos(angle - 0.5) * 10, tipY - Math.sin(angle - 0.5) * 10);
+                ctx.moveTo(tipX, tipY);
+                ctx.lineTo(tipX - Math.cos(angle + 0.5) * 10, tipY - Math.sin(angle + 0.5) * 10);
+                ctx.stroke();
+            }
+        }
+        
+        ctx.restore();
+    }
+    
     /**
      * Draw a single physics body for debugging
      * @param ctx The canvas rendering context
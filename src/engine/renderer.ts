@@ -4,6 +4,10 @@ import { Camera } from './camera';
 import { WorldGenerator } from './worldGenerator';
 import { Color } from '../utils/color';
 import { Physics } from './physics';
+import { WindSystem } from './windSystem';
+import { Player } from '../objects/player';
+import { Action, ACTION_DEFINITIONS, InputBindings } from './inputBindings';
+import { angleDifference } from '../utils/angles';
 
 export class Renderer {
     private canvas: Canvas;
@@ -11,9 +15,20 @@ export class Renderer {
     private camera: Camera | null;
     private worldGenerator: WorldGenerator | null;
     private physics: Physics | null;
+    private windSystem: WindSystem | null = null;
+    private player: Player | null = null;
+    private bindings: InputBindings | null = null;
+    private worldSeed: number | null = null;
     private showPhysicsWorld: boolean = false; 
     private showDebugHUD: boolean = false; // Flag to toggle debug HUD visibility
     
+    // Object states at the start of the latest physics step, used to interpolate between steps
+    private previousStates: Map<GameObject, { x: number, y: number, rotation: number }> = new Map();
+    private interpolationAlpha: number = 1;
+    
+    // Movement larger than this in a single step is treated as a teleport and not smoothed
+    private static readonly MAX_INTERPOLATION_DISTANCE: number = 200;
+    
     constructor(canvas: Canvas) {
         this.canvas = canvas;
         this.gameObjects = [];
@@ -46,6 +61,31 @@ export class Renderer {
         return this.physics;
     }
     
+    public setWindSystem(windSystem: WindSystem): void {
+        this.windSystem = windSystem;
+    }
+    
+    /**
+     * Set the player whose health and stamina are shown on the HUD
+     */
+    public setPlayer(player: Player): void {
+        this.player = player;
+    }
+    
+    /**
+     * Set the key bindings named in the HUD's hints
+     */
+    public setInputBindings(bindings: InputBindings): void {
+        this.bindings = bindings;
+    }
+    
+    /**
+     * Set the world seed shown in the debug HUD
+     */
+    public setWorldSeed(seed: number): void {
+        this.worldSeed = seed;
+    }
+    
     /**
      * Set whether to show the physics world (separate from debug mode)
      */
@@ -87,10 +127,34 @@ export class Renderer {
         if (index !== -1) {
             this.gameObjects.splice(index, 1);
         }
+        this.previousStates.delete(gameObject);
     }
     
-    public render(): void {
+    /**
+     * Snapshot object and camera positions before a fixed physics step
+     */
+    public storePreviousStates(): void {
+        for (const gameObject of this.gameObjects) {
+            const pos = gameObject.getPosition();
+            this.previousStates.set(gameObject, { x: pos.x, y: pos.y, rotation: gameObject.getRotation() });
+        }
+        
+        if (this.camera) {
+            this.camera.storePreviousPosition();
+        }
+    }
+    
+    /**
+     * Render the scene
+     * @param alpha How far between the previous and current physics step to draw (0-1)
+     */
+    public render(alpha: number = 1): void {
         const ctx = this.canvas.getContext();
+        this.interpolationAlpha = Math.max(0, Math.min(1, alpha));
+        
+        if (this.camera) {
+            this.camera.setInterpolationAlpha(this.interpolationAlpha);
+        }
         
         // Clear the canvas
         this.canvas.clear();
@@ -219,7 +283,7 @@ export class Renderer {
             // Render the object at each position
             if (reflectionPositions.length > 1) {
                 // First position is the original, render it normally
-                gameObject.render(ctx);
+                this.renderInterpolated(ctx, gameObject);
                 
                 // For reflections, we need to manually render them
                 for (let i = 1; i < reflectionPositions.length; i++) {
@@ -232,18 +296,55 @@ export class Renderer {
                     ctx.translate(offsetX, offsetY);
                     
                     // Render the object
-                    gameObject.render(ctx);
+                    this.renderInterpolated(ctx, gameObject);
                     
                     // Restore context
                     ctx.restore();
                 }
             } else {
                 // No reflections needed, render normally
-                gameObject.render(ctx);
+                this.renderInterpolated(ctx, gameObject);
             }
         }
     }
     
+    /**
+     * Render an object at its interpolated position and rotation.
+     * Objects draw themselves at their current physics state, so the context is shifted
+     * back by the part of the last step that hasn't been "reached" yet.
+     */
+    private renderInterpolated(ctx: CanvasRenderingContext2D, gameObject: GameObject): void {
+        const previous = this.previousStates.get(gameObject);
+        if (!previous || this.interpolationAlpha >= 1) {
+            gameObject.render(ctx);
+            return;
+        }
+        
+        const pos = gameObject.getPosition();
+        const dx = pos.x - previous.x;
+        const dy = pos.y - previous.y;
+        
+        // Don't smooth teleports (respawns, world wrapping)
+        if (Math.sqrt(dx * dx + dy * dy) > Renderer.MAX_INTERPOLATION_DISTANCE) {
+            gameObject.render(ctx);
+            return;
+        }
+        
+        // Shortest signed rotation change over the step
+        const dRotation = angleDifference(gameObject.getRotation(), previous.rotation);
+        
+        const alpha = this.interpolationAlpha;
+        const renderX = previous.x + dx * alpha;
+        const renderY = previous.y + dy * alpha;
+        
+        ctx.save();
+        ctx.translate(renderX, renderY);
+        ctx.rotate(-dRotation * (1 - alpha));
+        ctx.translate(-pos.x, -pos.y);
+        gameObject.render(ctx);
+        ctx.restore();
+    }
+    
     /**
      * Estimates the radius of a game object for reflection calculations
      */
@@ -345,6 +446,53 @@ export class Renderer {
             // Display a small compass for navigation
             this.renderCompass(ctx);
         }
+        
+        if (this.player) {
+            this.renderPlayerStatus(ctx, this.player);
+        }
+    }
+    
+    /**
+     * Health bar in the bottom-left corner, with stamina underneath while swimming
+     */
+    private renderPlayerStatus(ctx: CanvasRenderingContext2D, player: Player): void {
+        const x = 15;
+        const width = 200;
+        const height = 14;
+        let y = this.canvas.getHeight() - 40;
+        
+        ctx.save();
+        ctx.font = 'bold 11px Arial';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        
+        const bars = [{ label: 'Health', fraction: player.getHealth() / Player.MAX_HEALTH, color: '#E53935' }];
+        if (player.isSwimming()) {
+            bars.push({ label: 'Stamina', fraction: player.getStamina() / Player.MAX_STAMINA, color: '#4FC3F7' });
+            y -= height + 6;
+        }
+        
+        for (const bar of bars) {
+            const fraction = Math.max(0, Math.min(1, bar.fraction));
+            ctx.fillStyle = Color.UI_BACKGROUND;
+            ctx.fillRect(x, y, width, height);
+            ctx.fillStyle = bar.color;
+            ctx.fillRect(x, y, width * fraction, height);
+            ctx.strokeStyle = Color.UI_HIGHLIGHT;
+            ctx.lineWidth = 1;
+            ctx.strokeRect(x, y, width, height);
+            
+            ctx.fillStyle = Color.UI_TEXT;
+            ctx.fillText(`${bar.label}: ${Math.ceil(fraction * 100)}%`, x + 5, y + height / 2);
+            y += height + 6;
+        }
+        
+        if (player.isAloft()) {
+            ctx.fillStyle = Color.UI_HIGHLIGHT;
+            const keys = this.bindings ? this.bindings.getKeyLabel(Action.Interact) : ACTION_DEFINITIONS[Action.Interact].label;
+            ctx.fillText(`Aloft - ${keys} to climb down`, x, y + 4);
+        }
+        ctx.restore();
     }
     
     /**
@@ -400,6 +548,61 @@ export class Renderer {
         ctx.stroke();
         ctx.fillStyle = Color.COMPASS_DIRECTION;
         ctx.fillText('W', compassX - radius - 5, compassY + 5);
+        
+        // Draw the wind indicator on top of the compass
+        if (this.windSystem) {
+            this.renderWindIndicator(ctx, compassX, compassY, radius);
+        }
+    }
+    
+    /**
+     * Draws the prevailing wind as an arrow through the compass, scaled by power,
+     * with the wind speed and source direction underneath
+     */
+    private renderWindIndicator(ctx: CanvasRenderingContext2D, compassX: number, compassY: number, radius: number): void {
+        if (!this.windSystem) return;
+        
+        const direction = this.windSystem.getDirection();
+        const power = this.windSystem.getPower();
+        const gusting = this.windSystem.isGusting();
+        
+        // Arrow length grows with wind power
+        const powerRatio = Math.min(1, power / WindSystem.MAX_POWER);
+        const arrowLength = (radius - 6) * (0.4 + 0.6 * powerRatio);
+        
+        // Arrow points where the wind is blowing towards
+        const tipX = compassX + Math.cos(direction) * arrowLength;
+        const tipY = compassY + Math.sin(direction) * arrowLength;
+        const tailX = compassX - Math.cos(direction) * arrowLength;
+        const tailY = compassY - Math.sin(direction) * arrowLength;
+        
+        ctx.save();
+        ctx.strokeStyle = gusting ? Color.WIND_GUST : Color.WIND_ARROW;
+        ctx.fillStyle = gusting ? Color.WIND_GUST : Color.WIND_ARROW;
+        ctx.lineWidth = 3;
+        
+        // Shaft
+        ctx.beginPath();
+        ctx.moveTo(tailX, tailY);
+        ctx.lineTo(tipX, tipY);
+        ctx.stroke();
+        
+        // Head
+        const headSize = 7;
+        ctx.beginPath();
+        ctx.moveTo(tipX, tipY);
+        ctx.lineTo(tipX - Math.cos(direction - 0.5) * headSize, tipY - Math.sin(direction - 0.5) * headSize);
+        ctx.lineTo(tipX - Math.cos(direction + 0.5) * headSize, tipY - Math.sin(direction + 0.5) * headSize);
+        ctx.closePath();
+        ctx.fill();
+        
+        // Wind speed and source direction below the compass
+        ctx.font = '12px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'top';
+        const label = `${this.windSystem.getCompassPoint()} ${Math.round(this.windSystem.getSpeedKnots())} kn${gusting ? ' (gust)' : ''}`;
+        ctx.fillText(label, compassX, compassY + radius + 12);
+        ctx.restore();
     }
     
     /**
@@ -441,12 +644,12 @@ export class Renderer {
         
         // Background for debug indicator
         ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
-        ctx.fillRect(canvasWidth - 220, 10, 210, 120);
+        ctx.fillRect(canvasWidth - 220, 10, 210, 145);
         
         // Border
         ctx.strokeStyle = BaseGameObject.isDebugMode() ? 'rgba(0, 255, 0, 0.7)' : 'rgba(255, 0, 0, 0.7)';
         ctx.lineWidth = 2;
-        ctx.strokeRect(canvasWidth - 220, 10, 210, 120);
+        ctx.strokeRect(canvasWidth - 220, 10, 210, 145);
         
         // Title
         ctx.fillStyle = 'yellow';
@@ -469,10 +672,14 @@ export class Renderer {
         ctx.fillStyle = animationsEnabled ? '#00FF00' : '#FF0000';
         ctx.fillText(`Animations: ${animationsEnabled ? 'ENABLED' : 'DISABLED'}`, canvasWidth - 210, 95);
         
+        // World seed
+        ctx.fillStyle = 'white';
+        ctx.fillText(`Seed: ${this.worldSeed !== null ? this.worldSeed : '-'}`, canvasWidth - 210, 120);
+        
         // Controls reminder
         ctx.fillStyle = 'white';
         ctx.font = '12px Arial';
-        ctx.fillText('L - Toggle Debug | P - Toggle Physics', canvasWidth - 210, 115);
+        ctx.fillText('L - Toggle Debug | P - Toggle Physics', canvasWidth - 210, 140);
         
         // Restore context state
         ctx.restore();
@@ -0,0 +1,406 @@
+import { KeyValueStorage, getDefaultStorage } from '../utils/storage';
+import { Cannonball } from '../objects/projectiles/cannonball';
+import { AnchorState, isAnchorState } from '../objects/shipModules/AnchorModule';
+
+/**
+ * Current save format version. Bump this whenever the shape of SaveData changes
+ * and add a migration from the previous version to SAVE_MIGRATIONS.
+ */
+export const SAVE_VERSION: number = 9;
+
+/**
+ * Saved state of a single hull plank
+ */
+export interface PlankSaveState {
+    health: number;
+    broken: boolean;
+}
+
+/**
+ * Saved state of a ship's anchor
+ */
+export interface AnchorSaveState {
+    id: string;
+    state: AnchorState;
+    seabed: { x: number, y: number } | null;
+    rodeLength: number;
+    raiseTimer: number;
+    health: number;
+}
+
+/**
+ * Saved state of a sailing ship, its hull and its modules
+ */
+export interface ShipSaveState {
+    definitionId: string;
+    x: number;
+    y: number;
+    angle: number;
+    velocity: { x: number, y: number };
+    angularVelocity: number;
+    force: { x: number, y: number }; // Wind force waiting to be applied on the next physics step
+    rudderAngle: number;
+    momentum: number;
+    planks: PlankSaveState[];
+    water: { port: number, starboard: number };
+    heelAngle: number;
+    sinking: boolean;
+    sinkProgress: number;
+    sails: { id: string, openness: number, angle: number }[];
+    wheels: { id: string, angle: number }[];
+    cannons: { id: string, aimAngle: number, elevation: number, reloadTimer: number }[];
+    anchors: AnchorSaveState[];
+    crew: number | null;        // Hands aboard, or null for the ship's full complement
+    ammo: { stock: Record<string, number>, selected: string } | null; // Shot locker (AmmoType keys), or null for a full one
+    fires: { plank: number, remaining: number }[];  // Burning planks and the seconds left on each fire
+}
+
+/**
+ * Saved AI crew of a ship
+ */
+export interface AIShipSaveState {
+    ship: number;       // Index into SaveData.ships
+    archetype: string;  // CaptainArchetype
+    surrendered: boolean;
+}
+
+/**
+ * Saved fleet, its ships given as indices into SaveData.ships
+ */
+export interface FleetSaveState {
+    flagship: number | null;    // null when the fleet forms up on the player
+    formation: string;          // FormationType
+    order: string;              // FleetOrder
+    target: number | null;      // Ship being attacked, for an attack order
+    members: number[];          // Ships with a captain in SaveData.aiShips
+}
+
+/**
+ * Saved state of the player
+ */
+export interface PlayerSaveState {
+    x: number;
+    y: number;
+    velocity: { x: number, y: number };
+    health: number;
+    boardedShip: number | null; // Index into SaveData.ships, or null when in the water
+    lastPort: { x: number, y: number } | null; // Where the player respawns, once a port has been visited
+}
+
+/**
+ * Everything needed to rebuild a game in progress
+ */
+export interface SaveData {
+    version: number;
+    savedAt: string;          // ISO timestamp
+    worldSeed: number;
+    score: number;
+    shipsDestroyed: number;
+    collectedItems: string[]; // Ids of treasures and power-ups already picked up
+    wind: { direction: number, basePower: number };
+    player: PlayerSaveState;
+    ships: ShipSaveState[];
+    aiShips: AIShipSaveState[];
+    fleets: FleetSaveState[];
+}
+
+/**
+ * Raw save data as parsed from JSON, before it has been validated
+ */
+export type SaveRecord = Record<string, unknown>;
+
+/**
+ * Upgrades raw save data from one version to the next
+ */
+export type SaveMigration = (data: SaveRecord) => SaveRecord;
+
+function isRecord(value: unknown): value is SaveRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Update each record in a saved list, leaving anything malformed for validation to report
+ */
+function mapRecords(list: unknown, update: (item: SaveRecord) => SaveRecord): unknown {
+    return Array.isArray(list) ? list.map(item => isRecord(item) ? update(item) : item) : list;
+}
+
+/**
+ * Migrations keyed by the version they upgrade from: SAVE_MIGRATIONS[n] turns a
+ * version n save into a version n + 1 save.
+ */
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+    // Version 2 added AI-sailed ships; every ship in an older save was idle
+    1: data => ({ ...data, aiShips: [] }),
+    // Version 3 gave AI ships a captain; the ships of version 2 all hunted the player
+    2: data => ({
+        ...data,
+        aiShips: Array.isArray(data.aiShips)
+            ? data.aiShips.map(ship => ({ ship, archetype: 'pirateHunter', surrendered: false }))
+            : data.aiShips
+    }),
+    // Version 4 added fleets; every ship used to sail alone
+    3: data => ({ ...data, fleets: [] }),
+    // Version 5 added anchors; they were all stowed
+    4: data => ({ ...data, ships: mapRecords(data.ships, ship => ({ ...ship, anchors: [] })) }),
+    // Version 6 added respawning at the last port visited; none had been
+    5: data => ({ ...data, player: isRecord(data.player) ? { ...data.player, lastPort: null } : data.player }),
+    // Version 7 added crews that can be lost boarding; every ship was fully manned
+    6: data => ({ ...data, ships: mapRecords(data.ships, ship => ({ ...ship, crew: null })) }),
+    // Version 8 added kinds of shot, carried in limited numbers, and fires; lockers were full and nothing burned
+    7: data => ({ ...data, ships: mapRecords(data.ships, ship => ({ ...ship, ammo: null, fires: [] })) }),
+    // Version 9 let guns be elevated for range; they were all laid at the default elevation
+    8: data => ({
+        ...data,
+        ships: mapRecords(data.ships, ship => ({
+            ...ship,
+            cannons: mapRecords(ship.cannons, cannon => ({ ...cannon, elevation: Cannonball.DEFAULT_ELEVATION }))
+        }))
+    })
+};
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value);
+}
+
+function isWholeNumber(value: unknown): value is number {
+    return isNumber(value) && Number.isInteger(value) && value >= 0;
+}
+
+function isPoint(value: unknown): value is { x: number, y: number } {
+    return isRecord(value) && isNumber(value.x) && isNumber(value.y);
+}
+
+function isPlank(value: unknown): boolean {
+    return isRecord(value) && isNumber(value.health) && typeof value.broken === 'boolean';
+}
+
+function isAnchor(value: unknown): boolean {
+    return isRecord(value) && typeof value.id === 'string' && isAnchorState(value.state) &&
+        (value.seabed === null || isPoint(value.seabed)) &&
+        isNumber(value.rodeLength) && isNumber(value.raiseTimer) && isNumber(value.health);
+}
+
+/**
+ * Validate save data that is already at the current version
+ * @returns A list of problems; empty if the save is valid
+ */
+export function validateSaveData(data: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!isRecord(data)) {
+        return ['save must be an object'];
+    }
+    const save = data;
+
+    if (!isNumber(save.worldSeed)) errors.push('worldSeed must be a number');
+    if (!isNumber(save.score)) errors.push('score must be a number');
+    if (!isNumber(save.shipsDestroyed)) errors.push('shipsDestroyed must be a number');
+    if (!Array.isArray(save.collectedItems)) errors.push('collectedItems must be an array');
+    if (!isRecord(save.wind) || !isNumber(save.wind.direction) || !isNumber(save.wind.basePower)) {
+        errors.push('wind must have numeric direction and basePower');
+    }
+
+    const player = isRecord(save.player) ? save.player : null;
+    if (!player || !isNumber(player.x) || !isNumber(player.y)) {
+        errors.push('player must have numeric x and y');
+    } else {
+        if (!isPoint(player.velocity) || !isNumber(player.health)) {
+            errors.push('player must have numeric velocity and health');
+        }
+        if (player.lastPort !== null && !isPoint(player.lastPort)) {
+            errors.push('player.lastPort must have numeric x and y or be null');
+        }
+    }
+
+    if (!Array.isArray(save.ships)) {
+        errors.push('ships must be an array');
+    } else {
+        const shipCount = save.ships.length;
+        const isShipIndex = (index: unknown): boolean => isWholeNumber(index) && index < shipCount;
+
+        save.ships.forEach((ship: unknown, i: number) => {
+            if (!isRecord(ship)) {
+                errors.push(`ships[${i}] must be an object`);
+                return;
+            }
+            if (typeof ship.definitionId !== 'string') errors.push(`ships[${i}].definitionId must be a string`);
+            if (!isNumber(ship.x) || !isNumber(ship.y) || !isNumber(ship.angle)) {
+                errors.push(`ships[${i}] must have numeric x, y and angle`);
+            }
+            if (!isPoint(ship.velocity) || !isNumber(ship.angularVelocity) || !isPoint(ship.force)) {
+                errors.push(`ships[${i}] must have numeric velocity, angularVelocity and force`);
+            }
+            if (!isNumber(ship.rudderAngle) || !isNumber(ship.momentum)) {
+                errors.push(`ships[${i}] must have numeric rudderAngle and momentum`);
+            }
+            if (!Array.isArray(ship.planks) || !ship.planks.every(isPlank)) {
+                errors.push(`ships[${i}].planks must be an array of planks with numeric health and a broken flag`);
+            }
+            if (!isRecord(ship.water) || !isNumber(ship.water.port) || !isNumber(ship.water.starboard) ||
+                !isNumber(ship.heelAngle) || typeof ship.sinking !== 'boolean' || !isNumber(ship.sinkProgress)) {
+                errors.push(`ships[${i}] must have numeric water, heelAngle and sinkProgress and a sinking flag`);
+            }
+            if (!Array.isArray(ship.sails) || !ship.sails.every(sail => isRecord(sail) && typeof sail.id === 'string' &&
+                isNumber(sail.openness) && isNumber(sail.angle))) {
+                errors.push(`ships[${i}].sails must be an array of sails with numeric openness and angle`);
+            }
+            if (!Array.isArray(ship.wheels) || !ship.wheels.every(wheel => isRecord(wheel) && typeof wheel.id === 'string' &&
+                isNumber(wheel.angle))) {
+                errors.push(`ships[${i}].wheels must be an array of wheels with a numeric angle`);
+            }
+            if (!Array.isArray(ship.cannons) || !ship.cannons.every(cannon => isRecord(cannon) && typeof cannon.id === 'string' &&
+                isNumber(cannon.aimAngle) && isNumber(cannon.elevation) && isNumber(cannon.reloadTimer))) {
+                errors.push(`ships[${i}].cannons must be an array of guns with numeric aimAngle, elevation and reloadTimer`);
+            }
+            if (!Array.isArray(ship.anchors) || !ship.anchors.every(isAnchor)) {
+                errors.push(`ships[${i}].anchors must be an array of anchors with a known state and numeric rode, timer and health`);
+            }
+            if (ship.crew !== null && !isWholeNumber(ship.crew)) {
+                errors.push(`ships[${i}].crew must be a whole number of hands or null`);
+            }
+            if (ship.ammo !== null && !(isRecord(ship.ammo) && isRecord(ship.ammo.stock) &&
+                Object.values(ship.ammo.stock).every(isNumber) && typeof ship.ammo.selected === 'string')) {
+                errors.push(`ships[${i}].ammo must have a stock and a selected shot, or be null`);
+            }
+            if (!Array.isArray(ship.fires) ||
+                !ship.fires.every(fire => isRecord(fire) && isWholeNumber(fire.plank) && isNumber(fire.remaining))) {
+                errors.push(`ships[${i}].fires must be an array of planks and burn times`);
+            }
+        });
+
+        if (player && player.boardedShip !== null && player.boardedShip !== undefined && !isShipIndex(player.boardedShip)) {
+            errors.push('player.boardedShip must be the index of a saved ship or null');
+        }
+
+        if (!Array.isArray(save.aiShips) ||
+            !save.aiShips.every(ai => isRecord(ai) && isShipIndex(ai.ship) && typeof ai.archetype === 'string')) {
+            errors.push('aiShips must list saved ship indices with an archetype');
+        }
+
+        if (!Array.isArray(save.fleets) ||
+            !save.fleets.every(fleet => isRecord(fleet) &&
+                (fleet.flagship === null || isShipIndex(fleet.flagship)) &&
+                (fleet.target === null || isShipIndex(fleet.target)) &&
+                typeof fleet.formation === 'string' && typeof fleet.order === 'string' &&
+                Array.isArray(fleet.members) && fleet.members.every(isShipIndex))) {
+            errors.push('fleets must list saved ship indices with a formation and order');
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Persists game saves as versioned JSON, upgrading older saves when they are loaded
+ */
+export class SaveManager {
+    static readonly SAVE_KEY: string = 'pirateGameSave';
+
+    private storage: KeyValueStorage;
+    private migrations: Record<number, SaveMigration>;
+    private currentVersion: number;
+
+    /**
+     * @param storage Where saves are kept (defaults to localStorage)
+     * @param migrations Upgrades between save versions
+     * @param currentVersion Version that saves are written at and migrated up to
+     */
+    constructor(
+        storage: KeyValueStorage = getDefaultStorage(),
+        migrations: Record<number, SaveMigration> = SAVE_MIGRATIONS,
+        currentVersion: number = SAVE_VERSION
+    ) {
+        this.storage = storage;
+        this.migrations = migrations;
+        this.currentVersion = currentVersion;
+    }
+
+    /**
+     * Write a save, stamping it with the current version and time
+     * @returns true if the save was stored
+     */
+    public save(data: SaveData): boolean {
+        const stamped: SaveData = {
+            ...data,
+            version: this.currentVersion,
+            savedAt: new Date().toISOString()
+        };
+
+        try {
+            this.storage.setItem(SaveManager.SAVE_KEY, JSON.stringify(stamped));
+            console.log(`Game saved (version ${stamped.version}, ${stamped.ships.length} ships)`);
+            return true;
+        } catch (error) {
+            console.warn('Failed to save game:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Read the save, migrating it to the current version
+     * @returns The save, or null if there is none or it can't be read
+     */
+    public load(): SaveData | null {
+        const json = this.storage.getItem(SaveManager.SAVE_KEY);
+        if (json === null) return null;
+
+        try {
+            return this.parse(json);
+        } catch (error) {
+            console.warn(`Failed to load save: ${error instanceof Error ? error.message : error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Parse, migrate and validate serialized save data
+     * @throws Error if the data is not a usable save
+     */
+    public parse(json: string): SaveData {
+        const data = this.migrate(JSON.parse(json));
+
+        const errors = validateSaveData(data);
+        if (errors.length > 0) {
+            throw new Error(`Invalid save: ${errors.join('; ')}`);
+        }
+        return data as unknown as SaveData;
+    }
+
+    /**
+     * Upgrade raw save data one version at a time until it reaches the current version
+     * @throws Error if the save is from a newer version or a migration is missing
+     */
+    public migrate(data: unknown): SaveRecord {
+        if (!isRecord(data) || !Number.isInteger(data.version)) {
+            throw new Error('Save has no version');
+        }
+
+        let version = data.version as number;
+        if (version > this.currentVersion) {
+            throw new Error(`Save version ${version} is newer than supported version ${this.currentVersion}`);
+        }
+
+        let migrated = data;
+        while (version < this.currentVersion) {
+            const migration = this.migrations[version];
+            if (!migration) {
+                throw new Error(`No migration from save version ${version}`);
+            }
+
+            migrated = { ...migration(migrated), version: version + 1 };
+            console.log(`Migrated save from version ${version} to ${version + 1}`);
+            version++;
+        }
+
+        return migrated;
+    }
+
+    public hasSave(): boolean {
+        return this.storage.getItem(SaveManager.SAVE_KEY) !== null;
+    }
+
+    public deleteSave(): void {
+        this.storage.removeItem(SaveManager.SAVE_KEY);
+    }
+}
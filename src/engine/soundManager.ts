@@ -8,6 +8,7 @@ export class SoundManager {
     private musicVolume: number;
     private soundVolume: number;
     private currentMusic: string | null;
+    private audioAvailable: boolean; // False when running without Audio support (e.g. headless in Node)
     
     constructor() {
         this.sounds = new Map<string, HTMLAudioElement>();
@@ -16,9 +17,14 @@ export class SoundManager {
         this.musicVolume = 0.3;
         this.soundVolume = 0.5;
         this.currentMusic = null;
+        this.audioAvailable = typeof Audio !== 'undefined';
         
         // Load sounds
-        this.loadSounds();
+        if (this.audioAvailable) {
+            this.loadSounds();
+        } else {
+            console.log('Audio not available - sounds disabled');
+        }
     }
       private loadSounds(): void {
         // Load all game sounds
@@ -73,7 +79,7 @@ export class SoundManager {
      * @param volume Optional volume override (0.0 to 1.0)
      */
     public playSound(name: string, volume?: number): void {
-        if (this.isMuted) return;
+        if (this.isMuted || !this.audioAvailable) return;
         
         const sound = this.sounds.get(name);
         if (sound) {
@@ -102,7 +108,7 @@ export class SoundManager {
      * @param fadeIn Whether to fade in the music
      */
     public playMusic(name: string, fadeIn: boolean = false): void {
-        if (this.currentMusic === name) return;
+        if (this.currentMusic === name || !this.audioAvailable) return;
         
         // Stop current music if playing
         this.stopMusic();
@@ -216,6 +222,14 @@ export class SoundManager {
         }
     }
     
+    public getSoundVolume(): number {
+        return this.soundVolume;
+    }
+    
+    public getMusicVolume(): number {
+        return this.musicVolume;
+    }
+    
     /**
      * Check if audio is muted
      */
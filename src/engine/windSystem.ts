@@ -0,0 +1,220 @@
+import { angleDifference } from '../utils/angles';
+import { SeededRandom } from '../utils/random';
+
+/**
+ * Wind state sampled at a point in the world
+ */
+export interface WindState {
+    direction: number; // Direction the wind is blowing towards (radians, world space)
+    power: number;     // Wind power fed into Brigantine.applyWindForce
+}
+
+/**
+ * Global wind simulation.
+ * The wind has a prevailing direction that slowly veers over time, random gusts
+ * on top of a base power, and a small amount of local variation by world position.
+ * Ships, AI and effects should all query the wind from here.
+ */
+export class WindSystem {
+    // Prevailing wind
+    private direction: number;          // Current prevailing direction (radians)
+    private basePower: number;          // Power without gusts
+    private elapsed: number = 0;        // Total simulated time (seconds)
+    private random!: SeededRandom;      // Picks veers and gusts
+
+    // Veering - the prevailing direction drifts towards a target over time
+    private veerTarget: number;
+    private veerTimer: number = 0;
+    private veerInterval: number = 45;  // Seconds until a new veer target is picked
+    private veerRate: number = 0.02;    // Maximum veer rate (radians per second)
+    private maxVeer: number = Math.PI / 4; // Largest single change in direction
+
+    // Gusts - short bursts of extra power with a smooth rise and fall
+    private gustTimer: number = 0;      // Time until the next gust starts
+    private gustElapsed: number = 0;    // Time into the current gust
+    private gustDuration: number = 0;   // Length of the current gust (0 = no gust)
+    private gustStrength: number = 0;   // Extra power at the peak of the gust (fraction of base)
+
+    // Local variation by world position
+    private localDirectionVariation: number = 0.2;  // Radians
+    private localPowerVariation: number = 0.15;     // Fraction of power
+    private localScale: number = 2000;               // World units per variation cycle
+
+    // Limits
+    static readonly MIN_POWER: number = 10;
+    static readonly MAX_POWER: number = 120;
+
+    /**
+     * @param seed World seed; the same seed always gives the same veers and gusts
+     */
+    constructor(direction: number = 0, basePower: number = 50, seed: number = 0) {
+        this.direction = this.normalizeAngle(direction);
+        this.basePower = basePower;
+        this.veerTarget = this.direction;
+        this.setSeed(seed);
+    }
+
+    /**
+     * Switch to the veers and gusts of another world seed, starting again from a steady wind
+     */
+    public setSeed(seed: number): void {
+        this.random = new SeededRandom(seed ^ 0x3a17d);
+        this.elapsed = 0;
+        this.veerTarget = this.direction;
+        this.veerTimer = 0;
+        this.veerInterval = 45;
+        this.gustDuration = 0;
+        this.gustElapsed = 0;
+        this.gustTimer = this.random.range(5, 12);
+    }
+
+    /**
+     * Advance the wind simulation
+     * @param delta Time step in seconds
+     */
+    public update(delta: number): void {
+        this.elapsed += delta;
+        this.updateVeering(delta);
+        this.updateGusts(delta);
+    }
+
+    /**
+     * Slowly rotate the prevailing direction towards a periodically chosen target
+     */
+    private updateVeering(delta: number): void {
+        this.veerTimer += delta;
+        if (this.veerTimer >= this.veerInterval) {
+            this.veerTimer = 0;
+            this.veerInterval = this.random.range(30, 90);
+            this.veerTarget = this.normalizeAngle(this.direction + this.random.range(-this.maxVeer, this.maxVeer));
+        }
+
+        // Move towards the target along the shortest arc
+        const diff = angleDifference(this.veerTarget, this.direction);
+        const step = Math.sign(diff) * Math.min(Math.abs(diff), this.veerRate * delta);
+        this.direction = this.normalizeAngle(this.direction + step);
+    }
+
+    /**
+     * Start, advance and end gusts
+     */
+    private updateGusts(delta: number): void {
+        if (this.gustDuration > 0) {
+            this.gustElapsed += delta;
+            if (this.gustElapsed >= this.gustDuration) {
+                // Gust has passed, wait for the next one
+                this.gustDuration = 0;
+                this.gustElapsed = 0;
+                this.gustTimer = this.random.range(6, 15);
+            }
+            return;
+        }
+
+        this.gustTimer -= delta;
+        if (this.gustTimer <= 0) {
+            this.gustDuration = this.random.range(2, 4);
+            this.gustStrength = this.random.range(0.3, 0.6);
+            this.gustElapsed = 0;
+        }
+    }
+
+    /**
+     * Current gust multiplier (1 = no gust). Follows a sine envelope so gusts build and fade smoothly
+     */
+    private getGustFactor(): number {
+        if (this.gustDuration <= 0) return 1;
+        const progress = this.gustElapsed / this.gustDuration;
+        return 1 + this.gustStrength * Math.sin(progress * Math.PI);
+    }
+
+    /**
+     * Prevailing wind direction (radians, direction the wind blows towards)
+     */
+    public getDirection(): number {
+        return this.direction;
+    }
+
+    /**
+     * Prevailing wind power including gusts
+     */
+    public getPower(): number {
+        return this.clampPower(this.basePower * this.getGustFactor());
+    }
+
+    public getBasePower(): number {
+        return this.basePower;
+    }
+
+    public setBasePower(power: number): void {
+        this.basePower = this.clampPower(power);
+    }
+
+    public setDirection(direction: number): void {
+        this.direction = this.normalizeAngle(direction);
+        this.veerTarget = this.direction;
+        this.veerTimer = 0;
+    }
+
+    public isGusting(): boolean {
+        return this.gustDuration > 0;
+    }
+
+    /**
+     * Sample the wind at a world position, including local variation
+     */
+    public getWindAt(x: number, y: number): WindState {
+        // Smooth, slowly drifting variation field so nearby points get similar wind
+        const t = this.elapsed * 0.05;
+        const nx = x / this.localScale;
+        const ny = y / this.localScale;
+
+        const directionNoise = Math.sin(nx * 1.3 + t) * Math.cos(ny * 0.9 - t * 0.7);
+        const powerNoise = Math.sin(nx * 0.7 - t * 0.5 + 1.7) * Math.cos(ny * 1.1 + t * 0.3);
+
+        return {
+            direction: this.normalizeAngle(this.direction + directionNoise * this.localDirectionVariation),
+            power: this.clampPower(this.getPower() * (1 + powerNoise * this.localPowerVariation))
+        };
+    }
+
+    /**
+     * Wind at a world position as a vector scaled by power (useful for drifting effects)
+     */
+    public getWindVectorAt(x: number, y: number): { x: number, y: number } {
+        const wind = this.getWindAt(x, y);
+        return {
+            x: Math.cos(wind.direction) * wind.power,
+            y: Math.sin(wind.direction) * wind.power
+        };
+    }
+
+    /**
+     * Wind speed in knots for display purposes
+     */
+    public getSpeedKnots(): number {
+        return this.getPower() * 0.4;
+    }
+
+    /**
+     * Compass point the wind is blowing FROM (sailor's convention, e.g. "NE")
+     * North is up the screen (negative y)
+     */
+    public getCompassPoint(): string {
+        const points = ['E', 'SE', 'S', 'SW', 'W', 'NW', 'N', 'NE'];
+        const from = this.normalizeAngle(this.direction + Math.PI);
+        const index = Math.round(from / (Math.PI / 4)) % points.length;
+        return points[index];
+    }
+
+    private clampPower(power: number): number {
+        return Math.max(WindSystem.MIN_POWER, Math.min(WindSystem.MAX_POWER, power));
+    }
+
+    /**
+     * Normalize an angle to the range [0, 2PI)
+     */
+    private normalizeAngle(angle: number): number {
+        const twoPi = Math.PI * 2;
+        return ((angle % twoPi) + twoPi) % twoPi;
+    }
+}
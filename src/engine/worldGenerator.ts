@@ -1,6 +1,7 @@
 import { Camera } from './camera';
 import { Canvas } from '../utils/canvas';
 import { Color } from '../utils/color';
+import { SeededRandom } from '../utils/random';
 
 /**
  * Represents a background element that moves with parallax effect
@@ -9,6 +10,7 @@ interface ParallaxLayer {
     speed: number;       // How fast the layer moves relative to camera (0-1, where 0 is static, 1 is same as camera)
     depth: number;       // Drawing depth/z-order (lower values drawn first)
     objects: WorldObject[]; // Objects in this layer
+    chunks: Map<string, WorldObject[]>; // Loaded chunks of this layer keyed by "chunkX,chunkY"
 }
 
 /**
@@ -21,7 +23,9 @@ interface WorldObject {
 }
 
 /**
- * Generates and manages the parallaxing world background
+ * Generates and manages the parallaxing world background.
+ * Like the islands, objects are generated per chunk from (seed, layer, chunkX, chunkY)
+ * so the background is the same every time an area is revisited.
  */
 export class WorldGenerator {
     private camera: Camera;
@@ -31,9 +35,14 @@ export class WorldGenerator {
     private generationRadius: number; // How far from camera to generate objects
     private cullingRadius: number;    // How far from camera to remove objects
     private animationsEnabled: boolean = true; // Flag to toggle background animations
-      constructor(camera: Camera, canvas: Canvas) {
+    private seed: number;
+    
+    static readonly CHUNK_SIZE: number = 1000;
+    private static readonly RANDOM_SALT: number = 2; // Offset from the island generator's stream
+      constructor(camera: Camera, canvas: Canvas, seed: number) {
         this.camera = camera;
-        this.canvas = canvas;        this.parallaxLayers = [];
+        this.canvas = canvas;
+        this.seed = seed;        this.parallaxLayers = [];
         this.objectDensity = 20; // Increased from 5 to 20 for more objects
         this.generationRadius = 4000; // Increased from 2000 to 4000 for a larger world
         this.cullingRadius = 6000; // Increased from 3000 to 6000
@@ -47,21 +56,24 @@ export class WorldGenerator {
         this.parallaxLayers.push({
             speed: 0.2,
             depth: 0,
-            objects: []
+            objects: [],
+            chunks: new Map()
         });
         
         // Middle layer
         this.parallaxLayers.push({
             speed: 0.5,
             depth: 1,
-            objects: []
+            objects: [],
+            chunks: new Map()
         });
         
         // Near layer (fastest moving)
         this.parallaxLayers.push({
             speed: 0.8,
             depth: 2,
-            objects: []
+            objects: [],
+            chunks: new Map()
         });
         
         // Generate initial objects for each layer
@@ -73,33 +85,23 @@ export class WorldGenerator {
         
         // Generate objects for each layer
         this.parallaxLayers.forEach(layer => {
-            const layerObjectCount = Math.floor(this.objectDensity * (Math.PI * this.generationRadius * this.generationRadius) / 1000000);
-            
-            for (let i = 0; i < layerObjectCount; i++) {
-                // Generate random position within generation radius
-                const angle = Math.random() * Math.PI * 2;
-                const distance = Math.random() * this.generationRadius;
-                const x = cameraPos.x + Math.cos(angle) * distance;
-                const y = cameraPos.y + Math.sin(angle) * distance;
-                
-                // Add object to layer
-                layer.objects.push(this.createRandomObject(x, y, layer.depth));
-            }
+            this.updateLayerChunks(layer, cameraPos);
         });
     }
-      private createRandomObject(x: number, y: number, depth: number): WorldObject {
+    
+      private createRandomObject(x: number, y: number, depth: number, rng: SeededRandom): WorldObject {
         // Create different objects based on the depth
         if (depth === 0) {
             // Far background - distant islands or deep ocean features
-            const objectType = Math.floor(Math.random() * 3);
+            const objectType = rng.int(0, 2);
             
             if (objectType === 0) {
                 // Distant island
+                const size = rng.range(50, 200);
                 return {
                     x,
                     y,
                     render: (ctx, offsetX, offsetY) => {
-                        const size = 50 + Math.random() * 150;
                         ctx.fillStyle = Color.SAND;
                         ctx.globalAlpha = 0.3;
                         ctx.beginPath();
@@ -110,11 +112,11 @@ export class WorldGenerator {
                 };
             } else if (objectType === 1) {
                 // Deep ocean pattern
+                const size = rng.range(80, 200);
                 return {
                     x,
                     y,
                     render: (ctx, offsetX, offsetY) => {
-                        const size = 80 + Math.random() * 120;
                         ctx.fillStyle = Color.OCEAN_DEEP;
                         ctx.globalAlpha = 0.2;
                         ctx.beginPath();
@@ -125,13 +127,14 @@ export class WorldGenerator {
                 };
             } else {
                 // Light reflection on water
+                const size = rng.range(30, 80);
+                const alpha = rng.range(0.05, 0.1);
                 return {
                     x,
                     y,
                     render: (ctx, offsetX, offsetY) => {
-                        const size = 30 + Math.random() * 50;
                         ctx.fillStyle = Color.WHITE;
-                        ctx.globalAlpha = 0.05 + Math.random() * 0.05;
+                        ctx.globalAlpha = alpha;
                         ctx.beginPath();
                         ctx.arc(x + offsetX, y + offsetY, size, 0, Math.PI * 2);
                         ctx.fill();
@@ -141,16 +144,16 @@ export class WorldGenerator {
             }
         } else if (depth === 1) {
             // Middle layer - seaweed, coral, or rocks
-            const objectType = Math.floor(Math.random() * 3);
+            const objectType = rng.int(0, 2);
             
             if (objectType === 0) {
                 // Seaweed
+                const height = rng.range(40, 100);
+                const width = rng.range(10, 30);
                 return {
                     x,
                     y,
                     render: (ctx, offsetX, offsetY) => {
-                        const height = 40 + Math.random() * 60;
-                        const width = 10 + Math.random() * 20;
                         ctx.fillStyle = Color.SEAWEED;
                         ctx.globalAlpha = 0.4;
                         
@@ -177,11 +180,20 @@ export class WorldGenerator {
                 };
             } else if (objectType === 1) {
                 // Coral
+                const size = rng.range(15, 40);
+                const branches: { angle: number, length: number, width: number }[] = [];
+                const branchCount = rng.int(3, 7);
+                for (let i = 0; i < branchCount; i++) {
+                    branches.push({
+                        angle: (i / branchCount) * Math.PI * 2,
+                        length: size * rng.range(0.7, 1.3),
+                        width: rng.range(3, 8)
+                    });
+                }
                 return {
                     x,
                     y,
                     render: (ctx, offsetX, offsetY) => {
-                        const size = 15 + Math.random() * 25;
                         ctx.fillStyle = Color.CORAL;
                         ctx.globalAlpha = 0.5;
                         
@@ -191,18 +203,14 @@ export class WorldGenerator {
                         ctx.fill();
                         
                         // Draw coral branches
-                        const branches = 3 + Math.floor(Math.random() * 5);
-                        for (let i = 0; i < branches; i++) {
-                            const angle = (i / branches) * Math.PI * 2;
-                            const length = size * (0.7 + Math.random() * 0.6);
-                            
+                        for (const branch of branches) {
                             ctx.beginPath();
                             ctx.moveTo(x + offsetX, y + offsetY);
                             ctx.lineTo(
-                                x + offsetX + Math.cos(angle) * length,
-                                y + offsetY + Math.sin(angle) * length
+                                x + offsetX + Math.cos(branch.angle) * branch.length,
+                                y + offsetY + Math.sin(branch.angle) * branch.length
                             );
-                            ctx.lineWidth = 3 + Math.random() * 5;
+                            ctx.lineWidth = branch.width;
                             ctx.strokeStyle = Color.CORAL;
                             ctx.stroke();
                         }
@@ -212,11 +220,11 @@ export class WorldGenerator {
                 };
             } else {
                 // Rocks
+                const size = rng.range(20, 50);
                 return {
                     x,
                     y,
                     render: (ctx, offsetX, offsetY) => {
-                        const size = 20 + Math.random() * 30;
                         ctx.fillStyle = '#777777';
                         ctx.globalAlpha = 0.4;
                         
@@ -241,15 +249,15 @@ export class WorldGenerator {
             }
         } else {
             // Near layer - shallow water patterns or bubbles
-            const objectType = Math.floor(Math.random() * 2);
+            const objectType = rng.int(0, 1);
             
             if (objectType === 0) {
                 // Shallow water pattern
+                const size = rng.range(30, 80);
                 return {
                     x,
                     y,
                     render: (ctx, offsetX, offsetY) => {
-                        const size = 30 + Math.random() * 50;
                         ctx.fillStyle = Color.OCEAN_SHALLOW;
                         ctx.globalAlpha = 0.15;
                         ctx.beginPath();
@@ -260,19 +268,23 @@ export class WorldGenerator {
                 };
             } else {
                 // Bubbles
+                const bubbles: { size: number, angle: number, distance: number }[] = [];
+                const bubbleCount = rng.int(3, 7);
+                for (let i = 0; i < bubbleCount; i++) {
+                    bubbles.push({ size: rng.range(2, 10), angle: rng.angle(), distance: rng.range(0, 20) });
+                }
                 return {
                     x,
                     y,
                     render: (ctx, offsetX, offsetY) => {
-                        const bubbleCount = 3 + Math.floor(Math.random() * 5);
                         ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
                         ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
                         ctx.lineWidth = 1;
                         
-                        for (let i = 0; i < bubbleCount; i++) {
-                            const bubbleSize = 2 + Math.random() * 8;
-                            const offsetAngle = Math.random() * Math.PI * 2;
-                            const offsetDist = Math.random() * 20;
+                        for (const bubble of bubbles) {
+                            const bubbleSize = bubble.size;
+                            const offsetAngle = bubble.angle;
+                            const offsetDist = bubble.distance;
                             
                             ctx.beginPath();
                             ctx.arc(
@@ -309,6 +321,21 @@ export class WorldGenerator {
         this.animationsEnabled = enabled;
     }
     
+    /**
+     * Regenerate the background from a different seed
+     */
+    public setSeed(seed: number): void {
+        if (seed === this.seed) return;
+        
+        this.seed = seed;
+        const cameraPos = this.camera.getPosition();
+        this.parallaxLayers.forEach(layer => {
+            layer.chunks.clear();
+            layer.objects = [];
+            this.updateLayerChunks(layer, cameraPos);
+        });
+    }
+    
     /**
      * Check if background animations are enabled
      */
@@ -326,55 +353,77 @@ export class WorldGenerator {
         
         // Update each layer
         this.parallaxLayers.forEach(layer => {
-            // Remove objects that are too far from camera
-            layer.objects = layer.objects.filter(obj => {
-                const dx = obj.x - cameraPos.x;
-                const dy = obj.y - cameraPos.y;
-                const distance = Math.sqrt(dx * dx + dy * dy);
-                return distance <= this.cullingRadius;
-            });
-            
-            // Generate new objects if needed
-            this.generateObjectsForLayer(layer, cameraPos);
+            this.updateLayerChunks(layer, cameraPos);
         });
     }
     
-    private generateObjectsForLayer(layer: ParallaxLayer, cameraPos: { x: number; y: number }): void {
-        // Calculate area to check for new objects
-        const checkRadius = this.generationRadius * 0.8;
-        const checkArea = Math.PI * checkRadius * checkRadius;
-        const targetObjectCount = Math.floor(this.objectDensity * checkArea / 1000000);
+    /**
+     * Load chunks of a layer within the generation radius and unload the ones beyond the culling radius
+     */
+    private updateLayerChunks(layer: ParallaxLayer, cameraPos: { x: number; y: number }): void {
+        const size = WorldGenerator.CHUNK_SIZE;
+        let changed = false;
         
-        // Count objects within check radius
-        let objectsInRange = 0;
-        layer.objects.forEach(obj => {
-            const dx = obj.x - cameraPos.x;
-            const dy = obj.y - cameraPos.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            if (distance <= checkRadius) {
-                objectsInRange++;
+        // Remove chunks that are too far from camera
+        for (const key of layer.chunks.keys()) {
+            const [chunkX, chunkY] = key.split(',').map(Number);
+            const dx = (chunkX + 0.5) * size - cameraPos.x;
+            const dy = (chunkY + 0.5) * size - cameraPos.y;
+            if (Math.sqrt(dx * dx + dy * dy) > this.cullingRadius) {
+                layer.chunks.delete(key);
+                changed = true;
             }
-        });
+        }
         
-        // Generate new objects if needed
-        const objectsToGenerate = Math.max(0, targetObjectCount - objectsInRange);
+        // Generate chunks that have come into range
+        const minX = Math.floor((cameraPos.x - this.generationRadius) / size);
+        const maxX = Math.floor((cameraPos.x + this.generationRadius) / size);
+        const minY = Math.floor((cameraPos.y - this.generationRadius) / size);
+        const maxY = Math.floor((cameraPos.y + this.generationRadius) / size);
         
-        for (let i = 0; i < objectsToGenerate; i++) {
-            // Generate at the edge of generation radius
-            const angle = Math.random() * Math.PI * 2;
-            const distance = this.generationRadius * 0.8 + Math.random() * this.generationRadius * 0.2;
-            const x = cameraPos.x + Math.cos(angle) * distance;
-            const y = cameraPos.y + Math.sin(angle) * distance;
-            
-            // Add object to layer
-            layer.objects.push(this.createRandomObject(x, y, layer.depth));
+        for (let chunkX = minX; chunkX <= maxX; chunkX++) {
+            for (let chunkY = minY; chunkY <= maxY; chunkY++) {
+                const key = `${chunkX},${chunkY}`;
+                if (layer.chunks.has(key)) continue;
+                
+                const dx = (chunkX + 0.5) * size - cameraPos.x;
+                const dy = (chunkY + 0.5) * size - cameraPos.y;
+                if (Math.sqrt(dx * dx + dy * dy) > this.generationRadius) continue;
+                
+                layer.chunks.set(key, this.generateChunk(layer, chunkX, chunkY));
+                changed = true;
+            }
+        }
+        
+        // Rebuild the flat object list used for rendering
+        if (changed) {
+            layer.objects = ([] as WorldObject[]).concat(...layer.chunks.values());
         }
     }
+    
+    /**
+     * Generate the objects of one layer chunk. Only depends on the seed, layer and chunk coordinates.
+     */
+    private generateChunk(layer: ParallaxLayer, chunkX: number, chunkY: number): WorldObject[] {
+        const size = WorldGenerator.CHUNK_SIZE;
+        const rng = SeededRandom.forChunk(this.seed, WorldGenerator.RANDOM_SALT + layer.depth, chunkX, chunkY);
+        const objectCount = Math.floor(this.objectDensity * size * size / 1000000);
+        const objects: WorldObject[] = [];
+        
+        for (let i = 0; i < objectCount; i++) {
+            const x = chunkX * size + rng.next() * size;
+            const y = chunkY * size + rng.next() * size;
+            objects.push(this.createRandomObject(x, y, layer.depth, rng));
+        }
+        
+        return objects;
+    }
+    
       /**
      * Render the world with parallax effect
      */
     public render(ctx: CanvasRenderingContext2D): void {
-        const cameraPos = this.camera.getPosition();
+        const cameraPos = this.camera.getRenderPosition();
         const viewportSize = this.getViewportSize();
         
         // Draw ocean background - use the viewport size instead of fixed coordinates
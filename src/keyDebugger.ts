@@ -81,12 +81,7 @@ export class KeyDebugger {
             logKeysButton.style.marginRight = '5px';
             logKeysButton.onclick = () => this.logKeyStates();
             
-            // Test collision button
-            const collisionButton = document.createElement('button');
-            collisionButton.innerText = 'Test Collision';
-            collisionButton.style.marginRight = '5px';
-            collisionButton.onclick = () => this.spawnBrigantineForCollision();
-              // Sync brigantine button
+            // Sync brigantine button
             const syncButton = document.createElement('button');
             syncButton.innerText = 'Sync Brigantine';
             syncButton.onclick = () => this.syncBrigantine();
@@ -96,7 +91,6 @@ export class KeyDebugger {
             buttonContainer.appendChild(physicsButton);
             buttonContainer.appendChild(debugButton);
             buttonContainer.appendChild(logKeysButton);
-            buttonContainer.appendChild(collisionButton);
             buttonContainer.appendChild(syncButton);
             buttonContainer.appendChild(syncButton);
             
@@ -135,7 +129,7 @@ export class KeyDebugger {
         }
         
         console.log('Directly toggling physics world');
-        this.gameInstance.togglePhysicsWorld();
+        this.gameInstance.getGameplay()?.togglePhysicsWorld();
     }
       // Directly toggle debug mode
     public static toggleDebugMode(): void {
@@ -145,7 +139,7 @@ export class KeyDebugger {
         }
         
         console.log('Directly toggling debug mode');
-        this.gameInstance.toggleDebugMode();
+        this.gameInstance.getGameplay()?.toggleDebugMode();
     }
     
     // Log the current state of keys in the input manager
@@ -162,17 +156,6 @@ export class KeyDebugger {
         // console.log('L key was just pressed:', this.gameInstance.getInput().wasKeyJustPressed('l'));
     }
     
-    // Spawn a brigantine ship close to the player for collision testing
-    public static spawnBrigantineForCollision(): void {
-        if (!this.gameInstance) {
-            console.error('Game instance not set in KeyDebugger');
-            return;
-        }
-        
-        console.log('Spawning brigantine for collision testing');
-        this.gameInstance.spawnBrigantineNearPlayer();
-    }
-    
     // Sync the brigantine's visual and physics coordinates
     public static syncBrigantine(): void {
         if (!this.gameInstance) {
@@ -181,7 +164,7 @@ export class KeyDebugger {
         }
         
         console.log('Manually syncing brigantine visual coordinates with physics body');
-        this.gameInstance.syncBrigantineWithPhysics();
+        this.gameInstance.getGameplay()?.syncBrigantineWithPhysics();
     }
     
     private static createDebugDisplay(): void {
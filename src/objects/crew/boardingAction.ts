@@ -0,0 +1,387 @@
+import * as Matter from 'matter-js';
+import { Physics } from '../../engine/physics';
+import { Brigantine } from '../ships/brigantine';
+import { distanceToSegment } from '../ships/plankUtils';
+import { Player } from '../player';
+import { CrewMember } from './crewMember';
+
+/**
+ * How a boarding ended: the loser's crew has struck
+ */
+export interface BoardingResult {
+    winner: Brigantine;
+    loser: Brigantine;
+}
+
+/**
+ * Anyone a hand can cross blades with
+ */
+interface Combatant {
+    getPosition(): { x: number, y: number };
+    takeDamage(amount: number): void;
+}
+
+/**
+ * Two ships lashed together with grappling hooks while the attacker's boarding party
+ * fights the defending crew hand to hand. Crew walk the decks of both ships and cross
+ * between them along the grapple lines. The side that loses too many hands surrenders.
+ */
+export class BoardingAction {
+    static readonly GRAPPLE_RANGE: number = 400;        // Furthest apart (centre to centre) ships can be grappled
+    static readonly GRAPPLE_SPEED: number = 1.5;        // Fastest the ships can be moving relative to each other, per step
+    static readonly GRAPPLE_SPREAD: number = 80;        // Hooks go fore and aft of midships by this much
+    static readonly GRAPPLE_LENGTH: number = 40;        // Lines are hauled in until the rails are this far apart
+    static readonly GRAPPLE_STIFFNESS: number = 0.002;
+    static readonly GRAPPLE_DAMPING: number = 0.05;
+    static readonly GANGWAY_WIDTH: number = 24;         // Width of the crossing along each grapple line
+    static readonly BOARDING_PARTY: number = 0.75;      // Share of the attacker's crew that goes across
+    static readonly SURRENDER_SHARE: number = 0.25;     // A side strikes once no more than this share of its fighters stand
+
+    readonly attacker: Brigantine;
+    readonly defender: Brigantine;
+    private physics: Physics;
+    private grapples: Matter.Constraint[] = [];
+    private fighters: CrewMember[] = [];
+    private startingFighters: Map<Brigantine, number> = new Map();
+    private player: Player | null = null;
+    private playerSide: Brigantine | null = null;
+    private result: BoardingResult | null = null;
+    private over: boolean = false;
+
+    /**
+     * Throw the grappling hooks and send the boarding party across
+     * @param defendersYield The defending crew has already struck and won't fight
+     */
+    constructor(attacker: Brigantine, defender: Brigantine, physics: Physics, defendersYield: boolean = false) {
+        this.attacker = attacker;
+        this.defender = defender;
+        this.physics = physics;
+
+        this.throwGrapples();
+
+        const party = Math.ceil(attacker.getCrew() * BoardingAction.BOARDING_PARTY);
+        this.musterFighters(attacker, defender, party, '#1565C0');
+        this.musterFighters(defender, attacker, defendersYield ? 0 : defender.getCrew(), '#B71C1C');
+
+        console.log(`${attacker.getDefinition().name} grappled ${defender.getDefinition().name}: ` +
+            `${this.startingFighters.get(attacker)} boarders against ${this.startingFighters.get(defender)} defenders`);
+    }
+
+    /**
+     * Whether two ships are close enough, and moving together closely enough, to grapple
+     */
+    public static canGrapple(a: Brigantine, b: Brigantine): boolean {
+        const bodyA = a.getBody();
+        const bodyB = b.getBody();
+        if (!bodyA || !bodyB || a === b || a.isSinking() || b.isSinking()) return false;
+
+        const distance = Math.hypot(bodyB.position.x - bodyA.position.x, bodyB.position.y - bodyA.position.y);
+        const relativeSpeed = Math.hypot(bodyB.velocity.x - bodyA.velocity.x, bodyB.velocity.y - bodyA.velocity.y);
+        return distance <= BoardingAction.GRAPPLE_RANGE && relativeSpeed <= BoardingAction.GRAPPLE_SPEED;
+    }
+
+    /**
+     * Which side of a ship (1 port, -1 starboard) another ship lies on
+     */
+    private static getFacingSide(ship: Brigantine, other: Brigantine): number {
+        const pos = ship.getPosition();
+        const otherPos = other.getPosition();
+        const angle = ship.getRotation();
+        return Math.sign(-Math.sin(angle) * (otherPos.x - pos.x) + Math.cos(angle) * (otherPos.y - pos.y)) || 1;
+    }
+
+    /**
+     * Local y of the rail on one side of a ship
+     */
+    private static getRail(ship: Brigantine, side: number): number {
+        const hull = ship.getDefinition().hull;
+        return side > 0 ? hull.bow.y : hull.bowBottom.y;
+    }
+
+    /**
+     * Lash the facing rails together fore and aft, each hook going to the nearest point opposite
+     */
+    private throwGrapples(): void {
+        const bodyA = this.attacker.getBody()!;
+        const bodyB = this.defender.getBody()!;
+        const railA = BoardingAction.getRail(this.attacker, BoardingAction.getFacingSide(this.attacker, this.defender));
+        const railB = BoardingAction.getRail(this.defender, BoardingAction.getFacingSide(this.defender, this.attacker));
+        const spread = BoardingAction.GRAPPLE_SPREAD;
+
+        for (const along of [-spread, spread]) {
+            const hook = this.attacker.localToWorldCoordinates(along, railA);
+            const [target] = [-spread, spread]
+                .map(x => this.defender.localToWorldCoordinates(x, railB))
+                .sort((p, q) => Math.hypot(p.x - hook.x, p.y - hook.y) - Math.hypot(q.x - hook.x, q.y - hook.y));
+
+            // Matter keeps both points turning with their ships from here on
+            const grapple = Matter.Constraint.create({
+                bodyA,
+                pointA: { x: hook.x - bodyA.position.x, y: hook.y - bodyA.position.y },
+                bodyB,
+                pointB: { x: target.x - bodyB.position.x, y: target.y - bodyB.position.y },
+                length: BoardingAction.GRAPPLE_LENGTH,
+                label: 'grapple'
+            });
+            grapple.stiffness = BoardingAction.GRAPPLE_STIFFNESS;
+            grapple.damping = BoardingAction.GRAPPLE_DAMPING;
+            Matter.Composite.add(this.physics.getWorld(), grapple);
+            this.grapples.push(grapple);
+        }
+    }
+
+    /**
+     * Form a ship's fighters up on deck, along the rail facing the enemy
+     */
+    private musterFighters(ship: Brigantine, enemy: Brigantine, count: number, color: string): void {
+        const rail = BoardingAction.getRail(ship, BoardingAction.getFacingSide(ship, enemy));
+        const rows = [rail * 0.6, rail * 0.2, -rail * 0.2];
+        const perRow = Math.ceil(count / rows.length);
+
+        for (let i = 0; i < count; i++) {
+            const row = rows[Math.floor(i / perRow) % rows.length];
+            const along = perRow > 1 ? -BoardingAction.GRAPPLE_SPREAD + 2 * BoardingAction.GRAPPLE_SPREAD * (i % perRow) / (perRow - 1) : 0;
+            const point = ship.localToWorldCoordinates(along, row);
+            const position = ship.isPointOnDeck(point.x, point.y, CrewMember.RADIUS) ? point : ship.getPosition();
+            this.fighters.push(new CrewMember(position.x, position.y, ship, color));
+        }
+        this.startingFighters.set(ship, count);
+    }
+
+    /**
+     * Have the player fight for one of the ships (or neither, with null)
+     */
+    public setPlayer(player: Player, side: Brigantine | null): void {
+        this.player = player;
+        this.playerSide = side;
+    }
+
+    /**
+     * The ship the player fights for, if any
+     */
+    public getPlayerSide(): Brigantine | null {
+        return this.playerSide;
+    }
+
+    public involves(ship: Brigantine): boolean {
+        return ship === this.attacker || ship === this.defender;
+    }
+
+    /**
+     * The ship on the other end of the grapples
+     */
+    public getOpponent(ship: Brigantine): Brigantine {
+        return ship === this.attacker ? this.defender : this.attacker;
+    }
+
+    public getFighters(): CrewMember[] {
+        return this.fighters;
+    }
+
+    public getFighterCount(ship: Brigantine): number {
+        return this.fighters.filter(fighter => fighter.ship === ship).length;
+    }
+
+    public getResult(): BoardingResult | null {
+        return this.result;
+    }
+
+    public isOver(): boolean {
+        return this.over;
+    }
+
+    /**
+     * Whether someone can stand at a point: on either deck or crossing on a grapple line
+     */
+    public canStand(x: number, y: number): boolean {
+        if (this.attacker.isPointOnDeck(x, y, CrewMember.RADIUS) || this.defender.isPointOnDeck(x, y, CrewMember.RADIUS)) {
+            return true;
+        }
+        return this.getGrappleLines().some(([a, b]) => distanceToSegment({ x, y }, a, b) <= BoardingAction.GANGWAY_WIDTH / 2);
+    }
+
+    /**
+     * World positions of both ends of each grapple line
+     */
+    public getGrappleLines(): [{ x: number, y: number }, { x: number, y: number }][] {
+        return this.grapples.map(grapple => [
+            { x: grapple.bodyA!.position.x + grapple.pointA.x, y: grapple.bodyA!.position.y + grapple.pointA.y },
+            { x: grapple.bodyB!.position.x + grapple.pointB.x, y: grapple.bodyB!.position.y + grapple.pointB.y }
+        ]);
+    }
+
+    /**
+     * Where someone swinging across to a ship lands: on its deck, just inboard of the nearest hook
+     */
+    public getLandingPoint(ship: Brigantine, from: { x: number, y: number }): { x: number, y: number } {
+        const hooks = this.getGrappleLines().map(([a, b]) => ship === this.attacker ? a : b);
+        const hook = hooks.sort((p, q) => Math.hypot(p.x - from.x, p.y - from.y) - Math.hypot(q.x - from.x, q.y - from.y))[0];
+        const centre = ship.getPosition();
+        const distance = Math.hypot(centre.x - hook.x, centre.y - hook.y) || 1;
+        const inboard = 25;
+        return { x: hook.x + (centre.x - hook.x) / distance * inboard, y: hook.y + (centre.y - hook.y) / distance * inboard };
+    }
+
+    /**
+     * Strike the nearest enemy fighter within reach, e.g. with the player's cutlass
+     * @param side The ship the striker fights for
+     * @returns Whether anyone was hit
+     */
+    public strike(from: { x: number, y: number }, reach: number, damage: number, side: Brigantine): boolean {
+        const target = this.fighters
+            .filter(fighter => fighter.ship !== side && !fighter.isDead())
+            .filter(fighter => Math.hypot(fighter.getPosition().x - from.x, fighter.getPosition().y - from.y) <= reach + CrewMember.RADIUS)
+            .sort((a, b) => Math.hypot(a.getPosition().x - from.x, a.getPosition().y - from.y) -
+                Math.hypot(b.getPosition().x - from.x, b.getPosition().y - from.y))[0];
+        if (!target) return false;
+
+        target.takeDamage(damage);
+        return true;
+    }
+
+    /**
+     * Carry the fighters with the decks, let them close with and strike the enemy, and see
+     * whether either side has had enough
+     * @param delta Step length in seconds
+     */
+    public update(delta: number): void {
+        if (this.over) return;
+
+        this.carryFighters();
+
+        const canStand = (x: number, y: number) => this.canStand(x, y);
+        for (const fighter of this.fighters) {
+            fighter.update(delta);
+            if (fighter.isDead()) continue;
+
+            const enemy = this.findNearestEnemy(fighter);
+            if (!enemy) continue;
+
+            const radius = enemy.combatant instanceof Player ? enemy.combatant.getRadius() : CrewMember.RADIUS;
+            if (fighter.canReach(enemy.combatant.getPosition(), radius)) {
+                const damage = fighter.attack();
+                if (damage > 0) {
+                    enemy.combatant.takeDamage(damage);
+                }
+            } else {
+                fighter.walkTowards(enemy.combatant.getPosition(), delta, canStand);
+            }
+        }
+
+        // The fallen are lost to their ship
+        for (const fighter of this.fighters.filter(fighter => fighter.isDead())) {
+            fighter.ship.setCrew(fighter.ship.getCrew() - 1);
+        }
+        this.fighters = this.fighters.filter(fighter => !fighter.isDead());
+
+        if (this.isBeaten(this.defender)) {
+            this.finish(this.attacker, this.defender);
+        } else if (this.isBeaten(this.attacker)) {
+            this.finish(this.defender, this.attacker);
+        }
+    }
+
+    /**
+     * Move everyone along with the deck under their feet
+     */
+    private carryFighters(): void {
+        for (const fighter of this.fighters) {
+            const pos = fighter.getPosition();
+            const ship = this.defender.isPointOnDeck(pos.x, pos.y) ? this.defender : this.attacker;
+            const body = ship.getBody();
+            if (!body) continue;
+
+            // Matter velocities are per step: turn about the ship's centre, then move with it
+            const rx = pos.x - body.position.x;
+            const ry = pos.y - body.position.y;
+            const cos = Math.cos(body.angularVelocity);
+            const sin = Math.sin(body.angularVelocity);
+            fighter.moveBy(
+                rx * cos - ry * sin - rx + body.velocity.x,
+                rx * sin + ry * cos - ry + body.velocity.y
+            );
+        }
+    }
+
+    /**
+     * The closest fighter from the other ship, or the player if they fight for it
+     */
+    private findNearestEnemy(fighter: CrewMember): { combatant: Combatant } | null {
+        const pos = fighter.getPosition();
+        const candidates: Combatant[] = this.fighters.filter(other => other.ship !== fighter.ship && !other.isDead());
+        if (this.player && this.playerSide && this.playerSide !== fighter.ship && !this.player.isDead()) {
+            const playerShip = this.player.getBoardedShip();
+            if (playerShip && this.involves(playerShip)) {
+                candidates.push(this.player);
+            }
+        }
+
+        let nearest: Combatant | null = null;
+        let nearestDistance = Infinity;
+        for (const candidate of candidates) {
+            const candidatePos = candidate.getPosition();
+            const distance = Math.hypot(candidatePos.x - pos.x, candidatePos.y - pos.y);
+            if (distance < nearestDistance) {
+                nearest = candidate;
+                nearestDistance = distance;
+            }
+        }
+        return nearest ? { combatant: nearest } : null;
+    }
+
+    private isBeaten(ship: Brigantine): boolean {
+        const starting = this.startingFighters.get(ship) ?? 0;
+        return this.getFighterCount(ship) <= Math.floor(starting * BoardingAction.SURRENDER_SHARE);
+    }
+
+    /**
+     * The loser strikes: their fighters are taken prisoner, a winning boarding party stays
+     * aboard its prize, and the ships are cast off
+     */
+    private finish(winner: Brigantine, loser: Brigantine): void {
+        const prisoners = this.getFighterCount(loser);
+        loser.setCrew(loser.getCrew() - prisoners);
+
+        if (winner === this.attacker) {
+            const prizeCrew = this.getFighterCount(this.attacker);
+            this.attacker.setCrew(this.attacker.getCrew() - prizeCrew);
+            this.defender.setCrew(prizeCrew);
+        }
+
+        console.log(`${loser.getDefinition().name} has surrendered to the boarders of ${winner.getDefinition().name}`);
+        this.result = { winner, loser };
+        this.cutLoose();
+    }
+
+    /**
+     * Cast off the grapples and call everyone back aboard, e.g. once the fight is decided or a ship sinks
+     */
+    public cutLoose(): void {
+        for (const grapple of this.grapples) {
+            Matter.Composite.remove(this.physics.getWorld(), grapple);
+        }
+        this.grapples = [];
+        this.fighters = [];
+        this.over = true;
+    }
+
+    /**
+     * Draw the grapple lines and everyone fighting
+     */
+    public render(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        ctx.strokeStyle = 'rgba(200, 178, 122, 0.9)';
+        ctx.lineWidth = 3;
+        for (const [a, b] of this.getGrappleLines()) {
+            ctx.beginPath();
+            ctx.moveTo(a.x, a.y);
+            ctx.lineTo(b.x, b.y);
+            ctx.stroke();
+        }
+        ctx.restore();
+
+        for (const fighter of this.fighters) {
+            fighter.render(ctx);
+        }
+    }
+}
@@ -0,0 +1,136 @@
+import { BaseGameObject } from '../objects';
+import { Brigantine } from '../ships/brigantine';
+
+/**
+ * One hand from a ship's crew, on their feet on deck. Crew have no physics body: they walk
+ * wherever the deck lets them, in whichever frame their owner keeps them - ship-local while
+ * going about the ship's work (see ShipCrew), world space while fighting across two decks
+ * (see BoardingAction).
+ */
+export class CrewMember extends BaseGameObject {
+    static readonly RADIUS: number = 7;
+    static readonly MAX_HEALTH: number = 30;
+    static readonly SPEED: number = 60;             // World units per second
+    static readonly REACH: number = 18;             // How close (edge to edge) a cutlass reaches
+    static readonly ATTACK_DAMAGE: number = 8;
+    static readonly ATTACK_INTERVAL: number = 1;    // Seconds between blows
+
+    readonly ship: Brigantine;      // The ship this hand belongs to
+    private color: string;
+    private health: number = CrewMember.MAX_HEALTH;
+    private attackCooldown: number = 0;
+    private swingTimer: number = 0; // Time left showing the last blow
+
+    /**
+     * @param ship The ship this hand sails with
+     * @param color Shirt colour, telling the two sides apart
+     */
+    constructor(x: number, y: number, ship: Brigantine, color: string) {
+        super(x, y);
+        this.ship = ship;
+        this.color = color;
+    }
+
+    public isDead(): boolean {
+        return this.health <= 0;
+    }
+
+    public getHealth(): number {
+        return this.health;
+    }
+
+    public takeDamage(amount: number): void {
+        this.health = Math.max(0, this.health - amount);
+    }
+
+    /**
+     * Move by an offset, e.g. when the deck underfoot moves
+     */
+    public moveBy(dx: number, dy: number): void {
+        this.position.x += dx;
+        this.position.y += dy;
+    }
+
+    /**
+     * Walk towards a point, only stepping where there is somewhere to stand.
+     * Blocked straight ahead, the hand tries to edge along one axis instead.
+     * @param canStand Whether a point is on a deck or gangway
+     */
+    public walkTowards(target: { x: number, y: number }, delta: number, canStand: (x: number, y: number) => boolean): void {
+        const dx = target.x - this.position.x;
+        const dy = target.y - this.position.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance === 0) return;
+
+        this.rotation = Math.atan2(dy, dx);
+        const step = Math.min(distance, CrewMember.SPEED * delta);
+        const moves = [
+            { x: dx / distance * step, y: dy / distance * step },
+            { x: Math.sign(dx) * step, y: 0 },
+            { x: 0, y: Math.sign(dy) * step }
+        ];
+        for (const move of moves) {
+            if (canStand(this.position.x + move.x, this.position.y + move.y)) {
+                this.moveBy(move.x, move.y);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Whether a target of the given radius is close enough to strike
+     */
+    public canReach(target: { x: number, y: number }, radius: number): boolean {
+        const distance = Math.hypot(target.x - this.position.x, target.y - this.position.y);
+        return distance - radius - CrewMember.RADIUS <= CrewMember.REACH;
+    }
+
+    /**
+     * Swing at whoever is in reach, if recovered from the last blow
+     * @returns Damage dealt (0 while recovering)
+     */
+    public attack(): number {
+        if (this.attackCooldown > 0) return 0;
+
+        this.attackCooldown = CrewMember.ATTACK_INTERVAL;
+        this.swingTimer = 0.2;
+        return CrewMember.ATTACK_DAMAGE;
+    }
+
+    public update(delta: number): void {
+        this.attackCooldown = Math.max(0, this.attackCooldown - delta);
+        this.swingTimer = Math.max(0, this.swingTimer - delta);
+    }
+
+    public render(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(this.position.x, this.position.y, CrewMember.RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = this.color;
+        ctx.fill();
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = 1;
+        ctx.stroke();
+
+        // Cutlass, swept out while striking
+        const reach = CrewMember.RADIUS + (this.swingTimer > 0 ? CrewMember.REACH : 6);
+        ctx.beginPath();
+        ctx.moveTo(this.position.x, this.position.y);
+        ctx.lineTo(this.position.x + Math.cos(this.rotation) * reach, this.position.y + Math.sin(this.rotation) * reach);
+        ctx.strokeStyle = '#DDDDDD';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+
+        // Health bar once hurt
+        if (this.health < CrewMember.MAX_HEALTH) {
+            const width = 14;
+            const x = this.position.x - width / 2;
+            const y = this.position.y - CrewMember.RADIUS - 6;
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+            ctx.fillRect(x, y, width, 3);
+            ctx.fillStyle = '#FF5252';
+            ctx.fillRect(x, y, width * this.health / CrewMember.MAX_HEALTH, 3);
+        }
+        ctx.restore();
+    }
+}
@@ -0,0 +1,399 @@
+import { Navigation, NavObstacle } from '../../ai/navigation';
+import { Brigantine } from '../ships/brigantine';
+import { PlankPoint } from '../ships/plankUtils';
+import { CrewMember } from './crewMember';
+
+/**
+ * Work a hand can be put to
+ */
+export type CrewJob = 'sails' | 'cannons' | 'repairs' | 'pumps';
+
+export const CREW_JOBS: CrewJob[] = ['sails', 'cannons', 'repairs', 'pumps'];
+
+export const CREW_JOB_LABELS: Record<CrewJob, string> = {
+    sails: 'Trim Sails',
+    cannons: 'Man Cannons',
+    repairs: 'Repair Planks',
+    pumps: 'Pump Bilges'
+};
+
+/**
+ * One of the crew and what they are doing
+ */
+interface DeckHand {
+    member: CrewMember;
+    job: CrewJob | null;        // null while standing by
+    station: number;            // Which mast, cannon, plank or place at the pump (-1 for none yet)
+    goal: PlankPoint | null;    // Where the hand is heading
+    route: PlankPoint[];        // Waypoints still to walk to get there
+}
+
+/**
+ * The hands aboard a ship, going about its work. Each hand is given a job - trimming a
+ * sail, serving a gun, patching planks (putting out fires first) or pumping the bilges -
+ * walks there round the masts and fittings, and works it once at their station. Sails and
+ * guns nobody is working only give part of their effect. All positions are ship-local, so
+ * the hands ride the deck.
+ */
+export class ShipCrew {
+    static readonly UNMANNED_MANNING: number = 0.4; // How well a sail or gun works with nobody at it
+    static readonly STATION_OFFSET: number = 25;    // Hands stand this far aft of a mast, or inboard of a gun or plank
+    static readonly STATION_REACH: number = 4;      // How close to their station a hand must be to work it
+    static readonly PUMP_SPACING: number = 18;      // Radius of the ring of hands round the pump
+    static readonly REPAIR_RATE: number = 5;        // Plank health per second each hand restores
+    static readonly PUMP_RATE: number = 0.004;      // Share of the hull's capacity each hand pumps out per second
+    static readonly DOUSE_RATE: number = 4;         // Seconds of burning each hand puts out per second
+    static readonly COLOR: string = '#795548';
+
+    readonly ship: Brigantine;
+    private hands: DeckHand[] = [];
+    private assigned: Record<CrewJob, number> = { sails: 0, cannons: 0, repairs: 0, pumps: 0 };
+    private automatic: boolean = true;  // Reassign everyone whenever the crew changes
+    private away: boolean = false;      // The hands have gone to fight a boarding
+    private navigation: Navigation;
+
+    constructor(ship: Brigantine) {
+        this.ship = ship;
+
+        // Hands walk round the masts and fittings along the centreline; guns sit at the rail, outboard of their crews
+        const definition = ship.getDefinition();
+        const obstacles: NavObstacle[] = [
+            ...[...ship.sails.values()].map((sail, i) => ({ id: `mast${i}`, x: sail.position.x, y: sail.position.y, radius: 15 })),
+            { id: 'wheel', x: definition.wheel.x, y: definition.wheel.y, radius: 20 },
+            { id: 'anchor', x: definition.anchor.x, y: definition.anchor.y, radius: 20 },
+            { id: 'pump', x: definition.pump.x, y: definition.pump.y, radius: 8 }
+        ];
+        this.navigation = new Navigation(5);
+        this.navigation.setObstacles(obstacles);
+
+        // Everyone starts at their post
+        this.syncHands();
+        for (const hand of this.hands) {
+            const goal = this.getGoal(hand);
+            const pos = hand.member.getPosition();
+            hand.member.moveBy(goal.x - pos.x, goal.y - pos.y);
+        }
+    }
+
+    public getHandCount(): number {
+        return this.hands.length;
+    }
+
+    public getAssigned(job: CrewJob): number {
+        return this.assigned[job];
+    }
+
+    /**
+     * Most hands a job can use: one per sail or gun, anyone for repairs and pumping
+     */
+    public getCapacity(job: CrewJob): number {
+        switch (job) {
+            case 'sails': return this.ship.sails.size;
+            case 'cannons': return this.ship.cannons.size;
+            default: return this.hands.length;
+        }
+    }
+
+    /**
+     * Hands with no job, waiting by the wheel
+     */
+    public getStandingBy(): number {
+        return this.hands.length - CREW_JOBS.reduce((total, job) => total + this.assigned[job], 0);
+    }
+
+    /**
+     * Put a number of hands to a job, taking them from those standing by. The crew is
+     * then left as assigned until told to assign itself again.
+     */
+    public assign(job: CrewJob, count: number): void {
+        const available = this.assigned[job] + this.getStandingBy();
+        this.assigned[job] = Math.max(0, Math.min(Math.round(count), this.getCapacity(job), available));
+        this.automatic = false;
+        this.allocateHands();
+    }
+
+    /**
+     * Let the crew sort itself out: a hand to each sail, then each gun, a carpenter and
+     * the rest on the pumps. Keeps doing so as hands are lost or gained.
+     */
+    public autoAssign(): void {
+        this.automatic = true;
+        let free = this.hands.length;
+        for (const job of CREW_JOBS) {
+            const wanted = job === 'repairs' ? 1 : this.getCapacity(job);
+            this.assigned[job] = Math.min(wanted, free);
+            free -= this.assigned[job];
+        }
+        this.allocateHands();
+    }
+
+    public isAutomatic(): boolean {
+        return this.automatic;
+    }
+
+    /**
+     * Send the hands off to fight (or call them back): while away nothing is manned
+     */
+    public setAway(away: boolean): void {
+        this.away = away;
+    }
+
+    public isAway(): boolean {
+        return this.away;
+    }
+
+    /**
+     * Where each hand is and what they are doing, for the panel and tests
+     */
+    public getHands(): { position: PlankPoint, job: CrewJob | null, atStation: boolean }[] {
+        return this.hands.map(hand => ({
+            position: hand.member.getPosition(),
+            job: hand.job,
+            atStation: this.isAtStation(hand)
+        }));
+    }
+
+    /**
+     * Walk each hand towards their station and do their work there, then tell the sails
+     * and guns whether anyone is working them
+     * @param delta Step length in seconds
+     */
+    public update(delta: number): void {
+        this.syncHands();
+
+        for (const hand of this.hands) {
+            hand.member.update(delta);
+            if (this.away) continue;
+
+            const goal = this.getGoal(hand);
+            if (!hand.goal || Math.hypot(goal.x - hand.goal.x, goal.y - hand.goal.y) > 1) {
+                hand.goal = goal;
+                hand.route = this.navigation.findPath(hand.member.getPosition(), goal, CrewMember.RADIUS + 2) ?? [goal];
+            }
+            this.walk(hand, delta);
+
+            if (this.isAtStation(hand)) {
+                this.work(hand, delta);
+            }
+        }
+
+        this.updateManning();
+    }
+
+    /**
+     * Take on or lose hands to match the ship's crew. The idle go first, then the pumps,
+     * carpenters, gun crews and topmen, last in first out.
+     */
+    private syncHands(): void {
+        const crew = this.ship.getCrew();
+        if (crew === this.hands.length) return;
+
+        while (this.hands.length < crew) {
+            const spot = this.getStandByPoint(this.hands.length);
+            this.hands.push({ member: new CrewMember(spot.x, spot.y, this.ship, ShipCrew.COLOR), job: null, station: -1, goal: null, route: [] });
+        }
+        while (this.hands.length > crew) {
+            const order: (CrewJob | null)[] = [null, ...[...CREW_JOBS].reverse()];
+            const job = order.find(job => this.hands.some(hand => hand.job === job))!;
+            const index = this.hands.map(hand => hand.job).lastIndexOf(job);
+            this.hands.splice(index, 1);
+        }
+
+        if (this.automatic) {
+            this.autoAssign();
+            return;
+        }
+
+        // Jobs left short-handed lose their places, the least important first
+        let excess = -this.getStandingBy();
+        for (const job of [...CREW_JOBS].reverse()) {
+            const dropped = Math.min(excess, this.assigned[job]);
+            this.assigned[job] -= dropped;
+            excess -= dropped;
+        }
+        this.allocateHands();
+    }
+
+    /**
+     * Match hands to the assigned numbers, keeping everyone who can on the job they have,
+     * then give each their own mast or gun
+     */
+    private allocateHands(): void {
+        const filled: Record<CrewJob, number> = { sails: 0, cannons: 0, repairs: 0, pumps: 0 };
+        for (const hand of this.hands) {
+            if (hand.job && filled[hand.job] < this.assigned[hand.job]) {
+                filled[hand.job]++;
+            } else {
+                this.setJob(hand, null);
+            }
+        }
+        for (const hand of this.hands.filter(hand => hand.job === null)) {
+            const job = CREW_JOBS.find(job => filled[job] < this.assigned[job]);
+            if (!job) break;
+            this.setJob(hand, job);
+            filled[job]++;
+        }
+
+        // Topmen and gun crews each take a mast or gun nobody else has
+        for (const job of ['sails', 'cannons'] as CrewJob[]) {
+            const crew = this.hands.filter(hand => hand.job === job);
+            const taken = new Set<number>();
+            for (const hand of crew) {
+                if (hand.station >= 0 && !taken.has(hand.station)) {
+                    taken.add(hand.station);
+                } else {
+                    hand.station = -1;
+                }
+            }
+            for (const hand of crew.filter(hand => hand.station === -1)) {
+                let station = 0;
+                while (taken.has(station)) station++;
+                hand.station = station;
+                taken.add(station);
+            }
+        }
+
+        // Places round the pump are handed out in turn
+        this.hands.filter(hand => hand.job === 'pumps').forEach((hand, i) => hand.station = i);
+    }
+
+    private setJob(hand: DeckHand, job: CrewJob | null): void {
+        if (hand.job === job) return;
+
+        hand.job = job;
+        hand.station = -1;
+    }
+
+    /**
+     * Where a hand should be: their station, or standing by when there's nothing to do
+     */
+    private getGoal(hand: DeckHand): PlankPoint {
+        if (hand.job === 'repairs' && !this.needsRepair(hand.station)) {
+            hand.station = this.findPlankToRepair(hand);
+        }
+        return this.getStationPoint(hand) ?? this.getStandByPoint(this.hands.indexOf(hand));
+    }
+
+    /**
+     * Ship-local spot a hand works their job from, if they have one
+     */
+    private getStationPoint(hand: DeckHand): PlankPoint | null {
+        const offset = ShipCrew.STATION_OFFSET;
+        switch (hand.job) {
+            case 'sails': {
+                const sail = [...this.ship.sails.values()][hand.station];
+                return sail ? { x: sail.position.x - offset, y: sail.position.y } : null;
+            }
+            case 'cannons': {
+                const cannon = [...this.ship.cannons.values()][hand.station];
+                return cannon ? { x: cannon.position.x, y: cannon.position.y - Math.sign(cannon.position.y) * offset } : null;
+            }
+            case 'repairs': {
+                const centre = this.ship.getPlankCentre(hand.station);
+                if (!centre) return null;
+
+                // Inboard of the plank, towards the middle of the deck
+                const hull = this.ship.getDefinition().hull;
+                const inboard = { x: Math.max(hull.sternBottom.x, Math.min(hull.bow.x, centre.x)) - centre.x, y: -centre.y };
+                const length = Math.hypot(inboard.x, inboard.y) || 1;
+                return { x: centre.x + inboard.x / length * offset, y: centre.y + inboard.y / length * offset };
+            }
+            case 'pumps': {
+                const pump = this.ship.getDefinition().pump;
+                const angle = Math.PI / 2 + hand.station * Math.PI / 3;
+                return { x: pump.x + Math.cos(angle) * ShipCrew.PUMP_SPACING, y: pump.y + Math.sin(angle) * ShipCrew.PUMP_SPACING };
+            }
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Where idle hands wait, in a rank aft of the wheel
+     */
+    private getStandByPoint(index: number): PlankPoint {
+        const wheel = this.ship.getDefinition().wheel;
+        return { x: wheel.x - 35, y: wheel.y + (index % 5 - 2) * 16 };
+    }
+
+    private needsRepair(index: number): boolean {
+        const plank = this.ship.getPlankState(index);
+        return plank !== null && (plank.health < plank.maxHealth || this.ship.isOnFire(index));
+    }
+
+    /**
+     * The worst damaged plank no other carpenter is seeing to (-1 if all are sound).
+     * Fires are put out before anything else.
+     */
+    private findPlankToRepair(hand: DeckHand): number {
+        const claimed = new Set(this.hands.filter(other => other !== hand && other.job === 'repairs').map(other => other.station));
+        let best = -1;
+        let worst = Infinity;
+        for (let i = 0; i < this.ship.getPlankCount(); i++) {
+            const plank = this.ship.getPlankState(i)!;
+            if (claimed.has(i) || !this.needsRepair(i)) continue;
+
+            // Broken planks let the sea in, so they come next
+            const condition = plank.health / plank.maxHealth - (plank.broken ? 1 : 0) - (this.ship.isOnFire(i) ? 2 : 0);
+            if (condition < worst) {
+                worst = condition;
+                best = i;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Follow the route, keeping to the deck
+     */
+    private walk(hand: DeckHand, delta: number): void {
+        const waypoint = hand.route[0];
+        if (!waypoint) return;
+
+        hand.member.walkTowards(waypoint, delta, (x, y) => this.ship.isLocalPointOnDeck({ x, y }, CrewMember.RADIUS));
+        const pos = hand.member.getPosition();
+        if (Math.hypot(waypoint.x - pos.x, waypoint.y - pos.y) < 0.5) {
+            hand.route.shift();
+        }
+    }
+
+    private isAtStation(hand: DeckHand): boolean {
+        const station = this.away ? null : this.getStationPoint(hand);
+        if (!station) return false;
+
+        const pos = hand.member.getPosition();
+        return Math.hypot(station.x - pos.x, station.y - pos.y) <= ShipCrew.STATION_REACH;
+    }
+
+    /**
+     * Put out or patch a plank, or work the pump; topmen and gun crews just have to be there
+     */
+    private work(hand: DeckHand, delta: number): void {
+        if (hand.job === 'repairs' && this.ship.isOnFire(hand.station)) {
+            this.ship.douseFire(hand.station, ShipCrew.DOUSE_RATE * delta);
+        } else if (hand.job === 'repairs') {
+            this.ship.repairPlank(hand.station, ShipCrew.REPAIR_RATE * delta);
+        } else if (hand.job === 'pumps') {
+            this.ship.pumpWater(ShipCrew.PUMP_RATE * delta);
+        }
+    }
+
+    private updateManning(): void {
+        const worked = (job: CrewJob, station: number) =>
+            this.hands.some(hand => hand.job === job && hand.station === station && this.isAtStation(hand));
+
+        [...this.ship.sails.values()].forEach((sail, i) => sail.setManning(worked('sails', i) ? 1 : ShipCrew.UNMANNED_MANNING));
+        [...this.ship.cannons.values()].forEach((cannon, i) => cannon.setManning(worked('cannons', i) ? 1 : ShipCrew.UNMANNED_MANNING));
+    }
+
+    /**
+     * Draw the hands in ship-local coordinates (the ship's transform already applied)
+     */
+    public render(ctx: CanvasRenderingContext2D): void {
+        if (this.away) return;
+
+        for (const hand of this.hands) {
+            hand.member.render(ctx);
+        }
+    }
+}
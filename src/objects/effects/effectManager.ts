@@ -3,6 +3,7 @@ import { WaterSplash } from './waterSplash';
 import { Explosion } from './explosion';
 import { GlobalFlash } from './globalFlash';
 import { CollisionImpact } from './collisionImpact';
+import { ShipDebris } from './shipDebris';
 
 /**
  * Manages visual effects
@@ -31,6 +32,19 @@ export class EffectManager {
         }
     }
     
+    /**
+     * Floating wreckage within reach of a point, for a swimmer to hold on to
+     */
+    public findDebrisNear(x: number, y: number, reach: number): { x: number, y: number } | null {
+        for (const effect of this.effects) {
+            if (effect instanceof ShipDebris) {
+                const piece = effect.getPieceNear(x, y, reach);
+                if (piece) return piece;
+            }
+        }
+        return null;
+    }
+    
     public render(ctx: CanvasRenderingContext2D): void {
         // Render all effects
         for (const effect of this.effects) {
@@ -56,6 +70,12 @@ export class EffectManager {
         return impact;
     }
     
+    public createShipDebris(x: number, y: number, angle: number = 0, length: number = 200): ShipDebris {
+        const debris = new ShipDebris(x, y, angle, length);
+        this.addEffect(debris);
+        return debris;
+    }
+    
     public createGlobalFlash(x: number, y: number, color: string = 'rgba(255, 255, 255, 0.3)', duration: number = 0.3): GlobalFlash {
         const flash = new GlobalFlash(x, y, color, duration);
         this.addEffect(flash);
@@ -0,0 +1,106 @@
+import { VisualEffect } from './visualEffect';
+
+/**
+ * Floating wreckage left behind by a sinking ship
+ */
+export class ShipDebris extends VisualEffect {
+    private pieces: Array<{
+        x: number;
+        y: number;
+        vx: number;
+        vy: number;
+        angle: number;
+        spin: number;
+        length: number;
+        width: number;
+        color: string;
+    }>;
+
+    constructor(x: number, y: number, angle: number = 0, length: number = 200) {
+        super(x, y, length, 45);  // Wreckage floats long enough for survivors to cling to
+
+        // Scatter planks and barrels along the length of the hull
+        this.pieces = [];
+        const pieceCount = Math.floor(length / 12);
+        const colors = ['#8B4513', '#A0522D', '#5C3317', '#D2B48C'];
+
+        for (let i = 0; i < pieceCount; i++) {
+            const along = (Math.random() - 0.5) * length;
+            const across = (Math.random() - 0.5) * length * 0.3;
+            const driftAngle = Math.random() * Math.PI * 2;
+            const driftSpeed = 5 + Math.random() * 20;
+
+            this.pieces.push({
+                x: along * Math.cos(angle) - across * Math.sin(angle),
+                y: along * Math.sin(angle) + across * Math.cos(angle),
+                vx: Math.cos(driftAngle) * driftSpeed,
+                vy: Math.sin(driftAngle) * driftSpeed,
+                angle: Math.random() * Math.PI * 2,
+                spin: (Math.random() - 0.5) * 1.5,
+                length: 10 + Math.random() * 30,
+                width: 4 + Math.random() * 4,
+                color: colors[Math.floor(Math.random() * colors.length)]
+            });
+        }
+    }
+
+    public update(delta: number): void {
+        super.update(delta);
+
+        if (this.finished) return;
+
+        // Pieces drift apart, slowing as they lose momentum in the water
+        for (const piece of this.pieces) {
+            piece.x += piece.vx * delta;
+            piece.y += piece.vy * delta;
+            piece.vx *= 0.99;
+            piece.vy *= 0.99;
+            piece.angle += piece.spin * delta;
+        }
+    }
+
+    /**
+     * The piece of wreckage nearest a point, if one is within reach
+     * @returns World position of the piece, or null
+     */
+    public getPieceNear(x: number, y: number, reach: number): { x: number, y: number } | null {
+        if (this.finished) return null;
+
+        let nearest: { x: number, y: number } | null = null;
+        let nearestDistance = reach;
+        for (const piece of this.pieces) {
+            const pieceX = this.position.x + piece.x;
+            const pieceY = this.position.y + piece.y;
+            // Long planks can be grabbed anywhere along their length
+            const distance = Math.hypot(pieceX - x, pieceY - y) - piece.length / 2;
+            if (distance <= nearestDistance) {
+                nearest = { x: pieceX, y: pieceY };
+                nearestDistance = distance;
+            }
+        }
+        return nearest;
+    }
+
+    public render(ctx: CanvasRenderingContext2D): void {
+        if (this.finished) return;
+
+        // Fade out over the last third of the effect
+        const progress = this.getProgress();
+        const alpha = progress < 0.66 ? 1 : 1 - (progress - 0.66) / 0.34;
+
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+        ctx.globalAlpha = Math.max(0, alpha);
+
+        for (const piece of this.pieces) {
+            ctx.save();
+            ctx.translate(piece.x, piece.y);
+            ctx.rotate(piece.angle);
+            ctx.fillStyle = piece.color;
+            ctx.fillRect(-piece.length / 2, -piece.width / 2, piece.length, piece.width);
+            ctx.restore();
+        }
+
+        ctx.restore();
+    }
+}
@@ -1,18 +1,62 @@
 import * as Matter from 'matter-js';
 import { BaseGameObject } from './objects';
 import { Input } from '../engine/input';
+import { Action } from '../engine/inputBindings';
 import { Color, CollisionCategories } from '../utils/color';
 import { Camera } from '../engine/camera';
 import { Brigantine } from './ships/brigantine';
+import { EffectManager } from './effects/effectManager';
+import { SoundManager } from '../engine/soundManager';
+import { SailModule } from './shipModules/SailModule';
+
+/**
+ * What the player is standing on, or swimming in
+ */
+export type PlayerSurface = 'deck' | 'land' | 'water';
 
 export class Player extends BaseGameObject {
+    // Swimming
+    static readonly SWIM_SPEED_FACTOR: number = 0.4;    // Swimming speed as a fraction of walking speed
+    static readonly DEBRIS_SPEED_FACTOR: number = 0.2;  // Kicking along while holding on to wreckage
+    static readonly SHORE_REACH: number = 15;           // How close to an island's edge the player can climb out
+    static readonly DEBRIS_REACH: number = 30;          // How close wreckage must be to grab it
+    static readonly MAX_STAMINA: number = 100;
+    static readonly TREAD_WATER_DRAIN: number = 1.5;    // Stamina per second just staying afloat
+    static readonly SWIM_DRAIN: number = 3.5;           // Extra stamina per second while swimming
+    static readonly STAMINA_RECOVERY: number = 20;      // Stamina per second out of the water or holding wreckage
+    static readonly DROWNING_DAMAGE: number = 10;       // Health per second once exhausted
+    static readonly OPEN_SEA_DISTANCE: number = 1500;   // Further than this from land the cold saps health
+    static readonly EXPOSURE_DAMAGE: number = 1;        // Health per second in the open sea
+    
+    // Injuries
+    static readonly MAX_HEALTH: number = 100;
+    static readonly IMPACT_SPEED: number = 1;           // Jolts below this (per step) are shrugged off
+    static readonly IMPACT_DAMAGE: number = 15;         // Health per unit of speed above that
+    static readonly FALL_DAMAGE: number = 25;           // Falling from the rigging to the deck
+    
+    // Melee
+    static readonly MELEE_DAMAGE: number = 15;
+    static readonly MELEE_REACH: number = 30;           // How far ahead a cutlass swing reaches
+    static readonly MELEE_INTERVAL: number = 0.5;       // Seconds between swings
+    
     private radius: number;
     private speed: number;
     private input: Input;
     private camera: Camera | null;
-    private health: number = 100; // Default health
+    private health: number = Player.MAX_HEALTH;
     private isBoarded: boolean = false;
     private boardedShip: Brigantine | null = null;
+    private surface: PlayerSurface = 'water';
+    private stamina: number = Player.MAX_STAMINA;
+    private distanceToLand: number = Infinity;
+    private heldDebris: { x: number, y: number } | null = null; // Wreckage the player is clinging to
+    private effectManager: EffectManager | null = null;
+    private soundManager: SoundManager | null = null;
+    private aloft: SailModule | null = null;       // Mast the player has climbed, if any
+    private mastHealth: number = 0;                // The mast's health when last checked, to notice hits
+    private deckVelocity: { x: number, y: number } | null = null; // Boarded ship's velocity last step
+    private meleeCooldown: number = 0;
+    private swingTimer: number = 0;                // Time left showing the last swing
     
     constructor(x: number, y: number, radius: number, input: Input) {
         super(x, y);
@@ -27,10 +71,267 @@ export class Player extends BaseGameObject {
     
      public isDead(): boolean {
         return this.health <= 0;
-    }    public heal(amount: number): void {
+    }
+    
+    public getHealth(): number {
+        return this.health;
+    }
+    
+    public getRadius(): number {
+        return this.radius;
+    }
+    
+    public setHealth(health: number): void {
+        this.health = health;
+    }
+    
+    /**
+     * Move the player (e.g. when loading a save), keeping the physics body in step
+     */
+    public teleport(x: number, y: number, velocity: { x: number, y: number } = { x: 0, y: 0 }): void {
+        this.position.x = x;
+        this.position.y = y;
+        this.deckVelocity = null;
+        
+        if (this.body) {
+            Matter.Body.setPosition(this.body, { x, y });
+            Matter.Body.setVelocity(this.body, velocity);
+        }
+    }
+    public heal(amount: number): void {
         this.health += amount;
     }
     
+    /**
+     * Lose health, e.g. from drowning or exposure
+     */
+    public takeDamage(amount: number): void {
+        this.health = Math.max(0, this.health - amount);
+    }
+    
+    /**
+     * Get caught by a cannonball's explosion or splash, hurting less towards its edge.
+     * Anyone caught aloft is blown out of the rigging.
+     * @param radius How far the blast reaches
+     * @param damage Damage at the centre of the blast
+     */
+    public takeBlast(x: number, y: number, radius: number, damage: number): void {
+        const distance = Math.max(0, Math.hypot(this.position.x - x, this.position.y - y) - this.radius);
+        if (distance >= radius) return;
+        
+        this.takeDamage(damage * (1 - distance / radius));
+        console.log(`Player caught in a blast (${Math.round(this.health)} health left)`);
+        this.fallFromMast();
+    }
+    
+    /**
+     * Get thrown about, e.g. run down by a ship while swimming or aboard a ship that rams
+     * something. Anyone aloft is thrown out of the rigging.
+     * @param speed Sudden change of speed, per step
+     */
+    public takeImpact(speed: number): void {
+        if (speed <= Player.IMPACT_SPEED) return;
+        
+        this.takeDamage((speed - Player.IMPACT_SPEED) * Player.IMPACT_DAMAGE);
+        console.log(`Player thrown about at ${speed.toFixed(1)} (${Math.round(this.health)} health left)`);
+        this.fallFromMast();
+    }
+    
+    /**
+     * Come back to life after dying, rested but not fully healed
+     */
+    public revive(health: number): void {
+        this.health = Math.min(Player.MAX_HEALTH, health);
+        this.stamina = Player.MAX_STAMINA;
+        this.aloft = null;
+        this.deckVelocity = null;
+    }
+    
+    /**
+     * Set the effect manager used for splashes
+     */
+    public setEffectManager(effectManager: EffectManager): void {
+        this.effectManager = effectManager;
+    }
+    
+    public setSoundManager(soundManager: SoundManager): void {
+        this.soundManager = soundManager;
+    }
+    
+    /**
+     * Tell the player what is around it this step. Off a deck and away from the shore it
+     * is in the water, and splashes as it goes in.
+     * @param distanceToLand Distance from the nearest island's edge (Infinity with none loaded)
+     * @param debris Wreckage within reach to hold on to, if any
+     */
+    public setSurroundings(distanceToLand: number, debris: { x: number, y: number } | null): void {
+        const previous = this.surface;
+        
+        this.distanceToLand = distanceToLand;
+        if (this.isBoarded) {
+            this.surface = 'deck';
+        } else if (distanceToLand <= this.radius + Player.SHORE_REACH) {
+            this.surface = 'land';
+        } else {
+            this.surface = 'water';
+        }
+        this.heldDebris = this.surface === 'water' ? debris : null;
+        
+        if (this.surface === 'water' && previous !== 'water') {
+            console.log(`Player went into the water at (${Math.round(this.position.x)}, ${Math.round(this.position.y)})`);
+            if (this.effectManager) {
+                this.effectManager.createWaterSplash(this.position.x, this.position.y, 25);
+            }
+            if (this.soundManager) {
+                this.soundManager.playSound('splash', 0.3);
+            }
+        }
+    }
+    
+    public getSurface(): PlayerSurface {
+        return this.surface;
+    }
+    
+    public isSwimming(): boolean {
+        return this.surface === 'water';
+    }
+    
+    public isHoldingDebris(): boolean {
+        return this.heldDebris !== null;
+    }
+    
+    public getStamina(): number {
+        return this.stamina;
+    }
+    
+    /**
+     * Whether the player is out of strength and going under
+     */
+    public isDrowning(): boolean {
+        return this.isSwimming() && !this.heldDebris && this.stamina <= 0;
+    }
+    
+    /**
+     * Tire while swimming and recover out of the water or holding wreckage; an exhausted
+     * swimmer drowns, and anyone in the open sea suffers from the cold
+     * @param moving Whether the player is swimming rather than treading water
+     */
+    private updateSwimming(delta: number, moving: boolean): void {
+        if (!this.isSwimming() || this.heldDebris) {
+            this.stamina = Math.min(Player.MAX_STAMINA, this.stamina + Player.STAMINA_RECOVERY * delta);
+        } else {
+            const drain = Player.TREAD_WATER_DRAIN + (moving ? Player.SWIM_DRAIN : 0);
+            this.stamina = Math.max(0, this.stamina - drain * delta);
+        }
+        
+        if (this.isDrowning()) {
+            this.takeDamage(Player.DROWNING_DAMAGE * delta);
+        }
+        if (this.isSwimming() && this.distanceToLand > Player.OPEN_SEA_DISTANCE) {
+            this.takeDamage(Player.EXPOSURE_DAMAGE * delta);
+        }
+    }
+    
+    /**
+     * Swing a cutlass, if recovered from the last swing and on something solid
+     * @returns Whether the player swung
+     */
+    public swingCutlass(): boolean {
+        if (this.meleeCooldown > 0 || this.isSwimming() || this.aloft) return false;
+        
+        this.meleeCooldown = Player.MELEE_INTERVAL;
+        this.swingTimer = 0.2;
+        return true;
+    }
+    
+    /**
+     * Where a cutlass swing lands, just ahead of the player
+     */
+    public getMeleePoint(): { x: number, y: number } {
+        const reach = this.radius + Player.MELEE_REACH / 2;
+        return {
+            x: this.position.x + Math.cos(this.rotation) * reach,
+            y: this.position.y + Math.sin(this.rotation) * reach
+        };
+    }
+    
+    /**
+     * Climb the rigging of a mast on the ship the player is aboard
+     */
+    public climbMast(mast: SailModule): void {
+        if (!this.isBoarded || this.aloft) return;
+        
+        this.aloft = mast;
+        this.mastHealth = mast.getHealth();
+        console.log('Player climbed the mast');
+    }
+    
+    /**
+     * Climb safely back down to the deck
+     */
+    public climbDown(): void {
+        if (!this.aloft) return;
+        
+        console.log('Player climbed down from the mast');
+        this.aloft = null;
+    }
+    
+    /**
+     * Lose hold of the rigging and fall to the deck below
+     */
+    private fallFromMast(): void {
+        if (!this.aloft) return;
+        
+        console.log('Player fell from the mast');
+        this.aloft = null;
+        this.takeDamage(Player.FALL_DAMAGE);
+        if (this.soundManager) {
+            this.soundManager.playSound('collision', 0.4);
+        }
+    }
+    
+    public isAloft(): boolean {
+        return this.aloft !== null;
+    }
+    
+    public getMast(): SailModule | null {
+        return this.aloft;
+    }
+    
+    /**
+     * Hang on to the rigging as the ship moves; a hit on the mast shakes the player loose
+     */
+    private updateAloft(): void {
+        if (!this.aloft || !this.body) return;
+        
+        if (this.aloft.getHealth() < this.mastHealth) {
+            this.fallFromMast();
+            return;
+        }
+        
+        const mastPosition = this.aloft.getWorldPosition();
+        Matter.Body.setPosition(this.body, mastPosition);
+        Matter.Body.setVelocity(this.body, { x: 0, y: 0 });
+    }
+    
+    /**
+     * Feel the deck lurch when the ship the player is aboard stops or turns suddenly, e.g.
+     * ramming another ship or running aground
+     */
+    private updateDeckMotion(): void {
+        const shipBody = this.isBoarded && this.boardedShip ? this.boardedShip.getBody() : null;
+        if (!shipBody) {
+            this.deckVelocity = null;
+            return;
+        }
+        
+        const velocity = { x: shipBody.velocity.x, y: shipBody.velocity.y };
+        if (this.deckVelocity) {
+            this.takeImpact(Math.hypot(velocity.x - this.deckVelocity.x, velocity.y - this.deckVelocity.y));
+        }
+        this.deckVelocity = velocity;
+    }
+    
     public setCamera(camera: Camera): void {
         this.camera = camera;
     }    protected override createPhysicsBody(): void {
@@ -99,36 +400,50 @@ export class Player extends BaseGameObject {
         // Initialize force vector
         const force = { x: 0, y: 0 };
         
-        // Handle key inputs
-        if (this.input.isKeyDown('w') || this.input.isKeyDown('arrowup')) {
+        // Handle movement actions - keys move at full speed, a stick moves as far as it is pushed.
+        // Swimming is slower than walking, and slower still pushing a piece of wreckage along.
+        const speed = this.isSwimming() ?
+            this.speed * (this.heldDebris ? Player.DEBRIS_SPEED_FACTOR : Player.SWIM_SPEED_FACTOR) : this.speed;
+        const forward = this.input.getActionValue(Action.MoveForward);
+        const back = this.input.getActionValue(Action.MoveBack);
+        const left = this.input.getActionValue(Action.MoveLeft);
+        const right = this.input.getActionValue(Action.MoveRight);
+        
+        if (forward > 0) {
             // Move forward in the direction the player is facing
-            force.x = directionToMouse.x * this.speed;
-            force.y = directionToMouse.y * this.speed;
+            force.x = directionToMouse.x * speed * forward;
+            force.y = directionToMouse.y * speed * forward;
         }
         
-        if (this.input.isKeyDown('s') || this.input.isKeyDown('arrowdown')) {
+        if (back > 0) {
             // Move backward from the direction the player is facing
-            force.x = -directionToMouse.x * this.speed;
-            force.y = -directionToMouse.y * this.speed;
+            force.x = -directionToMouse.x * speed * back;
+            force.y = -directionToMouse.y * speed * back;
         }
         
-        if (this.input.isKeyDown('a') || this.input.isKeyDown('arrowleft')) {
+        if (left > 0) {
             // Strafe left (perpendicular to forward direction)
-            force.x += -directionToMouse.y * this.speed;
-            force.y += directionToMouse.x * this.speed;
+            force.x += -directionToMouse.y * speed * left;
+            force.y += directionToMouse.x * speed * left;
         }
         
-        if (this.input.isKeyDown('d') || this.input.isKeyDown('arrowright')) {
+        if (right > 0) {
             // Strafe right (perpendicular to forward direction)
-            force.x += directionToMouse.y * this.speed;
-            force.y += -directionToMouse.x * this.speed;
+            force.x += directionToMouse.y * speed * right;
+            force.y += -directionToMouse.x * speed * right;
         }
         
-        // Apply force if there is any and we have a physics body
-        if (this.body && (force.x !== 0 || force.y !== 0)) {
+        // Apply force if there is any and we have a physics body; up the rigging there's nowhere to walk
+        if (this.body && !this.aloft && (force.x !== 0 || force.y !== 0)) {
             Matter.Body.applyForce(this.body, this.body.position, force);
         }
         
+        this.updateSwimming(delta, force.x !== 0 || force.y !== 0);
+        this.meleeCooldown = Math.max(0, this.meleeCooldown - delta);
+        this.swingTimer = Math.max(0, this.swingTimer - delta);
+        this.updateDeckMotion();
+        this.updateAloft();
+        
         // Update position from physics body
         super.update(delta);
     }
@@ -152,12 +467,75 @@ export class Player extends BaseGameObject {
         ctx.stroke();
         ctx.closePath();
         
+        if (this.swingTimer > 0) {
+            this.renderSwing(ctx);
+        }
+        if (this.isSwimming()) {
+            this.renderSwimming(ctx);
+        }
+        if (this.aloft) {
+            this.renderAloft(ctx);
+        }
+        
         // Render debug visualization if debug mode is enabled
         if (BaseGameObject.isDebugMode()) {
             this.renderDebug(ctx);
         }
     }
     
+    /**
+     * Ripples round a swimmer and, once tiring, a stamina bar overhead
+     */
+    private renderSwimming(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(this.position.x, this.position.y, this.radius + 4, 0, Math.PI * 2);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        
+        if (this.stamina < Player.MAX_STAMINA) {
+            const width = 30;
+            const x = this.position.x - width / 2;
+            const y = this.position.y - this.radius - 12;
+            const fraction = this.stamina / Player.MAX_STAMINA;
+            
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+            ctx.fillRect(x, y, width, 4);
+            ctx.fillStyle = fraction > 0.3 ? '#4FC3F7' : '#FF5252';
+            ctx.fillRect(x, y, width * fraction, 4);
+        }
+        ctx.restore();
+    }
+    
+    /**
+     * The arc of a cutlass swing ahead of the player
+     */
+    private renderSwing(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(this.position.x, this.position.y, this.radius + Player.MELEE_REACH,
+            this.rotation - Math.PI / 4, this.rotation + Math.PI / 4);
+        ctx.strokeStyle = 'rgba(230, 230, 230, 0.8)';
+        ctx.lineWidth = 3;
+        ctx.stroke();
+        ctx.restore();
+    }
+    
+    /**
+     * Rigging lines round a player up a mast
+     */
+    private renderAloft(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(this.position.x, this.position.y, this.radius + 6, 0, Math.PI * 2);
+        ctx.setLineDash([4, 3]);
+        ctx.strokeStyle = 'rgba(120, 80, 40, 0.9)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.restore();
+    }
+    
     /**
      * Get the current velocity magnitude (speed)
      */
@@ -258,9 +636,11 @@ export class Player extends BaseGameObject {
             this.boardedShip.setPlayerBoarded(false);
         }
         
-        // Reset boarding state
+        // Reset boarding state; anyone still up the rigging goes into the sea with everyone else
         this.boardedShip = null;
         this.isBoarded = false;
+        this.aloft = null;
+        this.deckVelocity = null;
         
         console.log(`✅ UNBOARDING SUCCESSFUL: Player has disembarked from the ship`);
     }
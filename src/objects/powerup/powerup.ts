@@ -15,14 +15,16 @@ export class PowerUp extends BaseGameObject {
     private duration!: number; // Duration in seconds, 0 for instant effects like repair
     private active: boolean = false;
     private collected: boolean = false;
+    private id: string; // Stable world id so collected items stay collected when regenerated
     private glowAmount: number = 0;
     private glowSpeed: number = 3;
     private glowPhase: number = 0;
     private rotationSpeed: number = 0.5;
     
-    constructor(x: number, y: number, type: PowerUpType) {
+    constructor(x: number, y: number, type: PowerUpType, id: string = '') {
         super(x, y);
         this.type = type;
+        this.id = id;
         this.radius = 15;
         
         // Set duration based on power-up type
@@ -222,6 +224,10 @@ export class PowerUp extends BaseGameObject {
         ctx.setLineDash([]); // Reset to solid line
     }
     
+    public getId(): string {
+        return this.id;
+    }
+    
     public getType(): PowerUpType {
         return this.type;
     }
@@ -0,0 +1,126 @@
+/**
+ * What a cannon can be loaded with
+ */
+export type AmmoType = 'round' | 'chain' | 'grape' | 'heated';
+
+export const AMMO_TYPES: AmmoType[] = ['round', 'chain', 'grape', 'heated'];
+
+/**
+ * How a kind of shot flies and what it does to what it strikes. Damage figures
+ * multiply the damage of the gun that fired it.
+ */
+export interface AmmoSpec {
+    name: string;
+    hullDamage: number;     // Against planks, the hull and fittings
+    sailDamage: number;     // Against sails
+    sailShred: number;      // Openness (percent) torn out of a sail it strikes
+    crewKilled: number;     // Hands cut down when it sweeps a deck
+    blastDamage: number;    // To anyone caught near where it strikes
+    blastRadius: number;    // Extra reach of that blast, on top of the usual
+    speed: number;          // Muzzle velocity, relative to round shot
+    lifetime: number;       // Most seconds in flight, however high it is aimed (grape soon loses its force)
+    ignites: boolean;       // Sets planks it strikes alight
+    stockPerGun: number;    // Rounds carried for each gun when a ship puts to sea
+}
+
+export const AMMUNITION: Record<AmmoType, AmmoSpec> = {
+    // Solid iron, for holing the hull
+    round: {
+        name: 'Round Shot', hullDamage: 1, sailDamage: 1, sailShred: 0, crewKilled: 0,
+        blastDamage: 1, blastRadius: 0, speed: 1, lifetime: 2, ignites: false, stockPerGun: 16
+    },
+    // Two half-balls chained together, spinning through the rigging
+    chain: {
+        name: 'Chain Shot', hullDamage: 0.3, sailDamage: 3, sailShred: 40, crewKilled: 0,
+        blastDamage: 0.5, blastRadius: 0, speed: 0.8, lifetime: 1.5, ignites: false, stockPerGun: 3
+    },
+    // A bag of musket balls that scatters across a deck, only good up close
+    grape: {
+        name: 'Grape Shot', hullDamage: 0.25, sailDamage: 0.5, sailShred: 0, crewKilled: 2,
+        blastDamage: 1.5, blastRadius: 40, speed: 0.9, lifetime: 0.6, ignites: false, stockPerGun: 3
+    },
+    // Round shot heated in the galley fire until it glows
+    heated: {
+        name: 'Heated Shot', hullDamage: 0.8, sailDamage: 1, sailShred: 0, crewKilled: 0,
+        blastDamage: 1, blastRadius: 0, speed: 1, lifetime: 2, ignites: true, stockPerGun: 2
+    }
+};
+
+/**
+ * A ship's shot locker: how many of each kind of shot are aboard and which kind the
+ * guns are loading
+ */
+export class AmmoLocker {
+    private stock: Record<AmmoType, number>;
+    private selected: AmmoType = 'round';
+
+    /**
+     * @param guns Number of guns aboard, setting how much shot is carried
+     */
+    constructor(guns: number) {
+        this.stock = { round: 0, chain: 0, grape: 0, heated: 0 };
+        for (const type of AMMO_TYPES) {
+            this.stock[type] = AMMUNITION[type].stockPerGun * guns;
+        }
+    }
+
+    public getStock(type: AmmoType): number {
+        return this.stock[type];
+    }
+
+    public getSelected(): AmmoType {
+        return this.selected;
+    }
+
+    public select(type: AmmoType): void {
+        this.selected = type;
+    }
+
+    /**
+     * Load the next kind of shot that is still aboard
+     */
+    public selectNext(): AmmoType {
+        const start = AMMO_TYPES.indexOf(this.selected);
+        for (let i = 1; i <= AMMO_TYPES.length; i++) {
+            const type = AMMO_TYPES[(start + i) % AMMO_TYPES.length];
+            if (this.stock[type] > 0) {
+                this.selected = type;
+                break;
+            }
+        }
+        return this.selected;
+    }
+
+    /**
+     * Take a round out of the locker
+     * @returns false if there are none left
+     */
+    public take(type: AmmoType): boolean {
+        if (this.stock[type] <= 0) return false;
+
+        this.stock[type]--;
+        return true;
+    }
+
+    public add(type: AmmoType, count: number): void {
+        this.stock[type] = Math.max(0, this.stock[type] + Math.round(count));
+    }
+
+    /**
+     * Stock and selection for saving
+     */
+    public getState(): { stock: Record<AmmoType, number>, selected: AmmoType } {
+        return { stock: { ...this.stock }, selected: this.selected };
+    }
+
+    public setState(state: { stock: Record<string, number>, selected: string }): void {
+        for (const type of AMMO_TYPES) {
+            this.stock[type] = Math.max(0, Math.round(state.stock[type] ?? 0));
+        }
+        this.selected = isAmmoType(state.selected) ? state.selected : 'round';
+    }
+}
+
+export function isAmmoType(value: unknown): value is AmmoType {
+    return AMMO_TYPES.includes(value as AmmoType);
+}
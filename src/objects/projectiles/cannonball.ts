@@ -1,31 +1,69 @@
 import * as Matter from 'matter-js';
 import { BaseGameObject } from '../objects';
-import { Color } from '../../utils/color';
+import { Color, CollisionCategories } from '../../utils/color';
+import { AmmoType, AMMUNITION } from './ammunition';
 
+/**
+ * A shot in flight. The physics body carries it across the water; its height above the
+ * water is simulated alongside, rising and falling under gravity, so a ball can sail over
+ * anything lower than itself and lands (with a splash) where its arc comes down.
+ */
 export class Cannonball extends BaseGameObject {
+    static readonly SPLASH_RADIUS: number = 25;     // Swimmers this close to where a shot falls are hurt
+    static readonly GRAVITY: number = 300;          // World units per second squared
+    static readonly MUZZLE_HEIGHT: number = 12;     // Height above the water a gun fires from (its port is below the rail)
+    static readonly DEFAULT_ELEVATION: number = 3 * Math.PI / 180; // For guns that aren't laid for range
+    static readonly STEPS_PER_SECOND: number = 60;  // Matter velocities are per fixed step
+    static readonly LIFT: number = 0.5;             // Screen offset of the ball above its shadow, per unit of height
+    static readonly HEIGHT_SCALE: number = 120;     // Height at which the ball is drawn twice its size
+    
+
     private radius: number;
     private damage: number;
     private lifetime: number;
     private maxLifetime: number;
     private initialPosition: { x: number, y: number };
     private distanceTraveled: number;
+    private owner: BaseGameObject | null;  // Ship that fired this cannonball (never hit by it)
+    private hasHitTarget: boolean = false;  // Set once the cannonball has struck something
+    private ammo: AmmoType;                 // What the gun was loaded with
+    private trail: { x: number, y: number }[] = [];     // Recent positions, for the glow behind heated shot
+    private scatter: { x: number, y: number }[] = [];   // Offsets of the balls in a load of grape
+    private height: number = Cannonball.MUZZLE_HEIGHT;  // Above the water
+    private verticalVelocity: number;                   // Units per second, upwards positive
+    private landed: boolean = false;                    // Set once the ball has come down in the sea
     
-    constructor(x: number, y: number, direction: { x: number, y: number }, damage: number) {
+    /**
+     * @param elevation Angle of the barrel above the horizontal, in radians
+     */
+    constructor(x: number, y: number, direction: { x: number, y: number }, damage: number, owner: BaseGameObject | null = null,
+                ammo: AmmoType = 'round', elevation: number = Cannonball.DEFAULT_ELEVATION) {
         super(x, y);
+        const spec = AMMUNITION[ammo];
+        this.ammo = ammo;
         this.radius = 5;
         this.damage = damage;
         this.lifetime = 0;
-        this.maxLifetime = 2; // 2 seconds until despawn
+        this.maxLifetime = spec.lifetime; // Seconds until it drops into the sea, however high it was aimed
         this.initialPosition = { x, y };
         this.distanceTraveled = 0;
+        this.owner = owner;
         
         // Create physics body for cannonball
         this.body = Matter.Bodies.circle(x, y, this.radius, {
             friction: 0,
             frictionAir: 0,
             restitution: 0.8,
-            // Make cannonballs collide but not affect other bodies too much
             density: 0.1,
+            // Sensor so hits are reported through collision events without shoving the target
+            isSensor: true,
+            collisionFilter: {
+                category: CollisionCategories.PROJECTILE,
+                mask: CollisionCategories.SHIP | CollisionCategories.DECK_ELEMENT |
+                      CollisionCategories.MODULE | CollisionCategories.SAIL_FIBER |
+                      CollisionCategories.ISLAND,
+                group: 0
+            },
             label: 'cannonball'
         });
         
@@ -36,15 +74,64 @@ export class Cannonball extends BaseGameObject {
             direction.y /= length;
         }
         
-        // Set velocity (with damage affecting speed)
-        const speed = 10 + damage * 0.5; // Base speed + bonus from damage
+        // Split the muzzle velocity between the ground track and the climb
+        const speed = Cannonball.getMuzzleSpeed(damage, ammo) / Cannonball.STEPS_PER_SECOND;
+        this.verticalVelocity = Cannonball.getMuzzleSpeed(damage, ammo) * Math.sin(elevation);
         
         if (this.body) {
             Matter.Body.setVelocity(this.body, {
-                x: direction.x * speed,
-                y: direction.y * speed
+                x: direction.x * speed * Math.cos(elevation),
+                y: direction.y * speed * Math.cos(elevation)
             });
         }
+        
+        // Grape spreads out into a loose cluster as it flies
+        if (ammo === 'grape') {
+            for (let i = 0; i < 6; i++) {
+                this.scatter.push({ x: (Math.random() - 0.5) * 2, y: (Math.random() - 0.5) * 2 });
+            }
+        }
+    }
+    
+    /**
+     * Speed a gun of the given damage fires a kind of shot at, in world units per second
+     * (harder-hitting guns throw their shot faster)
+     */
+    public static getMuzzleSpeed(damage: number, ammo: AmmoType = 'round'): number {
+        return (10 + damage * 0.5) * AMMUNITION[ammo].speed * Cannonball.STEPS_PER_SECOND;
+    }
+    
+    /**
+     * Lowest barrel elevation that brings a shot down at a given distance
+     * @param speed Muzzle speed in world units per second
+     * @param lifetime Seconds the shot flies before it is spent
+     * @returns Elevation in radians, or null if the target is out of reach
+     */
+    public static getElevationForRange(distance: number, speed: number, lifetime: number = Infinity): number | null {
+        // Solve height(distance) = 0 for tan(elevation): k*t^2 - d*t + (k - h) = 0
+        const k = Cannonball.GRAVITY * distance * distance / (2 * speed * speed);
+        if (k === 0) return 0;
+        
+        const discriminant = distance * distance - 4 * k * (k - Cannonball.MUZZLE_HEIGHT);
+        if (discriminant < 0) return null;
+        
+        // The low arc is also the quickest; if the shot is spent before it gets there, no arc will do
+        const elevation = Math.atan((distance - Math.sqrt(discriminant)) / (2 * k));
+        if (speed * Math.cos(elevation) * lifetime < distance) return null;
+        
+        return elevation;
+    }
+    
+    /**
+     * How far along the water a shot fired at an elevation comes down, or is spent if
+     * its lifetime runs out first
+     * @param speed Muzzle speed in world units per second
+     * @param lifetime Seconds the shot flies before it is spent
+     */
+    public static getRange(elevation: number, speed: number, lifetime: number = Infinity): number {
+        const climb = speed * Math.sin(elevation);
+        const flightTime = (climb + Math.sqrt(climb * climb + 2 * Cannonball.GRAVITY * Cannonball.MUZZLE_HEIGHT)) / Cannonball.GRAVITY;
+        return speed * Math.cos(elevation) * Math.min(flightTime, lifetime);
     }
     
     public update(delta: number): void {
@@ -53,10 +140,23 @@ export class Cannonball extends BaseGameObject {
         // Update lifetime
         this.lifetime += delta;
         
+        // Rise and fall; a ball that reaches the water has landed
+        this.verticalVelocity -= Cannonball.GRAVITY * delta;
+        this.height += this.verticalVelocity * delta;
+        if (this.height <= 0) {
+            this.height = 0;
+            this.landed = true;
+        }
+        
         // Calculate distance traveled
         const dx = this.position.x - this.initialPosition.x;
         const dy = this.position.y - this.initialPosition.y;
         this.distanceTraveled = Math.sqrt(dx * dx + dy * dy);
+        
+        if (this.ammo === 'heated') {
+            this.trail.push({ x: this.position.x, y: this.position.y });
+            if (this.trail.length > 8) this.trail.shift();
+        }
     }
     
     /**
@@ -67,12 +167,39 @@ export class Cannonball extends BaseGameObject {
     }
     
     public render(ctx: CanvasRenderingContext2D): void {
-        // Draw the cannonball as a black circle
+        // A shadow on the water where the ball is over, fainter and smaller the higher it flies
+        const shadowScale = Math.max(0.4, 1 - this.height / (Cannonball.HEIGHT_SCALE * 2));
+        ctx.save();
         ctx.beginPath();
-        ctx.arc(this.position.x, this.position.y, this.radius, 0, Math.PI * 2);
-        ctx.fillStyle = Color.BLACK;
+        ctx.ellipse(this.position.x, this.position.y, this.radius * 1.2 * shadowScale, this.radius * 0.8 * shadowScale, 0, 0, Math.PI * 2);
+        ctx.fillStyle = `rgba(0, 0, 0, ${0.35 * shadowScale})`;
         ctx.fill();
-        ctx.closePath();
+        
+        // The ball itself rides above its shadow, drawn larger as it climbs towards the viewer
+        const scale = 1 + this.height / Cannonball.HEIGHT_SCALE;
+        ctx.translate(this.position.x, this.position.y - this.height * Cannonball.LIFT);
+        ctx.scale(scale, scale);
+        ctx.translate(-this.position.x, -this.position.y);
+        
+        switch (this.ammo) {
+            case 'chain':
+                this.renderChainShot(ctx);
+                break;
+            case 'grape':
+                this.renderGrapeShot(ctx);
+                break;
+            case 'heated':
+                this.renderHeatedShot(ctx);
+                break;
+            default:
+                // Draw the cannonball as a black circle
+                ctx.beginPath();
+                ctx.arc(this.position.x, this.position.y, this.radius, 0, Math.PI * 2);
+                ctx.fillStyle = Color.BLACK;
+                ctx.fill();
+                ctx.closePath();
+        }
+        ctx.restore();
         
         // Render debug visualization if debug mode is enabled
         if (BaseGameObject.isDebugMode()) {
@@ -80,6 +207,70 @@ export class Cannonball extends BaseGameObject {
         }
     }
     
+    /**
+     * Two half-balls tumbling end over end on their chain
+     */
+    private renderChainShot(ctx: CanvasRenderingContext2D): void {
+        const spin = this.lifetime * 20;
+        const dx = Math.cos(spin) * 10;
+        const dy = Math.sin(spin) * 10;
+        
+        ctx.save();
+        ctx.beginPath();
+        ctx.moveTo(this.position.x - dx, this.position.y - dy);
+        ctx.lineTo(this.position.x + dx, this.position.y + dy);
+        ctx.strokeStyle = '#616161';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.fillStyle = Color.BLACK;
+        for (const end of [-1, 1]) {
+            ctx.beginPath();
+            ctx.arc(this.position.x + dx * end, this.position.y + dy * end, 3.5, 0, Math.PI * 2);
+            ctx.fill();
+        }
+        ctx.restore();
+    }
+    
+    /**
+     * A cluster of small balls spreading wider the further it flies
+     */
+    private renderGrapeShot(ctx: CanvasRenderingContext2D): void {
+        const spread = 3 + this.distanceTraveled * 0.05;
+        
+        ctx.save();
+        ctx.fillStyle = '#424242';
+        for (const offset of this.scatter) {
+            ctx.beginPath();
+            ctx.arc(this.position.x + offset.x * spread, this.position.y + offset.y * spread, 2, 0, Math.PI * 2);
+            ctx.fill();
+        }
+        ctx.restore();
+    }
+    
+    /**
+     * A glowing ball trailing sparks
+     */
+    private renderHeatedShot(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        this.trail.forEach((point, i) => {
+            const fade = (i + 1) / this.trail.length;
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, this.radius * fade, 0, Math.PI * 2);
+            ctx.fillStyle = `rgba(255, ${Math.round(120 + 80 * fade)}, 0, ${0.4 * fade})`;
+            ctx.fill();
+        });
+        
+        const glow = ctx.createRadialGradient(this.position.x, this.position.y, 0, this.position.x, this.position.y, this.radius * 2);
+        glow.addColorStop(0, '#FFF59D');
+        glow.addColorStop(0.4, '#FF6F00');
+        glow.addColorStop(1, 'rgba(255, 61, 0, 0)');
+        ctx.beginPath();
+        ctx.arc(this.position.x, this.position.y, this.radius * 2, 0, Math.PI * 2);
+        ctx.fillStyle = glow;
+        ctx.fill();
+        ctx.restore();
+    }
+    
     /**
      * Render debug visualization of the cannonball's physics body
      */
@@ -108,7 +299,37 @@ export class Cannonball extends BaseGameObject {
         return this.damage;
     }
     
+    public getAmmo(): AmmoType {
+        return this.ammo;
+    }
+    
+    public getOwner(): BaseGameObject | null {
+        return this.owner;
+    }
+    
+    /**
+     * Mark the cannonball as having struck something so it is removed on the next update
+     */
+    public markHit(): void {
+        this.hasHitTarget = true;
+    }
+    
+    public hasHit(): boolean {
+        return this.hasHitTarget;
+    }
+    
+    /**
+     * Height above the water
+     */
+    public getHeight(): number {
+        return this.height;
+    }
+    
+    public hasLanded(): boolean {
+        return this.landed;
+    }
+    
     public shouldDestroy(): boolean {
-        return this.lifetime >= this.maxLifetime;
+        return this.hasHitTarget || this.landed || this.lifetime >= this.maxLifetime;
     }
 }
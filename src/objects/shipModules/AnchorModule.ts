@@ -0,0 +1,415 @@
+// AnchorModule.ts - Bow anchor and the windlass that works it
+import { BaseModule, ModuleTooltipInfo } from './BaseModule';
+import Matter from 'matter-js';
+import { getModuleBodyProperties } from '../../utils/modulePhysics';
+
+/**
+ * - stowed: the anchor is at the bow and the ship sails freely
+ * - down: the anchor is on the seabed; it holds unless the ship drags it
+ * - raising: the windlass is heaving the anchor in
+ */
+export type AnchorState = 'stowed' | 'down' | 'raising';
+
+export const ANCHOR_STATES: AnchorState[] = ['stowed', 'down', 'raising'];
+
+export function isAnchorState(value: unknown): value is AnchorState {
+    return ANCHOR_STATES.includes(value as AnchorState);
+}
+
+export class AnchorModule extends BaseModule {
+    static readonly RODE_LENGTH: number = 300;       // Cable paid out when the anchor is let go
+    static readonly RAISE_TIME: number = 6;          // Seconds to heave the anchor in at full health
+    static readonly RODE_STIFFNESS: number = 0.0005; // Spring of a taut cable
+    static readonly RODE_DAMPING: number = 0.05;
+    static readonly DRAG_SPEED: number = 1.0;        // Speed over the ground (units per step) that breaks the anchor out
+    static readonly HOLD_SPEED: number = 0.4;        // A dragging anchor bites again below this speed
+    static readonly DRAG_BRAKE: number = 0.02;       // Fraction of the ship's speed a dragging anchor takes off each step
+    static readonly DRAG_DAMAGE: number = 5;         // Health lost per second, per unit of speed, while dragging
+
+    state: AnchorState = 'stowed';
+    private dragging: boolean = false;
+    private seabed: { x: number, y: number } | null = null; // Where the anchor lies
+    private rodeLength: number = 0;
+    private raiseTimer: number = 0;                         // Seconds of heaving left
+    private rode: Matter.Constraint | null = null;
+
+    constructor(position: { x: number; y: number }) {
+        super('anchor', position, 0);
+
+        // Set anchor-specific tooltip info
+        this.name = "Anchor";
+        this.description = "Holds the ship in place";
+        this.health = 100;
+        this.maxHealth = 100;
+        this.quality = "Standard";
+        this.effectiveness = 1.0;
+        this.useInstruction = "Drop anchor";
+    }
+
+    public isDown(): boolean {
+        return this.state !== 'stowed';
+    }
+
+    public isDragging(): boolean {
+        return this.dragging;
+    }
+
+    /**
+     * Where the anchor lies on the seabed, or null while stowed
+     */
+    public getSeabedPosition(): { x: number, y: number } | null {
+        return this.seabed ? { x: this.seabed.x, y: this.seabed.y } : null;
+    }
+
+    /**
+     * Progress heaving the anchor in, from 0 (just started) to 1 (stowed)
+     */
+    public getRaiseProgress(): number {
+        return this.state === 'raising' ? 1 - this.raiseTimer / AnchorModule.RAISE_TIME : 0;
+    }
+
+    /**
+     * Let the anchor go from the bow. A ship still making way drags it until it slows.
+     * @returns true if the anchor was dropped
+     */
+    public drop(): boolean {
+        if (this.state !== 'stowed' || this.isDestroyed() || !this.parentShipBody) return false;
+
+        const pos = this.getWorldPosition();
+        this.state = 'down';
+        this.seabed = { x: pos.x, y: pos.y };
+        this.rodeLength = AnchorModule.RODE_LENGTH;
+        this.dragging = false;
+        this.createRode();
+        this.useInstruction = "Raise anchor";
+
+        console.log(`${this.name} dropped at (${Math.round(pos.x)}, ${Math.round(pos.y)})`);
+        return true;
+    }
+
+    /**
+     * Start heaving the anchor in; the cable shortens as it comes, pulling the ship up to it
+     * @returns true if raising started
+     */
+    public raise(): boolean {
+        if (this.state !== 'down') return false;
+
+        this.state = 'raising';
+        this.raiseTimer = AnchorModule.RAISE_TIME;
+        this.useInstruction = "Raising anchor...";
+
+        console.log(`Raising ${this.name.toLowerCase()}`);
+        return true;
+    }
+
+    /**
+     * Put the anchor away at once and free the ship (e.g. when the cable parts)
+     */
+    public stow(): void {
+        this.removeRode();
+        this.state = 'stowed';
+        this.dragging = false;
+        this.seabed = null;
+        this.rodeLength = 0;
+        this.raiseTimer = 0;
+        this.useInstruction = "Drop anchor";
+    }
+
+    /**
+     * Restore a saved anchor
+     */
+    public restore(state: AnchorState, seabed: { x: number, y: number } | null, rodeLength: number, raiseTimer: number, health: number): void {
+        this.stow();
+        this.health = Math.max(0, Math.min(this.maxHealth, health));
+        if (state === 'stowed' || !seabed) return;
+
+        this.state = state;
+        this.seabed = { x: seabed.x, y: seabed.y };
+        this.rodeLength = rodeLength;
+        this.raiseTimer = raiseTimer;
+        this.createRode();
+        this.useInstruction = state === 'raising' ? "Raising anchor..." : "Raise anchor";
+    }
+
+    public getRodeLength(): number {
+        return this.rodeLength;
+    }
+
+    public getRaiseTimer(): number {
+        return this.raiseTimer;
+    }
+
+    /**
+     * Tie the ship's bow to the seabed with a constraint
+     */
+    private createRode(): void {
+        if (!this.parentShipBody || !this.world || !this.seabed) return;
+
+        this.removeRode();
+
+        // Matter keeps pointA turning with the ship from here on
+        const angle = this.parentShipBody.angle;
+        this.rode = Matter.Constraint.create({
+            bodyA: this.parentShipBody,
+            pointA: {
+                x: this.position.x * Math.cos(angle) - this.position.y * Math.sin(angle),
+                y: this.position.x * Math.sin(angle) + this.position.y * Math.cos(angle)
+            },
+            pointB: { x: this.seabed.x, y: this.seabed.y },
+            length: this.rodeLength,
+            label: `anchor_rode_${this.position.x}_${this.position.y}`
+        });
+
+        // Slack until the ship pulls it taut (Matter treats a zero stiffness passed to create as rigid)
+        this.rode.stiffness = 0;
+        this.rode.damping = 0;
+        Matter.Composite.add(this.world, this.rode);
+    }
+
+    private removeRode(): void {
+        if (this.rode && this.world) {
+            Matter.Composite.remove(this.world, this.rode);
+        }
+        this.rode = null;
+    }
+
+    /**
+     * Heave in, and hold or drag depending on how hard the ship pulls
+     * @param delta Time step in seconds
+     */
+    override update(delta: number = 1 / 60): void {
+        // Keep the windlass fixed to the deck
+        super.update();
+
+        if (this.state === 'stowed' || !this.rode || !this.seabed || !this.parentShipBody) return;
+
+        // The windlass works slower when damaged
+        if (this.state === 'raising') {
+            this.raiseTimer = Math.max(0, this.raiseTimer - delta * Math.max(0.25, this.health / this.maxHealth));
+            this.rodeLength = AnchorModule.RODE_LENGTH * this.raiseTimer / AnchorModule.RAISE_TIME;
+            if (this.raiseTimer <= 0) {
+                this.stow();
+                console.log(`${this.name} stowed`);
+                return;
+            }
+        }
+
+        const bow = this.getWorldPosition();
+        const dx = bow.x - this.seabed.x;
+        const dy = bow.y - this.seabed.y;
+        const distance = Math.hypot(dx, dy);
+        const velocity = this.parentShipBody.velocity;
+        const speed = Math.hypot(velocity.x, velocity.y);
+        const taut = distance >= this.rodeLength;
+
+        // An anchor fetched up at speed can't bite; it ploughs along until the ship slows
+        if (taut && speed > AnchorModule.DRAG_SPEED) {
+            this.dragging = true;
+        } else if (this.dragging && speed < AnchorModule.HOLD_SPEED) {
+            this.dragging = false;
+        }
+
+        if (this.dragging) {
+            // Haul the anchor along the bottom behind the bow
+            if (distance > this.rodeLength) {
+                const pull = (distance - this.rodeLength) / distance;
+                this.seabed.x += dx * pull;
+                this.seabed.y += dy * pull;
+                this.rode.pointB = { x: this.seabed.x, y: this.seabed.y };
+            }
+
+            Matter.Body.setVelocity(this.parentShipBody, {
+                x: velocity.x * (1 - AnchorModule.DRAG_BRAKE),
+                y: velocity.y * (1 - AnchorModule.DRAG_BRAKE)
+            });
+
+            this.health = Math.max(0, this.health - AnchorModule.DRAG_DAMAGE * speed * delta);
+            if (this.isDestroyed()) {
+                console.log(`${this.name} cable parted while dragging`);
+                this.stow();
+                return;
+            }
+        }
+
+        // A slack cable doesn't push the ship; a taut one holds it like a spring
+        const holding = taut && !this.dragging;
+        this.rode.length = this.rodeLength;
+        this.rode.stiffness = holding ? AnchorModule.RODE_STIFFNESS : 0;
+        this.rode.damping = holding ? AnchorModule.RODE_DAMPING : 0;
+        this.effectiveness = this.dragging ? 0 : this.health / this.maxHealth;
+    }
+
+    override use(): void {
+        if (this.state === 'stowed') {
+            this.drop();
+        } else {
+            this.raise();
+        }
+    }
+
+    // Override getTooltipInfo to include anchor-specific info
+    override getTooltipInfo(): ModuleTooltipInfo {
+        const info = super.getTooltipInfo();
+        let status: string;
+        if (this.state === 'stowed') {
+            status = this.isDestroyed() ? "Cable parted" : "Stowed";
+        } else if (this.state === 'raising') {
+            status = `Raising (${Math.round(this.getRaiseProgress() * 100)}%)`;
+        } else {
+            status = this.dragging ? "Dragging!" : "Holding";
+        }
+
+        return {
+            ...info,
+            description: `${info.description}\n${status}`,
+            effectiveness: this.effectiveness
+        };
+    }
+
+    /**
+     * Draw the windlass in ship-local coordinates
+     */
+    draw(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+
+        // Barrel across the deck
+        ctx.fillStyle = this.isHovered ? '#A0522D' : '#654321';
+        ctx.strokeStyle = this.isHovered ? '#FFD700' : '#3E2723'; // Gold for hover, very dark brown normally
+        ctx.lineWidth = this.isHovered ? 3 : 2;
+        ctx.beginPath();
+        ctx.rect(-10, -18, 20, 36);
+        ctx.fill();
+        ctx.stroke();
+
+        // Cable wound round the barrel, less of it while the anchor is down
+        const wound = this.state === 'stowed' ? 1 : 1 - this.rodeLength / AnchorModule.RODE_LENGTH;
+        ctx.strokeStyle = '#C8B27A';
+        ctx.lineWidth = 2;
+        const turns = Math.max(1, Math.round(6 * wound));
+        for (let i = 0; i < turns; i++) {
+            const y = -14 + i * 28 / 6;
+            ctx.beginPath();
+            ctx.moveTo(-10, y);
+            ctx.lineTo(10, y);
+            ctx.stroke();
+        }
+
+        // Anchor catted at the bow while stowed
+        if (this.state === 'stowed' && !this.isDestroyed()) {
+            this.drawAnchor(ctx, 25, 0, 0);
+        }
+
+        ctx.restore();
+    }
+
+    /**
+     * Draw the cable and the anchor on the seabed (world coordinates)
+     */
+    public renderRode(ctx: CanvasRenderingContext2D): void {
+        if (!this.seabed || this.state === 'stowed') return;
+
+        const bow = this.getWorldPosition();
+        ctx.save();
+        ctx.beginPath();
+        ctx.moveTo(bow.x, bow.y);
+        ctx.lineTo(this.seabed.x, this.seabed.y);
+        ctx.strokeStyle = this.dragging ? 'rgba(255, 80, 0, 0.8)' : 'rgba(200, 178, 122, 0.8)';
+        ctx.lineWidth = 3;
+        ctx.setLineDash([8, 4]);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        // The anchor's shank points back along the cable
+        const angle = Math.atan2(bow.y - this.seabed.y, bow.x - this.seabed.x);
+        ctx.globalAlpha = 0.6; // Under water
+        this.drawAnchor(ctx, this.seabed.x, this.seabed.y, angle);
+        ctx.restore();
+    }
+
+    private drawAnchor(ctx: CanvasRenderingContext2D, x: number, y: number, angle: number): void {
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.rotate(angle);
+        ctx.strokeStyle = '#333333';
+        ctx.lineWidth = 4;
+
+        // Shank and stock
+        ctx.beginPath();
+        ctx.moveTo(-12, 0);
+        ctx.lineTo(16, 0);
+        ctx.moveTo(12, -8);
+        ctx.lineTo(12, 8);
+        ctx.stroke();
+
+        // Arms and flukes
+        ctx.beginPath();
+        ctx.arc(-4, 0, 10, Math.PI / 2, Math.PI * 3 / 2);
+        ctx.stroke();
+
+        ctx.restore();
+    }
+
+    /**
+     * Creates a physics body for the windlass, and re-ties the cable to the new ship body
+     * @override
+     */
+    override createPhysicsBody(shipBody: Matter.Body, world: Matter.World): void {
+        // First call parent method to set up common properties
+        super.createPhysicsBody(shipBody, world);
+
+        // If a body was already created, remove it
+        if (this.body) {
+            Matter.Composite.remove(world, this.body);
+        }
+
+        const bodyProps = getModuleBodyProperties('anchor');
+
+        // Calculate world position based on ship position and module's relative position
+        const angle = shipBody.angle;
+        const worldX = shipBody.position.x +
+            (this.position.x * Math.cos(angle) - this.position.y * Math.sin(angle));
+        const worldY = shipBody.position.y +
+            (this.position.x * Math.sin(angle) + this.position.y * Math.cos(angle));
+
+        this.body = Matter.Bodies.rectangle(worldX, worldY, bodyProps.width, bodyProps.height, {
+            label: `anchor_module_${this.position.x}_${this.position.y}`,
+            isSensor: bodyProps.isSensor,
+            density: bodyProps.density,
+            friction: 0.1,
+            frictionAir: 0.01,
+            restitution: 0.3,
+            force: { x: 0, y: 0 },
+            // Prevent the module from moving on its own
+            inertia: Infinity,
+            collisionFilter: {
+                category: bodyProps.collisionCategory,
+                mask: bodyProps.collisionMask,
+                group: bodyProps.collisionGroup
+            }
+        });
+
+        Matter.Body.setAngle(this.body, angle + this.rotation);
+
+        // Add the body to the world
+        Matter.Composite.add(world, this.body);
+
+        // Store references
+        this.parentShipBody = shipBody;
+        this.world = world;
+
+        // An anchor that is already down stays down
+        if (this.state !== 'stowed') {
+            this.createRode();
+        }
+    }
+
+    /**
+     * Remove the windlass body and the cable from the physics world
+     * @override
+     */
+    override removePhysicsBody(): void {
+        this.removeRode();
+        super.removePhysicsBody();
+    }
+}
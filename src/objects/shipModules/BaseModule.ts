@@ -18,6 +18,7 @@ export class BaseModule {
     protected maxHealth: number = 100;
     protected quality: string = "Standard";
     protected effectiveness: number = 1.0;
+    protected manning: number = 1.0;  // Share of full effect with the crew on hand; 1 unless a ShipCrew keeps track
     protected useInstruction: string = "Press E to use";
     
     // Hover state tracking
@@ -49,6 +50,47 @@ export class BaseModule {
         console.log(`Using ${this.type} module`);
     }
     
+    /**
+     * Apply damage to this module (e.g. from a cannonball hit)
+     */
+    takeDamage(amount: number): void {
+        this.health = Math.max(0, this.health - amount);
+        console.log(`${this.name} took ${amount} damage (${Math.round(this.health)}/${this.maxHealth})`);
+    }
+    
+    /**
+     * Check if the module has been destroyed
+     */
+    isDestroyed(): boolean {
+        return this.health <= 0;
+    }
+    
+    getHealth(): number {
+        return this.health;
+    }
+    
+    /**
+     * Set how well the module is worked: 1 with a hand at it, less when it is left unattended
+     */
+    setManning(manning: number): void {
+        this.manning = Math.max(0, Math.min(1, manning));
+    }
+    
+    getManning(): number {
+        return this.manning;
+    }
+    
+    isManned(): boolean {
+        return this.manning >= 1;
+    }
+    
+    /**
+     * Check if a physics body belongs to this module
+     */
+    ownsBody(body: Matter.Body): boolean {
+        return this.body !== null && this.body === body;
+    }
+    
     /**
      * Creates a physics body for this module
      */
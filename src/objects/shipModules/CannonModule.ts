@@ -0,0 +1,443 @@
+// CannonModule.ts - Specialized class for deck-mounted cannons
+import { BaseModule, ModuleTooltipInfo } from './BaseModule';
+import Matter from 'matter-js';
+import { getModuleBodyProperties } from '../../utils/modulePhysics';
+import { Cannonball } from '../projectiles/cannonball';
+import { AmmoLocker, AmmoType, AMMUNITION } from '../projectiles/ammunition';
+import { SoundManager } from '../../engine/soundManager';
+import { Physics } from '../../engine/physics';
+import { EffectManager } from '../effects/effectManager';
+import { angleDifference } from '../../utils/angles';
+
+export type CannonSide = 'port' | 'starboard';
+
+export class CannonModule extends BaseModule {
+    side: CannonSide;
+    aimAngle: number = 0;                 // Barrel angle relative to the cannon's facing (radians)
+    elevation: number = Cannonball.DEFAULT_ELEVATION; // Barrel angle above the horizontal (radians), setting the range
+    isPlayerControlling: boolean = false; // Whether a player is manning the cannon
+
+    // Firing properties
+    private reloadTime: number = 3;       // Seconds between shots
+    private reloadTimer: number = 0;      // Time left until the cannon is loaded
+    private damage: number = 20;
+    private cannonballs: Cannonball[] = [];
+    private ammoLocker: AmmoLocker | null = null; // Where the gun draws its shot from (round shot without end if unset)
+
+    // How far the barrel can swing either side of its facing
+    static readonly TRAVERSE_LIMIT: number = Math.PI / 6; // 30 degrees
+    static readonly BARREL_LENGTH: number = 30;
+    static readonly MIN_ELEVATION: number = -5 * Math.PI / 180; // Depressed to hit a ship close alongside
+    static readonly MAX_ELEVATION: number = 12 * Math.PI / 180; // Raised as far as the carriage allows, for the longest range
+
+    private static soundManager: SoundManager | null = null;
+    private static physics: Physics | null = null;
+    private static effectManager: EffectManager | null = null;
+
+    constructor(position: { x: number; y: number }, side: CannonSide) {
+        // Port cannons face the +y side of the hull, starboard cannons the -y side (matches plank naming)
+        super('cannon', position, side === 'port' ? Math.PI / 2 : -Math.PI / 2);
+        this.side = side;
+
+        // Set cannon-specific tooltip info
+        this.name = side === 'port' ? "Port Cannon" : "Starboard Cannon";
+        this.description = "Broadside gun that fires over the rail";
+        this.health = 100;
+        this.maxHealth = 100;
+        this.quality = "Standard";
+        this.effectiveness = 1.0;
+        this.useInstruction = "Press E to man the cannon";
+    }
+
+    /**
+     * Set a global sound manager for all cannon modules to use
+     */
+    public static setSoundManager(soundManager: SoundManager): void {
+        CannonModule.soundManager = soundManager;
+    }
+
+    /**
+     * Set a global physics engine for all cannon modules to use
+     */
+    public static setPhysics(physics: Physics): void {
+        CannonModule.physics = physics;
+    }
+
+    /**
+     * Set a global effect manager for muzzle flashes and splashes
+     */
+    public static setEffectManager(effectManager: EffectManager): void {
+        CannonModule.effectManager = effectManager;
+    }
+
+    // Set player controlling state
+    public setPlayerControlling(isControlling: boolean): void {
+        this.isPlayerControlling = isControlling;
+        if (isControlling) {
+            this.useInstruction = "Click to fire, E to leave";
+        } else {
+            this.useInstruction = "Press E to man the cannon";
+        }
+    }
+
+    /**
+     * Draw shot from a ship's locker, loading whatever kind it has selected
+     */
+    public setAmmoLocker(locker: AmmoLocker | null): void {
+        this.ammoLocker = locker;
+    }
+
+    /**
+     * Swing the barrel towards a world position and raise or lower it so the shot comes
+     * down there, within the traverse and elevation limits
+     */
+    public aimAt(worldX: number, worldY: number): void {
+        if (!this.parentShipBody) return;
+
+        const pos = this.getWorldPosition();
+        const distance = Math.hypot(worldX - pos.x, worldY - pos.y) - CannonModule.BARREL_LENGTH;
+        const elevation = Cannonball.getElevationForRange(Math.max(0, distance), this.getMuzzleSpeed(), this.getShotLifetime());
+
+        // Out of reach: lay the gun for as far as its shot will carry
+        if (elevation === null || elevation > CannonModule.MAX_ELEVATION) {
+            this.setElevation(this.getLongestRangeElevation());
+        } else {
+            this.setElevation(elevation);
+        }
+
+        const targetAngle = Math.atan2(worldY - pos.y, worldX - pos.x);
+        const facing = this.parentShipBody.angle + this.rotation;
+
+        const diff = angleDifference(targetAngle, facing);
+        this.aimAngle = Math.max(-CannonModule.TRAVERSE_LIMIT, Math.min(CannonModule.TRAVERSE_LIMIT, diff));
+    }
+
+    public setElevation(elevation: number): void {
+        this.elevation = Math.max(CannonModule.MIN_ELEVATION, Math.min(CannonModule.MAX_ELEVATION, elevation));
+    }
+
+    /**
+     * Elevation within the carriage's limits that carries the loaded shot furthest. Short-lived
+     * shot such as grape is spent before it lands when fired high, so this isn't always the
+     * highest elevation.
+     */
+    public getLongestRangeElevation(): number {
+        const speed = this.getMuzzleSpeed();
+        const lifetime = this.getShotLifetime();
+        const step = 0.25 * Math.PI / 180;
+
+        let best = CannonModule.MIN_ELEVATION;
+        for (let elevation = CannonModule.MIN_ELEVATION; elevation <= CannonModule.MAX_ELEVATION; elevation += step) {
+            if (Cannonball.getRange(elevation, speed, lifetime) > Cannonball.getRange(best, speed, lifetime)) {
+                best = elevation;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Speed the loaded shot leaves the muzzle, in world units per second
+     */
+    public getMuzzleSpeed(): number {
+        return Cannonball.getMuzzleSpeed(this.damage, this.getLoadedAmmo());
+    }
+
+    /**
+     * How far from the muzzle the shot comes down (or is spent) at the current elevation
+     */
+    public getRange(): number {
+        return Cannonball.getRange(this.elevation, this.getMuzzleSpeed(), this.getShotLifetime());
+    }
+
+    private getLoadedAmmo(): AmmoType {
+        return this.ammoLocker ? this.ammoLocker.getSelected() : 'round';
+    }
+
+    /**
+     * Seconds the loaded shot flies before it is spent
+     */
+    private getShotLifetime(): number {
+        return AMMUNITION[this.getLoadedAmmo()].lifetime;
+    }
+
+    /**
+     * World angle the barrel is currently pointing
+     */
+    public getBarrelWorldAngle(): number {
+        const shipAngle = this.parentShipBody ? this.parentShipBody.angle : 0;
+        return shipAngle + this.rotation + this.aimAngle;
+    }
+
+    public isLoaded(): boolean {
+        return this.reloadTimer <= 0;
+    }
+
+    /**
+     * Reload progress from 0 (just fired) to 1 (ready)
+     */
+    public getReloadProgress(): number {
+        return 1 - this.reloadTimer / this.reloadTime;
+    }
+
+    /**
+     * Seconds left until the cannon is loaded (at full health)
+     */
+    public getReloadTimer(): number {
+        return this.reloadTimer;
+    }
+
+    public setReloadTimer(seconds: number): void {
+        this.reloadTimer = Math.max(0, Math.min(this.reloadTime, seconds));
+    }
+
+    /**
+     * Fire a cannonball along the barrel if loaded
+     * @returns true if the cannon fired
+     */
+    public fire(): boolean {
+        if (!this.isLoaded() || this.isDestroyed()) return false;
+
+        const ammo = this.getLoadedAmmo();
+        if (this.ammoLocker && !this.ammoLocker.take(ammo)) {
+            console.log(`${this.name} is out of ${AMMUNITION[ammo].name.toLowerCase()}`);
+            return false;
+        }
+
+        this.reloadTimer = this.reloadTime;
+
+        // Spawn the ball at the muzzle so it clears the rail
+        const pos = this.getWorldPosition();
+        const angle = this.getBarrelWorldAngle();
+        const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+        const muzzleX = pos.x + direction.x * CannonModule.BARREL_LENGTH;
+        const muzzleY = pos.y + direction.y * CannonModule.BARREL_LENGTH;
+
+        const cannonball = new Cannonball(muzzleX, muzzleY, direction, this.damage, this.parentShip, ammo, this.elevation);
+        this.cannonballs.push(cannonball);
+
+        // Add cannonball to physics engine so its hits are detected
+        if (CannonModule.physics) {
+            CannonModule.physics.addProjectile(cannonball);
+        }
+
+        // Muzzle smoke and report
+        if (CannonModule.effectManager) {
+            CannonModule.effectManager.createCollisionImpact(muzzleX, muzzleY, 15);
+        }
+        if (CannonModule.soundManager) {
+            CannonModule.soundManager.playSound('cannon', 0.3 + Math.random() * 0.2);
+        }
+
+        console.log(`${this.name} fired ${AMMUNITION[ammo].name.toLowerCase()} at ${Math.round(angle * 180 / Math.PI)}°, elevated ${(this.elevation * 180 / Math.PI).toFixed(1)}°`);
+        return true;
+    }
+
+    /**
+     * Advance reloading and cannonballs in flight
+     * @param delta Time step in seconds
+     */
+    override update(delta: number = 1 / 60): void {
+        // Keep the carriage fixed to the deck
+        super.update();
+
+        // Damaged cannons, and those without a gun crew, take longer to reload
+        const manning = this.isPlayerControlling ? 1 : this.manning;
+        this.effectiveness = Math.max(0.25, this.health / this.maxHealth) * manning;
+        if (this.reloadTimer > 0) {
+            this.reloadTimer = Math.max(0, this.reloadTimer - delta * this.effectiveness);
+        }
+
+        for (let i = this.cannonballs.length - 1; i >= 0; i--) {
+            const cannonball = this.cannonballs[i];
+            cannonball.update(delta);
+
+            if (cannonball.shouldDestroy()) {
+                // Cannonballs that come down without hitting anything splash into the sea;
+                // those spent in the air just fall away
+                if (cannonball.hasLanded() && !cannonball.hasHit()) {
+                    const pos = cannonball.getPosition();
+                    if (CannonModule.effectManager) {
+                        CannonModule.effectManager.createWaterSplash(pos.x, pos.y, 20);
+                    }
+                    if (CannonModule.soundManager) {
+                        CannonModule.soundManager.playSound('splash', 0.2);
+                    }
+                    if (CannonModule.physics) {
+                        CannonModule.physics.reportBlast(pos.x, pos.y, Cannonball.SPLASH_RADIUS, cannonball.getDamage());
+                    }
+                }
+
+                if (CannonModule.physics) {
+                    CannonModule.physics.removeProjectile(cannonball);
+                }
+                this.cannonballs.splice(i, 1);
+            }
+        }
+    }
+
+    public getCannonballs(): Cannonball[] {
+        return this.cannonballs;
+    }
+
+    /**
+     * Remove all cannonballs in flight (e.g. when the ship is destroyed)
+     */
+    public clearCannonballs(): void {
+        if (CannonModule.physics) {
+            for (const cannonball of this.cannonballs) {
+                CannonModule.physics.removeProjectile(cannonball);
+            }
+        }
+        this.cannonballs = [];
+    }
+
+    override use(): void {
+        this.fire();
+    }
+
+    // Override getTooltipInfo to include cannon-specific info
+    override getTooltipInfo(): ModuleTooltipInfo {
+        const info = super.getTooltipInfo();
+        const status = this.isLoaded() ? "Loaded" : `Reloading (${Math.round(this.getReloadProgress() * 100)}%)`;
+
+        return {
+            ...info,
+            description: `${info.description}\n${status}`,
+            effectiveness: this.health / this.maxHealth
+        };
+    }
+
+    /**
+     * Draw the cannon in ship-local coordinates
+     */
+    draw(ctx: CanvasRenderingContext2D): void {
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+        ctx.rotate(this.rotation);
+
+        // Carriage
+        ctx.fillStyle = this.isHovered ? '#A0522D' : '#654321';
+        ctx.strokeStyle = this.isHovered ? '#FFD700' : '#3E2723'; // Gold for hover, very dark brown normally
+        ctx.lineWidth = this.isHovered ? 3 : 2;
+        ctx.beginPath();
+        ctx.rect(-14, -11, 24, 22);
+        ctx.fill();
+        ctx.stroke();
+
+        // Wheels
+        ctx.fillStyle = '#3E2723';
+        ctx.fillRect(-12, -14, 8, 3);
+        ctx.fillRect(-12, 11, 8, 3);
+        ctx.fillRect(2, -14, 8, 3);
+        ctx.fillRect(2, 11, 8, 3);
+
+        // Barrel swings with the aim
+        ctx.save();
+        ctx.rotate(this.aimAngle);
+        ctx.fillStyle = this.isPlayerControlling ? '#444444' : '#222222';
+        ctx.beginPath();
+        ctx.rect(-8, -5, CannonModule.BARREL_LENGTH + 8, 10);
+        ctx.fill();
+        ctx.fillStyle = '#111111';
+        ctx.fillRect(CannonModule.BARREL_LENGTH - 4, -6, 4, 12); // Muzzle ring
+        ctx.restore();
+
+        // Traverse arc while manned
+        if (this.isPlayerControlling) {
+            ctx.beginPath();
+            ctx.moveTo(0, 0);
+            ctx.arc(0, 0, 60, -CannonModule.TRAVERSE_LIMIT, CannonModule.TRAVERSE_LIMIT);
+            ctx.closePath();
+            ctx.fillStyle = 'rgba(255, 215, 0, 0.15)';
+            ctx.fill();
+            ctx.strokeStyle = 'rgba(255, 215, 0, 0.5)';
+            ctx.lineWidth = 1;
+            ctx.stroke();
+
+            // Where the shot will come down at this elevation
+            const fall = CannonModule.BARREL_LENGTH + this.getRange();
+            const fallX = Math.cos(this.aimAngle) * fall;
+            const fallY = Math.sin(this.aimAngle) * fall;
+            ctx.beginPath();
+            ctx.moveTo(fallX - 8, fallY - 8);
+            ctx.lineTo(fallX + 8, fallY + 8);
+            ctx.moveTo(fallX + 8, fallY - 8);
+            ctx.lineTo(fallX - 8, fallY + 8);
+            ctx.strokeStyle = 'rgba(255, 215, 0, 0.8)';
+            ctx.lineWidth = 2;
+            ctx.stroke();
+        }
+
+        // Reload indicator
+        if (!this.isLoaded()) {
+            ctx.beginPath();
+            ctx.arc(0, 0, 16, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * this.getReloadProgress());
+            ctx.strokeStyle = 'rgba(255, 80, 0, 0.8)';
+            ctx.lineWidth = 3;
+            ctx.stroke();
+        }
+
+        ctx.restore();
+    }
+
+    /**
+     * Draw cannonballs in flight (world coordinates)
+     */
+    public renderProjectiles(ctx: CanvasRenderingContext2D): void {
+        for (const cannonball of this.cannonballs) {
+            cannonball.render(ctx);
+        }
+    }
+
+    /**
+     * Creates a physics body specific to the cannon module
+     * @override
+     */
+    override createPhysicsBody(shipBody: Matter.Body, world: Matter.World): void {
+        // First call parent method to set up common properties
+        super.createPhysicsBody(shipBody, world);
+
+        // If a body was already created, remove it
+        if (this.body) {
+            Matter.Composite.remove(world, this.body);
+        }
+
+        const bodyProps = getModuleBodyProperties('cannon');
+
+        // Calculate world position based on ship position and module's relative position
+        const angle = shipBody.angle;
+        const worldX = shipBody.position.x +
+            (this.position.x * Math.cos(angle) - this.position.y * Math.sin(angle));
+        const worldY = shipBody.position.y +
+            (this.position.x * Math.sin(angle) + this.position.y * Math.cos(angle));
+
+        // The long side of the body runs along the barrel
+        this.body = Matter.Bodies.rectangle(worldX, worldY, bodyProps.height, bodyProps.width, {
+            label: `cannon_module_${this.position.x}_${this.position.y}`,
+            isSensor: bodyProps.isSensor,
+            density: bodyProps.density,
+            friction: 0.1,
+            frictionAir: 0.01,
+            restitution: 0.3,
+            force: { x: 0, y: 0 },
+            // Prevent the module from moving on its own
+            inertia: Infinity,
+            collisionFilter: {
+                category: bodyProps.collisionCategory,
+                mask: bodyProps.collisionMask,
+                group: bodyProps.collisionGroup
+            }
+        });
+
+        Matter.Body.setAngle(this.body, angle + this.rotation);
+
+        // Add the body to the world
+        Matter.Composite.add(world, this.body);
+
+        console.log(`Created ${this.side} cannon physics body at (${Math.round(worldX)}, ${Math.round(worldY)})`);
+
+        // Store references
+        this.parentShipBody = shipBody;
+        this.world = world;
+    }
+}
@@ -5,14 +5,20 @@ import { getModuleBodyProperties } from '../../utils/modulePhysics';
 import { CollisionCategories, Color } from '../../utils/color';
 
 export class SailModule extends BaseModule {
+    static readonly MAST_HEIGHT: number = 150; // How high the mast and its canvas stand above the water
+    static readonly MAST_RADIUS: number = 15;  // Of the mast at the mount point the ship definition gives
+    
     openness: number = 0; // How open the sail is (0-100%)
     angle: number = 0;    // Angle of the sail relative to the mast (-75 to +75 degrees)
     
+    sailSize: number;     // Span of the sail across the deck when fully deployed
+    
     private mastBody: Matter.Body | null = null;
     private sailBody: Matter.Body | null = null;
     
-    constructor(position: { x: number; y: number }) {
+    constructor(position: { x: number; y: number }, sailSize: number = 260) {
         super('sail', position, 0); // Sails don't have a rotation property in the same way as cannons
+        this.sailSize = sailSize;
         
         // Set sail-specific tooltip info
         this.name = "Main Sail";
@@ -62,7 +68,7 @@ export class SailModule extends BaseModule {
     calculateEfficiency(windDirection: number, shipAngle: number): number {
         // Calculate the sail's normal vector (perpendicular to sail face)
         const sailAngleRad = this.angle * Math.PI / 180;
-        const sailNormalAngle = shipAngle + sailAngleRad + Math.PI/2; // Add 90 degrees to get normal
+        const sailNormalAngle = shipAngle + sailAngleRad; // Sail spans local y, so its normal faces the bow
         
         // Calculate sail direction vector components (normal to sail face)
         const sailNormalX = Math.cos(sailNormalAngle);
@@ -95,8 +101,8 @@ export class SailModule extends BaseModule {
         // Scale by sail openness
         const sailOpenness = this.openness / 100;
         
-        // Scale efficiency from 0-1 range
-        efficiency = Math.min(1, Math.max(0.35, efficiency)) * sailOpenness;
+        // Scale efficiency from 0-1 range; an untended sail can't be trimmed properly
+        efficiency = Math.min(1, Math.max(0.35, efficiency)) * sailOpenness * this.manning;
         
         // Update the effectiveness property
         this.effectiveness = efficiency;
@@ -126,6 +132,14 @@ export class SailModule extends BaseModule {
         }
     }
     
+    /**
+     * The sail owns both the mast base and the sail fiber bodies
+     * @override
+     */
+    override ownsBody(body: Matter.Body): boolean {
+        return body === this.mastBody || (this.sailBody !== null && body === this.sailBody);
+    }
+    
     override use(): void {
         // Toggle sail state (e.g., start opening/closing)
     }
@@ -169,7 +183,7 @@ export class SailModule extends BaseModule {
         this.mastBody = Matter.Bodies.circle(
             worldX,
             worldY,
-            15, // Reduced to match the radius in Brigantine.MASTS (15) and visual size
+            SailModule.MAST_RADIUS, // The mast as drawn, so the player walks into what they see
             {
                 isStatic: true,
                 collisionFilter: {
@@ -224,7 +238,7 @@ export class SailModule extends BaseModule {
         
         // Calculate sail size based on openness
         const sailWidth = bodyProps.width;
-        const sailHeight = bodyProps.height * (this.openness / 100); // Scale height by openness
+        const sailHeight = this.sailSize * (this.openness / 100); // Scale height by openness
         
         // Create sail fiber body options
         const bodyOptions: Matter.IChamferableBodyDefinition = {
@@ -355,7 +369,7 @@ export class SailModule extends BaseModule {
         ctx.translate(this.position.x, this.position.y);        
         
         // Create gradients for mast base
-        const mastRadius = 15;
+        const mastRadius = SailModule.MAST_RADIUS;
         const mastGradient = ctx.createRadialGradient(
             0, 0, 0,
             0, 0, mastRadius
@@ -388,13 +402,14 @@ export class SailModule extends BaseModule {
             
             // Draw the sail as a curved shape
             ctx.beginPath();
-            ctx.moveTo(0, 130);
+            const halfSpan = this.sailSize / 2;
+            ctx.moveTo(0, halfSpan);
             const curveAmount = 10 + this.openness * 0.9; // Curve amount based on openness
-            ctx.quadraticCurveTo(curveAmount, 0, 0, -130);
+            ctx.quadraticCurveTo(curveAmount, 0, 0, -halfSpan);
             ctx.closePath();
             
             // Create sail gradient
-            const sailGradient = ctx.createLinearGradient(0, -130, 0, 130);
+            const sailGradient = ctx.createLinearGradient(0, -halfSpan, 0, halfSpan);
             
             if (this.isHovered) {
                 // Highlight gradient for sail when hovered
@@ -1,8 +1,10 @@
 import { BaseShipModule } from './shipModules';
 import { Color } from '../../utils/color';
 import { Cannonball } from '../projectiles/cannonball';
+import { AmmoType } from '../projectiles/ammunition';
 import { SoundManager } from '../../engine/soundManager';
 import { Physics } from '../../engine/physics';
+import { EffectManager } from '../effects/effectManager';
 
 export class Cannons extends BaseShipModule {
     private width: number;
@@ -12,6 +14,7 @@ export class Cannons extends BaseShipModule {
     private cannonballs: Cannonball[];
     private static soundManager: SoundManager | null = null;
     private static physics: Physics | null = null;
+    private static effectManager: EffectManager | null = null;
     
     constructor(offsetX: number, offsetY: number) {
         super(offsetX, offsetY);
@@ -35,6 +38,13 @@ export class Cannons extends BaseShipModule {
     public static setPhysics(physics: Physics): void {
         Cannons.physics = physics;
     }
+    
+    /**
+     * Set a global effect manager for splashes when cannonballs miss
+     */
+    public static setEffectManager(effectManager: EffectManager): void {
+        Cannons.effectManager = effectManager;
+    }
       public update(delta: number): void {
         super.update(delta);
         
@@ -50,9 +60,24 @@ export class Cannons extends BaseShipModule {
             
             // Remove cannonballs that should be destroyed
             if (cannonball.shouldDestroy()) {
+                // Cannonballs that come down without hitting anything splash into the sea;
+                // those spent in the air just fall away
+                if (cannonball.hasLanded() && !cannonball.hasHit()) {
+                    const pos = cannonball.getPosition();
+                    if (Cannons.effectManager) {
+                        Cannons.effectManager.createWaterSplash(pos.x, pos.y, 20);
+                    }
+                    if (Cannons.soundManager) {
+                        Cannons.soundManager.playSound('splash', 0.2);
+                    }
+                    if (Cannons.physics) {
+                        Cannons.physics.reportBlast(pos.x, pos.y, Cannonball.SPLASH_RADIUS, cannonball.getDamage());
+                    }
+                }
+                
                 // Remove from physics engine if available
-                if (Cannons.physics && cannonball.getBody()) {
-                    Cannons.physics.removeBody(cannonball.getBody()!);
+                if (Cannons.physics) {
+                    Cannons.physics.removeProjectile(cannonball);
                 }
                 
                 // Remove from cannonballs array
@@ -125,7 +150,11 @@ export class Cannons extends BaseShipModule {
         ctx.setLineDash([]);
     }
     
-    public fire(direction: { x: number, y: number }, damage: number): boolean {
+    /**
+     * @param elevation Angle of the barrel above the horizontal, in radians
+     */
+    public fire(direction: { x: number, y: number }, damage: number, ammo: AmmoType = 'round',
+                elevation: number = Cannonball.DEFAULT_ELEVATION): boolean {
         // Check if cannon is ready to fire
         if (this.cooldown <= 0) {
             // Reset cooldown
@@ -135,12 +164,12 @@ export class Cannons extends BaseShipModule {
             const pos = this.getWorldPosition();
             
             // Create a new cannonball
-            const cannonball = new Cannonball(pos.x, pos.y, direction, damage);
+            const cannonball = new Cannonball(pos.x, pos.y, direction, damage, this.ship, ammo, elevation);
             this.cannonballs.push(cannonball);
             
-            // Add cannonball to physics engine if available
-            if (Cannons.physics && cannonball.getBody()) {
-                Cannons.physics.addBody(cannonball.getBody()!);
+            // Add cannonball to physics engine so its hits are detected
+            if (Cannons.physics) {
+                Cannons.physics.addProjectile(cannonball);
             }
             
             // Play cannon fire sound
@@ -157,4 +186,16 @@ export class Cannons extends BaseShipModule {
     public getCannonballs(): Cannonball[] {
         return this.cannonballs;
     }
+    
+    /**
+     * Remove all cannonballs in flight (e.g. when the ship is destroyed)
+     */
+    public clearCannonballs(): void {
+        if (Cannons.physics) {
+            for (const cannonball of this.cannonballs) {
+                Cannons.physics.removeProjectile(cannonball);
+            }
+        }
+        this.cannonballs = [];
+    }
 }
@@ -1,15 +1,22 @@
-import { Ships } from './ships';
+import { Ships, ProjectileHitTarget } from './ships';
 import { Color, CollisionCategories } from '../../utils/color';
 import * as Matter from 'matter-js';
 import { Physics } from '../../engine/physics';
 import { BaseGameObject } from '../objects';
-import { createCompleteHullSegments, PlankSegment, getQuadraticPoint } from './plankUtils';
+import { createCompleteHullSegments, PlankSegment, getQuadraticPoint, distanceToSegment, HullPoints, PlankPoint } from './plankUtils';
+import { ShipDefinition, getShipDefinition } from './shipDefinition';
 import { SailModule } from '../shipModules/SailModule';
 import { WheelModule } from '../shipModules/WheelModule';
+import { AnchorModule } from '../shipModules/AnchorModule';
+import { CannonModule } from '../shipModules/CannonModule';
 import { BaseModule, ModuleTooltipInfo } from '../shipModules/BaseModule';
+import { EffectManager } from '../effects/effectManager';
+import { AmmoLocker, AmmoType, AMMUNITION } from '../projectiles/ammunition';
+import { ShipSaveState } from '../../engine/saveManager';
 
 export class Brigantine extends Ships {
-    private sailSize: number;
+    // Hull shape, mass and module layout this ship was built from
+    private definition: ShipDefinition;
     path: Path2D | null = null;
     // Add boarding ladder properties
     private ladderRect: { x: number, y: number, width: number, height: number };    private playerInLadderArea: boolean = false;
@@ -20,9 +27,14 @@ export class Brigantine extends Ships {
     public modules: Map<string, BaseModule> = new Map();
     public sails: Map<string, SailModule> = new Map();
     public wheels: Map<string, WheelModule> = new Map();
+    public cannons: Map<string, CannonModule> = new Map();
+    public anchors: Map<string, AnchorModule> = new Map();
     
     // Reference to the physics engine
     private physicsEngine: Physics | null = null;
+    
+    // Reference to the effect manager for sinking effects
+    private effectManager: EffectManager | null = null;
       // Ship sailing properties
     rudderAngle: number = 0;       // Current rudder angle (-30 to +30 degrees)
     sailsOpenness: number = 0;     // Overall sail openness (0-100%)
@@ -33,40 +45,84 @@ export class Brigantine extends Ships {
     // Ship physics properties
     forwardForce: number = 0;      // Current forward propulsion force
     turningForce: number = 0;      // Current turning force
-    momentum: number = 0;          // Ship's current momentum (affects turning)
+    momentum: number = 0;          // Smoothed speed, kept for the debug log and saves
     isRotatingSails: boolean = false; // Flag to track when sails are being actively rotated
     sailRotationTimer: number = 0;    // Timer to track how long sails have been rotating
     
+    // Flooding and sinking
+    private portWater: number = 0;      // Water taken on through the port side (fraction of capacity)
+    private starboardWater: number = 0; // Water taken on through the starboard side (fraction of capacity)
+    heelAngle: number = 0;              // Current list/heel in radians (positive = towards starboard)
+    private sinking: boolean = false;   // True once the ship has foundered and is going down
+    private sinkProgress: number = 0;   // Progress through the sinking animation (0-1)
+    private sunk: boolean = false;      // True once the sinking animation has finished
+    
+    // Hands aboard, and the deck they can walk on
+    private crew: number;
+    private deckOutline: PlankPoint[];
+    private deckCrewRenderer: ((ctx: CanvasRenderingContext2D) => void) | null = null;
+    
+    // Shot aboard, and planks set alight by heated shot
+    private ammoLocker: AmmoLocker;
+    private fires: Map<number, number> = new Map(); // Burning plank index -> seconds left before it burns out
+    
+    // Hull damage tuning
+    static readonly PLANK_MAX_HEALTH: number = 100;
+    static readonly PLANK_REPAIR_THRESHOLD: number = 25; // Health a broken plank needs before it seals again
+    static readonly BASE_LEAK_RATE: number = 0.01;       // Capacity per second through one broken side plank
+    static readonly MAX_HEEL: number = 0.35;             // Largest list in radians when fully flooded on one side
+    static readonly SINK_DURATION: number = 6;           // Seconds for the sinking animation
+    static readonly BASE_FRICTION_AIR: number = 0.05;
+    static readonly FIRE_DURATION: number = 20;          // Seconds a fire burns if nobody puts it out
+    static readonly FIRE_DAMAGE: number = 2;             // Plank health per second a fire burns away
+    
     // Properties for ship planks (hull segments)
     private plankBodies: Matter.Body[] = [];
+    private plankIndices: Map<Matter.Body, number> = new Map(); // The plank each body stands for, so one that fails to build can't shift the rest
     private plankSegments: { 
         start: {x: number, y: number}, 
         end: {x: number, y: number}, 
         thickness: number,
         sectionName: string,
-        index: number 
-    }[] = [];    constructor(x: number, y: number) {
-        // Brigantine is a medium-sized ship
+        index: number,
+        health: number,
+        maxHealth: number,
+        broken: boolean
+    }[] = [];    constructor(x: number, y: number, definition: ShipDefinition = getShipDefinition('brigantine')) {
+        // Brigantine is a medium-sized ship; other hulls are described by their definition
         super(x, y, 80, 30, 100);
-        this.sailSize = 40;
-          // Initialize ladder rectangle (will be positioned correctly in update)
-        this.ladderRect = { x: 0, y: 0, width: 60, height: 30 };
-          // Initialize ship modules using the positions from MASTS and WHEEL constants
-        const frontSail = new SailModule({ x: Brigantine.MASTS[0].x, y: Brigantine.MASTS[0].y }); // Front mast (165, 0)
-        const middleSail = new SailModule({ x: Brigantine.MASTS[1].x, y: Brigantine.MASTS[1].y }); // Middle mast (-35, 0)
-        const backSail = new SailModule({ x: Brigantine.MASTS[2].x, y: Brigantine.MASTS[2].y }); // Back mast (-235, 0)
-        const wheel = new WheelModule({ x: Brigantine.WHEEL.x, y: Brigantine.WHEEL.y }); // Steering wheel (-90, 0)
-        
-        // Add modules to the ship
-        this.addModule('front_sail', frontSail);
-        this.addModule('middle_sail', middleSail);
-        this.addModule('back_sail', backSail);
-        this.addModule('wheel', wheel);
+        this.definition = definition;
+        this.crew = definition.crew;
+        this.deckOutline = Brigantine.createDeckOutline(definition.hull);
+          // Ladder rectangle in local coordinates
+        this.ladderRect = { ...definition.ladder };
+          // Initialize ship modules using the mount points from the definition
+        definition.masts.forEach((mast, i) => {
+            this.addModule(`sail_${i}`, new SailModule({ x: mast.x, y: mast.y }, mast.sailSize));
+        });
+        this.addModule('wheel', new WheelModule({ x: definition.wheel.x, y: definition.wheel.y }));
+        this.addModule('anchor', new AnchorModule({ x: definition.anchor.x, y: definition.anchor.y }));
+        
+        // Broadside cannons along both rails
+        definition.cannons.forEach((cannon, i) => {
+            this.addModule(`cannon_${i}`, new CannonModule({ x: cannon.x, y: cannon.y }, cannon.side));
+        });
+        
+        // Every gun loads from the same shot locker
+        this.ammoLocker = new AmmoLocker(definition.cannons.length);
+        this.cannons.forEach(cannon => cannon.setAmmoLocker(this.ammoLocker));
         
         // Create custom physics body
         this.createPhysicsBody();
     }
     
+    /**
+     * The definition this ship's hull and modules were built from
+     */
+    public getDefinition(): ShipDefinition {
+        return this.definition;
+    }
+    
 
 
     /**
@@ -81,6 +137,10 @@ export class Brigantine extends Ships {
             this.sails.set(id, module);
         } else if (module instanceof WheelModule) {
             this.wheels.set(id, module);
+        } else if (module instanceof CannonModule) {
+            this.cannons.set(id, module);
+        } else if (module instanceof AnchorModule) {
+            this.anchors.set(id, module);
         }
           // Attach the module to the ship
         module.attachToShip(this);
@@ -116,6 +176,11 @@ export class Brigantine extends Ships {
             this.sails.delete(id);
         } else if (module instanceof WheelModule) {
             this.wheels.delete(id);
+        } else if (module instanceof CannonModule) {
+            module.clearCannonballs();
+            this.cannons.delete(id);
+        } else if (module instanceof AnchorModule) {
+            this.anchors.delete(id);
         }
         
         // Remove physics body
@@ -250,22 +315,31 @@ export class Brigantine extends Ships {
                 Matter.World.remove(physics.getWorld(), body);
             }
             this.plankBodies = [];
+            this.plankIndices.clear();
         }
         
         // Remove any existing constraints
         this.removeAllPlankConstraints(physics);
         
-        // Clear segments
-        this.plankSegments = [];
-        
-        // Create plank segments using the utility function
-        const plankThickness = 10;
-        this.plankSegments = createCompleteHullSegments(plankThickness);
-        
-        console.log(`Created ${this.plankSegments.length} plank segments`);
+        // Create plank segments using the utility function, each with its own health.
+        // Planks that already exist keep their damage when their bodies are rebuilt.
+        if (this.plankSegments.length === 0) {
+            this.plankSegments = createCompleteHullSegments(
+                this.definition.hull,
+                this.definition.plankThickness,
+                this.definition.plankSegments
+            ).map(segment => ({
+                ...segment,
+                health: Brigantine.PLANK_MAX_HEALTH,
+                maxHealth: Brigantine.PLANK_MAX_HEALTH,
+                broken: false
+            }));
+            
+            console.log(`Created ${this.plankSegments.length} plank segments`);
+        }
         
         // Create physics bodies for each segment
-        for (const segment of this.plankSegments) {
+        this.plankSegments.forEach((segment, plankIndex) => {
             try {
                 // Calculate segment properties
                 const midX = (segment.start.x + segment.end.x) / 2;
@@ -309,15 +383,18 @@ export class Brigantine extends Ships {
                 // Set the body to be a solid physics body, not a sensor
                 body.isSensor = false;
                 
-                // Add the body to the world
-                Matter.World.add(physics.getWorld(), body);
+                // Add the body to the world, unless the plank is broken and leaves a hole
+                if (!segment.broken) {
+                    Matter.World.add(physics.getWorld(), body);
+                }
                 
                 // Store the body for later reference
                 this.plankBodies.push(body);
+                this.plankIndices.set(body, plankIndex);
             } catch (error) {
                 console.error("Error creating plank body:", error);
             }
-        }
+        });
         
         console.log(`Created ${this.plankBodies.length} plank bodies for brigantine`);    }
     
@@ -333,21 +410,29 @@ export class Brigantine extends Ships {
         // This method is kept for backward compatibility and future non-module masts
     }
     
+    /**
+     * Index into the plank segments of one of this ship's plank bodies
+     * @returns -1 if the body is not one of its planks
+     */
+    private getPlankIndexOfBody(body: Matter.Body): number {
+        return this.plankIndices.get(body) ?? -1;
+    }
+    
+    /**
+     * Physics body of a plank, if it was built
+     */
+    private getPlankBody(index: number): Matter.Body | undefined {
+        return this.plankBodies.find(body => this.plankIndices.get(body) === index);
+    }
+    
     /**
      * Update the physics bodies for the planks based on ship position and rotation
      */
     public updatePlankBodies(): void {
-        if (this.plankBodies.length !== this.plankSegments.length) {
-            if (BaseGameObject.isDebugMode()) {
-                console.warn(`Mismatch between plank bodies (${this.plankBodies.length}) and segments (${this.plankSegments.length})`);
-            }
-            return;
-        }
-        
         try {
-            for (let i = 0; i < this.plankBodies.length; i++) {
-                const segment = this.plankSegments[i];
-                const body = this.plankBodies[i];
+            for (const body of this.plankBodies) {
+                const segment = this.plankSegments[this.getPlankIndexOfBody(body)];
+                if (!segment) continue;
                 
                 // Calculate segment properties in local space
                 const midX = (segment.start.x + segment.end.x) / 2;
@@ -392,9 +477,14 @@ export class Brigantine extends Ships {
             this.updatePlankBodies();
         }
         
+        // Keel and drag act on the next physics step
+        this.applyHydrodynamics();
+        
         // Update ship modules
         if (this.sails) this.sails.forEach(sail => sail.update());
         if (this.wheels) this.wheels.forEach(wheel => wheel.update());
+        if (this.cannons) this.cannons.forEach(cannon => cannon.update(delta));
+        if (this.anchors) this.anchors.forEach(anchor => anchor.update(delta));
         
         // Update sail rotation timer
         if (this.sailRotationTimer > 0) {
@@ -403,6 +493,207 @@ export class Brigantine extends Ships {
                 this.isRotatingSails = false;
             }
         }
+        
+        // Fires eat at the planks they have caught
+        this.updateFires(delta);
+        
+        // Take on water through damaged planks, and go down once flooded
+        this.updateFlooding(delta);
+        if (this.sinking) {
+            this.updateSinking(delta);
+        }
+    }
+    
+    /**
+     * Accumulate water through broken and badly damaged planks, then apply the
+     * effects of flooding: extra drag and a list towards the side taking on water
+     */
+    private updateFlooding(delta: number): void {
+        if (this.sunk || !this.body) return;
+        
+        // Speed through the water along the keel - holes in the bow scoop water when underway
+        const forwardSpeed = this.body.velocity.x * Math.cos(this.body.angle) +
+                             this.body.velocity.y * Math.sin(this.body.angle);
+        
+        let portLeak = 0;
+        let starboardLeak = 0;
+        for (const segment of this.plankSegments) {
+            const leak = this.getPlankLeakRate(segment, forwardSpeed);
+            if (segment.sectionName.startsWith('port')) {
+                portLeak += leak;
+            } else {
+                starboardLeak += leak;
+            }
+        }
+        
+        // Fill each side, never beyond total capacity
+        const space = Math.max(0, 1 - this.getFloodLevel());
+        const totalLeak = (portLeak + starboardLeak) * delta;
+        if (totalLeak > 0) {
+            const scale = Math.min(1, space / totalLeak);
+            this.portWater += portLeak * delta * scale;
+            this.starboardWater += starboardLeak * delta * scale;
+        }
+        
+        const floodLevel = this.getFloodLevel();
+        
+        // Water in the hold makes the ship sluggish
+        this.body.frictionAir = Brigantine.BASE_FRICTION_AIR * (1 + 2 * floodLevel);
+        
+        // List towards the side with more water, easing so the ship rolls gradually
+        const targetHeel = Brigantine.MAX_HEEL * (this.starboardWater - this.portWater);
+        this.heelAngle += (targetHeel - this.heelAngle) * Math.min(1, delta * 0.5);
+        
+        // Founder once the hull is full
+        if (floodLevel >= 0.999 && !this.sinking) {
+            this.startSinking();
+        }
+    }
+    
+    /**
+     * Burn the planks that are alight; a fire goes out once its plank is gone or it burns itself out
+     */
+    private updateFires(delta: number): void {
+        for (const [index, remaining] of this.fires) {
+            this.damagePlank(index, Brigantine.FIRE_DAMAGE * delta);
+            if (this.plankSegments[index].broken || remaining <= delta || this.sinking) {
+                this.fires.delete(index);
+            } else {
+                this.fires.set(index, remaining - delta);
+            }
+        }
+    }
+    
+    /**
+     * Set a plank alight (or stoke a fire already burning there)
+     */
+    public startFire(index: number): void {
+        const segment = this.plankSegments[index];
+        if (!segment || segment.broken || this.sinking) return;
+        
+        if (!this.fires.has(index)) {
+            console.log(`Plank ${segment.sectionName}_${segment.index} has caught fire`);
+        }
+        this.fires.set(index, Brigantine.FIRE_DURATION);
+    }
+    
+    /**
+     * Throw water on a burning plank, shortening the fire
+     * @param seconds How much burning time to take off
+     */
+    public douseFire(index: number, seconds: number): void {
+        const remaining = this.fires.get(index);
+        if (remaining === undefined) return;
+        
+        if (remaining <= seconds) {
+            this.fires.delete(index);
+        } else {
+            this.fires.set(index, remaining - seconds);
+        }
+    }
+    
+    public isOnFire(index: number): boolean {
+        return this.fires.has(index);
+    }
+    
+    /**
+     * Indices of the planks that are burning
+     */
+    public getBurningPlanks(): number[] {
+        return [...this.fires.keys()];
+    }
+    
+    /**
+     * The ship's shot locker, shared by all its guns
+     */
+    public getAmmoLocker(): AmmoLocker {
+        return this.ammoLocker;
+    }
+
+    /**
+     * Release the player from any wheel or cannon they are working on this ship
+     */
+    public releaseStations(): void {
+        for (const wheel of this.wheels.values()) {
+            if (wheel.isPlayerControlling) {
+                wheel.setPlayerControlling(false);
+            }
+        }
+        for (const cannon of this.cannons.values()) {
+            if (cannon.isPlayerControlling) {
+                cannon.setPlayerControlling(false);
+            }
+        }
+    }
+
+    /**
+     * Water entering through a single plank per second, based on its state and position
+     */
+    private getPlankLeakRate(segment: { sectionName: string, health: number, maxHealth: number, broken: boolean }, forwardSpeed: number): number {
+        if (!segment.broken) {
+            // Badly damaged planks seep a little before they give way
+            const damage = 1 - segment.health / segment.maxHealth;
+            return damage > 0.5 ? Brigantine.BASE_LEAK_RATE * 0.2 * (damage - 0.5) : 0;
+        }
+        
+        // Bow holes take on water faster, especially when the ship is moving forward
+        if (segment.sectionName.includes('bow')) {
+            return Brigantine.BASE_LEAK_RATE * (1.5 + Math.max(0, forwardSpeed) * 0.5);
+        }
+        
+        // Stern holes sit higher and take on water more slowly
+        if (segment.sectionName.includes('stern')) {
+            return Brigantine.BASE_LEAK_RATE * 0.6;
+        }
+        
+        return Brigantine.BASE_LEAK_RATE;
+    }
+    
+    /**
+     * Begin going down: sails are struck, debris is scattered and the sinking animation starts
+     */
+    private startSinking(): void {
+        this.sinking = true;
+        this.sinkProgress = 0;
+        this.sails.forEach(sail => sail.setOpenness(0));
+        
+        console.log(`${this.definition.name} has foundered and is sinking at (${Math.round(this.position.x)}, ${Math.round(this.position.y)})`);
+        
+        if (this.effectManager) {
+            const hull = this.definition.hull;
+            this.effectManager.createShipDebris(this.position.x, this.position.y, this.rotation, (hull.bowTip.x - hull.sternTip.x) * 0.35);
+            this.effectManager.createWaterSplash(this.position.x, this.position.y, 120);
+        }
+    }
+    
+    /**
+     * Advance the sinking animation, bleeding off speed as the hull settles
+     */
+    private updateSinking(delta: number): void {
+        if (!this.body) return;
+        
+        this.sinkProgress = Math.min(1, this.sinkProgress + delta / Brigantine.SINK_DURATION);
+        
+        // Slow down as the ship settles
+        Matter.Body.setVelocity(this.body, {
+            x: this.body.velocity.x * 0.97,
+            y: this.body.velocity.y * 0.97
+        });
+        Matter.Body.setAngularVelocity(this.body, this.body.angularVelocity * 0.95);
+        
+        // Occasional bubbles and splashes along the hull
+        if (this.effectManager && Math.random() < delta * 3) {
+            const along = (Math.random() - 0.5) * 500;
+            const across = (Math.random() - 0.5) * 150;
+            const x = this.position.x + along * Math.cos(this.rotation) - across * Math.sin(this.rotation);
+            const y = this.position.y + along * Math.sin(this.rotation) + across * Math.cos(this.rotation);
+            this.effectManager.createWaterSplash(x, y, 30 + Math.random() * 30);
+        }
+        
+        if (this.sinkProgress >= 1 && !this.sunk) {
+            this.sunk = true;
+            console.log('Brigantine has sunk');
+        }
     }
     
     /**
@@ -430,7 +721,7 @@ export class Brigantine extends Ships {
     protected override createPhysicsBody(): void {
         // Create a physics body that matches the hull shape with quadratic curves
         const scaleFactor = 1.0; // Doubled scale factor to better match visual representation
-        const p = Brigantine.HULL_POINTS;
+        const p = this.definition.hull;
         
         // Create vertices for a polygon body that approximates the hull shape
         // We'll use a simpler, more reliable shape for physics
@@ -569,9 +860,14 @@ export class Brigantine extends Ships {
             }
         }
         
+        // Heavier hulls accelerate and turn more slowly under the same wind
+        if (this.body) {
+            Matter.Body.setMass(this.body, this.definition.mass);
+        }
+        
         // Debug log the created body
         if (this.body) {
-            console.log(`Created brigantine physics body with ${this.body.vertices.length} vertices`);
+            console.log(`Created ${this.definition.id} physics body with ${this.body.vertices.length} vertices`);
             console.log(`Brigantine body bounds: ${JSON.stringify(this.body.bounds)}`);
         }
     }
@@ -580,7 +876,7 @@ export class Brigantine extends Ships {
      * Get the bounds of the ship for testing walkable area
      */
     private getBounds(): { min: { x: number, y: number }, max: { x: number, y: number }, width: number, height: number } {
-        const p = Brigantine.HULL_POINTS;
+        const p = this.definition.hull;
         
         // Find min and max coordinates from hull points
         const allPoints = [
@@ -609,19 +905,24 @@ export class Brigantine extends Ships {
     }
     
     /**
-     * Draw hull-specific shape for the brigantine
+     * The hull outline as a polygon in local coordinates, following the curves of the hull path
      */
-    private static readonly HULL_POINTS = {
-        bow: { x: 190, y: 90 },
-        bowTip: { x: 415, y: 0 },
-        bowBottom: { x: 190, y: -90 },
-        sternBottom: { x: -260, y: -90 },
-        sternTip: { x: -345, y: 0 },
-        stern: { x: -260, y: 90 }
-    };
-
-    private static createHullPath(): Path2D {
-        const p = Brigantine.HULL_POINTS;
+    private static createDeckOutline(p: HullPoints): PlankPoint[] {
+        const steps = 12;
+        const outline: PlankPoint[] = [];
+        for (let i = 0; i <= steps; i++) {
+            outline.push(getQuadraticPoint(p.bow, p.bowTip, { x: p.bow.x, y: p.bowBottom.y }, i / steps));
+        }
+        for (let i = 0; i <= steps; i++) {
+            outline.push(getQuadraticPoint(p.sternBottom, p.sternTip, p.stern, i / steps));
+        }
+        return outline;
+    }
+    
+    /**
+     * Build the hull outline as a Path2D in local coordinates
+     */
+    private static createHullPath(p: HullPoints): Path2D {
         const path = new Path2D();
         path.moveTo(p.bow.x, p.bow.y);
         path.quadraticCurveTo(p.bowTip.x, p.bowTip.y, p.bow.x, p.bowBottom.y);
@@ -666,6 +967,18 @@ export class Brigantine extends Ships {
                 isHovered = distance < 20; // Adjusted threshold for better matching
             }
             
+            // Broken planks leave a jagged hole in the hull
+            if (segment.broken) {
+                this.drawBrokenPlank(ctx, segment);
+                continue;
+            }
+            
+            // Damaged planks darken as they lose health
+            const healthRatio = segment.health / segment.maxHealth;
+            ctx.strokeStyle = healthRatio < 1 ?
+                `rgb(${Math.round(70 + 69 * healthRatio)}, ${Math.round(35 + 34 * healthRatio)}, ${Math.round(10 + 9 * healthRatio)})` :
+                '#8B4513';
+            
             // Draw the main plank with highlight if hovered
             ctx.beginPath();
             ctx.moveTo(segment.start.x, segment.start.y);
@@ -725,27 +1038,70 @@ export class Brigantine extends Ships {
         }
     }
     
+    /**
+     * Draw a broken plank as splintered stubs either side of a hole with water showing through
+     */
+    private drawBrokenPlank(ctx: CanvasRenderingContext2D, segment: { start: {x: number, y: number}, end: {x: number, y: number} }): void {
+        const dx = segment.end.x - segment.start.x;
+        const dy = segment.end.y - segment.start.y;
+        
+        ctx.save();
+        
+        // Water visible through the hole
+        ctx.lineWidth = 8;
+        ctx.strokeStyle = 'rgba(30, 90, 160, 0.9)';
+        ctx.beginPath();
+        ctx.moveTo(segment.start.x, segment.start.y);
+        ctx.lineTo(segment.end.x, segment.end.y);
+        ctx.stroke();
+        
+        // Splintered stubs at each end
+        ctx.lineWidth = 10;
+        ctx.strokeStyle = '#5C3317';
+        ctx.beginPath();
+        ctx.moveTo(segment.start.x, segment.start.y);
+        ctx.lineTo(segment.start.x + dx * 0.2, segment.start.y + dy * 0.2);
+        ctx.moveTo(segment.end.x, segment.end.y);
+        ctx.lineTo(segment.end.x - dx * 0.2, segment.end.y - dy * 0.2);
+        ctx.stroke();
+        
+        ctx.restore();
+    }
+    
+    /**
+     * Draw water sloshing in the hold, pooled towards the side the ship is listing to
+     */
+    private drawFloodWater(ctx: CanvasRenderingContext2D): void {
+        const floodLevel = this.getFloodLevel();
+        if (floodLevel <= 0.01 || !this.path) return;
+        
+        ctx.save();
+        ctx.clip(this.path);
+        
+        // Water pools on the low side; deeper water covers more of the deck
+        const p = this.definition.hull;
+        const halfBeam = p.bow.y;
+        const listSide = this.heelAngle >= 0 ? 1 : -1;
+        const edge = listSide * halfBeam;
+        const waterLine = edge - listSide * halfBeam * 2 * Math.min(1, floodLevel * 1.2);
+        
+        ctx.fillStyle = `rgba(30, 90, 160, ${0.25 + 0.35 * floodLevel})`;
+        ctx.fillRect(p.sternTip.x, Math.min(edge, waterLine), p.bowTip.x - p.sternTip.x, Math.abs(edge - waterLine));
+        
+        ctx.restore();
+    }
+    
     /**
      * Draw a boarding ladder at the stern (rear) of the ship
      * @param ctx The canvas rendering context
      */
     private drawBoardingLadder(ctx: CanvasRenderingContext2D): void {
-        const p = Brigantine.HULL_POINTS;
-        
-        // Position the ladder at the stern of the ship
-        // Calculate the ladder position - centered at the stern
-        const ladderWidth = 30;
-        const ladderLength = 60;
-        const ladderX = p.sternTip.x + 30; // Position it a bit forward from the very tip
-        const ladderY = 0; // Center it vertically
-        
-        // Store the ladder rectangle in local coordinates for collision detection
-        this.ladderRect = {
-            x: ladderX,
-            y: ladderY - ladderWidth/2,
-            width: ladderLength,
-            height: ladderWidth
-        };
+        // The ladder rectangle comes from the ship definition (local coordinates)
+        const ladderWidth = this.ladderRect.height;
+        const ladderLength = this.ladderRect.width;
+        const ladderX = this.ladderRect.x;
+        const ladderY = this.ladderRect.y + ladderWidth / 2;
+        
           // Change color if player is hovering over the ladder
         let baseFillColor = '#8B4513'; // Default saddle brown
         let highlightFillColor = '#A0522D'; // Default sienna
@@ -804,17 +1160,6 @@ export class Brigantine extends Ships {
             ctx.stroke();
         }
     }    /**
-     * Define the mast positions for the ship
-     */    private static readonly MASTS = [
-        { x: 165, y: 0, r: 15 },   // Front mast
-        { x: -35, y: 0, r: 15 },   // Middle mast
-        { x: -235, y: 0, r: 15 },  // Back mast
-    ];
-    
-    /**
-     * Define the wheel position and shape
-     */
-    private static readonly WHEEL = { x: -90, y: 0, w: 20, h: 40 };/**
      * Draw the ship's masts
      * Note: This only draws mast bases. The SailModule handles drawing the mast posts and sails.
      */    private drawMasts(ctx: CanvasRenderingContext2D): void {
@@ -823,6 +1168,55 @@ export class Brigantine extends Ships {
         // The visual mast appearance is now fully managed by the SailModule
     }
     
+    /**
+     * Draw flames flickering over the burning planks
+     */
+    private drawFires(ctx: CanvasRenderingContext2D): void {
+        if (this.fires.size === 0) return;
+        
+        const time = performance.now() / 1000;
+        ctx.save();
+        for (const index of this.fires.keys()) {
+            const centre = this.getPlankCentre(index)!;
+            for (let i = 0; i < 3; i++) {
+                const flicker = Math.sin(time * 12 + index * 3 + i * 2);
+                const radius = 7 + 3 * flicker;
+                ctx.beginPath();
+                ctx.arc(centre.x + (i - 1) * 8, centre.y + flicker * 2, radius, 0, Math.PI * 2);
+                ctx.fillStyle = i === 1 ? 'rgba(255, 235, 59, 0.8)' : 'rgba(255, 87, 34, 0.7)';
+                ctx.fill();
+            }
+        }
+        ctx.restore();
+    }
+    
+    /**
+     * Draw the bilge pump: a wooden housing with its handle
+     */
+    private drawPump(ctx: CanvasRenderingContext2D): void {
+        const pump = this.definition.pump;
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(pump.x, pump.y, 8, 0, Math.PI * 2);
+        ctx.fillStyle = '#6D4C41';
+        ctx.fill();
+        ctx.strokeStyle = '#3E2723';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(pump.x - 12, pump.y);
+        ctx.lineTo(pump.x + 12, pump.y);
+        ctx.stroke();
+        ctx.restore();
+    }
+    
+    /**
+     * Draw the deck crew along with the ship, in ship-local coordinates (null to stop)
+     */
+    public setDeckCrewRenderer(renderer: ((ctx: CanvasRenderingContext2D) => void) | null): void {
+        this.deckCrewRenderer = renderer;
+    }
+    
     /**
      * Set whether the player is in range of the ladder area
      */
@@ -917,13 +1311,61 @@ export class Brigantine extends Ships {
         
         // Restore context
         ctx.restore();
+    }
+    /**
+     * Convert local ship coordinates to world coordinates
+     */
+    public localToWorldCoordinates(localX: number, localY: number): { x: number, y: number } {
+        const cos = Math.cos(this.rotation);
+        const sin = Math.sin(this.rotation);
+        return {
+            x: this.position.x + localX * cos - localY * sin,
+            y: this.position.y + localX * sin + localY * cos
+        };
+    }
+    
+    /**
+     * Whether a world point is on the walkable deck, inside the hull outline
+     * @param margin Distance to keep from the rail, e.g. the radius of someone standing there
+     */
+    public isPointOnDeck(x: number, y: number, margin: number = 0): boolean {
+        return this.isLocalPointOnDeck(this.worldToLocalCoordinates(x, y), margin);
+    }
+    
+    /**
+     * Whether a point in ship-local coordinates is on the walkable deck
+     * @param margin Distance to keep from the rail
+     */
+    public isLocalPointOnDeck(point: PlankPoint, margin: number = 0): boolean {
+        const outline = this.deckOutline;
+        let inside = false;
+        let nearestRail = Infinity;
+        
+        for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+            const a = outline[i];
+            const b = outline[j];
+            if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+                inside = !inside;
+            }
+            nearestRail = Math.min(nearestRail, distanceToSegment(point, a, b));
+        }
+        return inside && nearestRail >= margin;
+    }
+    
+    /**
+     * Number of hands aboard
+     */
+    public getCrew(): number {
+        return this.crew;
+    }
+    
+    public setCrew(crew: number): void {
+        this.crew = Math.max(0, Math.round(crew));
     }
       /**
      * Test and visualize the walkable area on the ship deck for debugging
      */
     private testWalkableArea(ctx: CanvasRenderingContext2D, pointCount: number): void {
-        if (!this.path) return;
-        
         // Save context
         ctx.save();
         
@@ -936,25 +1378,14 @@ export class Brigantine extends Ships {
         ctx.translate(this.position.x, this.position.y);
         ctx.rotate(this.rotation);
         
-        // Test each point to see if it's inside the ship's hull
+        // Test each point to see if it's on the deck
         for (let x = bounds.min.x; x <= bounds.max.x; x += stepX) {
             for (let y = bounds.min.y; y <= bounds.max.y; y += stepY) {
-                // Local coordinates for the test point
-                const localX = x - this.position.x;
-                const localY = y - this.position.y;
-                
-                // Transform back to world for rendering
-                const cos = Math.cos(-this.rotation);
-                const sin = Math.sin(-this.rotation);
-                const rotatedX = localX * cos - localY * sin;
-                const rotatedY = localX * sin + localY * cos;
-                
-                // Check if point is inside the hull path
-                if (ctx.isPointInPath(this.path, rotatedX, rotatedY)) {
+                if (this.isLocalPointOnDeck({ x, y }, 0)) {
                     // Draw a dot at the walkable point
                     ctx.fillStyle = 'rgba(0, 255, 0, 0.3)'; // Green for walkable
                     ctx.beginPath();
-                    ctx.arc(rotatedX, rotatedY, 5, 0, Math.PI * 2);
+                    ctx.arc(x, y, 5, 0, Math.PI * 2);
                     ctx.fill();
                 }
             }
@@ -978,8 +1409,9 @@ export class Brigantine extends Ships {
     
     /**
      * Apply rudder control to turn the ship
+     * @param amount How hard the helm is put over (0-1), e.g. from an analog stick
      */
-    applyRudder(direction: 'left' | 'right' | 'center'): void {
+    applyRudder(direction: 'left' | 'right' | 'center', amount: number = 1): void {
         // Make rudder change rate more gradual
         const baseRudderChangeRate = 0.5; // Base rate for rudder change
         
@@ -989,8 +1421,7 @@ export class Brigantine extends Ships {
             this.body!.velocity.y ** 2
         );
         
-        // Update the ship's momentum value (used for turning calculations)
-        // Momentum builds up more at higher speeds, making turning harder
+        // Smoothed speed for the debug log
         this.momentum = Math.min(1.0, this.momentum * 0.95 + currentSpeed * 0.01);
 
         // Adjust rudder change rate based on current ship speed
@@ -1002,10 +1433,10 @@ export class Brigantine extends Ships {
         // Adjust rudder angle based on input with the dynamic change rate
         switch (direction) {
             case 'left':
-                this.rudderAngle = Math.max(-30, this.rudderAngle - rudderChangeRate);
+                this.rudderAngle = Math.max(-30, this.rudderAngle - rudderChangeRate * amount);
                 break;
             case 'right':
-                this.rudderAngle = Math.min(30, this.rudderAngle + rudderChangeRate);
+                this.rudderAngle = Math.min(30, this.rudderAngle + rudderChangeRate * amount);
                 break;
             case 'center':
                 // Return rudder to center position
@@ -1026,61 +1457,57 @@ export class Brigantine extends Ships {
             }
         }
         
-        // Calculate sail power to correlate turning with wind force
-        let sailPower = 0;
-        let sailCount = 0;
-        
-        // Calculate average sail openness and efficiency using the typed collection
-        this.sails.forEach(sail => {
-            if (sail.openness > 0) {
-                sailPower += sail.openness;
-                sailCount += 1;
-            }
-        });
-        
-        // Get average sail power as a factor between 0 and 1
-        const avgSailPower = sailCount > 0 ? sailPower / (sailCount * 100) : 0;
-        
-        // Calculate base turning force with improved speed-based mechanics
-        const baseTurningPower = 0.000015; // Base turning power constant
-        
-        // IMPROVED TURNING LOGIC: Base turning on ship speed
-        // At very low speeds: difficult to turn (0.3 effectiveness)
-        // At medium speeds: optimal turning (1.0 effectiveness)
-        // At high speeds: harder to turn due to momentum (0.5 effectiveness)
-        
-        // Calculate speed factor - optimal turning at medium speeds
-        // This creates a bell curve with max turning at moderate speeds
-        const optimalSpeed = 2.0; // Speed at which turning is most effective
-        const speedDiff = Math.abs(currentSpeed - optimalSpeed);
-        
-        // Create a more pronounced bell curve for speed-based turning
-        // This makes the difference between low, medium and high speeds more noticeable
-        const speedFactor = Math.max(0.25, Math.min(1.0, 1.0 - Math.pow(speedDiff / 3.0, 2)));
-        
-        // Calculate momentum resistance - faster ships are harder to turn
-        // More progressive resistance as momentum builds up
-        const momentumResistance = Math.max(0.4, 1.0 - (this.momentum * 0.6));
-        
-        // Combine factors for final turn effectiveness
-        const turnEffectiveness = speedFactor * momentumResistance;
-        
-        // Apply sail power as a factor (no sails = reduced turning)
-        // Increased minimum turning capability even with closed sails
-        // Make turning more directly dependent on sail openness
-        const minTurnFactor = 0.35; // Minimum turning factor with no sails (increased from 0.3)
-        const maxTurnFactor = 1.0;  // Maximum turning factor with full sails
-        const sailFactor = minTurnFactor + ((maxTurnFactor - minTurnFactor) * avgSailPower);
+        // The rudder turns the ship by deflecting the water flowing past it, so it bites
+        // harder the faster the ship moves through the water, and works backwards going astern
+        const flow = this.getWaterFlow().forward;
+        this.turningForce = this.rudderAngle * this.definition.hydrodynamics.rudderEffectiveness * flow;
+        Matter.Body.setAngularVelocity(this.body!, this.body!.angularVelocity + this.turningForce);
+    }
+    
+    /**
+     * Radius of the turning circle with the rudder hard over. The rudder's turn rate grows
+     * with speed through the water, so the circle is about the same size at any speed.
+     */
+    public getTurningRadius(): number {
+        const frictionAir = this.body ? this.body.frictionAir : Brigantine.BASE_FRICTION_AIR;
+        return frictionAir / (30 * this.definition.hydrodynamics.rudderEffectiveness);
+    }
+    
+    /**
+     * The ship's velocity through the water (rather than over the ground, which currents
+     * change), split into speed along the keel and sideways to starboard
+     */
+    public getWaterFlow(): { forward: number, sideways: number } {
+        if (!this.body) return { forward: 0, sideways: 0 };
+        
+        const water = this.physicsEngine ?
+            this.physicsEngine.getWaterVelocityAt(this.body.position.x, this.body.position.y) : { x: 0, y: 0 };
+        const vx = this.body.velocity.x - water.x;
+        const vy = this.body.velocity.y - water.y;
+        const angle = this.body.angle;
+        return {
+            forward: vx * Math.cos(angle) + vy * Math.sin(angle),
+            sideways: -vx * Math.sin(angle) + vy * Math.cos(angle)
+        };
+    }
+    
+    /**
+     * Keel and hull drag for one step: the keel takes off most of any sideways motion
+     * through the water, and form drag grows with the square of the speed along the keel
+     */
+    private applyHydrodynamics(): void {
+        if (!this.body) return;
         
-        // Calculate final turning force
-        this.turningForce = this.rudderAngle * baseTurningPower * turnEffectiveness * sailFactor;
+        const hydro = this.definition.hydrodynamics;
+        const { forward, sideways } = this.getWaterFlow();
+        const forwardChange = -hydro.formDrag * forward * Math.abs(forward);
+        const sidewaysChange = -hydro.lateralResistance * sideways;
         
-        // Apply the turning force as a torque
-        // We now apply force even when the ship is stationary (as long as sails are open)
-        // This allows the ship to start turning from a standstill
-        if (currentSpeed > 0.05 || avgSailPower > 0) {
-            Matter.Body.setAngularVelocity(this.body!, this.body!.angularVelocity + this.turningForce);
-        }
+        const angle = this.body.angle;
+        Matter.Body.setVelocity(this.body, {
+            x: this.body.velocity.x + Math.cos(angle) * forwardChange - Math.sin(angle) * sidewaysChange,
+            y: this.body.velocity.y + Math.sin(angle) * forwardChange + Math.cos(angle) * sidewaysChange
+        });
     }
     
     /**
@@ -1106,8 +1533,8 @@ export class Brigantine extends Ships {
                 const sailAngleRad = sailAngle * Math.PI / 180;
                 
                 // Calculate the sail's normal vector (perpendicular to sail face)
-                // The sail normal is perpendicular to its face and indicates which way it's pointing
-                const sailNormalAngle = this.body!.angle + sailAngleRad + Math.PI/2; // Add 90 degrees to get normal
+                // The sail spans the ship's local y axis, so with no rotation its normal points at the bow (+x)
+                const sailNormalAngle = this.body!.angle + sailAngleRad;
                 
                 // Calculate sail direction vector components (normal to sail face)
                 const sailNormalX = Math.cos(sailNormalAngle);
@@ -1196,12 +1623,13 @@ export class Brigantine extends Ships {
         const efficiency = this.calculateSailEfficiency();
         
         // Calculate base force magnitude based on wind power and sail efficiency
-        const forceMagnitude = 0.01 * windPower * efficiency;
+        // Flooding makes the ship slower to respond to the wind
+        const forceMagnitude = 0.01 * windPower * efficiency * this.getFloodSpeedFactor();
 
-        // Force is always applied in the direction the ship is facing
+        // Force is always applied in the direction the ship is facing (the bow points along local +x)
         // This simulates the ship's ability to harness wind from various directions
-        const forceX = Math.cos(this.body!.angle + Math.PI/2) * forceMagnitude;
-        const forceY = Math.sin(this.body!.angle + Math.PI/2) * forceMagnitude;
+        const forceX = Math.cos(this.body!.angle) * forceMagnitude;
+        const forceY = Math.sin(this.body!.angle) * forceMagnitude;
 
         // Apply the force at the ship's center of mass
         Matter.Body.applyForce(this.body!, this.body!.position, {
@@ -1209,15 +1637,28 @@ export class Brigantine extends Ships {
             y: forceY
         });
 
+        // The sails also push the ship bodily to leeward, barely when running before the wind
+        // but hardest close-hauled; the keel resists most of it and the rest is leeway
+        const windX = Math.cos(windDirection);
+        const windY = Math.sin(windDirection);
+        const offWind = Math.cos(this.body!.angle) * windX + Math.sin(this.body!.angle) * windY; // 1 running, -1 head to wind
+        const sideways = -Math.sin(this.body!.angle) * windX + Math.cos(this.body!.angle) * windY;
+        const leewayMagnitude = forceMagnitude * this.definition.hydrodynamics.leeway * (1 - offWind) / 2 * Math.sign(sideways);
+        Matter.Body.applyForce(this.body!, this.body!.position, {
+            x: -Math.sin(this.body!.angle) * leewayMagnitude,
+            y: Math.cos(this.body!.angle) * leewayMagnitude
+        });
+
         // Store the forward force for momentum calculations
         this.forwardForce = forceMagnitude;
     }
     
     /**
      * Rotate all sails by a certain angle
+     * @param amount Fraction of the full rotation rate (0-1), e.g. from an analog trigger
      */
-    rotateSails(direction: 'left' | 'right' | 'center'): void {
-        const rotationRate = 1.25; // Degrees per call
+    rotateSails(direction: 'left' | 'right' | 'center', amount: number = 1): void {
+        const rotationRate = 1.25 * amount; // Degrees per call
         
         // Store current velocity before rotation
         const currentVelocity = {
@@ -1304,6 +1745,20 @@ export class Brigantine extends Ships {
             if (module.isPointHovering(x, y)) {
                 return module;
             }
+        }
+        
+        // Then check all cannons
+        for (const [id, module] of this.cannons) {
+            if (module.isPointHovering(x, y)) {
+                return module;
+            }
+        }
+        
+        // Then the anchor windlass
+        for (const [id, module] of this.anchors) {
+            if (module.isPointHovering(x, y)) {
+                return module;
+            }
         }        // Check if it's hovering over a plank
         if (this.isPointHoveringPlank(x, y)) {            // Create a specialized PlankModule class that extends BaseModule
             class PlankModule extends BaseModule {
@@ -1318,13 +1773,18 @@ export class Brigantine extends Ships {
                     this.mouseX = mouseX;
                     this.mouseY = mouseY;
                     
+                    // Use the hovered plank's own health, falling back to the ship-wide value
+                    const plank = ship.getPlankState(ship.getNearestPlankIndex(mouseX, mouseY));
+                    
                     // Set plank-specific tooltip info
-                    this.name = "Ship Plank";
-                    this.description = "Structural component of the ship's hull";
-                    this.health = ship.plankHealth;
-                    this.maxHealth = 100;
+                    this.name = plank ? `Ship Plank (${plank.sectionName.replace('_', ' ')} ${plank.index + 1})` : "Ship Plank";
+                    this.description = plank && plank.broken ?
+                        "Broken - the hull is taking on water here" :
+                        "Structural component of the ship's hull";
+                    this.health = plank ? plank.health : ship.plankHealth;
+                    this.maxHealth = plank ? plank.maxHealth : 100;
                     this.quality = "Standard";
-                    this.effectiveness = ship.plankHealth / 100;
+                    this.effectiveness = this.health / this.maxHealth;
                     this.useInstruction = "Repair with wood resources";
                     
                     // Set hovered state to true immediately
@@ -1425,39 +1885,481 @@ export class Brigantine extends Ships {
     }
     
     /**
-     * Set the health of ship's planks (0-100%)
+     * Set the health of every plank (0-100%)
      */
     public setPlankHealth(health: number): void {
-        this.plankHealth = Math.max(0, Math.min(100, health));
+        const percent = Math.max(0, Math.min(100, health));
+        for (let i = 0; i < this.plankSegments.length; i++) {
+            const segment = this.plankSegments[i];
+            this.setSinglePlankHealth(i, segment.maxHealth * percent / 100);
+        }
+        
+        // Ships without planks yet just track the percentage
+        if (this.plankSegments.length === 0) {
+            this.plankHealth = percent;
+        }
     }
     
     /**
-     * Get the current health of ship's planks
+     * Get the average health of the ship's planks (0-100%)
      */
     public getPlankHealth(): number {
         return this.plankHealth;
     }
     
     /**
-     * Damage the ship's planks
+     * Damage every plank by a percentage of its maximum health
      * @param amount Amount of damage to apply (0-100)
      */
     public damagePlanks(amount: number): void {
-        this.plankHealth = Math.max(0, this.plankHealth - amount);
+        // Ships without planks yet just track the percentage
+        if (this.plankSegments.length === 0) {
+            this.plankHealth = Math.max(0, this.plankHealth - amount);
+        }
+        
+        for (let i = 0; i < this.plankSegments.length; i++) {
+            this.damagePlank(i, this.plankSegments[i].maxHealth * amount / 100);
+        }
         
-        // If plank health is critical, apply visual effects
+        // If plank health is critical, log it
         if (this.plankHealth < 30) {
-            // TODO: Add visual indicators of ship damage
-            console.log(`Ship planks critically damaged: ${this.plankHealth}% health remaining`);
+            console.log(`Ship planks critically damaged: ${this.plankHealth.toFixed(1)}% health remaining`);
         }
     }
     
     /**
-     * Repair the ship's planks
+     * Repair every plank by a percentage of its maximum health
      * @param amount Amount of health to restore (0-100)
      */
     public repairPlanks(amount: number): void {
-        this.plankHealth = Math.min(100, this.plankHealth + amount);
+        if (this.plankSegments.length === 0) {
+            this.plankHealth = Math.min(100, this.plankHealth + amount);
+        }
+        
+        for (let i = 0; i < this.plankSegments.length; i++) {
+            this.repairPlank(i, this.plankSegments[i].maxHealth * amount / 100);
+        }
+    }
+    
+    /**
+     * Damage a single plank, breaking it if its health runs out
+     */
+    public damagePlank(index: number, amount: number): void {
+        const segment = this.plankSegments[index];
+        if (!segment || segment.broken) return;
+        
+        this.setSinglePlankHealth(index, segment.health - amount);
+    }
+    
+    /**
+     * Repair a single plank; broken planks seal again once repaired past the threshold
+     */
+    public repairPlank(index: number, amount: number): void {
+        const segment = this.plankSegments[index];
+        if (!segment) return;
+        
+        this.setSinglePlankHealth(index, segment.health + amount);
+    }
+    
+    /**
+     * Damage the plank closest to a world position (e.g. where a cannonball struck the hull)
+     */
+    public damagePlankAtPoint(point: { x: number, y: number }, amount: number): void {
+        const index = this.getNearestPlankIndex(point.x, point.y, true);
+        if (index !== -1) {
+            this.damagePlank(index, amount);
+        }
+    }
+    
+    /**
+     * Get the index of the plank whose centre is closest to a world position
+     * @param intactOnly Skip planks that are already broken
+     */
+    public getNearestPlankIndex(x: number, y: number, intactOnly: boolean = false): number {
+        const local = this.worldToLocalCoordinates(x, y);
+        let nearest = -1;
+        let nearestDistance = Infinity;
+        
+        for (let i = 0; i < this.plankSegments.length; i++) {
+            const segment = this.plankSegments[i];
+            if (intactOnly && segment.broken) continue;
+            
+            const midX = (segment.start.x + segment.end.x) / 2;
+            const midY = (segment.start.y + segment.end.y) / 2;
+            const distance = Math.hypot(local.x - midX, local.y - midY);
+            if (distance < nearestDistance) {
+                nearestDistance = distance;
+                nearest = i;
+            }
+        }
+        
+        return nearest;
+    }
+    
+    /**
+     * Get the health state of a single plank
+     */
+    public getPlankState(index: number): { sectionName: string, index: number, health: number, maxHealth: number, broken: boolean } | null {
+        const segment = this.plankSegments[index];
+        if (!segment) return null;
+        
+        return {
+            sectionName: segment.sectionName,
+            index: segment.index,
+            health: segment.health,
+            maxHealth: segment.maxHealth,
+            broken: segment.broken
+        };
+    }
+    
+    public getPlankCount(): number {
+        return this.plankSegments.length;
+    }
+    
+    /**
+     * Middle of a plank in ship-local coordinates, e.g. for a carpenter to walk to
+     */
+    public getPlankCentre(index: number): PlankPoint | null {
+        const segment = this.plankSegments[index];
+        if (!segment) return null;
+        
+        return { x: (segment.start.x + segment.end.x) / 2, y: (segment.start.y + segment.end.y) / 2 };
+    }
+    
+    public getBrokenPlankCount(): number {
+        return this.plankSegments.filter(segment => segment.broken).length;
+    }
+    
+    /**
+     * Set a plank's health and handle breaking/sealing its physics body
+     */
+    private setSinglePlankHealth(index: number, health: number): void {
+        const segment = this.plankSegments[index];
+        segment.health = Math.max(0, Math.min(segment.maxHealth, health));
+        
+        if (!segment.broken && segment.health <= 0) {
+            this.breakPlank(index);
+        } else if (segment.broken && segment.health >= Brigantine.PLANK_REPAIR_THRESHOLD) {
+            this.sealPlank(index);
+        }
+        
+        this.updatePlankHealthSummary();
+    }
+    
+    /**
+     * Break a plank, removing its body from the world to leave a hole in the hull
+     */
+    private breakPlank(index: number): void {
+        const segment = this.plankSegments[index];
+        segment.broken = true;
+        
+        const body = this.getPlankBody(index);
+        if (body && this.physicsEngine) {
+            Matter.Composite.remove(this.physicsEngine.getWorld(), body);
+        }
+        
+        console.log(`Plank ${segment.sectionName}_${segment.index} broke - the hull is taking on water`);
+    }
+    
+    /**
+     * Seal a repaired plank, putting its body back into the world
+     */
+    private sealPlank(index: number): void {
+        const segment = this.plankSegments[index];
+        segment.broken = false;
+        
+        const body = this.getPlankBody(index);
+        if (body && this.physicsEngine) {
+            Matter.Composite.add(this.physicsEngine.getWorld(), body);
+        }
+        
+        console.log(`Plank ${segment.sectionName}_${segment.index} repaired and sealed`);
+    }
+    
+    /**
+     * Recalculate the ship-wide plank health and hull integrity from individual planks
+     */
+    private updatePlankHealthSummary(): void {
+        if (this.plankSegments.length === 0) return;
+        
+        let total = 0;
+        let max = 0;
+        for (const segment of this.plankSegments) {
+            total += segment.health;
+            max += segment.maxHealth;
+        }
+        
+        this.plankHealth = max > 0 ? (total / max) * 100 : 0;
+        
+        // The health bar shows hull integrity
+        this.health = this.maxHealth * this.plankHealth / 100;
+    }
+    
+    /**
+     * Current flooding as a fraction of the hull's capacity (0 = dry, 1 = foundered)
+     */
+    public getFloodLevel(): number {
+        return Math.min(1, this.portWater + this.starboardWater);
+    }
+    
+    /**
+     * Pump water out of the hull, taking it from both sides in proportion
+     * @param amount Fraction of capacity to remove
+     */
+    public pumpWater(amount: number): void {
+        const total = this.portWater + this.starboardWater;
+        if (total <= 0 || this.sinking) return;
+        
+        const remaining = Math.max(0, total - amount) / total;
+        this.portWater *= remaining;
+        this.starboardWater *= remaining;
+    }
+    
+    /**
+     * Speed multiplier from water in the hold
+     */
+    public getFloodSpeedFactor(): number {
+        return 1 - 0.6 * this.getFloodLevel();
+    }
+    
+    public isSinking(): boolean {
+        return this.sinking;
+    }
+    
+    public isSunk(): boolean {
+        return this.sunk;
+    }
+    
+    /**
+     * A brigantine is only lost once it has gone to the bottom
+     */
+    public override isDead(): boolean {
+        return this.sunk;
+    }
+    
+    /**
+     * Capture the ship's transform, hull and module state for saving
+     */
+    public getSaveState(): ShipSaveState {
+        const body = this.body!;
+        
+        return {
+            definitionId: this.definition.id,
+            x: body.position.x,
+            y: body.position.y,
+            angle: body.angle,
+            velocity: { x: body.velocity.x, y: body.velocity.y },
+            angularVelocity: body.angularVelocity,
+            force: { x: body.force.x, y: body.force.y },
+            rudderAngle: this.rudderAngle,
+            momentum: this.momentum,
+            planks: this.plankSegments.map(segment => ({ health: segment.health, broken: segment.broken })),
+            water: { port: this.portWater, starboard: this.starboardWater },
+            heelAngle: this.heelAngle,
+            sinking: this.sinking,
+            sinkProgress: this.sinkProgress,
+            sails: Array.from(this.sails, ([id, sail]) => ({ id, openness: sail.openness, angle: sail.angle })),
+            wheels: Array.from(this.wheels, ([id, wheel]) => ({ id, angle: wheel.wheelAngle })),
+            cannons: Array.from(this.cannons, ([id, cannon]) => ({
+                id,
+                aimAngle: cannon.aimAngle,
+                elevation: cannon.elevation,
+                reloadTimer: cannon.getReloadTimer()
+            })),
+            anchors: Array.from(this.anchors, ([id, anchor]) => ({
+                id,
+                state: anchor.state,
+                seabed: anchor.getSeabedPosition(),
+                rodeLength: anchor.getRodeLength(),
+                raiseTimer: anchor.getRaiseTimer(),
+                health: anchor.getHealth()
+            })),
+            crew: this.crew,
+            ammo: this.ammoLocker.getState(),
+            fires: Array.from(this.fires, ([plank, remaining]) => ({ plank, remaining }))
+        };
+    }
+    
+    /**
+     * Restore state captured by getSaveState. Plank bodies must already have been created.
+     */
+    public applySaveState(state: ShipSaveState): void {
+        if (!this.body) return;
+        
+        // Transform and motion
+        Matter.Body.setPosition(this.body, { x: state.x, y: state.y });
+        Matter.Body.setAngle(this.body, state.angle);
+        Matter.Body.setVelocity(this.body, state.velocity);
+        Matter.Body.setAngularVelocity(this.body, state.angularVelocity);
+        this.body.force.x = state.force.x;
+        this.body.force.y = state.force.y;
+        this.position.x = state.x;
+        this.position.y = state.y;
+        this.rotation = state.angle;
+        this.rudderAngle = state.rudderAngle;
+        this.momentum = state.momentum;
+        this.crew = state.crew ?? this.definition.crew;
+        if (state.ammo) {
+            this.ammoLocker.setState(state.ammo);
+        }
+        this.fires = new Map(state.fires.map(fire => [fire.plank, fire.remaining]));
+        
+        // Hull planks - broken planks lose their bodies, sealed ones get them back
+        state.planks.forEach((plank, index) => {
+            const segment = this.plankSegments[index];
+            if (!segment) return;
+            
+            segment.health = Math.max(0, Math.min(segment.maxHealth, plank.health));
+            if (plank.broken && !segment.broken) {
+                this.breakPlank(index);
+            } else if (!plank.broken && segment.broken) {
+                this.sealPlank(index);
+            }
+        });
+        if (state.planks.length !== this.plankSegments.length) {
+            console.warn(`Saved ${state.definitionId} has ${state.planks.length} planks, expected ${this.plankSegments.length}`);
+        }
+        this.updatePlankHealthSummary();
+        
+        // Flooding and sinking
+        this.portWater = state.water.port;
+        this.starboardWater = state.water.starboard;
+        this.heelAngle = state.heelAngle;
+        this.body.frictionAir = Brigantine.BASE_FRICTION_AIR * (1 + 2 * this.getFloodLevel());
+        this.sinking = state.sinking;
+        this.sinkProgress = state.sinkProgress;
+        
+        // Modules
+        for (const saved of state.sails) {
+            const sail = this.sails.get(saved.id);
+            if (sail) {
+                sail.setOpenness(saved.openness);
+                sail.angle = saved.angle;
+            }
+        }
+        for (const saved of state.wheels) {
+            const wheel = this.wheels.get(saved.id);
+            if (wheel) wheel.setWheelAngle(saved.angle);
+        }
+        for (const saved of state.cannons) {
+            const cannon = this.cannons.get(saved.id);
+            if (cannon) {
+                cannon.aimAngle = saved.aimAngle;
+                cannon.setElevation(saved.elevation);
+                cannon.setReloadTimer(saved.reloadTimer);
+            }
+        }
+        for (const saved of state.anchors) {
+            const anchor = this.anchors.get(saved.id);
+            if (anchor) {
+                anchor.restore(saved.state, saved.seabed, saved.rodeLength, saved.raiseTimer, saved.health);
+            }
+        }
+        
+        // Move the planks and module bodies to the restored transform
+        this.updatePlankBodies();
+        this.sails.forEach(sail => sail.update());
+        this.wheels.forEach(wheel => wheel.update());
+        this.cannons.forEach(cannon => cannon.update(0));
+        this.anchors.forEach(anchor => anchor.update(0));
+    }
+    
+    /**
+     * Set the effect manager used for sinking debris and splashes
+     */
+    public setEffectManager(effectManager: EffectManager): void {
+        this.effectManager = effectManager;
+    }
+    
+    /**
+     * Remove the hull, plank and module bodies from the physics world
+     */
+    public removeFromPhysics(physics: Physics): void {
+        for (const body of this.plankBodies) {
+            const segment = this.plankSegments[this.getPlankIndexOfBody(body)];
+            if (!segment || !segment.broken) {
+                Matter.Composite.remove(physics.getWorld(), body);
+            }
+        }
+        this.plankBodies = [];
+        this.plankIndices.clear();
+        this.plankSegments = [];
+        
+        this.modules.forEach(module => module.removePhysicsBody());
+        this.cannons.forEach(cannon => cannon.clearCannonballs());
+        
+        if (this.body) {
+            physics.removeBody(this.body);
+        }
+    }
+    
+    /**
+     * Check if a physics body belongs to this ship's hull, planks or modules
+     */
+    public override ownsBody(body: Matter.Body): boolean {
+        if (this.body === body || this.plankBodies.includes(body)) {
+            return true;
+        }
+        
+        for (const module of this.modules.values()) {
+            if (module.ownsBody(body)) {
+                return true;
+            }
+        }
+        
+        return false;
+    }
+    
+    /**
+     * Route a projectile hit to the module that was struck, or to the planks for hull hits
+     */
+    public override applyProjectileHit(body: Matter.Body, damage: number, point: Matter.Vector, ammo: AmmoType = 'round'): ProjectileHitTarget {
+        const spec = AMMUNITION[ammo];
+        
+        // Grape sweeps the deck, cutting down whoever is standing there
+        if (spec.crewKilled > 0 && this.crew > 0) {
+            this.setCrew(this.crew - spec.crewKilled);
+            console.log(`${spec.name} cut down ${spec.crewKilled} of the ${this.definition.name}'s crew (${this.crew} left)`);
+        }
+        
+        // Modules (masts, sails, wheel) take the damage themselves; chain shot tears sails apart
+        for (const module of this.modules.values()) {
+            if (module.ownsBody(body)) {
+                if (module instanceof SailModule) {
+                    module.takeDamage(damage * spec.sailDamage);
+                    module.setOpenness(module.openness - spec.sailShred);
+                } else {
+                    module.takeDamage(damage * spec.hullDamage);
+                }
+                return 'module';
+            }
+        }
+        
+        // Plank bodies take the damage directly; hull hits damage the plank closest to the impact
+        let plankIndex = this.getPlankIndexOfBody(body);
+        const target: ProjectileHitTarget = plankIndex !== -1 ? 'plank' : 'hull';
+        if (plankIndex === -1) {
+            plankIndex = this.getNearestPlankIndex(point.x, point.y, true);
+        }
+        if (plankIndex !== -1) {
+            this.damagePlank(plankIndex, damage * spec.hullDamage);
+            if (spec.ignites) {
+                this.startFire(plankIndex);
+            }
+        }
+        return target;
+    }
+    
+    /**
+     * Masts and sails tower over the deck; everything else stands no higher than the hull
+     */
+    public override getHitHeight(body: Matter.Body): number {
+        for (const sail of this.sails.values()) {
+            if (sail.ownsBody(body)) {
+                return SailModule.MAST_HEIGHT;
+            }
+        }
+        return Ships.HULL_HEIGHT;
     }
     
     /**
@@ -1474,30 +2376,61 @@ export class Brigantine extends Ships {
         ctx.translate(this.position.x, this.position.y);
         ctx.rotate(this.rotation); // Always use rotation from the base class, which is synced with the physics body
         
+        // Heeling foreshortens the deck across the beam and shifts it towards the low side
+        if (Math.abs(this.heelAngle) > 0.001) {
+            ctx.transform(1, 0, 0, Math.cos(this.heelAngle), 0, Math.sin(this.heelAngle) * 30);
+        }
+        
+        // Sinking ships shrink and fade as they go under
+        if (this.sinking) {
+            ctx.globalAlpha = Math.max(0, 1 - this.sinkProgress);
+            const sinkScale = 1 - 0.3 * this.sinkProgress;
+            ctx.scale(sinkScale, sinkScale);
+        }
+        
         // Draw ship hull using Path2D
         if (!this.path) {
-            this.path = Brigantine.createHullPath();
+            this.path = Brigantine.createHullPath(this.definition.hull);
         }
         ctx.fillStyle = '#D2B48C'; // Saddle brown for wooden hull        
         ctx.fill(this.path!);
         
+        // Draw any water in the hold
+        this.drawFloodWater(ctx);
+        
         // Draw the planks (instead of a simple stroke)
         this.drawPlanks(ctx);
+        this.drawFires(ctx);
           // Draw the boarding ladder
         this.drawBoardingLadder(ctx);
         
+        this.drawPump(ctx);
+        
         // No longer call drawMasts since SailModule handles all mast drawing        // Draw ship modules
         this.modules.forEach((module: BaseModule) => {
             if (module instanceof SailModule) {
                 module.draw(ctx);
             } else if (module instanceof WheelModule) {
                 module.draw(ctx);
+            } else if (module instanceof CannonModule) {
+                module.draw(ctx);
+            } else if (module instanceof AnchorModule) {
+                module.draw(ctx);
             }
         });
         
+        // Hands going about their work move with the deck
+        if (this.deckCrewRenderer) {
+            this.deckCrewRenderer(ctx);
+        }
+        
         // Restore context
         ctx.restore();
         
+        // Cannonballs fly in world space, and anchor cables run down to the seabed
+        this.cannons.forEach(cannon => cannon.renderProjectiles(ctx));
+        this.anchors.forEach(anchor => anchor.renderRode(ctx));
+        
         // Add debug visualization for plank bodies when debug mode is on
         if (BaseGameObject.isDebugMode()) {
             this.renderPlankBodyDebug(ctx);
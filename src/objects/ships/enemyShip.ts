@@ -3,6 +3,7 @@ import { Ships } from './ships';
 import { Color } from '../../utils/color';
 import { BaseGameObject } from '../objects';
 import { Cannons } from '../shipModules/cannons';
+import { Cannonball } from '../projectiles/cannonball';
 
 export class EnemyShip extends Ships {
     private target: BaseGameObject | null;
@@ -13,6 +14,8 @@ export class EnemyShip extends Ships {
     private fireTimer: number;
     private fireRate: number;
     
+    static readonly CANNON_DAMAGE: number = 8; // Carried by each shot from its guns
+    
     constructor(x: number, y: number) {
         // Create an enemy ship with reasonable dimensions and health
         super(x, y, 60, 20, 100);
@@ -124,6 +127,10 @@ export class EnemyShip extends Ships {
             directionToTarget.x /= distance;
             directionToTarget.y /= distance;
             
+            // Lay the guns so the shot comes down on the target rather than flying over it
+            const speed = Cannonball.getMuzzleSpeed(EnemyShip.CANNON_DAMAGE);
+            const elevation = Cannonball.getElevationForRange(distance, speed) ?? Cannonball.DEFAULT_ELEVATION;
+            
             // Calculate ship's orientation
             const shipDirection = {
                 x: Math.cos(this.rotation),
@@ -140,7 +147,7 @@ export class EnemyShip extends Ships {
                     x: -shipDirection.y,
                     y: shipDirection.x
                 };
-                this.leftCannon.fire(leftDirection, 8);
+                this.leftCannon.fire(leftDirection, EnemyShip.CANNON_DAMAGE, 'round', elevation);
             }
             
             // If target is to the right side of the ship
@@ -149,7 +156,7 @@ export class EnemyShip extends Ships {
                     x: shipDirection.y,
                     y: -shipDirection.x
                 };
-                this.rightCannon.fire(rightDirection, 8);
+                this.rightCannon.fire(rightDirection, EnemyShip.CANNON_DAMAGE, 'round', elevation);
             }
             
             // If target is somewhat in front of the ship
@@ -165,8 +172,8 @@ export class EnemyShip extends Ships {
                     y: shipDirection.y * 0.8 - shipDirection.x * 0.6
                 };
                 
-                this.leftCannon.fire(leftDirection, 8);
-                this.rightCannon.fire(rightDirection, 8);
+                this.leftCannon.fire(leftDirection, EnemyShip.CANNON_DAMAGE, 'round', elevation);
+                this.rightCannon.fire(rightDirection, EnemyShip.CANNON_DAMAGE, 'round', elevation);
             }
         }
     }
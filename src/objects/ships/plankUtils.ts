@@ -24,16 +24,38 @@ export interface PlankSegment {
 }
 
 /**
- * Hull points that match Brigantine.HULL_POINTS
+ * Key points of a hull outline in ship-local coordinates (bow points along +x).
+ * The bow and stern are quadratic curves through bowTip/sternTip; the sides are straight.
  */
-export const HULL_POINTS = {
-    bow: { x: 190, y: 90 },
-    bowTip: { x: 415, y: 0 },
-    bowBottom: { x: 190, y: -90 },
-    sternBottom: { x: -260, y: -90 },
-    sternTip: { x: -345, y: 0 },
-    stern: { x: -260, y: 90 }
-};
+export interface HullPoints {
+    bow: PlankPoint;
+    bowTip: PlankPoint;
+    bowBottom: PlankPoint;
+    sternBottom: PlankPoint;
+    sternTip: PlankPoint;
+    stern: PlankPoint;
+}
+
+/**
+ * Number of planks in each section of the hull (per side)
+ */
+export interface PlankSegmentCounts {
+    bow: number;
+    stern: number;
+    side: number;
+}
+
+/**
+ * Shortest distance from a point to the line segment between a and b
+ */
+export function distanceToSegment(point: PlankPoint, a: PlankPoint, b: PlankPoint): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ?
+        Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared)) : 0;
+    return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
 
 /**
  * Get a point on a quadratic bezier curve
@@ -121,21 +143,24 @@ export function createStraightSegments(
 /**
  * Create all plank segments for a complete ship hull
  */
-export function createCompleteHullSegments(plankThickness: number = 10): PlankSegment[] {
-    const p = HULL_POINTS;
+export function createCompleteHullSegments(
+    p: HullPoints,
+    plankThickness: number = 10,
+    counts: PlankSegmentCounts = { bow: 3, stern: 3, side: 6 }
+): PlankSegment[] {
     const segments: PlankSegment[] = [];
     
-    // Add bow curves (3 segments each)
-    segments.push(...createCurvedSegments(p.bow, p.bowTip, p.bowBottom, 3, "port_bow", plankThickness));
-    segments.push(...createCurvedSegments(p.bowBottom, p.bowTip, p.bow, 3, "starboard_bow", plankThickness));
+    // Add bow curves
+    segments.push(...createCurvedSegments(p.bow, p.bowTip, p.bowBottom, counts.bow, "port_bow", plankThickness));
+    segments.push(...createCurvedSegments(p.bowBottom, p.bowTip, p.bow, counts.bow, "starboard_bow", plankThickness));
     
-    // Add stern curves (3 segments each)
-    segments.push(...createCurvedSegments(p.stern, p.sternTip, p.sternBottom, 3, "port_stern", plankThickness));
-    segments.push(...createCurvedSegments(p.sternBottom, p.sternTip, p.stern, 3, "starboard_stern", plankThickness));
+    // Add stern curves
+    segments.push(...createCurvedSegments(p.stern, p.sternTip, p.sternBottom, counts.stern, "port_stern", plankThickness));
+    segments.push(...createCurvedSegments(p.sternBottom, p.sternTip, p.stern, counts.stern, "starboard_stern", plankThickness));
     
-    // Add straight sides (6 segments each)
-    segments.push(...createStraightSegments(p.bowBottom, p.sternBottom, 6, "starboard_side", plankThickness));
-    segments.push(...createStraightSegments(p.stern, p.bow, 6, "port_side", plankThickness));
+    // Add straight sides
+    segments.push(...createStraightSegments(p.bowBottom, p.sternBottom, counts.side, "starboard_side", plankThickness));
+    segments.push(...createStraightSegments(p.stern, p.bow, counts.side, "port_side", plankThickness));
     
     return segments;
 }
@@ -0,0 +1,255 @@
+import { HullPoints, PlankPoint, PlankSegmentCounts } from './plankUtils';
+import { CannonSide } from '../shipModules/CannonModule';
+import brigantineData from './definitions/brigantine.json';
+import sloopData from './definitions/sloop.json';
+import galleonData from './definitions/galleon.json';
+
+/**
+ * A mast mount point and the span of the sail it carries
+ */
+export interface MastDefinition extends PlankPoint {
+    sailSize: number;
+}
+
+/**
+ * A cannon mount point on one side of the deck
+ */
+export interface CannonMountDefinition extends PlankPoint {
+    side: CannonSide;
+}
+
+/**
+ * How the hull moves through the water
+ */
+export interface HydrodynamicsDefinition {
+    lateralResistance: number;   // Fraction (0-1) of sideways speed through the water the keel takes off each step
+    formDrag: number;            // Drag along the keel, per unit of speed squared, each step
+    leeway: number;              // Share of the sail force that pushes the ship to leeward, in full when close-hauled
+    rudderEffectiveness: number; // Turn per step, per degree of rudder, per unit of water flowing past it
+}
+
+/**
+ * Data-driven description of a sailing ship.
+ * All positions are in ship-local coordinates with the bow pointing along +x
+ * and port on the +y side (matching the plank section names).
+ */
+export interface ShipDefinition {
+    id: string;
+    name: string;
+    hull: HullPoints;
+    plankThickness: number;
+    plankSegments: PlankSegmentCounts;
+    mass: number;
+    crew: number;                // Hands aboard when fully manned
+    hydrodynamics: HydrodynamicsDefinition;
+    masts: MastDefinition[];
+    wheel: PlankPoint;
+    anchor: PlankPoint;
+    pump: PlankPoint;            // Bilge pump the crew work to clear flooding
+    cannons: CannonMountDefinition[];
+    ladder: { x: number, y: number, width: number, height: number };
+}
+
+const HULL_POINT_NAMES: (keyof HullPoints)[] = ['bow', 'bowTip', 'bowBottom', 'sternBottom', 'sternTip', 'stern'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+    return isNumber(value) && Number.isInteger(value) && value >= 1;
+}
+
+function isPoint(value: unknown): value is PlankPoint {
+    return isRecord(value) && isNumber(value.x) && isNumber(value.y);
+}
+
+function isHull(value: unknown): value is HullPoints {
+    return isRecord(value) && HULL_POINT_NAMES.every(name => isPoint(value[name]));
+}
+
+/**
+ * Check that a point lies on the deck (inside the hull's bounding box, between bow and stern)
+ */
+function isOnDeck(point: PlankPoint, hull: HullPoints): boolean {
+    return point.x > hull.sternTip.x && point.x < hull.bowTip.x &&
+        point.y > hull.bowBottom.y && point.y < hull.bow.y;
+}
+
+/**
+ * Validate raw ship definition data
+ * @returns A list of problems; empty if the definition is valid
+ */
+export function validateShipDefinition(data: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!isRecord(data)) {
+        return ['definition must be an object'];
+    }
+    const def = data;
+
+    if (typeof def.id !== 'string' || def.id.length === 0) errors.push('id must be a non-empty string');
+    if (typeof def.name !== 'string' || def.name.length === 0) errors.push('name must be a non-empty string');
+
+    // Hull outline
+    if (!isRecord(def.hull)) {
+        errors.push('hull is missing');
+    } else {
+        for (const name of HULL_POINT_NAMES) {
+            if (!isPoint(def.hull[name])) {
+                errors.push(`hull.${name} must be a point with numeric x and y`);
+            }
+        }
+    }
+
+    // Mount points are only checked against a complete outline
+    const hull = isHull(def.hull) ? def.hull : null;
+    if (hull) {
+        if (hull.bowTip.x <= hull.bow.x) errors.push('hull.bowTip must be forward of hull.bow');
+        if (hull.sternTip.x >= hull.stern.x) errors.push('hull.sternTip must be aft of hull.stern');
+        if (hull.bow.x <= hull.stern.x) errors.push('hull.bow must be forward of hull.stern');
+        if (hull.bow.y <= 0 || hull.stern.y <= 0) errors.push('hull.bow and hull.stern must be on the port (+y) side');
+        if (hull.bowBottom.y >= 0 || hull.sternBottom.y >= 0) errors.push('hull.bowBottom and hull.sternBottom must be on the starboard (-y) side');
+    }
+
+    // Planking
+    if (!isNumber(def.plankThickness) || def.plankThickness <= 0) errors.push('plankThickness must be a positive number');
+    if (!isRecord(def.plankSegments)) {
+        errors.push('plankSegments is missing');
+    } else {
+        for (const section of ['bow', 'stern', 'side']) {
+            if (!isPositiveInteger(def.plankSegments[section])) {
+                errors.push(`plankSegments.${section} must be a positive integer`);
+            }
+        }
+    }
+
+    if (!isNumber(def.mass) || def.mass <= 0) errors.push('mass must be a positive number');
+    if (!isPositiveInteger(def.crew)) errors.push('crew must be a positive integer');
+
+    // Keel, drag, leeway and rudder
+    const hydro = def.hydrodynamics;
+    if (!isRecord(hydro)) {
+        errors.push('hydrodynamics is missing');
+    } else {
+        for (const name of ['lateralResistance', 'formDrag', 'leeway', 'rudderEffectiveness']) {
+            const value = hydro[name];
+            if (!isNumber(value) || value < 0) {
+                errors.push(`hydrodynamics.${name} must be a non-negative number`);
+            }
+        }
+        if (isNumber(hydro.lateralResistance) && hydro.lateralResistance > 1) {
+            errors.push('hydrodynamics.lateralResistance must be at most 1');
+        }
+    }
+
+    // Mount points
+    if (!Array.isArray(def.masts) || def.masts.length === 0) {
+        errors.push('masts must be a non-empty array');
+    } else {
+        def.masts.forEach((mast: unknown, i: number) => {
+            if (!isPoint(mast)) {
+                errors.push(`masts[${i}] must be a point with numeric x and y`);
+            } else if (hull && !isOnDeck(mast, hull)) {
+                errors.push(`masts[${i}] is not on the deck`);
+            }
+            if (isRecord(mast) && (!isNumber(mast.sailSize) || mast.sailSize <= 0)) {
+                errors.push(`masts[${i}].sailSize must be a positive number`);
+            }
+        });
+    }
+
+    for (const name of ['wheel', 'anchor', 'pump']) {
+        const point = def[name];
+        if (!isPoint(point)) {
+            errors.push(`${name} must be a point with numeric x and y`);
+        } else if (hull && !isOnDeck(point, hull)) {
+            errors.push(`${name} is not on the deck`);
+        }
+    }
+
+    if (!Array.isArray(def.cannons)) {
+        errors.push('cannons must be an array');
+    } else {
+        def.cannons.forEach((cannon: unknown, i: number) => {
+            if (!isPoint(cannon)) {
+                errors.push(`cannons[${i}] must be a point with numeric x and y`);
+            } else if (hull && !isOnDeck(cannon, hull)) {
+                errors.push(`cannons[${i}] is not on the deck`);
+            }
+            if (isRecord(cannon) && cannon.side !== 'port' && cannon.side !== 'starboard') {
+                errors.push(`cannons[${i}].side must be 'port' or 'starboard'`);
+            }
+        });
+    }
+
+    const ladder = def.ladder;
+    if (!isRecord(ladder) ||
+        !isNumber(ladder.x) || !isNumber(ladder.y) || !isNumber(ladder.width) || !isNumber(ladder.height)) {
+        errors.push('ladder must have numeric x, y, width and height');
+    } else if (ladder.width <= 0 || ladder.height <= 0) {
+        errors.push('ladder width and height must be positive');
+    }
+
+    return errors;
+}
+
+/**
+ * Validate raw data and return it as a ship definition
+ * @throws Error listing every problem if the definition is invalid
+ */
+export function loadShipDefinition(data: unknown): ShipDefinition {
+    const errors = validateShipDefinition(data);
+    if (errors.length > 0) {
+        const id = isRecord(data) && typeof data.id === 'string' ? data.id : 'unknown';
+        throw new Error(`Invalid ship definition '${id}': ${errors.join('; ')}`);
+    }
+    return data as ShipDefinition;
+}
+
+/**
+ * Built-in ship definitions, keyed by id
+ */
+const SHIP_DEFINITIONS: Map<string, ShipDefinition> = new Map();
+
+for (const data of [brigantineData, sloopData, galleonData]) {
+    try {
+        const definition = loadShipDefinition(data);
+        SHIP_DEFINITIONS.set(definition.id, definition);
+    } catch (error) {
+        console.warn(error instanceof Error ? error.message : error);
+    }
+}
+
+/**
+ * Register an additional ship definition (e.g. loaded at runtime)
+ * @throws Error if the definition is invalid
+ */
+export function registerShipDefinition(data: unknown): ShipDefinition {
+    const definition = loadShipDefinition(data);
+    SHIP_DEFINITIONS.set(definition.id, definition);
+    return definition;
+}
+
+/**
+ * Look up a ship definition by id, falling back to the brigantine
+ */
+export function getShipDefinition(id: string): ShipDefinition {
+    const definition = SHIP_DEFINITIONS.get(id);
+    if (!definition) {
+        console.warn(`Unknown ship definition '${id}', using brigantine`);
+        return SHIP_DEFINITIONS.get('brigantine')!;
+    }
+    return definition;
+}
+
+/**
+ * Ids of all registered ship definitions
+ */
+export function getShipDefinitionIds(): string[] {
+    return Array.from(SHIP_DEFINITIONS.keys());
+}
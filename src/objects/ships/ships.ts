@@ -1,8 +1,16 @@
 import * as Matter from 'matter-js';
 import { BaseGameObject } from '../objects';
 import { Color, CollisionCategories } from '../../utils/color';
+import { AmmoType } from '../projectiles/ammunition';
+
+/**
+ * The part of a ship struck by a projectile
+ */
+export type ProjectileHitTarget = 'hull' | 'plank' | 'module';
 
 export abstract class Ships extends BaseGameObject {
+    static readonly HULL_HEIGHT: number = 20; // How far the hull stands out of the water; higher shot passes over
+    
     protected width: number;
     protected height: number;
     protected health: number;
@@ -46,6 +54,34 @@ export abstract class Ships extends BaseGameObject {
     public isDead(): boolean {
         return this.health <= 0;
     }
+    
+    /**
+     * Check if a physics body belongs to this ship (hull, planks or modules)
+     */
+    public ownsBody(body: Matter.Body): boolean {
+        return this.body === body;
+    }
+    
+    /**
+     * Apply a projectile hit to the part of the ship that was struck
+     * @param body The physics body that was hit (one owned by this ship)
+     * @param damage Damage carried by the projectile
+     * @param point World position of the impact
+     * @param ammo What the projectile was
+     * @returns Which part of the ship took the damage
+     */
+    public applyProjectileHit(body: Matter.Body, damage: number, point: Matter.Vector, ammo: AmmoType = 'round'): ProjectileHitTarget {
+        this.takeDamage(damage);
+        return 'hull';
+    }
+    
+    /**
+     * How high above the water a part of the ship reaches, for shot to hit it
+     * @param body The physics body (one owned by this ship)
+     */
+    public getHitHeight(body: Matter.Body): number {
+        return Ships.HULL_HEIGHT;
+    }
       public render(ctx: CanvasRenderingContext2D): void {
         // Save context to restore later
         ctx.save();
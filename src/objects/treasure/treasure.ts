@@ -17,10 +17,12 @@ export class Treasure extends BaseGameObject {
     private bobPhase: number = 0;
     private rotationSpeed: number = 0.2;
     private collected: boolean = false;
+    private id: string; // Stable world id so collected items stay collected when regenerated
     
-    constructor(x: number, y: number, type: TreasureType) {
+    constructor(x: number, y: number, type: TreasureType, id: string = '') {
         super(x, y);
         this.type = type;
+        this.id = id;
         
         // Set properties based on treasure type
         switch (type) {
@@ -204,6 +206,10 @@ export class Treasure extends BaseGameObject {
         return this.value;
     }
     
+    public getId(): string {
+        return this.id;
+    }
+    
     public getType(): TreasureType {
         return this.type;
     }
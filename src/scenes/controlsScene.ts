@@ -0,0 +1,154 @@
+import { Input } from '../engine/input';
+import { Action, ACTION_DEFINITIONS, CONTEXT_LABELS, InputContext, formatBinding, isModifierKey, MODIFIER_KEYS } from '../engine/inputBindings';
+import { MenuItem, MenuScene } from './menuScene';
+import { SceneManager } from './sceneManager';
+
+/**
+ * Lists the controls for one context at a time and lets the player rebind them.
+ * Choosing an action waits for the next key or mouse button; Escape cancels.
+ */
+export class ControlsScene extends MenuScene {
+    private static readonly CONTEXTS: InputContext[] = [
+        InputContext.OnFoot,
+        InputContext.AtWheel,
+        InputContext.AtCannon,
+        InputContext.Gameplay,
+        InputContext.Menu
+    ];
+
+    private contextIndex: number = 0;
+    private listeningFor: Action | null = null;
+    private pendingModifier: string | null = null; // Modifier pressed while listening, bound alone if released
+    private message: string = '';
+
+    constructor(manager: SceneManager) {
+        super(manager, 'Controls');
+        this.itemHeight = 32;
+        this.buildItems();
+    }
+
+    public override isOverlay(): boolean {
+        return true;
+    }
+
+    public override handleInput(input: Input): void {
+        if (this.listeningFor) {
+            this.listenForBinding(input);
+            return;
+        }
+        super.handleInput(input);
+    }
+
+    public override render(ctx: CanvasRenderingContext2D, alpha: number): void {
+        super.render(ctx, alpha);
+
+        if (this.message) {
+            const { width } = this.getScreenSize();
+            ctx.save();
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.font = '16px Arial';
+            ctx.fillStyle = '#FFFF00';
+            ctx.fillText(this.message, width / 2, this.getItemsTop() + this.items.length * this.itemHeight + 10);
+            ctx.restore();
+        }
+    }
+
+    protected override getItemWidth(): number {
+        return 480;
+    }
+
+    private getContext(): InputContext {
+        return ControlsScene.CONTEXTS[this.contextIndex];
+    }
+
+    private buildItems(): void {
+        const bindings = this.manager.services.input.getBindings();
+
+        const items: MenuItem[] = [{
+            label: () => CONTEXT_LABELS[this.getContext()],
+            adjust: (direction) => {
+                const count = ControlsScene.CONTEXTS.length;
+                this.contextIndex = (this.contextIndex + direction + count) % count;
+                this.message = '';
+                this.buildItems();
+            }
+        }];
+
+        for (const action of bindings.getActionsInContext(this.getContext())) {
+            items.push({
+                label: () => {
+                    const keys = this.listeningFor === action
+                        ? 'Press a key...'
+                        : bindings.getKeyLabel(action);
+                    return `${ACTION_DEFINITIONS[action].label}: ${keys}`;
+                },
+                action: () => this.startListening(action)
+            });
+        }
+
+        items.push(
+            {
+                label: 'Reset to Defaults',
+                action: () => {
+                    bindings.resetToDefaults();
+                    this.message = 'All controls reset';
+                }
+            },
+            { label: 'Back', action: () => this.manager.pop() }
+        );
+
+        this.setItems(items);
+    }
+
+    private startListening(action: Action): void {
+        this.listeningFor = action;
+        this.message = 'Press a key, mouse button or pad button (Escape to cancel)';
+
+        // Forget the key or click that chose this item
+        this.manager.services.input.takeLastPressed();
+    }
+
+    /**
+     * Bind the next key pressed to the action being changed. Modifiers held with it
+     * make a chord (e.g. Shift+A); a modifier on its own is bound when it is released.
+     */
+    private listenForBinding(input: Input): void {
+        const action = this.listeningFor!;
+        const key = input.takeLastPressed();
+        if (key === null) return;
+
+        if (key === 'escape') {
+            this.listeningFor = null;
+            this.message = '';
+            return;
+        }
+
+        if (isModifierKey(key)) {
+            // Wait for the key pressed with it
+            this.pendingModifier = key;
+            return;
+        }
+
+        const held = MODIFIER_KEYS.filter(modifier => modifier !== key && input.isKeyDown(modifier));
+        this.bind(action, [...held, key].join('+'));
+    }
+
+    private bind(action: Action, binding: string): void {
+        const displaced = this.manager.services.input.getBindings().rebind(action, binding);
+
+        this.listeningFor = null;
+        this.pendingModifier = null;
+        this.message = displaced.length > 0
+            ? `${formatBinding(binding)} moved from ${displaced.map(other => ACTION_DEFINITIONS[other].label).join(', ')}`
+            : '';
+    }
+
+    public override update(delta: number): void {
+        // A modifier pressed and released on its own is bound by itself (e.g. Shift to center the sails)
+        const input = this.manager.services.input;
+        if (this.listeningFor && this.pendingModifier && !input.isKeyDown(this.pendingModifier)) {
+            this.bind(this.listeningFor, this.pendingModifier);
+        }
+    }
+}
@@ -0,0 +1,68 @@
+import { Input } from '../engine/input';
+import { Action } from '../engine/inputBindings';
+import { Scene } from './scene';
+import { SceneManager } from './sceneManager';
+
+/**
+ * Who made the game. Any key or click goes back.
+ */
+export class CreditsScene extends Scene {
+    private static readonly LINES: string[] = [
+        'Pirate Game 2',
+        '',
+        'Physics by matter-js',
+        '',
+        'Thanks for playing!'
+    ];
+
+    private wasMouseDown: boolean;
+
+    constructor(manager: SceneManager) {
+        super(manager);
+
+        // The click that opened the credits shouldn't close them
+        this.wasMouseDown = manager.services.input.isMouseDown();
+    }
+
+    public handleInput(input: Input): void {
+        const clicked = input.isMouseDown() && !this.wasMouseDown;
+        this.wasMouseDown = input.isMouseDown();
+
+        if (input.wasActionJustPressed(Action.MenuBack) || input.wasActionJustPressed(Action.MenuSelect) || clicked) {
+            this.manager.pop();
+        }
+    }
+
+    public update(delta: number): void {
+        // Nothing moves on the credits screen
+    }
+
+    public render(ctx: CanvasRenderingContext2D, alpha: number): void {
+        const canvas = this.manager.services.canvas;
+        const width = canvas.getWidth();
+        const height = canvas.getHeight();
+
+        ctx.fillStyle = '#0A3D62';
+        ctx.fillRect(0, 0, width, height);
+
+        ctx.save();
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+
+        ctx.font = 'bold 48px Arial';
+        ctx.fillStyle = '#FFD700';
+        ctx.fillText('Credits', width / 2, height / 2 - 160);
+
+        ctx.font = '24px Arial';
+        ctx.fillStyle = '#FFFFFF';
+        CreditsScene.LINES.forEach((line, i) => {
+            ctx.fillText(line, width / 2, height / 2 - 80 + i * 34);
+        });
+
+        ctx.font = '18px Arial';
+        ctx.fillStyle = '#FFFF00';
+        ctx.fillText('Press Escape to go back', width / 2, height - 60);
+
+        ctx.restore();
+    }
+}
@@ -0,0 +1,31 @@
+import { MenuScene, MenuItem } from './menuScene';
+import { SceneManager } from './sceneManager';
+import { ShipCrew, CREW_JOBS, CREW_JOB_LABELS } from '../objects/crew/shipCrew';
+
+/**
+ * Crew orders, drawn over the game while it is frozen: Left/Right moves hands on or off
+ * each job, taking them from (or sending them back to) those standing by
+ */
+export class CrewScene extends MenuScene {
+    constructor(manager: SceneManager, crew: ShipCrew) {
+        super(manager, 'Crew Orders');
+
+        const jobs: MenuItem[] = CREW_JOBS.map(job => ({
+            label: () => `${CREW_JOB_LABELS[job]}: ${crew.getAssigned(job)} / ${crew.getCapacity(job)}`,
+            adjust: (direction: -1 | 1) => crew.assign(job, crew.getAssigned(job) + direction)
+        }));
+        this.setItems([
+            ...jobs,
+            { label: () => `Standing By: ${crew.getStandingBy()}`, enabled: () => false },
+            {
+                label: () => `Assign Automatically${crew.isAutomatic() ? ' (On)' : ''}`,
+                action: () => crew.autoAssign()
+            },
+            { label: 'Back', action: () => this.manager.pop() }
+        ]);
+    }
+
+    public override isOverlay(): boolean {
+        return true;
+    }
+}
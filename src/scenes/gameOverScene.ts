@@ -0,0 +1,65 @@
+import { GameStateManager } from '../engine/gameState';
+import { MenuScene } from './menuScene';
+import { SceneManager } from './sceneManager';
+import { GameplayScene } from './gameplayScene';
+import { MainMenuScene } from './mainMenuScene';
+
+/**
+ * Final score screen drawn over the finished game
+ */
+export class GameOverScene extends MenuScene {
+    private gameState: GameStateManager;
+
+    constructor(manager: SceneManager, gameState: GameStateManager) {
+        super(manager, 'GAME OVER');
+        this.gameState = gameState;
+        this.titleColor = '#FF0000';
+
+        this.setItems([
+            { label: 'Restart', action: () => this.restart() },
+            { label: 'Main Menu', action: () => this.manager.reset(new MainMenuScene(this.manager)) }
+        ]);
+    }
+
+    public override onEnter(): void {
+        // Switch to the game over music
+        this.manager.services.soundManager.playMusic('gameover');
+    }
+
+    public override isOverlay(): boolean {
+        return true;
+    }
+
+    protected override onBack(): void {
+        // The game can't be resumed once it is over
+    }
+
+    public override render(ctx: CanvasRenderingContext2D, alpha: number): void {
+        super.render(ctx, alpha);
+
+        const { width } = this.getScreenSize();
+        const top = this.getItemsTop() - 130;
+
+        // Draw score between the title and the options
+        ctx.save();
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.font = '24px Arial';
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillText(`Score: ${this.gameState.getScore()}`, width / 2, top);
+        ctx.fillText(`Ships Destroyed: ${this.gameState.getShipsDestroyed()}`, width / 2, top + 30);
+        ctx.fillText(`High Score: ${this.gameState.getHighScore()}`, width / 2, top + 60);
+        ctx.restore();
+    }
+
+    protected override getTitleY(): number {
+        // Leave room for the score
+        return this.getItemsTop() - 190;
+    }
+
+    private restart(): void {
+        // Switch back to background music
+        this.manager.services.soundManager.playMusic('background', true);
+        this.manager.reset(new GameplayScene(this.manager));
+    }
+}
@@ -0,0 +1,196 @@
+import { Player } from '../../objects/player';
+import { Brigantine } from '../../objects/ships/brigantine';
+import { BoardingAction, BoardingResult } from '../../objects/crew/boardingAction';
+import { GameplayWorld } from './gameplayWorld';
+import { ShipRoster } from './shipRoster';
+import { FleetCommand, getNearest } from './fleetCommand';
+
+/**
+ * Ships grappled together while their crews fight, and the player's part in it
+ */
+export class BoardingManager {
+    static readonly PRIZE_SCORE: number = 500; // Points for capturing a ship by boarding
+
+    private world: GameplayWorld;
+    private roster: ShipRoster;
+    private fleets: FleetCommand;
+    private actions: BoardingAction[] = [];
+
+    constructor(world: GameplayWorld, roster: ShipRoster, fleets: FleetCommand) {
+        this.world = world;
+        this.roster = roster;
+        this.fleets = fleets;
+    }
+
+    /**
+     * Fight out each boarding, casting off from ships that have gone down or are sinking
+     */
+    public update(delta: number): void {
+        for (const action of this.actions) {
+            const afloat = [action.attacker, action.defender].every(ship => this.roster.includes(ship) && !ship.isSinking());
+            if (!afloat) {
+                action.cutLoose();
+                continue;
+            }
+
+            action.update(delta);
+            const result = action.getResult();
+            if (result) {
+                this.resolve(result);
+            }
+        }
+        this.actions = this.actions.filter(action => !action.isOver());
+    }
+
+    /**
+     * Grapple lines and the crews fighting across them, in world coordinates
+     */
+    public render(ctx: CanvasRenderingContext2D): void {
+        for (const action of this.actions) {
+            action.render(ctx);
+        }
+    }
+
+    /**
+     * Whether a ship is grappled to another, its crew away fighting
+     */
+    public isBoarding(ship: Brigantine): boolean {
+        return this.actions.some(action => action.involves(ship));
+    }
+
+    /**
+     * The ship the player's own ship could grapple right now: the nearest other ship alongside
+     * that isn't one of the player's allies or already grappled
+     */
+    public findGrappleTarget(): Brigantine | null {
+        const ship = this.world.player.getBoardedShip();
+        if (!ship || this.fleets.hasCaptain(ship) || this.isBoarding(ship)) {
+            return null;
+        }
+
+        const candidates = this.fleets.getEnemyShips()
+            .filter(other => BoardingAction.canGrapple(ship, other) && !this.isBoarding(other));
+        return getNearest(ship.getPosition(), candidates);
+    }
+
+    /**
+     * Throw grappling hooks from the player's ship onto the nearest ship alongside
+     */
+    public grappleNearestShip(): void {
+        const target = this.findGrappleTarget();
+        if (!target) {
+            console.log('No ship close enough to grapple');
+            return;
+        }
+        this.startBoarding(this.world.player.getBoardedShip()!, target);
+    }
+
+    /**
+     * Lash two ships together and send the attacker's crew across, unless either is
+     * already grappled or they have drifted out of reach
+     */
+    public startBoarding(attacker: Brigantine, defender: Brigantine): void {
+        if (!BoardingAction.canGrapple(attacker, defender) || this.isBoarding(attacker) || this.isBoarding(defender)) {
+            return;
+        }
+
+        // A crew that has already struck lets the boarders come
+        const defendersYield = this.fleets.getCaptain(defender)?.isSurrendered() ?? false;
+        const action = new BoardingAction(attacker, defender, this.world.physics, defendersYield);
+
+        // The player fights for whichever ship is their own
+        const playerSide = [attacker, defender].find(ship => !this.fleets.hasCaptain(ship)) ?? null;
+        action.setPlayer(this.world.player, playerSide);
+        this.actions.push(action);
+        this.world.soundManager.playSound('collision', 0.5);
+    }
+
+    /**
+     * Swing the player's cutlass at whoever they face across a boarding
+     */
+    public swingCutlass(): void {
+        const player = this.world.player;
+        if (!player.swingCutlass()) return;
+
+        const ship = player.getBoardedShip();
+        const action = ship ? this.actions.find(action => action.involves(ship)) : undefined;
+        const side = action?.getPlayerSide();
+        if (action && side && action.strike(player.getMeleePoint(), Player.MELEE_REACH / 2, Player.MELEE_DAMAGE, side)) {
+            this.world.soundManager.playSound('collision', 0.2);
+        }
+    }
+
+    /**
+     * Swing the player across the grapple lines if the point is on the deck of the ship
+     * grappled to theirs
+     * @returns true if the player crossed
+     */
+    public tryCrossAt(point: { x: number, y: number }): boolean {
+        const player = this.world.player;
+        const from = player.getBoardedShip();
+        const action = from ? this.actions.find(action => action.involves(from)) : undefined;
+        if (!from || !action) return false;
+
+        const ship = action.getOpponent(from);
+        if (!ship.isPointOnDeck(point.x, point.y)) return false;
+
+        from.releaseStations();
+        player.unboardShip();
+
+        const landing = action.getLandingPoint(ship, player.getPosition());
+        const velocity = ship.getBody()!.velocity;
+        player.boardShip(ship);
+        player.teleport(landing.x, landing.y, { x: velocity.x, y: velocity.y });
+        console.log(`🔑 INTERACT: Player crossed to the ${ship.getDefinition().name}`);
+        return true;
+    }
+
+    /**
+     * Part the grapples on a ship, e.g. as it goes down
+     */
+    public cutLoose(ship: Brigantine): void {
+        for (const action of this.actions.filter(action => action.involves(ship))) {
+            action.cutLoose();
+        }
+        this.actions = this.actions.filter(action => !action.isOver());
+    }
+
+    /**
+     * Part every grapple, e.g. before loading a save
+     */
+    public clear(): void {
+        for (const action of this.actions) {
+            action.cutLoose();
+        }
+        this.actions = [];
+    }
+
+    /**
+     * The losing crew strikes. A prize taken by the player's crew is theirs to sail; a
+     * player's ship taken by the enemy is sailed off by its prize crew.
+     */
+    private resolve(result: BoardingResult): void {
+        const { player, gameState, effectManager } = this.world;
+        const winnerCaptain = this.fleets.getCaptain(result.winner);
+        const loserCaptain = this.fleets.getCaptain(result.loser);
+        loserCaptain?.surrender();
+
+        if (!winnerCaptain && loserCaptain) {
+            this.fleets.removeCaptain(result.loser);
+            gameState.addScore(BoardingManager.PRIZE_SCORE);
+            effectManager.addGlobalFlash('rgba(255, 215, 0, 0.2)', 0.5);
+            console.log(`Captured the ${result.loser.getDefinition().name}`);
+        } else if (winnerCaptain && !loserCaptain) {
+            // Anyone aboard the lost ship is put over the side
+            if (player.getBoardedShip() === result.loser) {
+                result.loser.releaseStations();
+                player.unboardShip();
+                const beam = result.loser.getDefinition().hull.bow.y;
+                const overboard = result.loser.localToWorldCoordinates(0, Math.sign(beam) * (Math.abs(beam) + 40));
+                player.teleport(overboard.x, overboard.y);
+            }
+            this.fleets.addCaptain(result.loser, winnerCaptain.getArchetype(), false);
+            console.log(`The ${result.loser.getDefinition().name} has been taken by the enemy`);
+        }
+    }
+}
@@ -0,0 +1,344 @@
+import { GameObject } from '../../objects/objects';
+import { Brigantine } from '../../objects/ships/brigantine';
+import { ShipCaptain } from '../../ai/shipCaptain';
+import { ARCHETYPE_IDS, CaptainArchetype } from '../../ai/captainBehaviors';
+import { Navigation } from '../../ai/navigation';
+import { Fleet, FleetOrder, FormationType, FLEET_ORDER_IDS, FLEET_ORDER_LABELS, FORMATION_IDS, FORMATION_LABELS } from '../../ai/fleet';
+import { SaveData } from '../../engine/saveManager';
+import { GameplayWorld } from './gameplayWorld';
+import { ShipRoster } from './shipRoster';
+
+/**
+ * The candidate closest to a point, if there are any
+ */
+export function getNearest<T extends GameObject>(from: { x: number, y: number }, candidates: T[]): T | null {
+    let nearest: T | null = null;
+    let nearestDistance = Infinity;
+    for (const candidate of candidates) {
+        const pos = candidate.getPosition();
+        const distance = Math.hypot(pos.x - from.x, pos.y - from.y);
+        if (distance < nearestDistance) {
+            nearest = candidate;
+            nearestDistance = distance;
+        }
+    }
+    return nearest;
+}
+
+/**
+ * The AI captains commanding every ship but the player's, the fleets they sail in,
+ * and the enemies that keep turning up
+ */
+export class FleetCommand {
+    static readonly ENEMY_SPAWN_INTERVAL: number = 15; // Seconds between enemy arrivals
+    static readonly FLEET_CHANCE: number = 0.25;       // Share of arrivals that are a whole squadron
+
+    private world: GameplayWorld;
+    private roster: ShipRoster;
+    private navigation: Navigation;                             // Routes AI ships around the loaded islands
+    private captains: Map<Brigantine, ShipCaptain> = new Map(); // AI crews commanding the other ships
+    private playerFleet: Fleet;                                 // Allied ships taking the player's orders
+    private fleets: Fleet[];                                    // Every fleet at sea, the player's included
+    private enemySpawnTimer: number = 0;
+
+    constructor(world: GameplayWorld, roster: ShipRoster, navigation: Navigation) {
+        this.world = world;
+        this.roster = roster;
+        this.navigation = navigation;
+
+        // Allies form up on the player, or the ship they are aboard
+        this.playerFleet = new Fleet(world.player);
+        this.fleets = [this.playerFleet];
+    }
+
+    /**
+     * Count down to the next enemy arrival
+     */
+    public updateSpawning(delta: number): void {
+        this.enemySpawnTimer += delta;
+        if (this.enemySpawnTimer >= FleetCommand.ENEMY_SPAWN_INTERVAL) {
+            // Now and then a whole squadron turns up
+            if (Math.random() < FleetCommand.FLEET_CHANCE) {
+                this.spawnEnemyFleet();
+            } else {
+                this.spawnEnemy();
+            }
+            this.enemySpawnTimer = 0;
+        }
+    }
+
+    /**
+     * Let each fleet choose its target, and the player's fleet form up on whatever the player is aboard
+     */
+    public updateFleets(): void {
+        // AI fleets are disbanded once all their ships have gone to the bottom
+        this.fleets = this.fleets.filter(fleet => fleet === this.playerFleet || fleet.getMembers().length > 0);
+
+        this.playerFleet.setFlagship(this.getPlayerTarget());
+        for (const fleet of this.fleets) {
+            const ships = fleet.getMembers().map(captain => captain.ship);
+            fleet.update(this.getHostiles(fleet === this.playerFleet, ships));
+        }
+    }
+
+    /**
+     * Let a ship's captain, if it has one, decide what to do
+     * @returns The ship it has come alongside to board, if any
+     */
+    public commandShip(ship: Brigantine, delta: number): Brigantine | null {
+        const captain = this.captains.get(ship);
+        if (!captain) return null;
+
+        // Ships in a fleet are given their target by it
+        if (!captain.getFleet()) {
+            captain.setTarget(getNearest(ship.getPosition(), this.getHostiles(false, [ship])));
+        }
+        captain.update(delta);
+        return captain.getBoardingTarget();
+    }
+
+    /**
+     * Spawn a lone AI ship some way off from the player
+     */
+    public spawnEnemy(): void {
+        const playerPos = this.world.player.getPosition();
+
+        // Generate a random position that's far enough from the player
+        const spawnDistance = 1000 + Math.random() * 500; // Between 1000 and 1500 units away
+        const angle = Math.random() * Math.PI * 2;
+        const spawnX = playerPos.x + Math.cos(angle) * spawnDistance;
+        const spawnY = playerPos.y + Math.sin(angle) * spawnDistance;
+
+        // Create a new AI ship, sailed by the wind like any other
+        const archetype = ARCHETYPE_IDS[Math.floor(Math.random() * ARCHETYPE_IDS.length)];
+        const enemy = this.roster.spawn(spawnX, spawnY);
+        this.addCaptain(enemy, archetype);
+
+        console.log(`Spawned ${archetype} ship at (${Math.round(spawnX)}, ${Math.round(spawnY)})`);
+    }
+
+    /**
+     * Spawn a squadron of one archetype - a merchant convoy, a navy squadron or a pack of
+     * hunters - sailing in formation on its flagship and watching out for each other
+     */
+    public spawnEnemyFleet(): void {
+        const playerPos = this.world.player.getPosition();
+        const spawnDistance = 2000 + Math.random() * 500;
+        const angle = Math.random() * Math.PI * 2;
+        const spawnX = playerPos.x + Math.cos(angle) * spawnDistance;
+        const spawnY = playerPos.y + Math.sin(angle) * spawnDistance;
+
+        const archetype = ARCHETYPE_IDS[Math.floor(Math.random() * ARCHETYPE_IDS.length)];
+        const formation = FORMATION_IDS[Math.floor(Math.random() * FORMATION_IDS.length)];
+        const flagship = this.roster.spawn(spawnX, spawnY);
+        const fleet = new Fleet(flagship, formation, 'escort');
+        fleet.addMember(this.addCaptain(flagship, archetype));
+
+        // Consorts start in line astern of the flagship (new ships face along +x) and sail to their stations
+        for (let i = 1; i <= 2; i++) {
+            const consort = this.roster.spawn(spawnX - i * Fleet.SHIP_SPACING, spawnY);
+            fleet.addMember(this.addCaptain(consort, archetype, false));
+        }
+        this.fleets.push(fleet);
+
+        console.log(`Spawned ${archetype} fleet in ${FORMATION_LABELS[formation]} at (${Math.round(spawnX)}, ${Math.round(spawnY)})`);
+    }
+
+    /**
+     * Spawn an allied ship that joins the player's fleet
+     */
+    public spawnAlly(): void {
+        const playerPos = this.world.player.getPosition();
+        const angle = Math.random() * Math.PI * 2;
+        const ally = this.roster.spawn(playerPos.x + Math.cos(angle) * 1000, playerPos.y + Math.sin(angle) * 1000);
+
+        this.playerFleet.addMember(this.addCaptain(ally, 'navy', false));
+        console.log(`Allied ship joined the fleet (${this.playerFleet.getMembers().length} ships)`);
+    }
+
+    /**
+     * Give the player's fleet an order. Attack goes for the enemy ship nearest the point given.
+     */
+    public orderFleet(order: FleetOrder, aimPoint: { x: number, y: number }): void {
+        if (this.playerFleet.getMembers().length === 0) {
+            console.log('No allied ships to command');
+            return;
+        }
+
+        let target: GameObject | null = null;
+        if (order === 'attack') {
+            target = getNearest(aimPoint, this.getHostiles(true, []));
+            if (!target) {
+                console.log('No enemy ship to attack');
+                return;
+            }
+        }
+
+        this.playerFleet.setOrder(order, target);
+        console.log(`Fleet order: ${FLEET_ORDER_LABELS[order]}`);
+        this.world.effectManager.addGlobalFlash('rgba(255, 255, 255, 0.1)', 0.2);
+    }
+
+    /**
+     * Have the player's fleet take up the next formation
+     */
+    public cycleFormation(): void {
+        const formation = FORMATION_IDS[(FORMATION_IDS.indexOf(this.playerFleet.getFormation()) + 1) % FORMATION_IDS.length];
+        this.playerFleet.setFormation(formation);
+        console.log(`Fleet formation: ${FORMATION_LABELS[formation]}`);
+    }
+
+    /**
+     * Put an AI crew on a ship
+     * @param patrol Whether the ship patrols the waters around where it is now, rather than lying hove to when idle
+     */
+    public addCaptain(ship: Brigantine, archetype: CaptainArchetype, patrol: boolean = true): ShipCaptain {
+        const pos = ship.getPosition();
+        const start = Math.random() * Math.PI * 2;
+        const patrolRoute = !patrol ? [] : [0, 1, 2, 3].map(i => ({
+            x: pos.x + Math.cos(start + i * Math.PI / 2) * 1200,
+            y: pos.y + Math.sin(start + i * Math.PI / 2) * 1200
+        }));
+
+        const captain = new ShipCaptain(ship, archetype, patrolRoute);
+        captain.helmsman.setNavigation(this.navigation);
+        this.captains.set(ship, captain);
+        return captain;
+    }
+
+    /**
+     * Take a ship's captain off it, e.g. when it has been captured or sunk
+     * @returns Whether it was an enemy ship rather than one of the player's allies
+     */
+    public removeCaptain(ship: Brigantine): boolean {
+        const captain = this.captains.get(ship);
+        if (!captain) return false;
+
+        const fleet = captain.getFleet();
+        fleet?.removeMember(captain);
+        this.captains.delete(ship);
+        return fleet !== this.playerFleet;
+    }
+
+    public getCaptain(ship: Brigantine): ShipCaptain | undefined {
+        return this.captains.get(ship);
+    }
+
+    /**
+     * Ships without an AI captain are the player's own
+     */
+    public hasCaptain(ship: Brigantine): boolean {
+        return this.captains.has(ship);
+    }
+
+    public getCaptains(): IterableIterator<ShipCaptain> {
+        return this.captains.values();
+    }
+
+    public getPlayerFleet(): Fleet {
+        return this.playerFleet;
+    }
+
+    /**
+     * AI ships that aren't sailing with the player, including any that have struck their colours
+     */
+    public getEnemyShips(): Brigantine[] {
+        return [...this.captains.values()]
+            .filter(captain => captain.getFleet() !== this.playerFleet)
+            .map(captain => captain.ship);
+    }
+
+    /**
+     * Everything one side is at war with. The player and their allies fight every other
+     * AI ship that hasn't struck its colours; those fight the player and the allies.
+     * @param ownShips Ships of the side asking; a player aboard one of them is fought in person
+     */
+    public getHostiles(allied: boolean, ownShips: Brigantine[]): GameObject[] {
+        const hostiles: GameObject[] = allied
+            ? [...this.captains.values()]
+                .filter(captain => captain.getFleet() !== this.playerFleet && !captain.isSurrendered())
+                .map(captain => captain.ship)
+            : [this.getPlayerTarget(), ...this.playerFleet.getMembers().map(captain => captain.ship)];
+
+        return hostiles.map(hostile => hostile instanceof Brigantine && ownShips.includes(hostile) ? this.world.player : hostile);
+    }
+
+    /**
+     * What AI ships see as the player: their ship when aboard one, otherwise the player in the water
+     */
+    public getPlayerTarget(): GameObject {
+        const player = this.world.player;
+        const boardedShip = player.getBoardedShip();
+        return player.isOnBoard() && boardedShip instanceof Brigantine ? boardedShip : player;
+    }
+
+    /**
+     * Disband every fleet and dismiss every captain, e.g. before loading a save
+     */
+    public clear(): void {
+        this.captains.clear();
+        this.playerFleet = new Fleet(this.world.player);
+        this.fleets = [this.playerFleet];
+        this.enemySpawnTimer = 0;
+    }
+
+    /**
+     * The captains and fleets of the saved ships
+     * @param ships Ships in the order they are saved in
+     */
+    public getSaveState(ships: readonly Brigantine[]): Pick<SaveData, 'aiShips' | 'fleets'> {
+        return {
+            aiShips: ships.flatMap((ship, index) => {
+                const captain = this.captains.get(ship);
+                return captain ? [{ ship: index, archetype: captain.getArchetype(), surrendered: captain.isSurrendered() }] : [];
+            }),
+            fleets: this.fleets.map(fleet => {
+                const target = fleet.getOrderTarget();
+                return {
+                    flagship: fleet === this.playerFleet ? null : ships.indexOf(fleet.getFlagship() as Brigantine),
+                    formation: fleet.getFormation(),
+                    order: fleet.getOrder(),
+                    target: target instanceof Brigantine ? ships.indexOf(target) : null,
+                    members: fleet.getMembers().map(captain => ships.indexOf(captain.ship))
+                };
+            })
+        };
+    }
+
+    /**
+     * Put the captains back aboard the loaded ships and re-form their fleets
+     * @param ships The loaded ships, in the order they were saved in
+     */
+    public applySaveState(data: Pick<SaveData, 'aiShips' | 'fleets'>, ships: Brigantine[]): void {
+        this.clear();
+
+        const fleetShips = new Set(data.fleets.flatMap(fleet => fleet.members));
+        for (const ai of data.aiShips) {
+            const archetype = ARCHETYPE_IDS.includes(ai.archetype as CaptainArchetype) ? ai.archetype as CaptainArchetype : 'navy';
+            const captain = this.addCaptain(ships[ai.ship], archetype, !fleetShips.has(ai.ship) || data.fleets.some(fleet => fleet.flagship === ai.ship));
+            if (ai.surrendered) {
+                captain.surrender();
+            }
+        }
+
+        // Ships holding position hold where they were saved
+        for (const saved of data.fleets) {
+            const fleet = saved.flagship === null ? this.playerFleet : new Fleet(ships[saved.flagship]);
+            if (fleet !== this.playerFleet) {
+                this.fleets.push(fleet);
+            }
+            for (const index of saved.members) {
+                const captain = this.captains.get(ships[index]);
+                if (captain) {
+                    fleet.addMember(captain);
+                }
+            }
+
+            if (FORMATION_IDS.includes(saved.formation as FormationType)) {
+                fleet.setFormation(saved.formation as FormationType);
+            }
+            const order = FLEET_ORDER_IDS.includes(saved.order as FleetOrder) ? saved.order as FleetOrder : 'follow';
+            fleet.setOrder(order, saved.target !== null ? ships[saved.target] : null);
+        }
+    }
+}
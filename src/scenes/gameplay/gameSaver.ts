@@ -0,0 +1,114 @@
+import { SaveData, SAVE_VERSION } from '../../engine/saveManager';
+import { getShipDefinition } from '../../objects/ships/shipDefinition';
+import { GameplayWorld } from './gameplayWorld';
+import { ShipRoster } from './shipRoster';
+import { FleetCommand } from './fleetCommand';
+import { BoardingManager } from './boardingManager';
+import { PlayerRespawn } from './playerRespawn';
+
+/**
+ * Turns the game in progress into save data and rebuilds it from a save
+ */
+export class GameSaver {
+    private world: GameplayWorld;
+    private roster: ShipRoster;
+    private fleets: FleetCommand;
+    private boarding: BoardingManager;
+    private respawn: PlayerRespawn;
+
+    constructor(world: GameplayWorld, roster: ShipRoster, fleets: FleetCommand, boarding: BoardingManager, respawn: PlayerRespawn) {
+        this.world = world;
+        this.roster = roster;
+        this.fleets = fleets;
+        this.boarding = boarding;
+        this.respawn = respawn;
+    }
+
+    /**
+     * Save the player, ships, collected items, score and world seed
+     */
+    public save(): void {
+        const { player, gameState, islandGenerator, windSystem, saveManager, effectManager } = this.world;
+        const ships = this.roster.getShips();
+        const playerBody = player.getBody()!;
+        const boardedShip = player.getBoardedShip();
+
+        const data: SaveData = {
+            version: SAVE_VERSION,
+            savedAt: new Date().toISOString(),
+            worldSeed: islandGenerator.getSeed(),
+            score: gameState.getScore(),
+            shipsDestroyed: gameState.getShipsDestroyed(),
+            collectedItems: islandGenerator.getCollectedItems(),
+            wind: { direction: windSystem.getDirection(), basePower: windSystem.getBasePower() },
+            player: {
+                x: playerBody.position.x,
+                y: playerBody.position.y,
+                velocity: { x: playerBody.velocity.x, y: playerBody.velocity.y },
+                health: player.getHealth(),
+                boardedShip: boardedShip ? ships.indexOf(boardedShip) : null,
+                lastPort: this.respawn.getLastPort()
+            },
+            ships: ships.map(ship => ship.getSaveState()),
+            ...this.fleets.getSaveState(ships)
+        };
+
+        if (saveManager.save(data)) {
+            effectManager.addGlobalFlash('rgba(255, 255, 255, 0.2)', 0.3);
+        }
+    }
+
+    /**
+     * Replace the current game with the saved one, rebuilding the physics world from the save
+     * @returns true if a save was loaded
+     */
+    public load(): boolean {
+        const { player, camera, renderer, islandGenerator, worldGenerator, currentSystem, windSystem, gameState } = this.world;
+        const data = this.world.saveManager.load();
+        if (!data) {
+            console.log('No saved game to load');
+            return false;
+        }
+
+        // Clear out the current world
+        this.boarding.clear();
+        if (player.isOnBoard()) {
+            player.getBoardedShip()!.releaseStations();
+            player.unboardShip();
+        }
+        this.roster.clear();
+
+        // Rebuild the saved ships, their captains and fleets
+        const ships = data.ships.map(state => {
+            const ship = this.roster.spawn(state.x, state.y, getShipDefinition(state.definitionId));
+            ship.applySaveState(state);
+            return ship;
+        });
+        this.fleets.applySaveState(data, ships);
+
+        // Put the player back, aboard their ship if they were on one
+        this.respawn.restore(data.player.lastPort);
+        player.setHealth(data.player.health);
+        if (data.player.boardedShip !== null) {
+            player.boardShip(ships[data.player.boardedShip]);
+        }
+        player.teleport(data.player.x, data.player.y, data.player.velocity);
+        camera.setPosition(data.player.x, data.player.y);
+
+        // Regenerate the saved world without the items already collected; the currents and gusts follow from the seed
+        islandGenerator.reset(data.worldSeed, data.collectedItems);
+        worldGenerator.setSeed(data.worldSeed);
+        renderer.setWorldSeed(data.worldSeed);
+        currentSystem.setSeed(data.worldSeed);
+        currentSystem.setIslands(islandGenerator.getIslands());
+
+        windSystem.setDirection(data.wind.direction);
+        windSystem.setSeed(data.worldSeed);
+        windSystem.setBasePower(data.wind.basePower);
+        gameState.restoreProgress(data.score, data.shipsDestroyed);
+
+        console.log(`Loaded game saved at ${data.savedAt} (seed ${data.worldSeed}, ${ships.length} ships)`);
+        this.world.effectManager.addGlobalFlash('rgba(0, 0, 0, 0.4)', 0.4);
+        return true;
+    }
+}
@@ -0,0 +1,521 @@
+import { Input } from '../../engine/input';
+import { Action } from '../../engine/inputBindings';
+import { WheelModule } from '../../objects/shipModules/WheelModule';
+import { AnchorModule } from '../../objects/shipModules/AnchorModule';
+import { SailModule } from '../../objects/shipModules/SailModule';
+import { CannonModule } from '../../objects/shipModules/CannonModule';
+import { Brigantine } from '../../objects/ships/brigantine';
+import { getShipDefinition, getShipDefinitionIds } from '../../objects/ships/shipDefinition';
+import { AMMUNITION } from '../../objects/projectiles/ammunition';
+import { GameplayWorld } from './gameplayWorld';
+import { ShipRoster } from './shipRoster';
+import { FleetCommand } from './fleetCommand';
+import { BoardingManager } from './boardingManager';
+import { PlayerRespawn } from './playerRespawn';
+
+/**
+ * What the player does in the world: boarding and leaving ships, working the stations
+ * aboard, fighting, commanding the fleet, and the spawn keys for testing
+ */
+export class GameplayControls {
+    private world: GameplayWorld;
+    private roster: ShipRoster;
+    private fleets: FleetCommand;
+    private boarding: BoardingManager;
+    private respawn: PlayerRespawn;
+    private nextShipDefinitionIndex: number = -1; // Index of the last ship definition spawned with 'N'
+
+    constructor(world: GameplayWorld, roster: ShipRoster, fleets: FleetCommand, boarding: BoardingManager, respawn: PlayerRespawn) {
+        this.world = world;
+        this.roster = roster;
+        this.fleets = fleets;
+        this.boarding = boarding;
+        this.respawn = respawn;
+    }
+
+    /**
+     * Interaction, combat, fleet and spawning actions
+     */
+    public handleInput(input: Input): void {
+        // Board, leave, or work a station with E
+        if (input.wasActionJustPressed(Action.Interact)) {
+            this.handleInteraction();
+        }
+
+        // Grapple a ship alongside with 'R', and fight hand to hand with the mouse
+        if (input.wasActionJustPressed(Action.Grapple) && !this.respawn.isWaiting()) {
+            this.boarding.grappleNearestShip();
+        }
+        if (input.wasActionJustPressed(Action.Attack) && !this.respawn.isWaiting()) {
+            this.boarding.swingCutlass();
+        }
+
+        // Choose the shot for the player's own ship with 'X'
+        if (input.wasActionJustPressed(Action.NextAmmo)) {
+            this.selectNextAmmo();
+        }
+
+        // Spawn an enemy immediately when pressing 'T' (for testing)
+        if (input.wasActionJustPressed(Action.SpawnEnemy)) {
+            this.fleets.spawnEnemy();
+        }
+
+        // Spawn a brigantine near the player for collision testing when pressing 'B'
+        if (input.wasActionJustPressed(Action.SpawnBrigantine)) {
+            const playerPos = this.world.player.getPosition();
+            const playerAngle = this.world.player.getRotation();
+
+            // Spawn brigantine 150 units in front of player
+            const offsetX = Math.cos(playerAngle) * 150;
+            const offsetY = Math.sin(playerAngle) * 150;
+            this.roster.spawn(playerPos.x + offsetX, playerPos.y + offsetY);
+
+            console.log("Spawned brigantine in front of player for collision testing");
+            this.world.effectManager.addGlobalFlash('rgba(0, 100, 255, 0.2)', 0.3);
+        }
+
+        // Spawn the next ship class from the definitions when pressing 'N'
+        if (input.wasActionJustPressed(Action.SpawnNextShip)) {
+            const ids = getShipDefinitionIds();
+            this.nextShipDefinitionIndex = (this.nextShipDefinitionIndex + 1) % ids.length;
+            const definition = getShipDefinition(ids[this.nextShipDefinitionIndex]);
+
+            const playerPos = this.world.player.getPosition();
+            const playerAngle = this.world.player.getRotation();
+            this.roster.spawn(
+                playerPos.x + Math.cos(playerAngle) * 300,
+                playerPos.y + Math.sin(playerAngle) * 300,
+                definition
+            );
+            console.log(`Spawned ${definition.name} in front of player`);
+        }
+
+        // Spawn an allied ship that joins the player's fleet when pressing 'U'
+        if (input.wasActionJustPressed(Action.SpawnAlly)) {
+            this.fleets.spawnAlly();
+        }
+
+        // Spawn an enemy squadron when pressing 'G'
+        if (input.wasActionJustPressed(Action.SpawnEnemyFleet)) {
+            this.fleets.spawnEnemyFleet();
+        }
+
+        // Fleet orders with 1-4 (attack goes for the enemy nearest the mouse), and the formation with 'F'
+        const mouseWorldPos = this.getMouseWorldPosition();
+        if (input.wasActionJustPressed(Action.FleetFollow)) {
+            this.fleets.orderFleet('follow', mouseWorldPos);
+        }
+        if (input.wasActionJustPressed(Action.FleetAttack)) {
+            this.fleets.orderFleet('attack', mouseWorldPos);
+        }
+        if (input.wasActionJustPressed(Action.FleetHold)) {
+            this.fleets.orderFleet('hold', mouseWorldPos);
+        }
+        if (input.wasActionJustPressed(Action.FleetEscort)) {
+            this.fleets.orderFleet('escort', mouseWorldPos);
+        }
+        if (input.wasActionJustPressed(Action.FleetFormation)) {
+            this.fleets.cycleFormation();
+        }
+    }
+
+    /**
+     * Sail the ship or aim and fire the cannon the player is working
+     */
+    public update(): void {
+        this.handleShipControls();
+        this.handleCannonControls();
+    }
+
+    /**
+     * Highlight the ladders and modules under the mouse, once the ships have moved
+     */
+    public updateHover(): void {
+        this.updateLadderHighlights();
+        this.updateModuleHoverInteraction();
+    }
+
+    /**
+     * The ship the player is aboard, if it is their own to command
+     */
+    public getCommandedShip(): Brigantine | null {
+        const player = this.world.player;
+        const ship = player.isOnBoard() ? player.getBoardedShip() : null;
+        return ship && !this.fleets.hasCaptain(ship) ? ship : null;
+    }
+
+    /**
+     * Render module tooltips
+     * This renders tooltips for any hovered modules
+     */
+    public renderModuleTooltips(ctx: CanvasRenderingContext2D): void {
+        // If the player is boarded on a ship
+        if (!this.world.player.isOnBoard()) return;
+
+        const boardedShip = this.world.player.getBoardedShip();
+        if (!boardedShip) return;
+
+        // Check for hover over any module (including planks)
+        const mouseWorldPos = this.getMouseWorldPosition();
+        const hoveredModule = boardedShip.getModuleAtPoint(mouseWorldPos.x, mouseWorldPos.y);
+
+        // If we have a hovered module, render its tooltip
+        if (hoveredModule && hoveredModule.getIsHovered()) {
+            hoveredModule.renderTooltip(ctx);
+            return; // Only show one tooltip at a time
+        }
+
+        // Fallback to iterating through each module type if needed
+        for (const [_, sail] of boardedShip.sails.entries()) {
+            if (sail.getIsHovered()) {
+                sail.renderTooltip(ctx);
+            }
+        }
+
+        for (const [_, wheel] of boardedShip.wheels.entries()) {
+            if (wheel.getIsHovered()) {
+                wheel.renderTooltip(ctx);
+            }
+        }
+
+        for (const [_, cannon] of boardedShip.cannons.entries()) {
+            if (cannon.getIsHovered()) {
+                cannon.renderTooltip(ctx);
+            }
+        }
+
+        for (const [_, anchor] of boardedShip.anchors.entries()) {
+            if (anchor.getIsHovered()) {
+                anchor.renderTooltip(ctx);
+            }
+        }
+    }
+
+    private getMouseWorldPosition(): { x: number, y: number } {
+        const mouseScreenPos = this.world.input.getMousePosition();
+        return this.world.camera.screenToWorld(mouseScreenPos.x, mouseScreenPos.y);
+    }
+
+    /**
+     * Handles the Interact action ('E' by default)
+     */
+    private handleInteraction(): void {
+        const player = this.world.player;
+
+        // If game is over or the player is dead, ignore interaction
+        if (this.world.gameState.isGameOver() || this.respawn.isWaiting()) return;
+
+        // Up the rigging there's nothing to do but climb back down
+        if (player.isAloft()) {
+            player.climbDown();
+            return;
+        }
+
+        // Check if player is already on a ship - if so, handle unboarding, but only if near the ladder
+        if (player.isOnBoard()) {
+            const boardedShip = player.getBoardedShip();
+            if (boardedShip) {
+                const playerPos = player.getPosition();
+                const mouseWorldPos = this.getMouseWorldPosition();
+
+                // Check if player is interacting with a module (wheel)
+                const hoveredModule = boardedShip.getModuleAtPoint(mouseWorldPos.x, mouseWorldPos.y);
+                if (hoveredModule && hoveredModule instanceof WheelModule) {
+                    // Toggle wheel control
+                    if (hoveredModule.isPlayerControlling) {
+                        // Release control of the wheel
+                        hoveredModule.setPlayerControlling(false);
+                        console.log('🔑 INTERACT: Player released control of the wheel');
+                    } else {
+                        // Take control of the wheel, first releasing any other wheels and cannons
+                        boardedShip.releaseStations();
+                        hoveredModule.setPlayerControlling(true);
+                        console.log('🔑 INTERACT: Player took control of the wheel');
+                    }
+                    return;
+                }
+
+                // Man or leave a cannon
+                if (hoveredModule && hoveredModule instanceof CannonModule) {
+                    if (hoveredModule.isPlayerControlling) {
+                        hoveredModule.setPlayerControlling(false);
+                        console.log('🔑 INTERACT: Player left the cannon');
+                    } else {
+                        // A player can only work one station at a time
+                        boardedShip.releaseStations();
+                        hoveredModule.setPlayerControlling(true);
+                        console.log(`🔑 INTERACT: Player manned the ${hoveredModule.side} cannon`);
+                    }
+                    return;
+                }
+
+                // Climb the rigging, leaving any station
+                if (hoveredModule && hoveredModule instanceof SailModule) {
+                    boardedShip.releaseStations();
+                    player.climbMast(hoveredModule);
+                    console.log('🔑 INTERACT: Player climbed the rigging');
+                    return;
+                }
+
+                // Let go or weigh the anchor; the windlass isn't a station, so the player stays free
+                if (hoveredModule && hoveredModule instanceof AnchorModule) {
+                    hoveredModule.use();
+                    console.log(`🔑 INTERACT: Player worked the anchor (${hoveredModule.state})`);
+                    return;
+                }
+
+                // Swing across to a ship grappled alongside
+                if (this.boarding.tryCrossAt(mouseWorldPos)) {
+                    return;
+                }
+
+                // Only allow deboarding if player is at the ladder
+                const inLadderArea = boardedShip.isPointInLadderArea(playerPos.x, playerPos.y, 70);
+                const isHovering = boardedShip.isPointHoveringLadder(mouseWorldPos.x, mouseWorldPos.y);
+
+                if (inLadderArea && isHovering) {
+                    // Release control of any wheels and cannons before disembarking
+                    boardedShip.releaseStations();
+
+                    console.log('🔑 INTERACT: Player is disembarking from ship at the ladder');
+                    player.unboardShip();
+                } else {
+                    console.log('🔑 INTERACT: Cannot disembark - Player must be at the ladder');
+                }
+            }
+            return;
+        }
+
+        // Otherwise, check for boarding
+        this.tryBoardNearestShip();
+    }
+
+    /**
+     * Attempts to board the nearest ship if conditions are met
+     */
+    private tryBoardNearestShip(): void {
+        const ships = this.roster.getShips();
+        if (ships.length === 0) return;
+
+        const playerPos = this.world.player.getPosition();
+        const mouseWorldPos = this.getMouseWorldPosition();
+
+        // Find the nearest ship with a ladder the player can board
+        let playerInLadderArea = false;
+        let mouseHoveringLadder = false;
+        let nearestShip: Brigantine | null = null;
+
+        for (const ship of ships) {
+            // Check if player is close enough to the ladder
+            const inLadderArea = ship.isPointInLadderArea(playerPos.x, playerPos.y, 70);
+            ship.setPlayerInLadderArea(inLadderArea);
+
+            // Check if mouse is hovering over the ladder
+            const isHovering = ship.isPointHoveringLadder(mouseWorldPos.x, mouseWorldPos.y);
+            ship.setPlayerHovering(isHovering);
+
+            if (inLadderArea) {
+                playerInLadderArea = true;
+                nearestShip = ship;
+            }
+
+            if (isHovering) {
+                mouseHoveringLadder = true;
+            }
+        }
+
+        // If all conditions are met, board the ship. A swimmer climbs any ladder within reach.
+        if (playerInLadderArea && (mouseHoveringLadder || this.world.player.isSwimming()) && nearestShip) {
+            console.log('🔑 INTERACT: Boarding conditions met, boarding ship');
+            this.world.player.boardShip(nearestShip);
+        } else {
+            // Log why boarding failed
+            console.log(`🔑 INTERACT: Cannot board - Player near ladder: ${playerInLadderArea ? '✅' : '❌'} | Mouse hovering ladder: ${mouseHoveringLadder ? '✅' : '❌'} | Ship available: ${nearestShip !== null ? '✅' : '❌'}`);
+        }
+    }
+
+    /**
+     * Have the guns of the player's ship load the next kind of shot still aboard
+     */
+    private selectNextAmmo(): void {
+        const ship = this.getCommandedShip();
+        if (!ship) return;
+
+        const type = ship.getAmmoLocker().selectNext();
+        console.log(`Loading ${AMMUNITION[type].name.toLowerCase()}`);
+    }
+
+    /**
+     * Aim a manned cannon at the mouse and fire while the mouse button is held
+     */
+    private handleCannonControls(): void {
+        if (!this.world.player.isOnBoard()) return;
+
+        const boardedShip = this.world.player.getBoardedShip();
+        if (!boardedShip) return;
+
+        for (const [_, cannon] of boardedShip.cannons.entries()) {
+            if (!cannon.isPlayerControlling) continue;
+
+            const mouseWorldPos = this.getMouseWorldPosition();
+            cannon.aimAt(mouseWorldPos.x, mouseWorldPos.y);
+
+            // Reload time gates repeat shots while the button is held
+            if (this.world.input.isActionDown(Action.FireCannon)) {
+                cannon.fire();
+            }
+            break;
+        }
+    }
+
+    /**
+     * Handle ship controls when player is at the wheel
+     */
+    private handleShipControls(): void {
+        const input = this.world.input;
+
+        // Check if player is on board a ship
+        if (!this.world.player.isOnBoard()) return;
+
+        const boardedShip = this.world.player.getBoardedShip();
+        if (!boardedShip) return;
+
+        // Check if player is controlling any wheel
+        let controllingWheel: WheelModule | null = null;
+        for (const [_, wheel] of boardedShip.wheels.entries()) {
+            if (wheel.isPlayerControlling) {
+                controllingWheel = wheel;
+                break;
+            }
+        }
+
+        // If player is not controlling any wheel, return
+        if (!controllingWheel) return;
+
+        // Analog values (0-1) so a stick or trigger can steer gently
+        const sailsLeft = input.getActionValue(Action.RotateSailsLeft);
+        const sailsRight = input.getActionValue(Action.RotateSailsRight);
+        const trimmingSails = sailsLeft > 0 || sailsRight > 0 || input.isActionDown(Action.CenterSails);
+        const rudderLeft = input.getActionValue(Action.RudderLeft);
+        const rudderRight = input.getActionValue(Action.RudderRight);
+
+        // Sail openness controls (W/S by default)
+        const opening = input.isActionDown(Action.OpenSails);
+        const closing = input.isActionDown(Action.CloseSails);
+        if (opening && !closing) {
+            boardedShip.openSails();
+            // Release the key so the sails move once per key press/repeat rather than every step
+            input.clearAction(Action.OpenSails);
+        }
+        else if (closing && !opening) {
+            boardedShip.closeSails();
+            input.clearAction(Action.CloseSails);
+        }
+
+        // Rudder controls (A/D by default)
+        if (rudderLeft > 0 && rudderRight === 0) {
+            // Turn left
+            boardedShip.applyRudder('left', rudderLeft);
+            // Update wheel visual angle
+            controllingWheel.turnLeft();
+        }
+        else if (rudderRight > 0 && rudderLeft === 0) {
+            // Turn right
+            boardedShip.applyRudder('right', rudderRight);
+            // Update wheel visual angle
+            controllingWheel.turnRight();
+        }
+        else if (rudderLeft === 0 && rudderRight === 0 && !trimmingSails) {
+            // Return rudder to center position when no keys are pressed
+            boardedShip.applyRudder('center');
+            // Center wheel visual angle
+            controllingWheel.centerWheel();
+        }
+
+        // Sail rotation controls (Shift+A/D by default, Shift alone centers them)
+        if (trimmingSails) {
+            if (sailsLeft > 0 && sailsRight === 0) {
+                boardedShip.rotateSails('left', sailsLeft);
+            }
+            else if (sailsRight > 0 && sailsLeft === 0) {
+                boardedShip.rotateSails('right', sailsRight);
+            }
+            else {
+                boardedShip.rotateSails('center');
+            }
+        }
+    }
+
+    /**
+     * Update ships' ladder highlight states based on player proximity and mouse position
+     */
+    private updateLadderHighlights(): void {
+        const playerPos = this.world.player.getPosition();
+        const mouseWorldPos = this.getMouseWorldPosition();
+
+        for (const ship of this.roster.getShips()) {
+            // Check if player is close enough to the ladder (simple distance check)
+            const playerInLadderArea = ship.isPointInLadderArea(playerPos.x, playerPos.y, 70);
+            ship.setPlayerInLadderArea(playerInLadderArea);
+
+            // Check if mouse is hovering directly over the ladder (precise check)
+            const mouseOverLadder = ship.isPointHoveringLadder(mouseWorldPos.x, mouseWorldPos.y);
+            ship.setPlayerHovering(mouseOverLadder);
+        }
+    }
+
+    /**
+     * Check for module hover interaction
+     * This detects when the mouse is hovering over ship modules and updates their hover state
+     */
+    private updateModuleHoverInteraction(): void {
+        const mouseWorldPos = this.getMouseWorldPosition();
+
+        // If the player is boarded on a ship, check for module hover on that ship
+        if (this.world.player.isOnBoard()) {
+            const boardedShip = this.world.player.getBoardedShip();
+            if (!boardedShip) return;
+
+            // Reset hover state on all modules
+            for (const [_, sail] of boardedShip.sails.entries()) {
+                sail.setHovered(false);
+            }
+            for (const [_, wheel] of boardedShip.wheels.entries()) {
+                wheel.setHovered(false);
+            }
+            for (const [_, cannon] of boardedShip.cannons.entries()) {
+                cannon.setHovered(false);
+            }
+            for (const [_, anchor] of boardedShip.anchors.entries()) {
+                anchor.setHovered(false);
+            }
+
+            // Add debug info periodically
+            if (Math.random() < 0.01) { // Only log occasionally
+                console.log(`Mouse world position: (${mouseWorldPos.x}, ${mouseWorldPos.y})`);
+                // Test plank hover detection
+                boardedShip.testPlankHover(mouseWorldPos.x, mouseWorldPos.y);
+            }
+
+            // Check if mouse is hovering over any module
+            const hoveredModule = boardedShip.getModuleAtPoint(mouseWorldPos.x, mouseWorldPos.y);
+            if (hoveredModule) {
+                // For PlankModule, hover is already set in the constructor
+                if (hoveredModule.type !== 'plank') {
+                    hoveredModule.setHovered(true);
+                }
+
+                // Log that we found a hovered module occasionally
+                if (Math.random() < 0.01) {
+                    console.log(`Hover detected over ${hoveredModule.type} module`);
+                }
+            }
+        } else {
+            // If the player is not boarded, check all ships for ladder hover
+            for (const ship of this.roster.getShips()) {
+                const isHovering = ship.isPointHoveringLadder(mouseWorldPos.x, mouseWorldPos.y);
+                ship.setPlayerHovering(isHovering);
+            }
+        }
+    }
+}
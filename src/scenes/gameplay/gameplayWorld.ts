@@ -0,0 +1,34 @@
+import { Canvas } from '../../utils/canvas';
+import { Physics } from '../../engine/physics';
+import { Renderer } from '../../engine/renderer';
+import { Input } from '../../engine/input';
+import { Camera } from '../../engine/camera';
+import { WorldGenerator } from '../../engine/worldGenerator';
+import { IslandGenerator } from '../../engine/islandGenerator';
+import { WindSystem } from '../../engine/windSystem';
+import { CurrentSystem } from '../../engine/currentSystem';
+import { GameStateManager } from '../../engine/gameState';
+import { SaveManager } from '../../engine/saveManager';
+import { SoundManager } from '../../engine/soundManager';
+import { EffectManager } from '../../objects/effects/effectManager';
+import { Player } from '../../objects/player';
+
+/**
+ * The engine systems and player of a game in progress, shared by the parts of the gameplay scene
+ */
+export interface GameplayWorld {
+    canvas: Canvas;
+    physics: Physics;
+    renderer: Renderer;
+    input: Input;
+    camera: Camera;
+    worldGenerator: WorldGenerator;
+    islandGenerator: IslandGenerator;
+    windSystem: WindSystem;
+    currentSystem: CurrentSystem;
+    gameState: GameStateManager;
+    saveManager: SaveManager;
+    soundManager: SoundManager;
+    effectManager: EffectManager;
+    player: Player;
+}
@@ -0,0 +1,183 @@
+import { Island } from '../../engine/islandGenerator';
+import { Player } from '../../objects/player';
+import { Brigantine } from '../../objects/ships/brigantine';
+import { GameplayWorld } from './gameplayWorld';
+import { ShipRoster } from './shipRoster';
+import { FleetCommand } from './fleetCommand';
+
+/**
+ * Keeps the player alive from step to step, remembers where they can come back,
+ * and brings them back there when they die
+ */
+export class PlayerRespawn {
+    static readonly RESPAWN_DELAY: number = 3;          // Seconds between dying and coming back
+    static readonly RESPAWN_HEALTH: number = 50;        // Health the player comes back with
+    static readonly DEATH_SCORE_PENALTY: number = 0.25; // Share of the score lost on dying
+
+    private world: GameplayWorld;
+    private roster: ShipRoster;
+    private fleets: FleetCommand;
+    private lastPort: { x: number, y: number } | null = null; // Where the player last came ashore at a port
+    private homeShip: Brigantine | null = null;                // Player's own ship they last boarded
+    private respawnTimer: number = 0;                          // Counts down while the player is dead
+
+    constructor(world: GameplayWorld, roster: ShipRoster, fleets: FleetCommand) {
+        this.world = world;
+        this.roster = roster;
+        this.fleets = fleets;
+    }
+
+    /**
+     * Update the player, or count down to respawning while they are dead
+     */
+    public update(delta: number): void {
+        const player = this.world.player;
+        if (this.respawnTimer > 0) {
+            this.respawnTimer -= delta;
+            if (this.respawnTimer <= 0) {
+                this.respawn();
+            }
+            return;
+        }
+
+        this.updateSurroundings();
+        player.update(delta);
+        if (player.isDead()) {
+            this.startRespawn();
+        }
+    }
+
+    /**
+     * Whether the player is dead and waiting to come back
+     */
+    public isWaiting(): boolean {
+        return this.respawnTimer > 0;
+    }
+
+    public getLastPort(): { x: number, y: number } | null {
+        return this.lastPort;
+    }
+
+    /**
+     * Forget the player's ship and any death in progress, and respawn at a saved port
+     */
+    public restore(lastPort: { x: number, y: number } | null): void {
+        this.respawnTimer = 0;
+        this.homeShip = null;
+        this.lastPort = lastPort;
+    }
+
+    /**
+     * Darken the screen while the player is dead and say where they will come back
+     */
+    public renderOverlay(ctx: CanvasRenderingContext2D): void {
+        const width = this.world.canvas.getWidth();
+        const height = this.world.canvas.getHeight();
+        const where = this.lastPort ? 'at the last port' : this.getPlayerShip() ? 'aboard your ship' : null;
+
+        ctx.save();
+        ctx.fillStyle = 'rgba(40, 0, 0, 0.5)';
+        ctx.fillRect(0, 0, width, height);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = '#FF5252';
+        ctx.font = 'bold 48px Arial';
+        ctx.fillText('YOU DIED', width / 2, height / 2 - 30);
+        ctx.fillStyle = '#FFFFFF';
+        ctx.font = '20px Arial';
+        ctx.fillText(where ? `Respawning ${where} in ${Math.ceil(this.respawnTimer)}...` : 'There is nowhere to return to...',
+            width / 2, height / 2 + 20);
+        ctx.restore();
+    }
+
+    /**
+     * Let the player know how far it is from land and what wreckage it can hold on to,
+     * and remember the ports and ship it can respawn at
+     */
+    private updateSurroundings(): void {
+        const { player, islandGenerator, effectManager } = this.world;
+        const playerPos = player.getPosition();
+
+        let distanceToLand = Infinity;
+        let nearestIsland: Island | null = null;
+        for (const island of islandGenerator.getIslands()) {
+            const distance = Math.hypot(playerPos.x - island.x, playerPos.y - island.y) - island.radius;
+            if (distance < distanceToLand) {
+                distanceToLand = distance;
+                nearestIsland = island;
+            }
+        }
+
+        const debris = player.isOnBoard() ? null :
+            effectManager.findDebrisNear(playerPos.x, playerPos.y, Player.DEBRIS_REACH);
+        player.setSurroundings(distanceToLand, debris);
+
+        // Coming ashore at a village makes it the place to respawn
+        if (nearestIsland && nearestIsland.hasPort && player.getSurface() === 'land') {
+            const known = this.lastPort !== null &&
+                Math.hypot(this.lastPort.x - nearestIsland.x, this.lastPort.y - nearestIsland.y) <= nearestIsland.radius + Player.SHORE_REACH * 2;
+            if (!known) {
+                this.lastPort = { x: playerPos.x, y: playerPos.y };
+                console.log(`Visited the port on island ${nearestIsland.id}`);
+            }
+        }
+
+        // Ships without an AI captain are the player's own
+        const boardedShip = player.getBoardedShip();
+        if (boardedShip && !this.fleets.hasCaptain(boardedShip)) {
+            this.homeShip = boardedShip;
+        }
+    }
+
+    /**
+     * The player has died: leave any station and wait a moment before respawning
+     */
+    private startRespawn(): void {
+        console.log('Player died');
+        this.world.player.getBoardedShip()?.releaseStations();
+
+        this.respawnTimer = PlayerRespawn.RESPAWN_DELAY;
+        this.world.effectManager.addGlobalFlash('rgba(120, 0, 0, 0.5)', 1.0);
+    }
+
+    /**
+     * Bring the player back at the last port visited, or failing that aboard their ship,
+     * minus a share of their score. With neither the game is over.
+     */
+    private respawn(): void {
+        const { player, gameState, camera } = this.world;
+        const ship = this.getPlayerShip();
+        if (!this.lastPort && !ship) {
+            console.log('Player has nowhere to respawn');
+            gameState.setGameOver();
+            return;
+        }
+
+        const lost = gameState.loseScore(PlayerRespawn.DEATH_SCORE_PENALTY);
+        if (player.isOnBoard()) {
+            player.unboardShip();
+        }
+        player.revive(PlayerRespawn.RESPAWN_HEALTH);
+
+        if (this.lastPort) {
+            player.teleport(this.lastPort.x, this.lastPort.y);
+        } else {
+            player.boardShip(ship!);
+        }
+
+        const position = player.getPosition();
+        camera.setPosition(position.x, position.y);
+        console.log(`Player respawned ${this.lastPort ? 'at port' : 'aboard their ship'}, losing ${lost} points`);
+    }
+
+    /**
+     * The ship the player last sailed, or failing that any ship without an AI captain, if still
+     * afloat and not taken by the enemy
+     */
+    private getPlayerShip(): Brigantine | null {
+        if (this.homeShip && this.roster.includes(this.homeShip) && !this.fleets.hasCaptain(this.homeShip)) {
+            return this.homeShip;
+        }
+        return this.roster.getShips().find(ship => !this.fleets.hasCaptain(ship)) ?? null;
+    }
+}
@@ -0,0 +1,91 @@
+import { Brigantine } from '../../objects/ships/brigantine';
+import { ShipDefinition } from '../../objects/ships/shipDefinition';
+import { ShipCrew } from '../../objects/crew/shipCrew';
+import { GameplayWorld } from './gameplayWorld';
+
+/**
+ * Every ship at sea and the hands working its deck
+ */
+export class ShipRoster {
+    private world: GameplayWorld;
+    private ships: Brigantine[] = [];
+    private crews: Map<Brigantine, ShipCrew> = new Map();
+
+    constructor(world: GameplayWorld) {
+        this.world = world;
+    }
+
+    /**
+     * Put a new sailing ship in the world (a brigantine unless another definition is given)
+     */
+    public spawn(spawnX: number, spawnY: number, definition?: ShipDefinition): Brigantine {
+        const { physics, renderer } = this.world;
+        const brigantine = new Brigantine(spawnX, spawnY, definition);
+        physics.addBody(brigantine.getBody()!);
+        renderer.addGameObject(brigantine);
+
+        // Set the physics engine on the brigantine so modules can be added to the right world
+        brigantine.setPhysicsEngine(physics);
+
+        // Set a lower z-index for ships so the player renders on top when boarded
+        brigantine.setZIndex(5);
+
+        // Let the brigantine scatter debris when it sinks
+        brigantine.setEffectManager(this.world.effectManager);
+
+        // Create the plank and mast bodies for collision
+        try {
+            brigantine.createPlankBodies(physics);
+            brigantine.createMastBodies(physics);
+        } catch (error) {
+            console.error("Error creating ship physics bodies:", error);
+        }
+
+        // Let projectiles hit the hull, planks and modules
+        physics.registerShip(brigantine);
+
+        // Put the crew to work on deck
+        const crew = new ShipCrew(brigantine);
+        this.crews.set(brigantine, crew);
+        brigantine.setDeckCrewRenderer(ctx => crew.render(ctx));
+
+        this.ships.push(brigantine);
+        console.log(`Spawned ${brigantine.getDefinition().id} at (${Math.round(spawnX)}, ${Math.round(spawnY)})`);
+        return brigantine;
+    }
+
+    /**
+     * Take a ship and its crew out of the physics world and off the screen
+     */
+    public remove(ship: Brigantine): void {
+        const index = this.ships.indexOf(ship);
+        if (index === -1) return;
+
+        this.world.physics.unregisterShip(ship);
+        ship.removeFromPhysics(this.world.physics);
+        this.world.renderer.removeGameObject(ship);
+        this.crews.delete(ship);
+        this.ships.splice(index, 1);
+    }
+
+    /**
+     * Remove every ship, e.g. before loading a save
+     */
+    public clear(): void {
+        for (const ship of [...this.ships]) {
+            this.remove(ship);
+        }
+    }
+
+    public getShips(): readonly Brigantine[] {
+        return this.ships;
+    }
+
+    public includes(ship: Brigantine): boolean {
+        return this.ships.includes(ship);
+    }
+
+    public getCrew(ship: Brigantine): ShipCrew | undefined {
+        return this.crews.get(ship);
+    }
+}
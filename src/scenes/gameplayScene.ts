@@ -0,0 +1,779 @@
+import { Canvas } from '../utils/canvas';
+import { Physics } from '../engine/physics';
+import { Renderer } from '../engine/renderer';
+import { Input } from '../engine/input';
+import { Action, InputContext } from '../engine/inputBindings';
+import { Camera } from '../engine/camera';
+import { WorldGenerator } from '../engine/worldGenerator';
+import { IslandGenerator } from '../engine/islandGenerator';
+import { WindSystem } from '../engine/windSystem';
+import { CurrentSystem } from '../engine/currentSystem';
+import { parseSeed } from '../utils/random';
+import { GameStateManager } from '../engine/gameState';
+import { SaveManager } from '../engine/saveManager';
+import { Player } from '../objects/player';
+import { SoundManager } from '../engine/soundManager';
+import { BaseGameObject } from '../objects/objects';
+import { PowerUpType } from '../objects/powerup/powerup';
+import { EffectManager } from '../objects/effects/effectManager';
+import { Cannons } from '../objects/shipModules/cannons';
+import { CannonModule } from '../objects/shipModules/CannonModule';
+import * as Matter from 'matter-js';
+import { Brigantine } from '../objects/ships/brigantine';
+import { AMMO_TYPES, AMMUNITION } from '../objects/projectiles/ammunition';
+import { Color } from '../utils/color';
+import { Navigation } from '../ai/navigation';
+import { Scene } from './scene';
+import { SceneManager } from './sceneManager';
+import { PauseScene } from './pauseScene';
+import { CrewScene } from './crewScene';
+import { GameOverScene } from './gameOverScene';
+import { GameplayWorld } from './gameplay/gameplayWorld';
+import { ShipRoster } from './gameplay/shipRoster';
+import { FleetCommand } from './gameplay/fleetCommand';
+import { BoardingManager } from './gameplay/boardingManager';
+import { PlayerRespawn } from './gameplay/playerRespawn';
+import { GameSaver } from './gameplay/gameSaver';
+import { GameplayControls } from './gameplay/gameplayControls';
+
+/**
+ * The game itself: the world, the player, ships and enemies.
+ * Freezes (physics included) whenever another scene is pushed on top of it.
+ * Fleets, boarding, respawning, saving and the player's controls are each run by a part in ./gameplay.
+ */
+export class GameplayScene extends Scene {
+    private canvas: Canvas;
+    private physics: Physics;
+    private renderer: Renderer;
+    private input: Input;
+    private camera: Camera;
+    private worldGenerator: WorldGenerator;    
+    private islandGenerator: IslandGenerator;
+    private windSystem: WindSystem;
+    private currentSystem: CurrentSystem;
+    private gameState: GameStateManager;
+    private saveManager: SaveManager;
+    private soundManager: SoundManager;
+    private effectManager: EffectManager;
+    private player: Player;
+    private roster: ShipRoster;              // Every ship at sea and its crew
+    private fleets: FleetCommand;            // AI captains and the fleets they sail in
+    private boarding: BoardingManager;       // Ships grappled together while their crews fight
+    private respawn: PlayerRespawn;          // Dying and coming back
+    private saver: GameSaver;
+    private controls: GameplayControls;      // What the player does in the world
+    private frozen: boolean = false;           // True while another scene (pause, settings...) covers this one
+    private showPhysicsWorld: boolean = false; // Flag to toggle physics world visibility
+
+    constructor(manager: SceneManager) {
+        super(manager);
+        
+        // Canvas, input, sound and saves are shared by all scenes
+        this.canvas = manager.services.canvas;
+        this.input = manager.services.input;
+        this.soundManager = manager.services.soundManager;
+        this.saveManager = manager.services.saveManager;
+        
+        this.physics = new Physics();
+        this.renderer = new Renderer(this.canvas);
+        this.effectManager = new EffectManager();
+        
+        // Connect the effect manager to the physics engine for collision effects
+        this.physics.setEffectManager(this.effectManager);
+        
+        // Connect the sound manager to the physics engine for collision sounds
+        this.physics.setSoundManager(this.soundManager);
+        
+        // Set sound manager on Cannons class
+        Cannons.setSoundManager(this.soundManager);
+        
+        // Set physics engine on Cannons class
+        Cannons.setPhysics(this.physics);
+        
+        // Set effect manager on Cannons class for splashes from missed shots
+        Cannons.setEffectManager(this.effectManager);
+        
+        // Deck-mounted cannon modules share the same engine services
+        CannonModule.setSoundManager(this.soundManager);
+        CannonModule.setPhysics(this.physics);
+        CannonModule.setEffectManager(this.effectManager);
+        
+        // Create camera with reference to canvas
+        this.camera = new Camera(this.canvas);
+        
+        // Set camera on renderer
+        this.renderer.setCamera(this.camera);
+        
+        // Pick the world seed - the same seed always generates the same world
+        const worldSeed = parseSeed(new URLSearchParams(window.location.search).get('seed'));
+        console.log(`World seed: ${worldSeed} (add ?seed=${worldSeed} to the URL to revisit this world)`);
+        
+        // Create world generator
+        this.worldGenerator = new WorldGenerator(this.camera, this.canvas, worldSeed);
+        
+        // Create island generator
+        this.islandGenerator = new IslandGenerator(this.camera, this.canvas, this.physics, worldSeed);
+        
+        // Currents and tides that carry everything afloat
+        this.currentSystem = new CurrentSystem(worldSeed);
+        this.currentSystem.setIslands(this.islandGenerator.getIslands());
+        this.physics.setCurrentSystem(this.currentSystem);
+        
+        // Keep the AI's map of islands and the channels between them in step as chunks stream in and out
+        const navigation = new Navigation();
+        navigation.setObstacles(this.islandGenerator.getIslands());
+        this.islandGenerator.setIslandsChangedCallback(islands => {
+            navigation.setObstacles(islands);
+            this.currentSystem.setIslands(islands);
+        });
+        
+        // Create the global wind simulation, its veers and gusts following the world seed, and show it on the compass
+        this.windSystem = new WindSystem(0, 50, worldSeed);
+        this.renderer.setWindSystem(this.windSystem);
+        
+        // Create game state manager and show the game over screen when the game ends
+        this.gameState = new GameStateManager();
+        this.gameState.setGameOverCallback(() => {
+            this.manager.push(new GameOverScene(this.manager, this.gameState));
+        });
+        
+        // Set world generator on renderer
+        this.renderer.setWorldGenerator(this.worldGenerator);
+        this.renderer.setWorldSeed(worldSeed);
+        // Set physics on renderer for debug visualization
+        this.renderer.setPhysics(this.physics);
+        
+        // Enable debug mode and physics visualization by default for development
+        BaseGameObject.setDebugMode(true);
+        this.renderer.setShowDebugHUD(true);
+        this.renderer.setShowPhysicsWorld(true);
+        this.showPhysicsWorld = true;
+        console.log("Debug mode and physics visualization enabled by default");
+        // Create player and brigantine with some distance between them
+        const centerX = this.canvas.getWidth() / 2;
+        const centerY = this.canvas.getHeight() / 2;
+        
+        // Place player to the left of center
+        const playerOffsetX = -200; // 200 pixels to the left
+        this.player = new Player(centerX + playerOffsetX, centerY, 10, this.input);
+        
+        // Set camera on player and set player as camera target
+        this.player.setCamera(this.camera);
+        this.camera.setTarget(this.player);
+        this.player.setEffectManager(this.effectManager);
+        this.player.setSoundManager(this.soundManager);
+        
+        // Add player to physics engine and renderer, with its health on the HUD
+        this.physics.addBody(this.player.getBody()!);
+        this.renderer.addGameObject(this.player);
+        this.renderer.setPlayer(this.player);
+        this.renderer.setInputBindings(this.input.getBindings());
+        
+        // Cannon fire and ships running the player down hurt it; the deck it stands on doesn't
+        this.physics.setBlastCallback((x, y, radius, damage) => this.player.takeBlast(x, y, radius, damage));
+        this.physics.setPlayerStruckCallback((ship, speed) => {
+            if (this.player.getBoardedShip() !== ship) {
+                this.player.takeImpact(speed);
+            }
+        });
+        
+        // Set a higher z-index for the player so it renders on top of ships when boarded
+        this.player.setZIndex(10);
+        
+        // The parts of the game share the engine systems and the player
+        const world: GameplayWorld = {
+            canvas: this.canvas,
+            physics: this.physics,
+            renderer: this.renderer,
+            input: this.input,
+            camera: this.camera,
+            worldGenerator: this.worldGenerator,
+            islandGenerator: this.islandGenerator,
+            windSystem: this.windSystem,
+            currentSystem: this.currentSystem,
+            gameState: this.gameState,
+            saveManager: this.saveManager,
+            soundManager: this.soundManager,
+            effectManager: this.effectManager,
+            player: this.player
+        };
+        this.roster = new ShipRoster(world);
+        this.fleets = new FleetCommand(world, this.roster, navigation);
+        this.boarding = new BoardingManager(world, this.roster, this.fleets);
+        this.respawn = new PlayerRespawn(world, this.roster, this.fleets);
+        this.saver = new GameSaver(world, this.roster, this.fleets, this.boarding, this.respawn);
+        this.controls = new GameplayControls(world, this.roster, this.fleets, this.boarding, this.respawn);
+        
+        // Start with a brigantine for testing - place it to the right of center
+        const brigantineOffsetX = 200; // 200 pixels to the right
+        this.roster.spawn(centerX + brigantineOffsetX, centerY);
+    }
+    
+    public override onPause(): void {
+        this.frozen = true;
+    }
+    
+    public override onResume(): void {
+        this.frozen = false;
+    }
+    
+    /**
+     * Walking controls are always available; at a wheel or cannon that station's
+     * controls take priority for any keys they share with walking
+     */
+    public override getInputContexts(): InputContext[] {
+        const contexts = [InputContext.Gameplay, InputContext.OnFoot];
+        
+        const boardedShip = this.player.getBoardedShip();
+        if (this.player.isOnBoard() && boardedShip instanceof Brigantine) {
+            if ([...boardedShip.wheels.values()].some(wheel => wheel.isPlayerControlling)) {
+                contexts.push(InputContext.AtWheel);
+            } else if ([...boardedShip.cannons.values()].some(cannon => cannon.isPlayerControlling)) {
+                contexts.push(InputContext.AtCannon);
+            }
+        }
+        return contexts;
+    }
+    
+    /**
+     * Advance the world by one fixed step
+     * @param delta Step length in seconds
+     */
+    public update(delta: number): void {
+        // Remember where everything was so rendering can interpolate
+        this.renderer.storePreviousStates();
+        
+        // Update physics
+        this.physics.update(delta * 1000); // Matter.js expects delta in ms
+        
+        // Update game objects
+        this.updateWorld(delta);
+        
+        // Update effects
+        this.effectManager.update(delta);
+    }
+    
+    public render(ctx: CanvasRenderingContext2D, alpha: number): void {
+        // Render game objects part way between the last two physics steps.
+        // While frozen no steps run, so draw exactly where everything stopped.
+        this.renderer.render(this.frozen ? 1 : alpha);
+        
+        // Apply camera transform so effects and tooltips use world coordinates
+        this.camera.applyTransform(ctx);
+        
+        this.effectManager.render(ctx);
+        
+        // Grapple lines and the crews fighting across them
+        this.boarding.render(ctx);
+        
+        if (BaseGameObject.isDebugMode()) {
+            this.renderAIDebug(ctx);
+        }
+        
+        // Render module tooltips
+        this.controls.renderModuleTooltips(ctx);
+        
+        // Reset camera transform
+        this.camera.resetTransform(ctx);
+        
+        // There's no system cursor to show where the right stick is aiming
+        if (this.input.isUsingGamepadCursor()) {
+            this.renderGamepadCursor(ctx);
+        }
+        
+        if (this.respawn.isWaiting()) {
+            this.respawn.renderOverlay(ctx);
+        } else if (this.boarding.findGrappleTarget()) {
+            this.renderGrappleHint(ctx);
+        }
+        
+        const commanded = this.controls.getCommandedShip();
+        if (commanded && !this.respawn.isWaiting()) {
+            this.renderAmmoPanel(ctx, commanded);
+        }
+    }
+    
+    /**
+     * The shot aboard the player's ship, with the kind being loaded picked out
+     */
+    private renderAmmoPanel(ctx: CanvasRenderingContext2D, ship: Brigantine): void {
+        const locker = ship.getAmmoLocker();
+        const width = 170;
+        const rowHeight = 20;
+        const x = this.canvas.getWidth() - width - 15;
+        let y = this.canvas.getHeight() - 15 - rowHeight * (AMMO_TYPES.length + 1);
+        
+        ctx.save();
+        ctx.fillStyle = Color.UI_BACKGROUND;
+        ctx.fillRect(x, y, width, rowHeight * (AMMO_TYPES.length + 1));
+        ctx.strokeStyle = Color.UI_HIGHLIGHT;
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x, y, width, rowHeight * (AMMO_TYPES.length + 1));
+        
+        ctx.font = 'bold 11px Arial';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = Color.UI_HIGHLIGHT;
+        ctx.fillText('Shot (X to change)', x + 8, y + rowHeight / 2);
+        
+        ctx.font = '12px Arial';
+        for (const type of AMMO_TYPES) {
+            y += rowHeight;
+            const selected = locker.getSelected() === type;
+            const stock = locker.getStock(type);
+            if (selected) {
+                ctx.fillStyle = 'rgba(255, 215, 0, 0.25)';
+                ctx.fillRect(x + 1, y, width - 2, rowHeight);
+            }
+            ctx.fillStyle = stock > 0 ? (selected ? Color.UI_HIGHLIGHT : Color.UI_TEXT) : '#888888';
+            ctx.textAlign = 'left';
+            ctx.fillText(`${selected ? '> ' : ''}${AMMUNITION[type].name}`, x + 8, y + rowHeight / 2);
+            ctx.textAlign = 'right';
+            ctx.fillText(`${stock}`, x + width - 8, y + rowHeight / 2);
+        }
+        ctx.restore();
+    }
+    
+    /**
+     * Tell the player they are close enough to throw the grappling hooks
+     */
+    private renderGrappleHint(ctx: CanvasRenderingContext2D): void {
+        const hint = `${this.input.getBindings().getKeyLabel(Action.Grapple)} - Throw grappling hooks`;
+        ctx.save();
+        ctx.textAlign = 'center';
+        ctx.font = 'bold 16px Arial';
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillText(hint, this.canvas.getWidth() / 2 + 1, this.canvas.getHeight() - 59);
+        ctx.fillStyle = '#FFD54F';
+        ctx.fillText(hint, this.canvas.getWidth() / 2, this.canvas.getHeight() - 60);
+        ctx.restore();
+    }
+    
+    /**
+     * Debug view of each AI ship's route, lookout range and current behavior
+     */
+    private renderAIDebug(ctx: CanvasRenderingContext2D): void {
+        for (const captain of this.fleets.getCaptains()) {
+            captain.renderDetectionRange(ctx);
+        }
+        
+        // Formation stations, joined to the ships keeping them
+        ctx.save();
+        ctx.strokeStyle = 'rgba(0, 200, 255, 0.6)';
+        ctx.lineWidth = 2;
+        for (const captain of this.fleets.getCaptains()) {
+            const station = captain.helmsman.getStation();
+            if (!station) continue;
+            
+            const pos = captain.ship.getPosition();
+            ctx.beginPath();
+            ctx.arc(station.x, station.y, 20, 0, Math.PI * 2);
+            ctx.moveTo(pos.x, pos.y);
+            ctx.lineTo(station.x, station.y);
+            ctx.stroke();
+        }
+        ctx.restore();
+        
+        ctx.save();
+        ctx.strokeStyle = 'rgba(255, 200, 0, 0.6)';
+        ctx.fillStyle = 'rgba(255, 200, 0, 0.8)';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([10, 6]);
+        
+        for (const captain of this.fleets.getCaptains()) {
+            const route = captain.helmsman.getRoute();
+            if (route.length === 0) continue;
+            
+            const start = captain.ship.getPosition();
+            ctx.beginPath();
+            ctx.moveTo(start.x, start.y);
+            for (const waypoint of route) {
+                ctx.lineTo(waypoint.x, waypoint.y);
+            }
+            ctx.stroke();
+            
+            for (const waypoint of route) {
+                ctx.beginPath();
+                ctx.arc(waypoint.x, waypoint.y, 6, 0, Math.PI * 2);
+                ctx.fill();
+            }
+        }
+        
+        ctx.restore();
+    }
+    
+    private renderGamepadCursor(ctx: CanvasRenderingContext2D): void {
+        const { x, y } = this.input.getMousePosition();
+        
+        ctx.save();
+        ctx.strokeStyle = '#FFFFFF';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(x, y, 10, 0, Math.PI * 2);
+        ctx.moveTo(x - 16, y);
+        ctx.lineTo(x - 4, y);
+        ctx.moveTo(x + 4, y);
+        ctx.lineTo(x + 16, y);
+        ctx.moveTo(x, y - 16);
+        ctx.lineTo(x, y - 4);
+        ctx.moveTo(x, y + 4);
+        ctx.lineTo(x, y + 16);
+        ctx.stroke();
+        ctx.restore();
+    }
+    
+    /**
+     * Pause, crew orders, camera, debug and save actions; everything done in the world is
+     * handled by the controls. Ship and cannon controls are read in updateWorld.
+     */
+    public handleInput(input: Input): void {
+        // Pause with Escape
+        if (input.wasActionJustPressed(Action.Pause)) {
+            this.manager.push(new PauseScene(this.manager));
+            return;
+        }
+        
+        this.controls.handleInput(input);
+        
+        // Give the crew of the player's own ship their orders with 'C'
+        if (input.wasActionJustPressed(Action.CrewOrders)) {
+            this.openCrewOrders();
+        }
+        
+        // Handle camera zoom controls with keyboard
+        if (input.isActionDown(Action.ZoomOut)) {
+            this.camera.zoomOut(0.02); // Zoom out slowly
+        }
+        if (input.isActionDown(Action.ZoomIn)) {
+            this.camera.zoomIn(0.02); // Zoom in slowly
+        }
+        
+        // Handle camera zoom with mouse wheel
+        const wheelDelta = input.getWheelDelta();
+        if (wheelDelta !== 0) {
+            // Normalize the wheel delta (it can be quite large)
+            const zoomAmount = wheelDelta * 0.0005;
+            if (zoomAmount > 0) {
+                this.camera.zoomOut(zoomAmount);
+            } else {
+                this.camera.zoomIn(-zoomAmount);
+            }
+        }
+        
+        // Toggle debug mode with L key and physics world visibility with P key
+        if (input.wasActionJustPressed(Action.ToggleDebug)) {
+            this.toggleDebugMode();
+        }
+        if (input.wasActionJustPressed(Action.TogglePhysicsView)) {
+            this.togglePhysicsWorld();
+        }
+        
+        // Toggle mute with M key
+        if (input.wasActionJustPressed(Action.ToggleMute)) {
+            this.soundManager.toggleMute();
+            console.log(`Sound: ${this.soundManager.isMutedState() ? 'MUTED' : 'UNMUTED'}`);
+        }
+        
+        // Force sync brigantine visual and physics coordinates when pressing 'Y'
+        if (input.wasActionJustPressed(Action.SyncShip)) {
+            this.syncBrigantineWithPhysics();
+        }
+        
+        // Quick save with 'K' and load it back with 'J'
+        if (input.wasActionJustPressed(Action.QuickSave)) {
+            this.saveGame();
+        }
+        if (input.wasActionJustPressed(Action.QuickLoad)) {
+            this.loadGame();
+        }
+    }
+    
+    private updateWorld(delta: number): void {
+        // Update player, swimming if it is in the water; a dead player waits to respawn
+        this.respawn.update(delta);
+        
+        // Sail the ship or work the cannon the player is at
+        this.controls.update();
+        
+        // Update camera
+        this.camera.update();
+        
+        // Update world generator for parallax effect
+        this.worldGenerator.update();
+        
+        // Update island generator
+        this.islandGenerator.update();
+        
+        // Update enemy spawn timer and spawn new enemies
+        this.fleets.updateSpawning(delta);
+        
+        // Advance the wind before feeding it to the sails
+        this.windSystem.update(delta);
+        
+        // Turn the tide; a player aboard a ship is carried by the ship, not the water
+        this.currentSystem.update(delta);
+        this.physics.setCurrentExempt(this.player.getBody()!, this.player.isOnBoard());
+        
+        // Fleets pick their targets and stations before their captains decide what to do
+        this.fleets.updateFleets();
+        
+        // Update all ships to sync their visual coordinates with physics bodies
+        for (const ship of [...this.roster.getShips()]) {
+            // Drive sailing ships with the wind at their position
+            const shipPos = ship.getPosition();
+            const wind = this.windSystem.getWindAt(shipPos.x, shipPos.y);
+            ship.applyWindForce(wind.direction, wind.power);
+            
+            // The hands work the ship, unless they've gone over the side to fight
+            const crew = this.roster.getCrew(ship);
+            if (crew) {
+                crew.setAway(this.boarding.isBoarding(ship));
+                crew.update(delta);
+            }
+            
+            // AI ships are commanded by their captain and sailed with the same controls;
+            // hunters that have come alongside throw their hooks
+            const boardingTarget = this.fleets.commandShip(ship, delta);
+            if (boardingTarget) {
+                this.boarding.startBoarding(ship, boardingTarget);
+            }
+            
+            ship.update(delta);
+            
+            // If the player is on this ship, update player physics based on the ship's movement
+            if (this.player.isOnBoard() && this.player.getBoardedShip() === ship && this.player.getBody()) {
+                ship.updateBoardedPlayer(this.player.getBody()!, delta);
+            }
+            
+            // Remove ships that have gone to the bottom
+            if (ship.isSunk()) {
+                this.removeSunkShip(ship);
+            }
+        }
+        
+        // Fight out any boardings now the ships have moved
+        this.boarding.update(delta);
+        
+        // Check for collisions between player and treasures/power-ups
+        this.checkItemCollisions();
+        
+        // Occasional ambient ocean sounds
+        if (Math.random() < 0.002) { // 0.2% chance per frame
+            this.soundManager.playSound('wave', 0.3);
+        }
+        
+        // Highlight the ladders and modules under the mouse now the ships have moved
+        this.controls.updateHover();
+    }
+    
+    /**
+     * Check for collisions between player and treasures/power-ups
+     */
+    private checkItemCollisions(): void {
+        if (!this.player.getBody()) return;
+        
+        const playerBody = this.player.getBody()!;
+        const playerPos = this.player.getPosition();
+        
+        // Check all islands
+        for (const island of this.islandGenerator.getIslands()) {
+            // Check treasures
+            for (let i = island.treasures.length - 1; i >= 0; i--) {
+                const treasure = island.treasures[i];
+                if (treasure.isCollected()) continue;
+                
+                const treasureBody = treasure.getBody();
+                if (!treasureBody) continue;
+                
+                // Check collision
+                if (Matter.Bounds.overlaps(playerBody.bounds, treasureBody.bounds)) {
+                    // Collect the treasure
+                    treasure.collect();
+                    this.islandGenerator.markCollected(treasure.getId());
+                    
+                    // Add score based on treasure type
+                    const value = treasure.getValue();
+                    this.gameState.addScore(value);
+                    
+                    // Play sound effect
+                    this.soundManager.playSound('coin');
+                    
+                    // Remove from physics world
+                    this.physics.removeBody(treasureBody);
+                    
+                    // Remove from island's treasures array
+                    island.treasures.splice(i, 1);
+                    
+                    console.log(`Collected treasure worth ${value} points!`);
+                }
+            }
+            
+            // Check power-ups
+            for (let i = island.powerUps.length - 1; i >= 0; i--) {
+                const powerUp = island.powerUps[i];
+                if (powerUp.isCollected()) continue;
+                
+                const powerUpBody = powerUp.getBody();
+                if (!powerUpBody) continue;
+                
+                // Check collision
+                if (Matter.Bounds.overlaps(playerBody.bounds, powerUpBody.bounds)) {
+                    // Collect the power-up
+                    powerUp.collect();
+                    this.islandGenerator.markCollected(powerUp.getId());
+                    
+                    // Apply effect based on power-up type
+                    switch (powerUp.getType()) {
+                        case PowerUpType.HEAL:
+                            // Heal the player
+                            this.player.heal(50);
+                            this.soundManager.playSound('powerup');
+                            break;
+                    }
+                    
+                    // Remove from physics world
+                    this.physics.removeBody(powerUpBody);
+                    
+                    // Remove from island's power-ups array
+                    island.powerUps.splice(i, 1);
+                    
+                    console.log(`Collected ${powerUp.getType()} power-up!`);
+                }
+            }
+        }
+    }
+    
+    /**
+     * Remove a sunk brigantine from the world, putting anyone aboard into the water
+     */
+    private removeSunkShip(ship: Brigantine): void {
+        // Any grapples part as the ship goes down
+        this.boarding.cutLoose(ship);
+        
+        // The player goes into the sea with the wreck
+        if (this.player.isOnBoard() && this.player.getBoardedShip() === ship) {
+            this.player.unboardShip();
+        }
+        
+        // Sinking an enemy scores a kill; losing an ally doesn't
+        if (this.fleets.removeCaptain(ship)) {
+            this.gameState.addShipDestroyed();
+        }
+        this.roster.remove(ship);
+        
+        console.log(`Removed sunk brigantine at (${Math.round(ship.getPosition().x)}, ${Math.round(ship.getPosition().y)})`);
+    }
+    
+    /**
+     * Save the player, ships, collected items, score and world seed
+     */
+    public saveGame(): void {
+        this.saver.save();
+    }
+    
+    /**
+     * Replace the current game with the saved one, rebuilding the physics world from the save
+     * @returns true if a save was loaded
+     */
+    public loadGame(): boolean {
+        return this.saver.load();
+    }
+    
+    /**
+     * Get the global wind simulation so AI and effects can query it
+     */
+    public getWindSystem(): WindSystem {
+        return this.windSystem;
+    }
+    
+    /**
+     * Directly toggle the physics world visibility
+     * Used by KeyDebugger for testing
+     */
+    public togglePhysicsWorld(): void {
+        this.showPhysicsWorld = !this.showPhysicsWorld;
+        this.renderer.setShowPhysicsWorld(this.showPhysicsWorld);
+        
+        // When enabling physics world, also enable debug HUD
+        this.renderer.setShowDebugHUD(this.showPhysicsWorld);
+        
+        // If physics world is enabled, also enable debug mode
+        if (this.showPhysicsWorld && !BaseGameObject.isDebugMode()) {
+            BaseGameObject.setDebugMode(true);
+            console.log("Debug mode automatically enabled with physics world");
+        }
+        
+        // Add visual feedback
+        this.effectManager.addGlobalFlash(this.showPhysicsWorld ? 'rgba(0, 0, 255, 0.3)' : 'rgba(255, 0, 0, 0.3)', 0.5);
+        
+        console.log(`Physics world: ${this.showPhysicsWorld ? 'VISIBLE' : 'HIDDEN'}`);
+    }
+    
+    /**
+     * Directly toggle debug mode
+     * Used by KeyDebugger for testing
+     */
+    public toggleDebugMode(): void {
+        const debugEnabled = !BaseGameObject.isDebugMode();
+        BaseGameObject.setDebugMode(debugEnabled);
+        
+        // When enabling debug mode, also enable debug HUD
+        this.renderer.setShowDebugHUD(debugEnabled);
+        
+        // Add visual feedback
+        this.effectManager.addGlobalFlash(debugEnabled ? 'rgba(0, 255, 0, 0.3)' : 'rgba(255, 0, 0, 0.3)', 0.5);
+        
+        console.log(`Debug mode: ${debugEnabled ? 'ON' : 'OFF'}`);
+    }
+    
+    /**
+     * Force synchronization of brigantine visual coordinates with physics body
+     * This can be called when you suspect there might be a mismatch
+     */
+    public syncBrigantineWithPhysics(): void {
+        if (this.roster.getShips().length === 0) {
+            console.log("No brigantine ships found to sync");
+            return;
+        }
+        
+        // Get the first brigantine (we usually only have one)
+        const brigantine = this.roster.getShips()[0];
+        
+        // Call the ship's syncWithPhysics method if it's a Brigantine
+        if (brigantine instanceof Brigantine) {
+            brigantine.syncWithPhysics();
+            
+            // Add visual feedback for sync
+            this.effectManager.addGlobalFlash('rgba(0, 255, 0, 0.2)', 0.3);
+            
+            console.log("Brigantine coordinates forcibly synchronized with physics body");
+        } else {
+            console.log("First ship is not a Brigantine instance");
+        }
+    }
+    
+    /**
+     * Render boarding UI elements if player is currently boarded
+     * Called by the renderer after rendering all game objects
+     */
+    public renderBoardingUI(ctx: CanvasRenderingContext2D): void {
+        // Check if player is currently boarded
+        if (!this.player.isOnBoard()) return;
+        
+        // Get the boarded ship and render its UI
+        const boardedShip = this.player.getBoardedShip();
+        if (boardedShip && boardedShip instanceof Brigantine) {
+            boardedShip.renderBoardedUI(ctx);
+        }
+    }
+    
+    /**
+     * Open the crew orders for the ship the player is aboard, if it is their own
+     */
+    private openCrewOrders(): void {
+        const ship = this.controls.getCommandedShip();
+        const crew = ship ? this.roster.getCrew(ship) : undefined;
+        if (!crew) return;
+        
+        this.manager.push(new CrewScene(this.manager, crew));
+    }
+}
@@ -0,0 +1,36 @@
+import { MenuScene } from './menuScene';
+import { SceneManager } from './sceneManager';
+import { GameplayScene } from './gameplayScene';
+import { SettingsScene } from './settingsScene';
+import { CreditsScene } from './creditsScene';
+
+/**
+ * Title screen shown when the game starts and after quitting a game
+ */
+export class MainMenuScene extends MenuScene {
+    constructor(manager: SceneManager) {
+        super(manager, 'Pirate Game 2');
+
+        const saveManager = manager.services.saveManager;
+        this.setItems([
+            { label: 'New Game', action: () => this.newGame() },
+            { label: 'Continue', action: () => this.continueGame(), enabled: () => saveManager.hasSave() },
+            { label: 'Settings', action: () => this.manager.push(new SettingsScene(this.manager)) },
+            { label: 'Credits', action: () => this.manager.push(new CreditsScene(this.manager)) }
+        ]);
+    }
+
+    protected override onBack(): void {
+        // Nothing below the main menu
+    }
+
+    private newGame(): void {
+        this.manager.reset(new GameplayScene(this.manager));
+    }
+
+    private continueGame(): void {
+        const gameplay = new GameplayScene(this.manager);
+        this.manager.reset(gameplay);
+        gameplay.loadGame();
+    }
+}
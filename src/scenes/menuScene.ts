@@ -0,0 +1,205 @@
+import { Input } from '../engine/input';
+import { Action } from '../engine/inputBindings';
+import { Scene } from './scene';
+import { SceneManager } from './sceneManager';
+
+/**
+ * An entry in a menu
+ */
+export interface MenuItem {
+    label: string | (() => string);
+    action?: () => void;                   // Called when the item is chosen with Enter, Space or a click
+    adjust?: (direction: -1 | 1) => void;  // Called with Left/Right for value settings (e.g. volume)
+    enabled?: () => boolean;               // Disabled items are greyed out and skipped
+}
+
+/**
+ * Base for menu screens: a title and a vertical list of items chosen with the
+ * keyboard (the Menu actions: W/S or arrows, Enter/Space, Escape to go back) or the mouse.
+ */
+export abstract class MenuScene extends Scene {
+    protected title: string;
+    protected titleColor: string = '#FFD700';
+    protected items: MenuItem[];
+    protected selectedIndex: number = 0;
+    protected itemHeight: number = MenuScene.ITEM_HEIGHT;
+    private wasMouseDown: boolean = false;
+    private lastMouse: { x: number, y: number };
+
+    static readonly ITEM_HEIGHT: number = 44;
+    static readonly ITEM_WIDTH: number = 320;
+
+    constructor(manager: SceneManager, title: string) {
+        super(manager);
+        this.title = title;
+        this.items = [];
+
+        // A button still held from the previous screen isn't a click, and a
+        // cursor left resting over an item doesn't select it
+        this.wasMouseDown = manager.services.input.isMouseDown();
+        this.lastMouse = manager.services.input.getMousePosition();
+    }
+
+    public override onResume(): void {
+        this.wasMouseDown = this.manager.services.input.isMouseDown();
+        this.lastMouse = this.manager.services.input.getMousePosition();
+    }
+
+    /**
+     * Set the menu entries, selecting the first one that can be chosen
+     */
+    protected setItems(items: MenuItem[]): void {
+        this.items = items;
+        this.selectedIndex = this.findEnabled(0, 1);
+    }
+
+    /**
+     * Called when Escape is pressed; closes the menu by default
+     */
+    protected onBack(): void {
+        this.manager.pop();
+    }
+
+    public handleInput(input: Input): void {
+        if (input.wasActionJustPressed(Action.MenuUp)) {
+            this.selectedIndex = this.findEnabled(this.selectedIndex - 1, -1);
+        }
+        if (input.wasActionJustPressed(Action.MenuDown)) {
+            this.selectedIndex = this.findEnabled(this.selectedIndex + 1, 1);
+        }
+
+        const selected = this.items[this.selectedIndex];
+        if (selected && selected.adjust) {
+            if (input.wasActionJustPressed(Action.MenuLeft)) selected.adjust(-1);
+            if (input.wasActionJustPressed(Action.MenuRight)) selected.adjust(1);
+        }
+
+        // Moving the mouse (or gamepad cursor) over an item selects it, click chooses
+        const mouse = input.getMousePosition();
+        const hovered = this.getItemAt(mouse.x, mouse.y);
+        const moved = mouse.x !== this.lastMouse.x || mouse.y !== this.lastMouse.y;
+        this.lastMouse = mouse;
+        const clicked = input.isMouseDown() && !this.wasMouseDown;
+        this.wasMouseDown = input.isMouseDown();
+        if ((moved || clicked) && hovered !== -1 && this.isEnabled(hovered)) {
+            this.selectedIndex = hovered;
+        }
+
+        if (input.wasActionJustPressed(Action.MenuSelect) || (clicked && hovered !== -1)) {
+            this.choose(this.selectedIndex);
+            return;
+        }
+
+        if (input.wasActionJustPressed(Action.MenuBack)) {
+            this.onBack();
+        }
+    }
+
+    public update(delta: number): void {
+        // Menus are driven entirely by input
+    }
+
+    public render(ctx: CanvasRenderingContext2D, alpha: number): void {
+        const { width, height } = this.getScreenSize();
+
+        this.renderBackground(ctx, width, height);
+
+        ctx.save();
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+
+        // Title
+        ctx.font = 'bold 48px Arial';
+        ctx.fillStyle = this.titleColor;
+        ctx.fillText(this.title, width / 2, this.getTitleY());
+
+        // Items
+        this.items.forEach((item, i) => {
+            const y = this.getItemsTop() + i * this.itemHeight;
+            const enabled = this.isEnabled(i);
+            const selected = i === this.selectedIndex;
+
+            if (selected) {
+                ctx.fillStyle = 'rgba(255, 215, 0, 0.2)';
+                ctx.fillRect(width / 2 - this.getItemWidth() / 2, y - this.itemHeight / 2 + 4, this.getItemWidth(), this.itemHeight - 8);
+            }
+
+            const fontSize = Math.round(this.itemHeight * 0.55);
+            ctx.font = selected ? `bold ${fontSize}px Arial` : `${fontSize}px Arial`;
+            ctx.fillStyle = !enabled ? '#777777' : selected ? '#FFFF00' : '#FFFFFF';
+            const label = this.getLabel(item);
+            ctx.fillText(item.adjust ? `< ${label} >` : label, width / 2, y);
+        });
+
+        ctx.restore();
+    }
+
+    /**
+     * Fill behind the menu. Overlays darken the scene below; full menus draw the sea.
+     */
+    protected renderBackground(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+        ctx.fillStyle = this.isOverlay() ? 'rgba(0, 0, 0, 0.6)' : '#0A3D62';
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    protected getScreenSize(): { width: number, height: number } {
+        const canvas = this.manager.services.canvas;
+        return { width: canvas.getWidth(), height: canvas.getHeight() };
+    }
+
+    /**
+     * Screen y of the first item's centre
+     */
+    protected getItemsTop(): number {
+        const { height } = this.getScreenSize();
+        return height / 2 - (this.items.length - 1) * this.itemHeight / 2;
+    }
+
+    protected getItemWidth(): number {
+        return MenuScene.ITEM_WIDTH;
+    }
+
+    protected getTitleY(): number {
+        return this.getItemsTop() - 80;
+    }
+
+    private getItemAt(x: number, y: number): number {
+        const { width } = this.getScreenSize();
+        if (Math.abs(x - width / 2) > this.getItemWidth() / 2) return -1;
+
+        const index = Math.round((y - this.getItemsTop()) / this.itemHeight);
+        return index >= 0 && index < this.items.length ? index : -1;
+    }
+
+    private getLabel(item: MenuItem): string {
+        return typeof item.label === 'function' ? item.label() : item.label;
+    }
+
+    private isEnabled(index: number): boolean {
+        const item = this.items[index];
+        return !!item && (!item.enabled || item.enabled());
+    }
+
+    /**
+     * Nearest enabled item from a starting index, wrapping around the list
+     */
+    private findEnabled(start: number, step: 1 | -1): number {
+        const count = this.items.length;
+        for (let i = 0; i < count; i++) {
+            const index = ((start + i * step) % count + count) % count;
+            if (this.isEnabled(index)) return index;
+        }
+        return 0;
+    }
+
+    private choose(index: number): void {
+        const item = this.items[index];
+        if (!item || !this.isEnabled(index)) return;
+
+        if (item.action) {
+            item.action();
+        } else if (item.adjust) {
+            item.adjust(1);
+        }
+    }
+}
@@ -0,0 +1,33 @@
+import { MenuScene } from './menuScene';
+import { SceneManager } from './sceneManager';
+import { GameplayScene } from './gameplayScene';
+import { SettingsScene } from './settingsScene';
+import { MainMenuScene } from './mainMenuScene';
+
+/**
+ * Pause menu drawn over the game. The game underneath (physics included) is frozen
+ * because only the top scene is updated.
+ */
+export class PauseScene extends MenuScene {
+    constructor(manager: SceneManager) {
+        super(manager, 'Paused');
+
+        this.setItems([
+            { label: 'Resume', action: () => this.manager.pop() },
+            { label: 'Save Game', action: () => this.saveGame() },
+            { label: 'Settings', action: () => this.manager.push(new SettingsScene(this.manager)) },
+            { label: 'Quit to Main Menu', action: () => this.manager.reset(new MainMenuScene(this.manager)) }
+        ]);
+    }
+
+    public override isOverlay(): boolean {
+        return true;
+    }
+
+    private saveGame(): void {
+        const gameplay = this.manager.find(GameplayScene);
+        if (gameplay) {
+            gameplay.saveGame();
+        }
+    }
+}
@@ -0,0 +1,59 @@
+import { Input } from '../engine/input';
+import { InputContext } from '../engine/inputBindings';
+import { SceneManager } from './sceneManager';
+
+/**
+ * A screen of the game (main menu, gameplay, pause overlay...).
+ * Scenes live on the SceneManager's stack; only the top scene receives input and
+ * updates, so anything underneath is frozen until it is uncovered again.
+ */
+export abstract class Scene {
+    protected manager: SceneManager;
+
+    constructor(manager: SceneManager) {
+        this.manager = manager;
+    }
+
+    /**
+     * Overlays are drawn on top of the scene below them instead of replacing it
+     */
+    public isOverlay(): boolean {
+        return false;
+    }
+
+    /**
+     * Input contexts whose actions this scene responds to, lowest priority first
+     */
+    public getInputContexts(): InputContext[] {
+        return [InputContext.Menu];
+    }
+
+    /** Called when the scene is pushed onto the stack */
+    public onEnter(): void {}
+
+    /** Called when the scene is removed from the stack */
+    public onExit(): void {}
+
+    /** Called when another scene is pushed on top of this one */
+    public onPause(): void {}
+
+    /** Called when this scene is back on top of the stack */
+    public onResume(): void {}
+
+    /**
+     * React to input for this step (only called while the scene is on top)
+     */
+    public abstract handleInput(input: Input): void;
+
+    /**
+     * Advance the scene by one fixed step (only called while the scene is on top)
+     * @param delta Step length in seconds
+     */
+    public abstract update(delta: number): void;
+
+    /**
+     * Draw the scene
+     * @param alpha How far between the previous and current step to draw (0-1)
+     */
+    public abstract render(ctx: CanvasRenderingContext2D, alpha: number): void;
+}
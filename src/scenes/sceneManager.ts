@@ -0,0 +1,131 @@
+import { Canvas } from '../utils/canvas';
+import { Input } from '../engine/input';
+import { SoundManager } from '../engine/soundManager';
+import { SaveManager } from '../engine/saveManager';
+import { Scene } from './scene';
+
+/**
+ * Engine services shared by every scene
+ */
+export interface GameServices {
+    canvas: Canvas;
+    input: Input;
+    soundManager: SoundManager;
+    saveManager: SaveManager;
+}
+
+/**
+ * Stack of scenes. The top scene gets input and updates; scenes are drawn from the
+ * highest non-overlay scene upwards so overlays (pause, game over) sit on top of gameplay.
+ */
+export class SceneManager {
+    readonly services: GameServices;
+    private stack: Scene[] = [];
+
+    constructor(services: GameServices) {
+        this.services = services;
+    }
+
+    /**
+     * Put a scene on top of the stack, pausing the current one
+     */
+    public push(scene: Scene): void {
+        const top = this.getTop();
+        if (top) top.onPause();
+
+        this.stack.push(scene);
+        scene.onEnter();
+        console.log(`Scene pushed: ${scene.constructor.name}`);
+    }
+
+    /**
+     * Remove the top scene and resume the one below it
+     */
+    public pop(): Scene | null {
+        const scene = this.stack.pop() || null;
+        if (scene) {
+            scene.onExit();
+            console.log(`Scene popped: ${scene.constructor.name}`);
+        }
+
+        const top = this.getTop();
+        if (top) top.onResume();
+        return scene;
+    }
+
+    /**
+     * Swap the top scene for another
+     */
+    public replace(scene: Scene): void {
+        const old = this.stack.pop();
+        if (old) old.onExit();
+
+        this.stack.push(scene);
+        scene.onEnter();
+        console.log(`Scene replaced with: ${scene.constructor.name}`);
+    }
+
+    /**
+     * Clear the whole stack and start again from one scene (e.g. back to the main menu)
+     */
+    public reset(scene: Scene): void {
+        while (this.stack.length > 0) {
+            this.stack.pop()!.onExit();
+        }
+
+        this.stack.push(scene);
+        scene.onEnter();
+        console.log(`Scene stack reset to: ${scene.constructor.name}`);
+    }
+
+    public getTop(): Scene | null {
+        return this.stack.length > 0 ? this.stack[this.stack.length - 1] : null;
+    }
+
+    /**
+     * Find the topmost scene of a given type
+     */
+    public find<T extends Scene>(type: new (...args: any[]) => T): T | null {
+        for (let i = this.stack.length - 1; i >= 0; i--) {
+            if (this.stack[i] instanceof type) {
+                return this.stack[i] as T;
+            }
+        }
+        return null;
+    }
+
+    public getSceneCount(): number {
+        return this.stack.length;
+    }
+
+    /**
+     * Handle input and advance the top scene by one fixed step
+     */
+    public update(delta: number): void {
+        const top = this.getTop();
+        if (!top) return;
+
+        this.services.input.setActiveContexts(top.getInputContexts());
+        top.handleInput(this.services.input);
+
+        // Input handling may have changed the stack
+        if (this.getTop() === top) {
+            top.update(delta);
+        }
+    }
+
+    /**
+     * Draw the visible scenes, bottom to top
+     */
+    public render(ctx: CanvasRenderingContext2D, alpha: number): void {
+        // Start from the highest scene that fully covers the screen
+        let first = this.stack.length - 1;
+        while (first > 0 && this.stack[first].isOverlay()) {
+            first--;
+        }
+
+        for (let i = Math.max(0, first); i < this.stack.length; i++) {
+            this.stack[i].render(ctx, alpha);
+        }
+    }
+}
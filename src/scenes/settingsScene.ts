@@ -0,0 +1,42 @@
+import { MenuScene } from './menuScene';
+import { SceneManager } from './sceneManager';
+import { ControlsScene } from './controlsScene';
+
+/**
+ * Sound, gamepad and control settings, reachable from the main menu and the pause menu
+ */
+export class SettingsScene extends MenuScene {
+    static readonly VOLUME_STEP: number = 0.1;
+    static readonly DEAD_ZONE_STEP: number = 0.05;
+
+    constructor(manager: SceneManager) {
+        super(manager, 'Settings');
+
+        const sound = manager.services.soundManager;
+        const gamepad = manager.services.input.getGamepad();
+        this.setItems([
+            {
+                label: () => `Sound: ${sound.isMutedState() ? 'Off' : 'On'}`,
+                action: () => sound.toggleMute()
+            },
+            {
+                label: () => `Effects Volume: ${Math.round(sound.getSoundVolume() * 100)}%`,
+                adjust: (direction) => sound.setSoundVolume(sound.getSoundVolume() + direction * SettingsScene.VOLUME_STEP)
+            },
+            {
+                label: () => `Music Volume: ${Math.round(sound.getMusicVolume() * 100)}%`,
+                adjust: (direction) => sound.setMusicVolume(sound.getMusicVolume() + direction * SettingsScene.VOLUME_STEP)
+            },
+            {
+                label: () => `Stick Dead Zone: ${Math.round(gamepad.getDeadZone() * 100)}%`,
+                adjust: (direction) => gamepad.setDeadZone(gamepad.getDeadZone() + direction * SettingsScene.DEAD_ZONE_STEP)
+            },
+            { label: 'Controls', action: () => this.manager.push(new ControlsScene(this.manager)) },
+            { label: 'Back', action: () => this.manager.pop() }
+        ]);
+    }
+
+    public override isOverlay(): boolean {
+        return true;
+    }
+}
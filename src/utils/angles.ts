@@ -0,0 +1,9 @@
+/**
+ * Signed shortest difference a - b in the range (-PI, PI]
+ */
+export function angleDifference(a: number, b: number): number {
+    let diff = (a - b) % (Math.PI * 2);
+    if (diff > Math.PI) diff -= Math.PI * 2;
+    if (diff <= -Math.PI) diff += Math.PI * 2;
+    return diff;
+}
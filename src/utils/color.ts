@@ -32,6 +32,8 @@ export class Color {
     static readonly MODULE_HIGHLIGHT: string = 'rgba(255, 255, 0, 0.6)'; // Yellow highlight for hovered modules
     static readonly COMPASS_N: string = '#FF0000'; // Red for North
     static readonly COMPASS_DIRECTION: string = '#FFFFFF';
+    static readonly WIND_ARROW: string = 'rgba(135, 206, 250, 0.9)'; // Light sky blue for the wind indicator
+    static readonly WIND_GUST: string = 'rgba(255, 255, 255, 0.95)'; // White while a gust is blowing
       // Debug colors
     static readonly DEBUG_PHYSICS: string = 'rgba(0, 255, 0, 0.5)'; // Green for physics bodies
     static readonly DEBUG_VELOCITY: string = 'rgba(255, 255, 0, 0.7)'; // Yellow for velocity vectors
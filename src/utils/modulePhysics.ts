@@ -39,7 +39,9 @@ export function getModuleBodyProperties(moduleType: string): ModuleBodyPropertie
                 width: 20,
                 height: 40,
                 density: 0.005,
-                isSensor: false
+                isSensor: false,
+                collisionCategory: CollisionCategories.MODULE, // Deck module the boarded player walks around
+                collisionMask: CollisionCategories.PLAYER | CollisionCategories.PROJECTILE
             };
           case 'sail':
             return {
@@ -60,7 +62,17 @@ export function getModuleBodyProperties(moduleType: string): ModuleBodyPropertie
                 collisionCategory: CollisionCategories.MODULE, // Use the new module category
                 collisionMask: CollisionCategories.PLAYER | CollisionCategories.PROJECTILE // Collide with player and projectiles
             };
-        
+        case 'anchor':
+            return {
+                ...defaultProps,
+                width: 30,
+                height: 40,
+                density: 0.005,
+                isSensor: false,
+                collisionCategory: CollisionCategories.MODULE, // The windlass is a deck module like the cannons
+                collisionMask: CollisionCategories.PLAYER | CollisionCategories.PROJECTILE
+            };
+
         default:
             return defaultProps;
     }
@@ -0,0 +1,103 @@
+/**
+ * Small, fast seedable pseudo-random number generator (mulberry32).
+ * The same seed always produces the same sequence, so anything generated from it
+ * (islands, treasures, background objects) can be reproduced and shared.
+ */
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Next value in [0, 1)
+     */
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Value in [min, max)
+     */
+    public range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * Integer in [min, max] (inclusive)
+     */
+    public int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    /**
+     * True with the given probability (0-1)
+     */
+    public chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    /**
+     * Random angle in [0, 2PI)
+     */
+    public angle(): number {
+        return this.next() * Math.PI * 2;
+    }
+
+    /**
+     * Create a generator for one chunk of the world.
+     * The same (seed, salt, chunkX, chunkY) always gives the same sequence regardless of
+     * the order chunks are visited in.
+     * @param salt Separates independent streams that share a seed (e.g. islands vs. background layers)
+     */
+    public static forChunk(seed: number, salt: number, chunkX: number, chunkY: number): SeededRandom {
+        return new SeededRandom(hashValues(seed, salt, chunkX, chunkY));
+    }
+}
+
+/**
+ * Mix a list of integers into a single 32-bit hash
+ */
+export function hashValues(...values: number[]): number {
+    let h = 0x811C9DC5;
+    for (const value of values) {
+        h = Math.imul(h ^ (value | 0), 0x01000193);
+        h ^= h >>> 13;
+        h = Math.imul(h, 0x5BD1E995);
+        h ^= h >>> 15;
+    }
+    return h >>> 0;
+}
+
+/**
+ * Hash a string (e.g. a word typed as a seed) into a 32-bit seed
+ */
+export function hashString(text: string): number {
+    let h = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+        h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/**
+ * Turn a seed parameter into a numeric seed.
+ * Numbers are used as-is, any other text is hashed, and a missing value gives a random seed.
+ */
+export function parseSeed(value: string | null | undefined): number {
+    if (value === null || value === undefined || value.trim() === '') {
+        return Math.floor(Math.random() * 4294967296);
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) >>> 0;
+    }
+
+    return hashString(trimmed);
+}
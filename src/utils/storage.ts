@@ -0,0 +1,48 @@
+/**
+ * Minimal key/value storage used for persisted data (high scores, saves).
+ * Matches the subset of the Web Storage API we need, so `localStorage` can be used directly.
+ */
+export interface KeyValueStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/**
+ * In-memory storage for environments without `localStorage` (Node, tests, private browsing)
+ */
+export class MemoryStorage implements KeyValueStorage {
+    private items: Map<string, string> = new Map();
+
+    public getItem(key: string): string | null {
+        const value = this.items.get(key);
+        return value !== undefined ? value : null;
+    }
+
+    public setItem(key: string, value: string): void {
+        this.items.set(key, String(value));
+    }
+
+    public removeItem(key: string): void {
+        this.items.delete(key);
+    }
+
+    public clear(): void {
+        this.items.clear();
+    }
+}
+
+/**
+ * The browser's `localStorage` if it is available, otherwise an in-memory store
+ */
+export function getDefaultStorage(): KeyValueStorage {
+    try {
+        if (typeof localStorage !== 'undefined' && localStorage !== null) {
+            return localStorage;
+        }
+    } catch (error) {
+        // Accessing localStorage can throw when storage is disabled
+        console.warn('localStorage unavailable, falling back to memory storage:', error);
+    }
+    return new MemoryStorage();
+}
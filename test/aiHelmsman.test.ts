@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { AIHelmsman } from '../src/ai/aiHelmsman';
+import { Navigation } from '../src/ai/navigation';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+
+describe('AIHelmsman', () => {
+    it('beats to windward in tacks without pointing into the wind', () => {
+        // Wind blows towards +x, so the destination is dead upwind
+        const sim = new HeadlessSimulation({ windDirection: 0, windPower: 50 });
+        const ship = sim.spawnShip(0, 0);
+        const helmsman = new AIHelmsman(ship);
+        helmsman.setDestination({ x: -3000, y: 0 });
+
+        const tackSides = new Set<number>();
+        sim.run(60, () => {
+            helmsman.update(HeadlessSimulation.FIXED_TIMESTEP);
+            const heading = helmsman.getDesiredHeading();
+            if (heading === null) return;
+
+            // Never steer closer to the wind than the no-go angle (the wind varies a little by position)
+            const fromWind = Math.abs(Math.atan2(Math.sin(heading - ship.currentWindDirection), Math.cos(heading - ship.currentWindDirection)));
+            expect(Math.PI - fromWind).toBeGreaterThanOrEqual(AIHelmsman.NO_GO_ANGLE - 1e-6);
+            tackSides.add(Math.sign(heading));
+        });
+
+        expect(ship.getPosition().x).toBeLessThan(-1500);
+        expect(tackSides.size).toBe(2);
+    });
+
+    it('holds off at fighting range and hits the target with its broadsides', () => {
+        const sim = new HeadlessSimulation({ windDirection: Math.PI / 2, windPower: 50 });
+        const ship = sim.spawnShip(0, 0);
+        const target = sim.spawnShip(900, 0);
+        const helmsman = new AIHelmsman(ship);
+        helmsman.setTarget(target);
+
+        let closest = Infinity;
+        sim.run(40, () => {
+            helmsman.update(HeadlessSimulation.FIXED_TIMESTEP);
+            const pos = ship.getPosition();
+            closest = Math.min(closest, Math.hypot(pos.x - 900, pos.y));
+        });
+
+        expect(target.getPlankHealth()).toBeLessThan(100);
+        expect(closest).toBeGreaterThan(200);
+    });
+
+    it('follows its route around an island instead of running aground', () => {
+        const sim = new HeadlessSimulation({ windDirection: Math.PI / 2, windPower: 50 });
+        const ship = sim.spawnShip(0, 0);
+        const navigation = new Navigation();
+        navigation.setObstacles([{ id: 'island', x: 1500, y: 0, radius: 250 }]);
+
+        const helmsman = new AIHelmsman(ship);
+        helmsman.setNavigation(navigation);
+        helmsman.setDestination({ x: 3000, y: 0 });
+
+        let closest = Infinity;
+        sim.run(60, () => {
+            helmsman.update(HeadlessSimulation.FIXED_TIMESTEP);
+            const pos = ship.getPosition();
+            closest = Math.min(closest, Math.hypot(pos.x - 1500, pos.y));
+        });
+
+        expect(closest).toBeGreaterThan(250 + 90); // Island radius plus half the beam
+        expect(ship.getPosition().x).toBeGreaterThan(2700);
+    });
+
+    it('leaves the helm to a player at the wheel', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const helmsman = new AIHelmsman(ship);
+        helmsman.setDestination({ x: 0, y: 2000 });
+        ship.wheels.get('wheel')!.isPlayerControlling = true;
+
+        sim.run(2, () => helmsman.update(HeadlessSimulation.FIXED_TIMESTEP));
+
+        expect(ship.rudderAngle).toBe(0);
+        ship.sails.forEach(sail => expect(sail.openness).toBe(0));
+    });
+});
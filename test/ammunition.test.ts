@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+import { AmmoLocker, AMMUNITION } from '../src/objects/projectiles/ammunition';
+import { Brigantine } from '../src/objects/ships/brigantine';
+import { ShipCrew } from '../src/objects/crew/shipCrew';
+
+describe('AmmoLocker', () => {
+    it('carries shot for each gun and skips kinds that have run out', () => {
+        const locker = new AmmoLocker(6);
+        expect(locker.getStock('round')).toBe(AMMUNITION.round.stockPerGun * 6);
+
+        for (let i = 0; i < AMMUNITION.chain.stockPerGun * 6; i++) {
+            expect(locker.take('chain')).toBe(true);
+        }
+        expect(locker.take('chain')).toBe(false);
+
+        expect(locker.selectNext()).toBe('grape');
+        expect(locker.selectNext()).toBe('heated');
+        expect(locker.selectNext()).toBe('round');
+    });
+
+    it('only lets a gun fire while its kind of shot lasts', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const cannon = [...ship.cannons.values()][0];
+        const locker = ship.getAmmoLocker();
+        locker.select('heated');
+        locker.add('heated', -locker.getStock('heated') + 1);
+
+        expect(cannon.fire()).toBe(true);
+        expect(cannon.getCannonballs()[0].getAmmo()).toBe('heated');
+
+        cannon.setReloadTimer(0);
+        expect(cannon.fire()).toBe(false);
+    });
+});
+
+describe('Shot striking a ship', () => {
+    it('tears sails with chain shot', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const sail = [...ship.sails.values()][0];
+        sail.setOpenness(100);
+
+        ship.applyProjectileHit(sail.body!, 20, sail.getWorldPosition(), 'chain');
+        expect(sail.getHealth()).toBe(100 - 20 * AMMUNITION.chain.sailDamage);
+        expect(sail.openness).toBe(100 - AMMUNITION.chain.sailShred);
+    });
+
+    it('cuts down the crew with grape', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+
+        ship.applyProjectileHit(ship.getBody()!, 20, { x: 0, y: 90 }, 'grape');
+        expect(ship.getCrew()).toBe(12 - AMMUNITION.grape.crewKilled);
+        expect(ship.getPlankHealth()).toBeGreaterThan(99);
+    });
+
+    it('sets planks alight with heated shot until the carpenter puts the fire out', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        ship.applyProjectileHit(ship.getBody()!, 20, { x: 0, y: 95 }, 'heated');
+
+        const [burning] = ship.getBurningPlanks();
+        expect(burning).toBeDefined();
+        const health = ship.getPlankState(burning)!.health;
+        sim.run(2);
+        expect(ship.getPlankState(burning)!.health).toBeCloseTo(health - Brigantine.FIRE_DAMAGE * 2, 0);
+
+        const crew = new ShipCrew(ship);
+        sim.run(10, () => crew.update(HeadlessSimulation.FIXED_TIMESTEP));
+        expect(ship.isOnFire(burning)).toBe(false);
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import * as Matter from 'matter-js';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+import { AnchorModule } from '../src/objects/shipModules/AnchorModule';
+
+describe('AnchorModule', () => {
+    it('holds the ship at the end of its cable and swings it round with the wind', () => {
+        const sim = new HeadlessSimulation({ windDirection: 0, windPower: 50 });
+        const ship = sim.spawnShip(0, 0);
+        const anchor = ship.anchors.get('anchor')!;
+        ship.sails.forEach(sail => sail.setOpenness(20));
+
+        expect(anchor.drop()).toBe(true);
+        sim.run(30);
+
+        const seabed = anchor.getSeabedPosition()!;
+        const bow = anchor.getWorldPosition();
+        expect(Math.hypot(bow.x - seabed.x, bow.y - seabed.y)).toBeLessThan(AnchorModule.RODE_LENGTH + 20);
+        expect(Math.hypot(ship.getBody()!.velocity.x, ship.getBody()!.velocity.y)).toBeLessThan(0.05);
+
+        // Wind veers to blow towards +y; the ship ends up downwind of the anchor
+        sim.windSystem.setDirection(Math.PI / 2);
+        sim.run(60);
+        expect(ship.getPosition().y).toBeGreaterThan(seabed.y);
+        expect(anchor.isDragging()).toBe(false);
+    });
+
+    it('drags, and is damaged, when let go with the ship making way', () => {
+        const sim = new HeadlessSimulation({ windDirection: 0, windPower: 50 });
+        const ship = sim.spawnShip(0, 0);
+        const anchor = ship.anchors.get('anchor')!;
+        ship.sails.forEach(sail => sail.setOpenness(100));
+        sim.run(10);
+
+        anchor.drop();
+        const droppedAt = anchor.getSeabedPosition()!;
+        sim.run(5);
+
+        expect(anchor.isDragging()).toBe(true);
+        expect(anchor.getHealth()).toBeLessThan(100);
+        expect(anchor.getSeabedPosition()!.x).toBeGreaterThan(droppedAt.x + 100);
+    });
+
+    it('takes time to raise, then frees the ship', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const anchor = ship.anchors.get('anchor')!;
+        anchor.drop();
+        sim.run(1);
+        expect(Matter.Composite.allConstraints(sim.physics.getWorld())).toHaveLength(1);
+
+        anchor.use();
+        sim.run(AnchorModule.RAISE_TIME / 2);
+        expect(anchor.state).toBe('raising');
+
+        sim.run(AnchorModule.RAISE_TIME / 2 + 0.5);
+        expect(anchor.state).toBe('stowed');
+        expect(Matter.Composite.allConstraints(sim.physics.getWorld())).toHaveLength(0);
+    });
+});
@@ -0,0 +1,10 @@
+import { describe, it, expect } from 'vitest';
+import { angleDifference } from '../src/utils/angles';
+
+describe('angleDifference', () => {
+    it('takes the shortest way round between two headings', () => {
+        expect(angleDifference(0.1, Math.PI * 2 - 0.1)).toBeCloseTo(0.2, 9);
+        expect(angleDifference(Math.PI * 2 - 0.1, 0.1)).toBeCloseTo(-0.2, 9);
+        expect(angleDifference(-Math.PI, 0)).toBe(Math.PI);
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+import { Cannonball } from '../src/objects/projectiles/cannonball';
+import { CannonModule } from '../src/objects/shipModules/CannonModule';
+import { AMMUNITION } from '../src/objects/projectiles/ammunition';
+import { EnemyShip } from '../src/objects/ships/enemyShip';
+import { Ships } from '../src/objects/ships/ships';
+
+describe('Cannonball flight', () => {
+    it('reaches further the higher the gun is elevated', () => {
+        const speed = Cannonball.getMuzzleSpeed(20);
+        const flat = Cannonball.getRange(0, speed);
+
+        expect(Cannonball.getRange(CannonModule.MAX_ELEVATION, speed)).toBeGreaterThan(flat * 2);
+        expect(Cannonball.getRange(CannonModule.MIN_ELEVATION, speed)).toBeLessThan(flat);
+        expect(Cannonball.getRange(Cannonball.getElevationForRange(1000, speed)!, speed)).toBeCloseTo(1000, 6);
+        expect(Cannonball.getElevationForRange(1e6, speed)).toBeNull();
+    });
+
+    it('rises and falls, coming down where the gun was laid', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const cannon = [...ship.cannons.values()][0];
+        const target = { x: cannon.getWorldPosition().x, y: 1200 };
+        cannon.aimAt(target.x, target.y);
+        cannon.fire();
+        const ball = cannon.getCannonballs()[0];
+
+        let highest = 0;
+        let landing = { x: 0, y: 0 };
+        sim.run(3, () => {
+            highest = Math.max(highest, ball.getHeight());
+            if (!ball.hasLanded()) landing = { ...ball.getPosition() };
+        });
+
+        expect(ball.hasLanded()).toBe(true);
+        expect(highest).toBeGreaterThan(Cannonball.MUZZLE_HEIGHT);
+        expect(Math.hypot(landing.x - target.x, landing.y - target.y)).toBeLessThan(30);
+    });
+
+    it('passes over a low hull in the middle of its arc, but not one where it comes down', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const cannon = [...ship.cannons.values()][0]; // Port bow gun, at (100, 68) facing +y
+        const between = sim.spawnShip(35, 700);       // Crossed clear of its masts
+        const before = between.getPlankHealth();
+
+        cannon.aimAt(100, 1800);
+        cannon.fire();
+        sim.run(3);
+        expect(between.getPlankHealth()).toBe(before);
+
+        cannon.setReloadTimer(0);
+        cannon.aimAt(100, 700);
+        cannon.fire();
+        sim.run(2);
+        expect(between.getPlankHealth()).toBeLessThan(before);
+    });
+
+    it('only lays grape as far as it carries, and lets it fall away where it gives out', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const cannon = [...ship.cannons.values()][0];
+        ship.getAmmoLocker().select('grape');
+        const speed = cannon.getMuzzleSpeed();
+
+        expect(Cannonball.getElevationForRange(800, speed, AMMUNITION.grape.lifetime)).toBeNull();
+        cannon.aimAt(100, 1800);
+        expect(cannon.elevation).toBeLessThan(CannonModule.MAX_ELEVATION);
+        expect(cannon.getRange()).toBeLessThanOrEqual(speed * AMMUNITION.grape.lifetime);
+
+        // Raised too high, it is spent in the air without a splash
+        const blast = vi.spyOn(sim.physics, 'reportBlast');
+        cannon.setElevation(CannonModule.MAX_ELEVATION);
+        cannon.fire();
+        const ball = cannon.getCannonballs()[0];
+        sim.run(1);
+        expect(ball.hasLanded()).toBe(false);
+        expect(cannon.getCannonballs()).toHaveLength(0);
+        expect(blast).not.toHaveBeenCalled();
+    });
+
+    it('fires from below the rail, so a broadside at close range strikes the hull', () => {
+        expect(Cannonball.MUZZLE_HEIGHT).toBeLessThanOrEqual(Ships.HULL_HEIGHT);
+
+        const sim = new HeadlessSimulation();
+        const target = sim.spawnShip(0, 200);
+        const enemy = new EnemyShip(0, 0);
+        sim.physics.addBody(enemy.getBody()!);
+        sim.physics.registerShip(enemy);
+        enemy.setTarget(target);
+        const before = target.getPlankHealth();
+
+        // Lying abeam, it looses its port broadside at once
+        sim.run(1, () => enemy.update(HeadlessSimulation.FIXED_TIMESTEP));
+        expect(target.getPlankHealth()).toBeLessThan(before);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { Action, BehaviorTree, Condition, NodeStatus, Selector, Sequence, UtilitySelector } from '../src/ai/behaviorTree';
+
+interface Blackboard {
+    hungry: boolean;
+    food: number;
+    log: string[];
+}
+
+function act(name: string, status: NodeStatus = NodeStatus.Running): Action<Blackboard> {
+    return new Action<Blackboard>(name, blackboard => {
+        blackboard.log.push(name);
+        return status;
+    });
+}
+
+describe('BehaviorTree', () => {
+    it('takes the first branch whose conditions hold and reports its action', () => {
+        const tree = new BehaviorTree<Blackboard>(new Selector('Root', [
+            new Sequence('Eat', [new Condition('Hungry', b => b.hungry), act('Eat')]),
+            act('Wander')
+        ]));
+        const blackboard: Blackboard = { hungry: false, food: 0, log: [] };
+
+        expect(tree.tick(blackboard, 1 / 60)).toBe(NodeStatus.Running);
+        expect(tree.getActiveNode()).toBe('Wander');
+
+        blackboard.hungry = true;
+        tree.tick(blackboard, 1 / 60);
+        expect(tree.getActiveNode()).toBe('Eat');
+        expect(blackboard.log).toEqual(['Wander', 'Eat']);
+    });
+
+    it('falls through failing actions and reports no active node when everything fails', () => {
+        const tree = new BehaviorTree<Blackboard>(new Selector('Root', [
+            act('Fish', NodeStatus.Failure),
+            act('Forage', NodeStatus.Failure)
+        ]));
+        const blackboard: Blackboard = { hungry: true, food: 0, log: [] };
+
+        expect(tree.tick(blackboard, 1 / 60)).toBe(NodeStatus.Failure);
+        expect(tree.getActiveNode()).toBeNull();
+        expect(blackboard.log).toEqual(['Fish', 'Forage']);
+    });
+
+    it('runs the best scoring utility option that does not fail', () => {
+        const tree = new BehaviorTree<Blackboard>(new UtilitySelector('Choose', [
+            { node: act('Cook', NodeStatus.Failure), score: b => b.food },
+            { node: act('Snack'), score: b => b.food / 2 },
+            { node: act('Starve'), score: () => 0 }
+        ]));
+        const blackboard: Blackboard = { hungry: true, food: 2, log: [] };
+
+        tree.tick(blackboard, 1 / 60);
+        expect(tree.getActiveNode()).toBe('Snack');
+        expect(blackboard.log).toEqual(['Cook', 'Snack']);
+
+        // Options scoring zero are never tried
+        blackboard.food = 0;
+        expect(tree.tick(blackboard, 1 / 60)).toBe(NodeStatus.Failure);
+    });
+});
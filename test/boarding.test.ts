@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { CollisionCategories } from '../src/utils/color';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+
+describe('Boarding collision filters', () => {
+    it('swaps the player from the hull to the deck while aboard', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const player = sim.createPlayer(0, 400);
+        const filter = () => player.getBody()!.collisionFilter;
+
+        // In the water the player bumps into hulls, not deck elements
+        expect(filter().mask! & CollisionCategories.SHIP).toBeTruthy();
+        expect(filter().mask! & CollisionCategories.DECK_ELEMENT).toBeFalsy();
+
+        player.boardShip(ship);
+        expect(player.isOnBoard()).toBe(true);
+        expect(ship.isPlayerBoarded()).toBe(true);
+        expect(filter().category).toBe(CollisionCategories.PLAYER);
+        expect(filter().mask! & CollisionCategories.SHIP).toBeFalsy();
+        expect(filter().mask! & CollisionCategories.DECK_ELEMENT).toBeTruthy();
+        expect(filter().mask! & CollisionCategories.MODULE).toBeTruthy();
+        expect(filter().mask! & CollisionCategories.SAIL_FIBER).toBeFalsy();
+
+        player.unboardShip();
+        expect(player.isOnBoard()).toBe(false);
+        expect(ship.isPlayerBoarded()).toBe(false);
+        expect(filter().mask! & CollisionCategories.SHIP).toBeTruthy();
+        expect(filter().mask! & CollisionCategories.DECK_ELEMENT).toBeFalsy();
+    });
+
+    it('places the boarding player on the deck by the ladder', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(500, 500);
+        const player = sim.createPlayer(500, 900);
+
+        player.boardShip(ship);
+
+        const boarding = ship.getBoardingPosition();
+        const pos = player.getBody()!.position;
+        expect(pos.x).toBeCloseTo(500 + boarding.x);
+        expect(pos.y).toBeCloseTo(500 + boarding.y);
+    });
+});
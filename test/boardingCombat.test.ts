@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+import { BoardingAction } from '../src/objects/crew/boardingAction';
+
+describe('Deck outline', () => {
+    it('tells the deck from the water round it', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(500, 500);
+
+        expect(ship.isPointOnDeck(500, 500)).toBe(true);
+        expect(ship.isPointOnDeck(500, 500 + 85)).toBe(true);
+        expect(ship.isPointOnDeck(500, 500 + 85, 10)).toBe(false);
+        expect(ship.isPointOnDeck(500, 500 + 120)).toBe(false);
+    });
+});
+
+describe('BoardingAction', () => {
+    it('only grapples ships close alongside', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+
+        expect(BoardingAction.canGrapple(ship, sim.spawnShip(0, 260))).toBe(true);
+        expect(BoardingAction.canGrapple(ship, sim.spawnShip(0, -1000))).toBe(false);
+    });
+
+    it('hauls the ships together until the bigger crew takes the prize', () => {
+        const sim = new HeadlessSimulation();
+        const attacker = sim.spawnShip(0, 0);
+        const defender = sim.spawnShip(0, 260, 'sloop');
+        const action = new BoardingAction(attacker, defender, sim.physics);
+
+        expect(action.getFighterCount(attacker)).toBe(Math.ceil(attacker.getCrew() * BoardingAction.BOARDING_PARTY));
+        expect(action.getFighterCount(defender)).toBe(defender.getCrew());
+
+        sim.run(30, () => {
+            if (!action.isOver()) action.update(HeadlessSimulation.FIXED_TIMESTEP);
+        });
+
+        expect(action.getResult()).toEqual({ winner: attacker, loser: defender });
+        expect(sim.physics.getWorld().constraints.filter(c => c.label === 'grapple')).toHaveLength(0);
+        expect(defender.getPosition().y).toBeLessThan(260);
+
+        // The surviving boarders crew the prize; the dead are lost to the attacker
+        expect(defender.getCrew()).toBeGreaterThan(0);
+        expect(attacker.getCrew() + defender.getCrew()).toBeLessThan(12);
+    });
+
+    it('takes a ship whose crew has already struck without a fight', () => {
+        const sim = new HeadlessSimulation();
+        const attacker = sim.spawnShip(0, 0);
+        const defender = sim.spawnShip(0, 260);
+        const action = new BoardingAction(attacker, defender, sim.physics, true);
+
+        sim.step();
+        action.update(HeadlessSimulation.FIXED_TIMESTEP);
+
+        expect(action.getResult()).toEqual({ winner: attacker, loser: defender });
+        expect(defender.getCrew()).toBe(Math.ceil(12 * BoardingAction.BOARDING_PARTY));
+        expect(attacker.getCrew()).toBe(12 - defender.getCrew());
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { CurrentSystem } from '../src/engine/currentSystem';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+
+function speed(current: { x: number, y: number }): number {
+    return Math.hypot(current.x, current.y);
+}
+
+describe('CurrentSystem', () => {
+    it('gives the same currents for the same seed', () => {
+        expect(new CurrentSystem(42).getCurrentAt(1234, -567)).toEqual(new CurrentSystem(42).getCurrentAt(1234, -567));
+        expect(new CurrentSystem(42).getCurrentAt(0, 0)).not.toEqual(new CurrentSystem(43).getCurrentAt(0, 0));
+
+        // Switching seed (e.g. loading a save) gives that seed's currents from slack water
+        const reseeded = new CurrentSystem(43);
+        reseeded.update(CurrentSystem.TIDE_PERIOD / 3);
+        reseeded.setSeed(42);
+        expect(reseeded.getCurrentAt(1234, -567)).toEqual(new CurrentSystem(42).getCurrentAt(1234, -567));
+    });
+
+    it('reverses the tidal stream over a cycle', () => {
+        const currents = new CurrentSystem(7);
+        const slack = currents.getCurrentAt(0, 0);
+
+        currents.update(CurrentSystem.TIDE_PERIOD / 4);
+        const flood = currents.getCurrentAt(0, 0);
+        currents.update(CurrentSystem.TIDE_PERIOD / 2);
+        const ebb = currents.getCurrentAt(0, 0);
+
+        // The tide adds and then takes away the same stream either side of slack water
+        expect(flood.x - slack.x).toBeCloseTo(slack.x - ebb.x, 6);
+        expect(flood.y - slack.y).toBeCloseTo(slack.y - ebb.y, 6);
+        expect(Math.hypot(flood.x - slack.x, flood.y - slack.y)).toBeCloseTo(CurrentSystem.TIDE_SPEED, 6);
+    });
+
+    it('runs faster between close islands and not at all over land', () => {
+        const currents = new CurrentSystem(3);
+        const openWater = speed(currents.getCurrentAt(0, 0));
+
+        currents.setIslands([{ x: -500, y: 0, radius: 300 }, { x: 500, y: 0, radius: 300 }]);
+        const channel = currents.getCurrentAt(0, 0);
+
+        // The flow is turned along the channel (north-south here) and speeded up
+        expect(Math.abs(channel.x)).toBeCloseTo(0, 6);
+        expect(speed(channel)).toBeGreaterThan(0);
+        expect(currents.getCurrentAt(-500, 0)).toEqual({ x: 0, y: 0 });
+        expect(openWater).toBeGreaterThan(0);
+    });
+
+    it('carries a ship with furled sails and a swimmer along with the water', () => {
+        const sim = new HeadlessSimulation({ windPower: 10 });
+        const currents = new CurrentSystem(11);
+        sim.physics.setCurrentSystem(currents);
+        const ship = sim.spawnShip(0, 0);
+        ship.sails.forEach(sail => sail.setOpenness(0));
+        const player = sim.createPlayer(0, 1000);
+
+        const current = currents.getCurrentAt(0, 0);
+        sim.run(20);
+
+        // Both end up drifting downstream (the field barely changes over the distance covered)
+        for (const body of [ship.getBody()!, player.getBody()!]) {
+            const drift = { x: body.velocity.x * 60, y: body.velocity.y * 60 };
+            expect((drift.x * current.x + drift.y * current.y) / speed(current)).toBeGreaterThan(speed(current) * 0.7);
+        }
+    });
+});
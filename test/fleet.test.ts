@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { Fleet } from '../src/ai/fleet';
+import { ShipCaptain } from '../src/ai/shipCaptain';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+
+function distanceToStation(fleet: Fleet, captain: ShipCaptain): number {
+    const station = fleet.getStation(captain)!;
+    const pos = captain.ship.getPosition();
+    return Math.hypot(station.x - pos.x, station.y - pos.y);
+}
+
+describe('Fleet', () => {
+    it('places ships astern in line ahead, to either side in a wedge and ahead in a screen', () => {
+        const sim = new HeadlessSimulation();
+        const flagship = sim.spawnShip(0, 0);
+        const fleet = new Fleet(flagship);
+        const leader = new ShipCaptain(flagship, 'navy');
+        const first = new ShipCaptain(sim.spawnShip(-1000, 0), 'navy');
+        const second = new ShipCaptain(sim.spawnShip(-2000, 0), 'navy');
+        [leader, first, second].forEach(captain => fleet.addMember(captain));
+
+        // The flagship leads rather than keeping station
+        expect(fleet.getStation(leader)).toBeNull();
+        expect(fleet.getStation(second)).toMatchObject({ x: -2000, y: 0, heading: 0 });
+
+        fleet.setFormation('wedge');
+        expect(Math.sign(fleet.getStation(first)!.y)).toBe(-Math.sign(fleet.getStation(second)!.y));
+        expect(fleet.getStation(first)!.x).toBeLessThan(0);
+
+        fleet.setFormation('screen');
+        expect(fleet.getStation(first)!.x).toBeGreaterThan(0);
+    });
+
+    it('keeps station on a moving flagship with sail and rudder', () => {
+        const sim = new HeadlessSimulation({ windDirection: Math.PI / 2, windPower: 50 });
+        const flagship = sim.spawnShip(0, 0);
+        flagship.sails.forEach(sail => {
+            sail.setOpenness(50);
+            sail.rotate(75);
+        });
+
+        const fleet = new Fleet(flagship, 'wedge');
+        const captains = [1, 2].map(i => new ShipCaptain(sim.spawnShip(-1000 * i, 0), 'navy'));
+        captains.forEach(captain => fleet.addMember(captain));
+
+        sim.run(60, () => {
+            fleet.update([]);
+            captains.forEach(captain => captain.update(HeadlessSimulation.FIXED_TIMESTEP));
+        });
+
+        expect(flagship.getPosition().x).toBeGreaterThan(3000);
+        for (const captain of captains) {
+            expect(captain.getCurrentNode()).toBe('Keep Station');
+            expect(distanceToStation(fleet, captain)).toBeLessThan(100);
+        }
+    });
+
+    it('tells every escort where an enemy is once one of them has sighted it', () => {
+        const sim = new HeadlessSimulation();
+        const flagship = sim.spawnShip(0, 0);
+        const fleet = new Fleet(flagship, 'lineAhead', 'escort');
+        const leader = new ShipCaptain(flagship, 'navy');
+        const rear = new ShipCaptain(sim.spawnShip(-2000, 0), 'navy');
+        fleet.addMember(leader);
+        fleet.addMember(rear);
+
+        // Well beyond the rear ship's lookout, but close to the flagship
+        const enemy = sim.spawnShip(1200, 0);
+        fleet.update([enemy]);
+        leader.update(HeadlessSimulation.FIXED_TIMESTEP);
+        rear.update(HeadlessSimulation.FIXED_TIMESTEP);
+
+        expect(rear.canSeeTarget()).toBe(false);
+        expect(rear.getLastKnownTargetPosition()).toEqual({ x: 1200, y: 0 });
+        expect(rear.getCurrentNode()).toBe('Investigate');
+        expect(leader.getCurrentNode()).toBe('Chase');
+    });
+
+    it('falls back into formation once the ship it was ordered to attack is gone', () => {
+        const sim = new HeadlessSimulation();
+        const fleet = new Fleet(sim.createPlayer(0, 0));
+        const ally = new ShipCaptain(sim.spawnShip(-1000, 0), 'navy');
+        fleet.addMember(ally);
+        const enemy = sim.spawnShip(3000, 0);
+
+        fleet.setOrder('attack', enemy);
+        fleet.update([enemy]);
+        expect(ally.getTarget()).toBe(enemy);
+        expect(fleet.getStation(ally)).toBeNull();
+
+        fleet.update([]);
+        expect(fleet.getOrder()).toBe('follow');
+        expect(ally.getTarget()).toBeNull();
+        expect(fleet.getStation(ally)).not.toBeNull();
+    });
+});
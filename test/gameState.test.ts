@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GameStateManager, GameState } from '../src/engine/gameState';
+import { MemoryStorage } from '../src/utils/storage';
+
+describe('GameStateManager', () => {
+    it('adds points and counts destroyed ships', () => {
+        const state = new GameStateManager(new MemoryStorage());
+        state.addScore(25);
+        state.addShipDestroyed();
+
+        expect(state.getScore()).toBe(125);
+        expect(state.getShipsDestroyed()).toBe(1);
+    });
+
+    it('saves a new high score and loads it next game', () => {
+        const storage = new MemoryStorage();
+        const first = new GameStateManager(storage);
+        first.addScore(300);
+        expect(first.getHighScore()).toBe(300);
+
+        const second = new GameStateManager(storage);
+        expect(second.getHighScore()).toBe(300);
+
+        // A lower score leaves the high score alone
+        second.addScore(100);
+        expect(second.getHighScore()).toBe(300);
+        expect(storage.getItem('pirateGameHighScore')).toBe('300');
+    });
+
+    it('takes a share of the score as a penalty but keeps the high score', () => {
+        const state = new GameStateManager(new MemoryStorage());
+        state.addScore(250);
+
+        expect(state.loseScore(0.25)).toBe(62);
+        expect(state.getScore()).toBe(188);
+        expect(state.getHighScore()).toBe(250);
+    });
+
+    it('ignores a corrupt stored high score', () => {
+        const storage = new MemoryStorage();
+        storage.setItem('pirateGameHighScore', 'lots');
+        expect(new GameStateManager(storage).getHighScore()).toBe(0);
+    });
+
+    it('calls the game over callback once and resets for a new game', () => {
+        const state = new GameStateManager(new MemoryStorage());
+        const onGameOver = vi.fn();
+        state.setGameOverCallback(onGameOver);
+        state.addScore(50);
+
+        state.setGameOver();
+        state.setGameOver();
+        expect(onGameOver).toHaveBeenCalledTimes(1);
+        expect(state.isGameOver()).toBe(true);
+
+        state.resetGame();
+        expect(state.getState()).toBe(GameState.PLAYING);
+        expect(state.getScore()).toBe(0);
+        expect(state.getHighScore()).toBe(50);
+    });
+});
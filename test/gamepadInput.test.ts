@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { Input } from '../src/engine/input';
+import { Action, InputBindings, InputContext } from '../src/engine/inputBindings';
+import { GamepadInput, GamepadState } from '../src/engine/gamepadInput';
+import { MemoryStorage } from '../src/utils/storage';
+
+/**
+ * A standard-mapping pad whose sticks and buttons the test can set
+ */
+function createPad(): GamepadState & { axes: number[], buttons: { pressed: boolean, value: number }[] } {
+    return {
+        index: 0,
+        id: 'Test Pad',
+        connected: true,
+        axes: [0, 0, 0, 0],
+        buttons: Array.from({ length: 17 }, () => ({ pressed: false, value: 0 }))
+    };
+}
+
+function createInput(pads: (GamepadState | null)[], storage: MemoryStorage = new MemoryStorage()): Input {
+    const input = new Input(new InputBindings(storage), new GamepadInput(storage, () => pads));
+    input.setActiveContexts([InputContext.Gameplay, InputContext.OnFoot]);
+    return input;
+}
+
+describe('Gamepad input', () => {
+    it('drives movement with the left stick as far as it is pushed', () => {
+        const pad = createPad();
+        const input = createInput([pad]);
+
+        pad.axes[1] = -0.6;
+        input.update();
+
+        expect(input.isActionDown(Action.MoveForward)).toBe(true);
+        const value = input.getActionValue(Action.MoveForward);
+        expect(value).toBeGreaterThan(0.4);
+        expect(value).toBeLessThan(0.6);
+        expect(input.getActionValue(Action.MoveBack)).toBe(0);
+    });
+
+    it('ignores stick drift inside the dead zone', () => {
+        const storage = new MemoryStorage();
+        const pad = createPad();
+        const input = createInput([pad], storage);
+
+        pad.axes[0] = 0.1;
+        input.update();
+        expect(input.getActionValue(Action.MoveRight)).toBe(0);
+
+        // A smaller dead zone lets the same push through, and is remembered
+        input.getGamepad().setDeadZone(0.05);
+        input.update();
+        expect(input.getActionValue(Action.MoveRight)).toBeGreaterThan(0);
+        expect(new GamepadInput(storage, () => []).getDeadZone()).toBeCloseTo(0.05);
+    });
+
+    it('presses buttons for one step and fires with the trigger at a cannon', () => {
+        const pad = createPad();
+        const input = createInput([pad]);
+
+        pad.buttons[0] = { pressed: true, value: 1 };
+        input.update();
+        expect(input.wasActionJustPressed(Action.Interact)).toBe(true);
+        input.update();
+        expect(input.wasActionJustPressed(Action.Interact)).toBe(false);
+
+        input.setActiveContexts([InputContext.Gameplay, InputContext.OnFoot, InputContext.AtCannon]);
+        pad.buttons[7] = { pressed: false, value: 0.8 };
+        input.update();
+        expect(input.isActionDown(Action.FireCannon)).toBe(true);
+    });
+
+    it('moves the aim cursor with the right stick', () => {
+        const pad = createPad();
+        const input = createInput([pad]);
+        const start = input.getMousePosition();
+
+        pad.axes[2] = 1;
+        input.update(0.1);
+
+        expect(input.isUsingGamepadCursor()).toBe(true);
+        expect(input.getMousePosition().x).toBeCloseTo(start.x + Input.GAMEPAD_CURSOR_SPEED * 0.1);
+        expect(input.getMousePosition().y).toBe(start.y);
+    });
+
+    it('releases everything when the pad is unplugged and picks up a new one', () => {
+        const pad = createPad();
+        const pads: (GamepadState | null)[] = [pad];
+        const input = createInput(pads);
+
+        pad.axes[1] = -1;
+        input.update();
+        expect(input.isActionDown(Action.MoveForward)).toBe(true);
+
+        pads[0] = null;
+        input.update();
+        input.update();
+        expect(input.getGamepad().isConnected()).toBe(false);
+        expect(input.isActionDown(Action.MoveForward)).toBe(false);
+
+        const replacement = { ...createPad(), index: 1, id: 'Second Pad' };
+        pads[1] = replacement;
+        input.update();
+        expect(input.getGamepad().getId()).toBe('Second Pad');
+    });
+});
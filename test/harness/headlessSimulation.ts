@@ -0,0 +1,107 @@
+import { Physics } from '../../src/engine/physics';
+import { WindSystem } from '../../src/engine/windSystem';
+import { SoundManager } from '../../src/engine/soundManager';
+import { Input } from '../../src/engine/input';
+import { Brigantine } from '../../src/objects/ships/brigantine';
+import { getShipDefinition } from '../../src/objects/ships/shipDefinition';
+import { CannonModule } from '../../src/objects/shipModules/CannonModule';
+import { Cannons } from '../../src/objects/shipModules/cannons';
+import { Player } from '../../src/objects/player';
+
+export interface HeadlessSimulationOptions {
+    windDirection?: number; // Radians, direction the wind blows towards
+    windPower?: number;
+    dynamicWind?: boolean;  // Let the wind veer and gust (random) instead of holding it steady
+}
+
+/**
+ * Runs the ship simulation without a canvas, audio or the gameplay scene.
+ * Ships are registered with physics as ShipRoster.spawn does (without crews, rendering or mast
+ * bodies), and each step follows the order of GameplayScene.update and updateWorld: physics
+ * first, then wind forces and ship updates.
+ */
+export class HeadlessSimulation {
+    static readonly FIXED_TIMESTEP: number = 1 / 60;
+
+    readonly physics: Physics;
+    readonly windSystem: WindSystem;
+    readonly soundManager: SoundManager;
+    readonly ships: Brigantine[] = [];
+
+    private dynamicWind: boolean;
+    private elapsed: number = 0;
+
+    constructor(options: HeadlessSimulationOptions = {}) {
+        this.physics = new Physics();
+        this.windSystem = new WindSystem(options.windDirection ?? 0, options.windPower ?? 50);
+        this.soundManager = new SoundManager();
+        this.dynamicWind = options.dynamicWind ?? false;
+
+        this.physics.setSoundManager(this.soundManager);
+        CannonModule.setPhysics(this.physics);
+        CannonModule.setSoundManager(this.soundManager);
+        Cannons.setPhysics(this.physics);
+    }
+
+    /**
+     * Spawn a ship from a definition and register it with physics
+     */
+    public spawnShip(x: number, y: number, definitionId: string = 'brigantine'): Brigantine {
+        const ship = new Brigantine(x, y, getShipDefinition(definitionId));
+        this.physics.addBody(ship.getBody()!);
+        ship.setPhysicsEngine(this.physics);
+        ship.createPlankBodies(this.physics);
+        this.physics.registerShip(ship);
+
+        this.ships.push(ship);
+        return ship;
+    }
+
+    /**
+     * Create a player standing in the water
+     */
+    public createPlayer(x: number, y: number): Player {
+        const player = new Player(x, y, 20, new Input());
+        this.physics.addBody(player.getBody()!);
+        return player;
+    }
+
+    /**
+     * Advance one fixed step
+     */
+    public step(): void {
+        const delta = HeadlessSimulation.FIXED_TIMESTEP;
+
+        this.physics.update(delta * 1000);
+
+        if (this.dynamicWind) {
+            this.windSystem.update(delta);
+        }
+
+        for (const ship of this.ships) {
+            const pos = ship.getPosition();
+            const wind = this.windSystem.getWindAt(pos.x, pos.y);
+            ship.applyWindForce(wind.direction, wind.power);
+            ship.update(delta);
+        }
+
+        this.elapsed += delta;
+    }
+
+    /**
+     * Advance by a length of simulated time
+     * @param seconds Time to simulate
+     * @param eachStep Called before every step (e.g. to hold the helm over)
+     */
+    public run(seconds: number, eachStep?: () => void): void {
+        const steps = Math.round(seconds / HeadlessSimulation.FIXED_TIMESTEP);
+        for (let i = 0; i < steps; i++) {
+            if (eachStep) eachStep();
+            this.step();
+        }
+    }
+
+    public getElapsed(): number {
+        return this.elapsed;
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * Stand-ins for the browser APIs the game touches, so the simulation can run in Node
+ */
+
+/**
+ * A canvas 2D context that accepts every call and does nothing.
+ * Lets render paths run headlessly to check they don't throw.
+ */
+export function createStubContext(): CanvasRenderingContext2D {
+    const state: Record<string | symbol, unknown> = {};
+
+    // Gradients, patterns, text metrics and transforms all get this back
+    const stubResult = {
+        addColorStop: () => {},
+        setTransform: () => {},
+        width: 0
+    };
+
+    return new Proxy(state, {
+        get(target, prop) {
+            if (prop in target) return target[prop];
+            return () => stubResult;
+        },
+        set(target, prop, value) {
+            target[prop] = value;
+            return true;
+        }
+    }) as unknown as CanvasRenderingContext2D;
+}
+
+/**
+ * Path2D records nothing headlessly; ships only need to be able to build one
+ */
+export class StubPath2D {
+    addPath(): void {}
+    arc(): void {}
+    arcTo(): void {}
+    bezierCurveTo(): void {}
+    closePath(): void {}
+    ellipse(): void {}
+    lineTo(): void {}
+    moveTo(): void {}
+    quadraticCurveTo(): void {}
+    rect(): void {}
+}
+
+/**
+ * Install the globals that game classes expect from the browser.
+ * Audio and localStorage are intentionally left out - SoundManager and
+ * GameStateManager fall back to silent / in-memory behaviour without them.
+ */
+export function installHeadlessGlobals(): void {
+    const globals = globalThis as any;
+
+    if (typeof globals.Path2D === 'undefined') {
+        globals.Path2D = StubPath2D;
+    }
+
+    // Input listens for keyboard and mouse events on window
+    if (typeof globals.window === 'undefined') {
+        globals.window = new EventTarget();
+    }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import * as Matter from 'matter-js';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+
+describe('Brigantine hydrodynamics', () => {
+    it('lets the keel stop a sideways slide long before a forward glide', () => {
+        const sim = new HeadlessSimulation({ windPower: 10 });
+        const gliding = sim.spawnShip(0, 0);
+        const sliding = sim.spawnShip(0, 2000);
+        Matter.Body.setVelocity(gliding.getBody()!, { x: 2, y: 0 });
+        Matter.Body.setVelocity(sliding.getBody()!, { x: 0, y: 2 });
+
+        sim.run(1);
+
+        expect(Math.abs(sliding.getWaterFlow().sideways)).toBeLessThan(0.01);
+        expect(gliding.getWaterFlow().forward).toBeGreaterThan(0.05);
+    });
+
+    it('makes leeway close-hauled but not running before the wind', () => {
+        // Wind blows towards +y
+        const sim = new HeadlessSimulation({ windDirection: Math.PI / 2, windPower: 50 });
+        const closeHauled = sim.spawnShip(0, 0);
+        const running = sim.spawnShip(0, 3000);
+        Matter.Body.setAngle(closeHauled.getBody()!, -Math.PI / 4);
+        Matter.Body.setAngle(running.getBody()!, Math.PI / 2);
+        for (const ship of [closeHauled, running]) {
+            ship.sails.forEach(sail => {
+                sail.setOpenness(100);
+                sail.rotate(75);
+            });
+        }
+
+        sim.run(20);
+
+        // Sliding a few degrees off the heading towards the side the wind blows to
+        const flow = closeHauled.getWaterFlow();
+        const leeway = Math.atan2(flow.sideways, flow.forward);
+        expect(leeway).toBeGreaterThan(0.02);
+        expect(leeway).toBeLessThan(0.2);
+        expect(Math.abs(running.getWaterFlow().sideways)).toBeLessThan(0.01);
+    });
+
+    it('only steers with water flowing past the rudder', () => {
+        const sim = new HeadlessSimulation({ windPower: 10 });
+        const still = sim.spawnShip(0, 0);
+        const underway = sim.spawnShip(0, 2000);
+        Matter.Body.setVelocity(underway.getBody()!, { x: 2, y: 0 });
+
+        sim.run(1, () => {
+            still.applyRudder('right');
+            underway.applyRudder('right');
+        });
+
+        expect(still.getBody()!.angle).toBeCloseTo(0, 6);
+        expect(underway.getBody()!.angle).toBeGreaterThan(0.01);
+    });
+});
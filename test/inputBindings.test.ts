@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { Input } from '../src/engine/input';
+import { Action, InputBindings, InputContext, formatBinding } from '../src/engine/inputBindings';
+import { MemoryStorage } from '../src/utils/storage';
+
+function createInput(storage: MemoryStorage = new MemoryStorage()): Input {
+    return new Input(new InputBindings(storage));
+}
+
+describe('InputBindings', () => {
+    it('swaps keys with an action in the same context', () => {
+        const bindings = new InputBindings(new MemoryStorage());
+        const displaced = bindings.rebind(Action.OpenSails, 'a');
+
+        expect(displaced).toEqual([Action.RudderLeft]);
+        expect(bindings.getKeys(Action.OpenSails)).toEqual(['a', 'axis1-']);
+        expect(bindings.getKeys(Action.RudderLeft)).toEqual(['w', 'axis0-']);
+    });
+
+    it('leaves actions in contexts that are never active together alone', () => {
+        const bindings = new InputBindings(new MemoryStorage());
+        bindings.rebind(Action.FireCannon, 'w');
+
+        // Walking and the menus keep W
+        expect(bindings.getKeys(Action.MoveForward)).toContain('w');
+        expect(bindings.getKeys(Action.MenuUp)).toContain('w');
+    });
+
+    it('keeps rebinding across sessions until reset', () => {
+        const storage = new MemoryStorage();
+        new InputBindings(storage).rebind(Action.Interact, 'f');
+
+        const reloaded = new InputBindings(storage);
+        expect(reloaded.getKeys(Action.Interact)).toEqual(['f', 'pad0']);
+
+        reloaded.resetToDefaults();
+        expect(new InputBindings(storage).getKeys(Action.Interact)).toEqual(['e', 'pad0']);
+    });
+
+    it('ignores corrupt saved bindings', () => {
+        const storage = new MemoryStorage();
+        storage.setItem(InputBindings.STORAGE_KEY, JSON.stringify({ Interact: 5, Removed: ['x'], Pause: ['p'] }));
+
+        const bindings = new InputBindings(storage);
+        expect(bindings.getKeys(Action.Interact)).toEqual(['e', 'pad0']);
+        expect(bindings.getKeys(Action.Pause)).toEqual(['p']);
+    });
+
+    it('formats bindings for the controls menu', () => {
+        expect(formatBinding('shift+a')).toBe('Shift+A');
+        expect(formatBinding(' ')).toBe('Space');
+        expect(formatBinding('mouse0')).toBe('Left Click');
+
+        // Hints follow the player's own keys
+        const bindings = new InputBindings(new MemoryStorage());
+        bindings.rebind(Action.Grapple, 'g');
+        expect(bindings.getKeyLabel(Action.Grapple)).toBe('G / Pad B');
+    });
+});
+
+describe('Input actions', () => {
+    it('gives a shared key to the highest priority context', () => {
+        const input = createInput();
+        input.simulateKeyPress('w');
+
+        input.setActiveContexts([InputContext.Gameplay, InputContext.OnFoot]);
+        expect(input.isActionDown(Action.MoveForward)).toBe(true);
+        expect(input.isActionDown(Action.OpenSails)).toBe(false);
+
+        input.setActiveContexts([InputContext.Gameplay, InputContext.OnFoot, InputContext.AtWheel]);
+        expect(input.isActionDown(Action.OpenSails)).toBe(true);
+        expect(input.isActionDown(Action.MoveForward)).toBe(false);
+
+        // Keys the wheel doesn't use still walk
+        input.simulateKeyPress('arrowup');
+        expect(input.isActionDown(Action.MoveForward)).toBe(true);
+    });
+
+    it('prefers a held chord over the plain key', () => {
+        const input = createInput();
+        input.setActiveContexts([InputContext.Gameplay, InputContext.OnFoot, InputContext.AtWheel]);
+
+        input.simulateKeyPress('a');
+        expect(input.isActionDown(Action.RudderLeft)).toBe(true);
+
+        input.simulateKeyPress('shift');
+        expect(input.isActionDown(Action.RotateSailsLeft)).toBe(true);
+        expect(input.isActionDown(Action.RudderLeft)).toBe(false);
+    });
+
+    it('reports a quick tap for one step even if the key is already released', () => {
+        const input = createInput();
+        input.setActiveContexts([InputContext.Gameplay, InputContext.OnFoot]);
+
+        input.simulateKeyPress('e');
+        input.simulateKeyRelease('e');
+        expect(input.wasActionJustPressed(Action.Interact)).toBe(true);
+
+        input.update();
+        expect(input.wasActionJustPressed(Action.Interact)).toBe(false);
+    });
+
+    it('ignores actions from inactive contexts', () => {
+        const input = createInput();
+        input.setActiveContexts([InputContext.Menu]);
+        input.simulateKeyPress('escape');
+
+        expect(input.wasActionJustPressed(Action.MenuBack)).toBe(true);
+        expect(input.wasActionJustPressed(Action.Pause)).toBe(false);
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { IslandGenerator } from '../src/engine/islandGenerator';
+import { Camera } from '../src/engine/camera';
+import { Physics } from '../src/engine/physics';
+import { Canvas } from '../src/utils/canvas';
+
+// The camera only keeps the canvas for drawing, which these tests never do
+function createGenerator(seed: number): { islands: IslandGenerator, camera: Camera } {
+    const camera = new Camera({} as Canvas);
+    return { islands: new IslandGenerator(camera, {} as Canvas, new Physics(), seed), camera };
+}
+
+// Everything generated for the loaded chunks, in a comparable form
+function describeWorld(islands: IslandGenerator) {
+    return islands.getIslands()
+        .map(island => ({
+            id: island.id,
+            x: island.x,
+            y: island.y,
+            radius: island.radius,
+            hasPort: island.hasPort,
+            items: [...island.treasures, ...island.powerUps].map(item => ({
+                id: item.getId(),
+                type: item.getType(),
+                ...item.getPosition()
+            }))
+        }))
+        .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function itemIds(islands: IslandGenerator): string[] {
+    return describeWorld(islands).flatMap(island => island.items.map(item => item.id));
+}
+
+describe('IslandGenerator', () => {
+    it('generates the same islands and items from the same seed', () => {
+        const first = createGenerator(1234).islands;
+        const second = createGenerator(1234).islands;
+
+        expect(describeWorld(first).length).toBeGreaterThan(0);
+        expect(describeWorld(second)).toEqual(describeWorld(first));
+        expect(describeWorld(createGenerator(4321).islands)).not.toEqual(describeWorld(first));
+    });
+
+    it('gives a chunk the same islands when it is left and regenerated', () => {
+        const { islands, camera } = createGenerator(99);
+        const before = describeWorld(islands);
+
+        camera.setPosition(50000, 50000);
+        islands.update();
+        expect(islands.getIslands().some(island => before.some(b => b.id === island.id))).toBe(false);
+
+        camera.setPosition(0, 0);
+        islands.update();
+        expect(describeWorld(islands)).toEqual(before);
+    });
+
+    it('does not bring back collected items when their chunk regenerates', () => {
+        const { islands, camera } = createGenerator(7);
+        const ids = itemIds(islands);
+        expect(ids.length).toBeGreaterThan(1);
+
+        const [collected, ...others] = ids;
+        islands.markCollected(collected);
+
+        camera.setPosition(50000, 50000);
+        islands.update();
+        camera.setPosition(0, 0);
+        islands.update();
+        expect(itemIds(islands)).toEqual(others);
+
+        // Nor when the whole world is rebuilt from a save
+        islands.reset(7, islands.getCollectedItems());
+        expect(itemIds(islands)).toEqual(others);
+    });
+});
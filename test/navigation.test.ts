@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { Navigation } from '../src/ai/navigation';
+
+function pathLength(start: { x: number, y: number }, route: { x: number, y: number }[]): number {
+    let length = 0;
+    let from = start;
+    for (const waypoint of route) {
+        length += Math.hypot(waypoint.x - from.x, waypoint.y - from.y);
+        from = waypoint;
+    }
+    return length;
+}
+
+describe('Navigation', () => {
+    it('sails straight when nothing is in the way', () => {
+        const navigation = new Navigation();
+        navigation.setObstacles([{ id: 'a', x: 500, y: 1000, radius: 200 }]);
+
+        expect(navigation.findPath({ x: 0, y: 0 }, { x: 1000, y: 0 }, 100)).toEqual([{ x: 1000, y: 0 }]);
+    });
+
+    it('routes around an island with the clearance asked for', () => {
+        const navigation = new Navigation();
+        const island = { id: 'a', x: 500, y: 0, radius: 200 };
+        navigation.setObstacles([island]);
+
+        const start = { x: 0, y: 0 };
+        const route = navigation.findPath(start, { x: 1000, y: 0 }, 150)!;
+
+        expect(route.length).toBeGreaterThan(1);
+        expect(route[route.length - 1]).toEqual({ x: 1000, y: 0 });
+
+        // Every leg keeps its distance from the island
+        let from = start;
+        for (const waypoint of route) {
+            expect(navigation.isPathClear(from, waypoint, 150)).toBe(true);
+            from = waypoint;
+        }
+        expect(pathLength(start, route)).toBeLessThan(1500);
+    });
+
+    it('finds a way through a gap and re-plans when the islands change', () => {
+        const navigation = new Navigation();
+        navigation.setObstacles([
+            { id: 'a', x: 500, y: -400, radius: 250 },
+            { id: 'b', x: 500, y: 400, radius: 250 }
+        ]);
+        const version = navigation.getVersion();
+
+        // A small boat fits between the islands, a big one has to go round
+        const start = { x: 0, y: 0 };
+        const goal = { x: 1000, y: 0 };
+        const narrow = navigation.findPath(start, goal, 50)!;
+        const wide = navigation.findPath(start, goal, 200)!;
+        expect(pathLength(start, narrow)).toBeCloseTo(1000);
+        expect(pathLength(start, wide)).toBeGreaterThan(1200);
+
+        navigation.setObstacles([]);
+        expect(navigation.getVersion()).not.toBe(version);
+        expect(navigation.findPath(start, goal, 200)).toEqual([goal]);
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import Matter from 'matter-js';
+import { createCompleteHullSegments } from '../src/objects/ships/plankUtils';
+import { getShipDefinition, getShipDefinitionIds } from '../src/objects/ships/shipDefinition';
+import { CollisionCategories } from '../src/utils/color';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+import { createStubContext } from './harness/stubs';
+
+describe('createCompleteHullSegments', () => {
+    it('creates the requested number of segments for each section', () => {
+        const hull = getShipDefinition('brigantine').hull;
+        const segments = createCompleteHullSegments(hull, 10, { bow: 3, stern: 2, side: 4 });
+
+        const count = (name: string) => segments.filter(s => s.sectionName === name).length;
+        expect(count('port_bow')).toBe(3);
+        expect(count('starboard_bow')).toBe(3);
+        expect(count('port_stern')).toBe(2);
+        expect(count('starboard_stern')).toBe(2);
+        expect(count('port_side')).toBe(4);
+        expect(count('starboard_side')).toBe(4);
+    });
+
+    it('joins the segments into a closed outline', () => {
+        const hull = getShipDefinition('brigantine').hull;
+        const segments = createCompleteHullSegments(hull, 10);
+
+        for (const segment of segments) {
+            // Every segment end meets the start of another segment
+            const joined = segments.some(other =>
+                other !== segment &&
+                Math.hypot(other.start.x - segment.end.x, other.start.y - segment.end.y) < 1e-6
+            );
+            expect(joined).toBe(true);
+        }
+    });
+});
+
+describe('Brigantine.createPlankBodies', () => {
+    it.each(getShipDefinitionIds())('adds one deck-element body per plank for the %s', (id) => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0, id);
+        const counts = getShipDefinition(id).plankSegments;
+
+        const planks = Matter.Composite.allBodies(sim.physics.getWorld())
+            .filter(body => body.label.startsWith('brigantine_plank_'));
+
+        expect(ship.getPlankCount()).toBe((counts.bow + counts.stern + counts.side) * 2);
+        expect(planks.length).toBe(ship.getPlankCount());
+        for (const plank of planks) {
+            expect(plank.collisionFilter.category).toBe(CollisionCategories.DECK_ELEMENT);
+            expect(plank.collisionFilter.mask! & CollisionCategories.PLAYER).toBeTruthy();
+        }
+    });
+
+    it('replaces the old planks when called again', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        ship.createPlankBodies(sim.physics);
+
+        const planks = Matter.Composite.allBodies(sim.physics.getWorld())
+            .filter(body => body.label.startsWith('brigantine_plank_'));
+        expect(planks.length).toBe(ship.getPlankCount());
+    });
+
+    it('keeps plank damage and holes when the bodies are rebuilt', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        ship.damagePlank(3, 40);
+        ship.damagePlank(0, 1000);
+        ship.createPlankBodies(sim.physics);
+
+        const planks = Matter.Composite.allBodies(sim.physics.getWorld())
+            .filter(body => body.label.startsWith('brigantine_plank_'));
+        expect(ship.getPlankState(3)!.health).toBe(60);
+        expect(ship.getPlankState(0)!.broken).toBe(true);
+        expect(planks.length).toBe(ship.getPlankCount() - 1);
+    });
+
+    it('damages the plank that was struck even if an earlier plank failed to build', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const rectangle = Matter.Bodies.rectangle;
+        const failOnce = vi.spyOn(Matter.Bodies, 'rectangle')
+            .mockImplementationOnce(() => { throw new Error('degenerate plank'); })
+            .mockImplementation(rectangle);
+        const quiet = vi.spyOn(console, 'error').mockImplementation(() => {});
+        ship.createPlankBodies(sim.physics);
+        failOnce.mockRestore();
+        quiet.mockRestore();
+
+        const struck = ship.getPlankState(5)!;
+        const body = Matter.Composite.allBodies(sim.physics.getWorld())
+            .find(body => body.label === `brigantine_plank_${struck.sectionName}_${struck.index}`)!;
+        ship.applyProjectileHit(body, 20, body.position);
+
+        expect(ship.getPlankState(5)!.health).toBe(80);
+        expect(ship.getPlankState(4)!.health).toBe(100);
+    });
+
+    it('renders headlessly', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        expect(() => ship.render(createStubContext())).not.toThrow();
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import * as Matter from 'matter-js';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+import { CollisionCategories } from '../src/utils/color';
+import { Player } from '../src/objects/player';
+
+describe('Player injuries', () => {
+    it('is hurt less towards the edge of a blast', () => {
+        const sim = new HeadlessSimulation();
+        const player = sim.createPlayer(0, 0);
+        sim.physics.setBlastCallback((x, y, radius, damage) => player.takeBlast(x, y, radius, damage));
+
+        sim.physics.reportBlast(0, 200, 50, 20);
+        expect(player.getHealth()).toBe(100);
+
+        sim.physics.reportBlast(0, 45, 50, 20);
+        const grazed = 100 - player.getHealth();
+        expect(grazed).toBeGreaterThan(0);
+
+        sim.physics.reportBlast(0, 0, 50, 20);
+        expect(100 - player.getHealth() - grazed).toBe(20);
+    });
+
+    it('is hurt when a ship runs it down', () => {
+        const sim = new HeadlessSimulation({ windDirection: 0, windPower: 80 });
+        const ship = sim.spawnShip(0, 0);
+        ship.sails.forEach(sail => sail.setOpenness(100));
+        const player = sim.createPlayer(1500, 0);
+        sim.physics.setPlayerStruckCallback((_, speed) => player.takeImpact(speed));
+
+        sim.run(30);
+        expect(player.getHealth()).toBeLessThan(80);
+    });
+
+    it('falls from the rigging when the ship runs aground, but can climb down safely', () => {
+        const sail = (climbDown: boolean) => {
+            const sim = new HeadlessSimulation({ windDirection: 0, windPower: 80 });
+            const ship = sim.spawnShip(0, 0);
+            ship.sails.forEach(sail => sail.setOpenness(100));
+            sim.physics.addBody(Matter.Bodies.circle(2500, 0, 300, {
+                isStatic: true,
+                collisionFilter: { category: CollisionCategories.ISLAND, mask: CollisionCategories.ALL, group: 0 },
+                label: 'island'
+            }));
+            const player = sim.createPlayer(0, 300);
+            player.boardShip(ship);
+            player.climbMast([...ship.sails.values()][0]);
+            expect(player.isAloft()).toBe(true);
+
+            sim.run(40, () => {
+                if (climbDown && sim.getElapsed() > 5) player.climbDown();
+                player.setSurroundings(Infinity, null);
+                player.update(HeadlessSimulation.FIXED_TIMESTEP);
+            });
+            return player;
+        };
+
+        // Running aground throws everyone aboard about; those aloft fall as well
+        const fell = sail(false);
+        const climbed = sail(true);
+        expect(fell.isAloft()).toBe(false);
+        expect(climbed.getHealth()).toBeLessThan(Player.MAX_HEALTH);
+        expect(fell.getHealth()).toBeCloseTo(climbed.getHealth() - Player.FALL_DAMAGE, 6);
+    });
+});
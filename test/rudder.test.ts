@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+
+describe('Brigantine.applyRudder', () => {
+    it('limits the rudder to 30 degrees and turns the wheel with it', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+
+        for (let i = 0; i < 500; i++) ship.applyRudder('right');
+        expect(ship.rudderAngle).toBe(30);
+        expect(ship.wheels.get('wheel')!.wheelAngle).toBe(30);
+
+        for (let i = 0; i < 1000; i++) ship.applyRudder('left');
+        expect(ship.rudderAngle).toBe(-30);
+
+        for (let i = 0; i < 1000; i++) ship.applyRudder('center');
+        expect(ship.rudderAngle).toBe(0);
+    });
+
+    it('turns the ship towards the side the rudder is put over', () => {
+        const sim = new HeadlessSimulation({ windDirection: 0 });
+        const starboard = sim.spawnShip(0, 0);
+        const port = sim.spawnShip(0, 2000);
+        for (const ship of [starboard, port]) {
+            ship.sails.forEach(sail => sail.setOpenness(100));
+        }
+
+        // Get under way, then put the helm over
+        sim.run(2);
+        sim.run(3, () => {
+            starboard.applyRudder('right');
+            port.applyRudder('left');
+        });
+
+        expect(starboard.getBody()!.angle).toBeGreaterThan(0.05);
+        expect(port.getBody()!.angle).toBeLessThan(-0.05);
+    });
+});
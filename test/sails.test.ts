@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { SailModule } from '../src/objects/shipModules/SailModule';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+
+describe('SailModule.calculateEfficiency', () => {
+    it('is full with the wind directly astern', () => {
+        const sail = new SailModule({ x: 0, y: 0 });
+        sail.setOpenness(100);
+        expect(sail.calculateEfficiency(0, 0)).toBeCloseTo(1.0);
+    });
+
+    it('drops to the minimum with the wind on the beam or ahead', () => {
+        const sail = new SailModule({ x: 0, y: 0 });
+        sail.setOpenness(100);
+        expect(sail.calculateEfficiency(Math.PI / 2, 0)).toBeCloseTo(0.35);
+        expect(sail.calculateEfficiency(Math.PI, 0)).toBeCloseTo(0.35);
+    });
+
+    it('scales with openness', () => {
+        const sail = new SailModule({ x: 0, y: 0 });
+        sail.setOpenness(50);
+        expect(sail.calculateEfficiency(0, 0)).toBeCloseTo(0.5);
+        sail.setOpenness(0);
+        expect(sail.calculateEfficiency(0, 0)).toBe(0);
+    });
+
+    it('recovers efficiency when the sail is trimmed towards the wind', () => {
+        const sail = new SailModule({ x: 0, y: 0 });
+        sail.setOpenness(100);
+        const untrimmed = sail.calculateEfficiency(Math.PI / 3, 0);
+        sail.rotate(60);
+        expect(sail.calculateEfficiency(Math.PI / 3, 0)).toBeGreaterThan(untrimmed);
+    });
+});
+
+describe('Brigantine sailing', () => {
+    it('reports no sail efficiency with the sails furled', () => {
+        const sim = new HeadlessSimulation({ windDirection: 0 });
+        const ship = sim.spawnShip(0, 0);
+        ship.applyWindForce(0, 50);
+        expect(ship.calculateSailEfficiency()).toBe(0);
+    });
+
+    it('runs downwind faster with open sails than closed', () => {
+        const sim = new HeadlessSimulation({ windDirection: 0, windPower: 50 });
+        const open = sim.spawnShip(0, 0);
+        const closed = sim.spawnShip(0, 2000);
+        open.sails.forEach(sail => sail.setOpenness(100));
+
+        sim.run(3);
+
+        expect(open.getBody()!.velocity.x).toBeGreaterThan(0.1);
+        expect(open.getPosition().x).toBeGreaterThan(closed.getPosition().x);
+        expect(Math.abs(closed.getBody()!.velocity.x)).toBeLessThan(0.01);
+    });
+});
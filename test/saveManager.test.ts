@@ -0,0 +1,267 @@
+import { describe, it, expect } from 'vitest';
+import { SaveManager, SaveData, SaveMigration, SaveRecord, ShipSaveState, SAVE_VERSION, validateSaveData } from '../src/engine/saveManager';
+import { MemoryStorage } from '../src/utils/storage';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+import { Cannonball } from '../src/objects/projectiles/cannonball';
+
+function createSave(overrides: Partial<SaveData> = {}): SaveData {
+    return {
+        version: SAVE_VERSION,
+        savedAt: '',
+        worldSeed: 1234,
+        score: 250,
+        shipsDestroyed: 2,
+        collectedItems: ['0,0:1:treasure:0'],
+        wind: { direction: 1, basePower: 50 },
+        player: { x: 10, y: 20, velocity: { x: 0, y: 0 }, health: 80, boardedShip: null, lastPort: null },
+        ships: [],
+        aiShips: [],
+        fleets: [],
+        ...overrides
+    };
+}
+
+/**
+ * A current save with one ship, and that ship and the player, to be turned into an older save
+ */
+interface OldSave {
+    save: SaveRecord;
+    ship: SaveRecord;
+    player: SaveRecord;
+    state: ShipSaveState;
+}
+
+interface MigrationCase {
+    version: number;
+    change: string;
+    // Take out or change what that version saved differently
+    downgrade: (old: OldSave) => void;
+    expectUpgraded: (loaded: SaveData) => void;
+}
+
+const MIGRATION_CASES: MigrationCase[] = [
+    {
+        version: 1,
+        change: 'with no AI ships',
+        downgrade: ({ save }) => { delete save.aiShips; },
+        expectUpgraded: loaded => expect(loaded.aiShips).toEqual([])
+    },
+    {
+        version: 2,
+        change: 'giving their hunters a captain',
+        downgrade: ({ save }) => { save.aiShips = [0]; },
+        expectUpgraded: loaded => expect(loaded.aiShips).toEqual([{ ship: 0, archetype: 'pirateHunter', surrendered: false }])
+    },
+    {
+        version: 3,
+        change: 'with every ship sailing alone',
+        downgrade: ({ save }) => { delete save.fleets; },
+        expectUpgraded: loaded => expect(loaded.fleets).toEqual([])
+    },
+    {
+        version: 4,
+        change: 'with every anchor stowed',
+        downgrade: ({ ship }) => { delete ship.anchors; },
+        expectUpgraded: loaded => expect(loaded.ships[0].anchors).toEqual([])
+    },
+    {
+        version: 5,
+        change: 'with no port visited',
+        downgrade: ({ player }) => { delete player.lastPort; },
+        expectUpgraded: loaded => expect(loaded.player.lastPort).toBeNull()
+    },
+    {
+        version: 6,
+        change: 'with every ship fully crewed',
+        downgrade: ({ ship }) => { delete ship.crew; },
+        expectUpgraded: loaded => expect(loaded.ships[0].crew).toBeNull()
+    },
+    {
+        version: 7,
+        change: 'with full shot lockers and nothing burning',
+        downgrade: ({ ship }) => {
+            delete ship.ammo;
+            delete ship.fires;
+        },
+        expectUpgraded: loaded => {
+            expect(loaded.ships[0].ammo).toBeNull();
+            expect(loaded.ships[0].fires).toEqual([]);
+        }
+    },
+    {
+        version: 8,
+        change: 'with the guns at their old elevation',
+        downgrade: ({ ship, state }) => { ship.cannons = state.cannons.map(({ elevation, ...cannon }) => cannon); },
+        expectUpgraded: loaded => {
+            expect(loaded.ships[0].cannons.every(cannon => cannon.elevation === Cannonball.DEFAULT_ELEVATION)).toBe(true);
+        }
+    }
+];
+
+describe('SaveManager', () => {
+    it('round-trips a save through storage', () => {
+        const saves = new SaveManager(new MemoryStorage());
+        expect(saves.hasSave()).toBe(false);
+        expect(saves.load()).toBeNull();
+
+        expect(saves.save(createSave())).toBe(true);
+        const loaded = saves.load()!;
+
+        expect(saves.hasSave()).toBe(true);
+        expect(loaded.version).toBe(SAVE_VERSION);
+        expect(loaded.savedAt).not.toBe('');
+        expect(loaded.worldSeed).toBe(1234);
+        expect(loaded.collectedItems).toEqual(['0,0:1:treasure:0']);
+
+        saves.deleteSave();
+        expect(saves.hasSave()).toBe(false);
+    });
+
+    it('applies migrations in order up to the current version', () => {
+        const storage = new MemoryStorage();
+        const migrations: Record<number, SaveMigration> = {
+            1: data => ({ ...data, score: data.points, points: undefined }),
+            2: data => ({ ...data, collectedItems: data.collectedItems ?? [] })
+        };
+        const saves = new SaveManager(storage, migrations, 3);
+
+        const { score, collectedItems, ...oldSave } = createSave();
+        storage.setItem(SaveManager.SAVE_KEY, JSON.stringify({ ...oldSave, version: 1, points: 75 }));
+
+        const loaded = saves.load()!;
+        expect(loaded.version).toBe(3);
+        expect(loaded.score).toBe(75);
+        expect(loaded.collectedItems).toEqual([]);
+    });
+
+    it('rejects saves it cannot upgrade', () => {
+        const saves = new SaveManager(new MemoryStorage(), {}, 2);
+
+        expect(() => saves.migrate({ version: 1 })).toThrow(/No migration from save version 1/);
+        expect(() => saves.migrate({ version: 5 })).toThrow(/newer/);
+        expect(() => saves.migrate({})).toThrow(/no version/);
+    });
+
+    it('returns null for corrupt saves', () => {
+        const storage = new MemoryStorage();
+        const saves = new SaveManager(storage);
+
+        storage.setItem(SaveManager.SAVE_KEY, '{not json');
+        expect(saves.load()).toBeNull();
+
+        storage.setItem(SaveManager.SAVE_KEY, JSON.stringify({ version: SAVE_VERSION, ships: 'none' }));
+        expect(saves.load()).toBeNull();
+    });
+
+    for (const { version, change, downgrade, expectUpgraded } of MIGRATION_CASES) {
+        it(`upgrades version ${version} saves ${change}`, () => {
+            const state = new HeadlessSimulation().spawnShip(0, 0).getSaveState();
+            const ship: SaveRecord = { ...state };
+            const player: SaveRecord = { ...createSave().player };
+            const save: SaveRecord = { ...createSave(), version, ships: [ship], player };
+            downgrade({ save, ship, player, state });
+
+            const storage = new MemoryStorage();
+            storage.setItem(SaveManager.SAVE_KEY, JSON.stringify(save));
+
+            const loaded = new SaveManager(storage).load()!;
+            expect(loaded.version).toBe(SAVE_VERSION);
+            expectUpgraded(loaded);
+        });
+    }
+
+    it('rejects ships whose modules or motion are not numbers', () => {
+        const ship = new HeadlessSimulation().spawnShip(0, 0).getSaveState();
+        // NaN and Infinity come back from JSON as null
+        const broken = JSON.parse(JSON.stringify({
+            ...ship,
+            velocity: { x: NaN, y: 0 },
+            sails: ship.sails.map(sail => ({ ...sail, openness: Infinity })),
+            cannons: ship.cannons.map(cannon => ({ ...cannon, elevation: NaN })),
+            wheels: undefined
+        }));
+
+        expect(validateSaveData(createSave({ ships: [ship] }))).toEqual([]);
+        expect(validateSaveData(createSave({ ships: [broken] }))).toEqual([
+            'ships[0] must have numeric velocity, angularVelocity and force',
+            'ships[0].sails must be an array of sails with numeric openness and angle',
+            'ships[0].wheels must be an array of wheels with a numeric angle',
+            'ships[0].cannons must be an array of guns with numeric aimAngle, elevation and reloadTimer'
+        ]);
+    });
+
+    it('rejects saves that would fail to apply', () => {
+        const state = new HeadlessSimulation().spawnShip(0, 0).getSaveState();
+        const { water, ...ship } = state;
+        const storage = new MemoryStorage();
+        storage.setItem(SaveManager.SAVE_KEY, JSON.stringify({
+            ...createSave(),
+            ships: [{ ...ship, planks: [{}, ...ship.planks.slice(1)] }]
+        }));
+
+        // Loading it would have thrown halfway through rebuilding the ship
+        expect(new SaveManager(storage).load()).toBeNull();
+
+        // Nor does any other field the ship or player is rebuilt from go unchecked
+        for (const field of Object.keys(state)) {
+            const missing: SaveRecord = { ...state };
+            delete missing[field];
+            expect(validateSaveData({ ...createSave(), ships: [missing] }), field).not.toEqual([]);
+        }
+        for (const field of ['velocity', 'health']) {
+            const missing: SaveRecord = { ...createSave().player };
+            delete missing[field];
+            expect(validateSaveData({ ...createSave(), player: missing }), field).not.toEqual([]);
+        }
+    });
+
+    it('rejects anchors in an unknown state', () => {
+        const ship = new HeadlessSimulation().spawnShip(0, 0).getSaveState();
+        const anchors = ship.anchors.map(anchor => ({ ...anchor, state: 'adrift' }));
+        expect(anchors.length).toBeGreaterThan(0);
+
+        expect(validateSaveData({ ...createSave(), ships: [{ ...ship, anchors }] })).toEqual([
+            'ships[0].anchors must be an array of anchors with a known state and numeric rode, timer and health'
+        ]);
+    });
+
+    it('checks the boarded ship index', () => {
+        const save = createSave({ player: { x: 0, y: 0, velocity: { x: 0, y: 0 }, health: 100, boardedShip: 0, lastPort: null } });
+        expect(validateSaveData(save)).toContain('player.boardedShip must be the index of a saved ship or null');
+    });
+});
+
+describe('Brigantine save state', () => {
+    it('rebuilds a ship that then sails on identically', () => {
+        const original = new HeadlessSimulation({ windDirection: 0.5 });
+        const ship = original.spawnShip(100, 200);
+        ship.sails.forEach(sail => {
+            sail.setOpenness(80);
+            sail.rotate(20);
+        });
+        ship.damagePlank(0, 1000);
+        ship.damagePlank(3, 40);
+        ship.startFire(5);
+        ship.getAmmoLocker().select('chain');
+        ship.getAmmoLocker().take('chain');
+        original.run(2, () => ship.applyRudder('right'));
+
+        // Through JSON like a real save
+        const state = JSON.parse(JSON.stringify(ship.getSaveState()));
+
+        const restored = new HeadlessSimulation({ windDirection: 0.5 });
+        const copy = restored.spawnShip(state.x, state.y, state.definitionId);
+        copy.applySaveState(state);
+
+        expect(copy.getSaveState()).toEqual(state);
+        expect(copy.getPlankState(0)!.broken).toBe(true);
+        expect(copy.getBrokenPlankCount()).toBe(ship.getBrokenPlankCount());
+
+        original.run(1);
+        restored.run(1);
+        expect(copy.getPosition().x).toBeCloseTo(ship.getPosition().x, 6);
+        expect(copy.getPosition().y).toBeCloseTo(ship.getPosition().y, 6);
+        expect(copy.getRotation()).toBeCloseTo(ship.getRotation(), 6);
+        expect(copy.getFloodLevel()).toBeCloseTo(ship.getFloodLevel(), 6);
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { Input } from '../src/engine/input';
+import { Scene } from '../src/scenes/scene';
+import { SceneManager, GameServices } from '../src/scenes/sceneManager';
+
+/**
+ * Scene that records what the manager does to it
+ */
+class RecordingScene extends Scene {
+    events: string[] = [];
+    updates: number = 0;
+    renders: number = 0;
+    overlay: boolean = false;
+    onInput: (() => void) | null = null;
+
+    public override isOverlay(): boolean { return this.overlay; }
+    public override onEnter(): void { this.events.push('enter'); }
+    public override onExit(): void { this.events.push('exit'); }
+    public override onPause(): void { this.events.push('pause'); }
+    public override onResume(): void { this.events.push('resume'); }
+
+    public handleInput(input: Input): void {
+        if (this.onInput) this.onInput();
+    }
+
+    public update(delta: number): void {
+        this.updates++;
+    }
+
+    public render(ctx: CanvasRenderingContext2D, alpha: number): void {
+        this.renders++;
+    }
+}
+
+function createManager(): SceneManager {
+    return new SceneManager({ input: new Input() } as unknown as GameServices);
+}
+
+describe('SceneManager', () => {
+    it('only updates the top scene, freezing the ones below', () => {
+        const scenes = createManager();
+        const game = new RecordingScene(scenes);
+        const pause = new RecordingScene(scenes);
+
+        scenes.push(game);
+        scenes.update(1 / 60);
+        scenes.push(pause);
+        scenes.update(1 / 60);
+        scenes.update(1 / 60);
+
+        expect(game.updates).toBe(1);
+        expect(pause.updates).toBe(2);
+        expect(game.events).toEqual(['enter', 'pause']);
+
+        scenes.pop();
+        expect(game.events).toEqual(['enter', 'pause', 'resume']);
+        expect(pause.events).toEqual(['enter', 'exit']);
+        expect(scenes.getTop()).toBe(game);
+    });
+
+    it('draws overlays on top of the scene below them', () => {
+        const scenes = createManager();
+        const menu = new RecordingScene(scenes);
+        const game = new RecordingScene(scenes);
+        const pause = new RecordingScene(scenes);
+        pause.overlay = true;
+
+        scenes.push(menu);
+        scenes.push(game);
+        scenes.push(pause);
+        scenes.render({} as CanvasRenderingContext2D, 1);
+
+        // The menu is hidden behind the full-screen game
+        expect(menu.renders).toBe(0);
+        expect(game.renders).toBe(1);
+        expect(pause.renders).toBe(1);
+    });
+
+    it('skips the update when input handling changes the stack', () => {
+        const scenes = createManager();
+        const game = new RecordingScene(scenes);
+        const pause = new RecordingScene(scenes);
+        game.onInput = () => scenes.push(pause);
+
+        scenes.push(game);
+        scenes.update(1 / 60);
+
+        expect(game.updates).toBe(0);
+        expect(pause.updates).toBe(0);
+        expect(scenes.getTop()).toBe(pause);
+    });
+
+    it('resets to a single scene, exiting everything else', () => {
+        const scenes = createManager();
+        const game = new RecordingScene(scenes);
+        const pause = new RecordingScene(scenes);
+        const menu = new RecordingScene(scenes);
+
+        scenes.push(game);
+        scenes.push(pause);
+        scenes.reset(menu);
+
+        expect(scenes.getSceneCount()).toBe(1);
+        expect(scenes.getTop()).toBe(menu);
+        expect(game.events).toContain('exit');
+        expect(pause.events).toContain('exit');
+        expect(scenes.find(RecordingScene)).toBe(menu);
+    });
+});
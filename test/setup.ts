@@ -0,0 +1,9 @@
+import { beforeAll, vi } from 'vitest';
+import { installHeadlessGlobals } from './harness/stubs';
+
+installHeadlessGlobals();
+
+// The game logs heavily; keep test output readable (warnings and errors still show)
+beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
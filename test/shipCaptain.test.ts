@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import * as Matter from 'matter-js';
+import { ShipCaptain } from '../src/ai/shipCaptain';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+
+function damage(ship: ReturnType<HeadlessSimulation['spawnShip']>, fraction: number): void {
+    ship.setPlankHealth(100 * (1 - fraction));
+}
+
+describe('ShipCaptain', () => {
+    it('patrols until the target comes in sight, then chases and engages it', () => {
+        const sim = new HeadlessSimulation({ windDirection: Math.PI / 2 });
+        const ship = sim.spawnShip(0, 0);
+        const target = sim.spawnShip(3000, 0);
+        const captain = new ShipCaptain(ship, 'navy', [{ x: 0, y: -2000 }, { x: 0, y: 2000 }]);
+        captain.setTarget(target);
+
+        captain.update(HeadlessSimulation.FIXED_TIMESTEP);
+        expect(captain.getCurrentNode()).toBe('Patrol');
+        expect(captain.helmsman.getDestination()).toEqual({ x: 0, y: -2000 });
+
+        Matter.Body.setPosition(target.getBody()!, { x: 1200, y: target.getPosition().y });
+        target.update(0);
+        captain.update(HeadlessSimulation.FIXED_TIMESTEP);
+        expect(captain.getCurrentNode()).toBe('Chase');
+
+        Matter.Body.setPosition(target.getBody()!, { x: 500, y: target.getPosition().y });
+        target.update(0);
+        captain.update(HeadlessSimulation.FIXED_TIMESTEP);
+        expect(captain.getCurrentNode()).toBe('Broadside');
+        expect(captain.helmsman.getTarget()).toBe(target);
+    });
+
+    it('searches where the target was last seen, then gives up', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const target = sim.spawnShip(1000, 0);
+        const captain = new ShipCaptain(ship, 'pirateHunter');
+        captain.setTarget(target);
+        captain.update(HeadlessSimulation.FIXED_TIMESTEP);
+
+        captain.setTarget(null);
+        captain.update(HeadlessSimulation.FIXED_TIMESTEP);
+        expect(captain.getCurrentNode()).toBe('Investigate');
+        expect(captain.helmsman.getDestination()).toEqual({ x: 1000, y: 0 });
+
+        // Arriving at an empty sea ends the search
+        Matter.Body.setPosition(ship.getBody()!, { x: 950, y: ship.getPosition().y });
+        ship.update(0);
+        captain.update(HeadlessSimulation.FIXED_TIMESTEP);
+        expect(captain.getLastKnownTargetPosition()).toBeNull();
+    });
+
+    it('runs when a navy ship is badly damaged and a merchant strikes its colours', () => {
+        const sim = new HeadlessSimulation();
+        const navyShip = sim.spawnShip(0, 0);
+        const merchantShip = sim.spawnShip(0, 2000);
+        const target = sim.spawnShip(600, 1000);
+
+        const navy = new ShipCaptain(navyShip, 'navy');
+        const merchant = new ShipCaptain(merchantShip, 'merchant');
+        for (const captain of [navy, merchant]) {
+            captain.setTarget(target);
+        }
+
+        // A merchant just runs from a threat while it is unharmed
+        merchant.update(HeadlessSimulation.FIXED_TIMESTEP);
+        expect(merchant.getCurrentNode()).toBe('Flee');
+
+        damage(navyShip, 0.7);
+        damage(merchantShip, 0.4);
+        navy.update(HeadlessSimulation.FIXED_TIMESTEP);
+        merchant.update(HeadlessSimulation.FIXED_TIMESTEP);
+
+        expect(navy.getCurrentNode()).toBe('Flee');
+        const fleeingTo = navy.helmsman.getDestination()!;
+        expect(Math.hypot(fleeingTo.x - 600, fleeingTo.y - 1000)).toBeGreaterThan(Math.hypot(600, 1000));
+
+        expect(merchant.getCurrentNode()).toBe('Surrender');
+        expect(merchant.isSurrendered()).toBe(true);
+        expect(merchant.helmsman.getTarget()).toBeNull();
+
+        // Once struck, the colours stay down even with the threat gone
+        merchant.setTarget(null);
+        merchant.update(HeadlessSimulation.FIXED_TIMESTEP);
+        expect(merchant.getCurrentNode()).toBe('Surrender');
+    });
+
+    it('lets a pirate hunter board a crippled ship instead of shooting it', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const target = sim.spawnShip(0, 600);
+        const captain = new ShipCaptain(ship, 'pirateHunter');
+        captain.setTarget(target);
+
+        captain.update(HeadlessSimulation.FIXED_TIMESTEP);
+        expect(captain.getCurrentNode()).toBe('Broadside');
+
+        damage(target, 0.8);
+        captain.update(HeadlessSimulation.FIXED_TIMESTEP);
+        expect(captain.getCurrentNode()).toBe('Board');
+
+        // Alongside the target, on the side the hunter is already on
+        const alongside = captain.helmsman.getDestination()!;
+        expect(alongside.x).toBeCloseTo(0);
+        expect(alongside.y).toBeCloseTo(600 - 250);
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+import { ShipCrew } from '../src/objects/crew/shipCrew';
+
+describe('ShipCrew', () => {
+    it('sends a hand to every sail and gun and the rest to repairs and the pumps', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const crew = new ShipCrew(ship);
+
+        expect(crew.getHandCount()).toBe(12);
+        expect(crew.getAssigned('sails')).toBe(3);
+        expect(crew.getAssigned('cannons')).toBe(6);
+        expect(crew.getAssigned('repairs')).toBe(1);
+        expect(crew.getAssigned('pumps')).toBe(2);
+        expect(crew.getStandingBy()).toBe(0);
+
+        crew.update(HeadlessSimulation.FIXED_TIMESTEP);
+        for (const module of [...ship.sails.values(), ...ship.cannons.values()]) {
+            expect(module.isManned()).toBe(true);
+        }
+    });
+
+    it('leaves a sail half worked until its hand has walked over to it', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const crew = new ShipCrew(ship);
+        crew.update(HeadlessSimulation.FIXED_TIMESTEP);
+
+        // Send the topmen to stand by at the wheel, then back aloft
+        crew.assign('sails', 0);
+        sim.run(5, () => crew.update(HeadlessSimulation.FIXED_TIMESTEP));
+        const sails = [...ship.sails.values()];
+        sails[0].setOpenness(100);
+        expect(sails.every(sail => sail.getManning() === ShipCrew.UNMANNED_MANNING)).toBe(true);
+
+        const unmanned = sails[0].calculateEfficiency(0, Math.PI);
+        crew.assign('sails', 3);
+        crew.update(HeadlessSimulation.FIXED_TIMESTEP);
+        expect(sails.some(sail => sail.isManned())).toBe(false);
+
+        sim.run(10, () => crew.update(HeadlessSimulation.FIXED_TIMESTEP));
+        expect(sails.every(sail => sail.isManned())).toBe(true);
+        expect(sails[0].calculateEfficiency(0, Math.PI)).toBeGreaterThan(unmanned);
+
+        // Nobody left the deck on the way
+        for (const hand of crew.getHands()) {
+            expect(ship.isLocalPointOnDeck(hand.position)).toBe(true);
+        }
+    });
+
+    it('patches the worst damaged plank', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const crew = new ShipCrew(ship);
+        ship.damagePlank(4, 50);
+
+        const before = ship.getPlankState(4)!.health;
+        sim.run(20, () => crew.update(HeadlessSimulation.FIXED_TIMESTEP));
+        expect(ship.getPlankState(4)!.health).toBeGreaterThan(before);
+    });
+
+    it('takes lost hands off the least pressing work first', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const crew = new ShipCrew(ship);
+        crew.assign('pumps', 0);
+        crew.assign('repairs', 0);
+        crew.assign('cannons', 6);
+
+        ship.setCrew(5);
+        crew.update(HeadlessSimulation.FIXED_TIMESTEP);
+
+        expect(crew.getHandCount()).toBe(5);
+        expect(crew.getAssigned('sails')).toBe(3);
+        expect(crew.getAssigned('cannons')).toBe(2);
+        expect(crew.getStandingBy()).toBe(0);
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+    validateShipDefinition, loadShipDefinition, getShipDefinitionIds
+} from '../src/objects/ships/shipDefinition';
+import brigantineData from '../src/objects/ships/definitions/brigantine.json';
+import sloopData from '../src/objects/ships/definitions/sloop.json';
+import galleonData from '../src/objects/ships/definitions/galleon.json';
+
+// A fresh copy of a bundled definition to break
+function brigantine(): Record<string, unknown> {
+    return JSON.parse(JSON.stringify(brigantineData));
+}
+
+describe('Ship definitions', () => {
+    it('loads all three bundled definitions', () => {
+        for (const data of [brigantineData, sloopData, galleonData]) {
+            expect(validateShipDefinition(data)).toEqual([]);
+        }
+        expect(getShipDefinitionIds()).toEqual(['brigantine', 'sloop', 'galleon']);
+    });
+
+    it('rejects a hull drawn back to front', () => {
+        const data = brigantine();
+        const hull = data.hull as Record<string, { x: number, y: number }>;
+        hull.bowTip = { x: hull.sternTip.x - 10, y: hull.bowTip.y };
+
+        expect(validateShipDefinition(data)).toContain('hull.bowTip must be forward of hull.bow');
+        expect(() => loadShipDefinition(data)).toThrow(/Invalid ship definition 'brigantine'/);
+    });
+
+    it('rejects a definition with no masts, wheel or guns laid out', () => {
+        const { masts, wheel, cannons, ...data } = brigantine();
+
+        expect(validateShipDefinition(data)).toEqual([
+            'masts must be a non-empty array',
+            'wheel must be a point with numeric x and y',
+            'cannons must be an array'
+        ]);
+    });
+
+    it('rejects points that are not numbers', () => {
+        const data = brigantine();
+        data.pump = { x: '65', y: 0 };
+        (data.hull as Record<string, unknown>).stern = { x: -260 };
+
+        expect(validateShipDefinition(data)).toEqual([
+            'hull.stern must be a point with numeric x and y',
+            'pump must be a point with numeric x and y'
+        ]);
+        expect(validateShipDefinition('brigantine')).toEqual(['definition must be an object']);
+    });
+});
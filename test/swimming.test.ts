@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { HeadlessSimulation } from './harness/headlessSimulation';
+import { Input } from '../src/engine/input';
+import { InputContext } from '../src/engine/inputBindings';
+import { Player } from '../src/objects/player';
+
+describe('Player swimming', () => {
+    it('is in the water off a deck and away from the shore', () => {
+        const sim = new HeadlessSimulation();
+        const ship = sim.spawnShip(0, 0);
+        const player = sim.createPlayer(0, 400);
+
+        player.setSurroundings(500, null);
+        expect(player.getSurface()).toBe('water');
+
+        player.setSurroundings(5, null);
+        expect(player.getSurface()).toBe('land');
+
+        player.boardShip(ship);
+        player.setSurroundings(500, null);
+        expect(player.getSurface()).toBe('deck');
+    });
+
+    it('swims slower than it walks', () => {
+        const travelled = (distanceToLand: number) => {
+            const sim = new HeadlessSimulation();
+            const input = new Input();
+            const player = new Player(1000, 0, 10, input);
+            sim.physics.addBody(player.getBody()!);
+            input.setActiveContexts([InputContext.Gameplay, InputContext.OnFoot]);
+            input.simulateKeyPress('w');
+
+            sim.run(2, () => {
+                player.setSurroundings(distanceToLand, null);
+                player.update(HeadlessSimulation.FIXED_TIMESTEP);
+            });
+            return 1000 - player.getPosition().x;
+        };
+
+        const walked = travelled(0);
+        const swum = travelled(500);
+        expect(swum).toBeGreaterThan(0);
+        expect(swum).toBeLessThan(walked * 0.6);
+    });
+
+    it('tires and drowns, unless holding on to wreckage', () => {
+        const sim = new HeadlessSimulation();
+        const swimmer = sim.createPlayer(0, 0);
+        const survivor = sim.createPlayer(500, 0);
+
+        sim.run(80, () => {
+            swimmer.setSurroundings(500, null);
+            swimmer.update(HeadlessSimulation.FIXED_TIMESTEP);
+            survivor.setSurroundings(500, { x: 510, y: 0 });
+            survivor.update(HeadlessSimulation.FIXED_TIMESTEP);
+        });
+
+        expect(swimmer.getStamina()).toBe(0);
+        expect(swimmer.isDrowning()).toBe(true);
+        expect(swimmer.getHealth()).toBeLessThan(100);
+        expect(survivor.getStamina()).toBe(Player.MAX_STAMINA);
+        expect(survivor.getHealth()).toBe(100);
+    });
+
+    it('suffers from the cold far out at sea', () => {
+        const sim = new HeadlessSimulation();
+        const player = sim.createPlayer(0, 0);
+
+        sim.run(10, () => {
+            player.setSurroundings(Player.OPEN_SEA_DISTANCE + 100, { x: 0, y: 0 });
+            player.update(HeadlessSimulation.FIXED_TIMESTEP);
+        });
+
+        expect(player.getHealth()).toBeCloseTo(100 - Player.EXPOSURE_DAMAGE * 10, 0);
+    });
+});
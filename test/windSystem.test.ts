@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { WindSystem } from '../src/engine/windSystem';
+import { angleDifference } from '../src/utils/angles';
+
+/**
+ * Run the wind for a while, recording its direction and power every step
+ */
+function record(wind: WindSystem, seconds: number): number[] {
+    const samples: number[] = [];
+    for (let t = 0; t < seconds; t += 0.1) {
+        wind.update(0.1);
+        samples.push(wind.getDirection(), wind.getPower());
+    }
+    return samples;
+}
+
+describe('WindSystem', () => {
+    it.each([1, 42, 20261019])('veers and gusts within bounds (seed %i)', (seed) => {
+        const wind = new WindSystem(1, 50, seed);
+        const delta = 0.1;
+        let previous = wind.getDirection();
+        let gusted = false;
+
+        // Ten minutes, long enough for several veers and many gusts
+        for (let i = 0; i < 6000; i++) {
+            wind.update(delta);
+            const direction = wind.getDirection();
+
+            expect(direction).toBeGreaterThanOrEqual(0);
+            expect(direction).toBeLessThan(Math.PI * 2);
+            expect(Math.abs(angleDifference(direction, previous))).toBeLessThanOrEqual(0.02 * delta + 1e-9);
+            previous = direction;
+
+            const gust = wind.getPower() / wind.getBasePower();
+            expect(gust).toBeGreaterThanOrEqual(1);
+            expect(gust).toBeLessThanOrEqual(1.6);
+            gusted = gusted || wind.isGusting();
+
+            const local = wind.getWindAt(i * 37, -i * 11);
+            expect(local.power).toBeGreaterThanOrEqual(WindSystem.MIN_POWER);
+            expect(local.power).toBeLessThanOrEqual(WindSystem.MAX_POWER);
+            expect(Math.abs(angleDifference(local.direction, direction))).toBeLessThanOrEqual(0.2 + 1e-9);
+        }
+
+        expect(gusted).toBe(true);
+        expect(wind.getDirection()).not.toBeCloseTo(1, 3);
+    });
+
+    it('gives the same veers and gusts for the same seed', () => {
+        expect(record(new WindSystem(1, 50, 42), 300)).toEqual(record(new WindSystem(1, 50, 42), 300));
+        expect(record(new WindSystem(1, 50, 42), 300)).not.toEqual(record(new WindSystem(1, 50, 43), 300));
+
+        // Switching seed (e.g. loading a save) gives that seed's wind from a steady start
+        const reseeded = new WindSystem(1, 50, 43);
+        record(reseeded, 100);
+        reseeded.setDirection(1);
+        reseeded.setSeed(42);
+        expect(record(reseeded, 300)).toEqual(record(new WindSystem(1, 50, 42), 300));
+    });
+});